@@ -3,7 +3,7 @@
 import { use } from 'react';
 import { useRouter } from 'next/navigation';
 import { AdminLayout } from '@/components/layout';
-import { LansiaDetailContent } from '@/components/lansia';
+import { LansiaDetailContent, CachedDataNotice } from '@/components/lansia';
 import { Loading } from '@/components/ui';
 import { useLansiaDetail } from '@/lib/hooks';
 import { Button } from '@/components/ui/Button';
@@ -25,7 +25,16 @@ interface PageProps {
 export default function AdminLansiaDetailPage({ params }: PageProps) {
   const router = useRouter();
   const { kode } = use(params);
-  const { lansia, pemeriksaan, isLoading, error, refetch } = useLansiaDetail(kode);
+  const {
+    lansia,
+    pemeriksaan,
+    isLoading,
+    error,
+    isCached,
+    cachedAt,
+    isRevalidating,
+    refetch,
+  } = useLansiaDetail(kode);
 
   if (isLoading) {
     return (
@@ -68,6 +77,12 @@ export default function AdminLansiaDetailPage({ params }: PageProps) {
           </button>
         </div>
 
+        {isCached && (
+          <div className="mb-6">
+            <CachedDataNotice cachedAt={cachedAt} isRevalidating={isRevalidating} />
+          </div>
+        )}
+
         {/* Content - Read-only for Admin */}
         <LansiaDetailContent
           lansia={lansia}
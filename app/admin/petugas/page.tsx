@@ -13,6 +13,7 @@ import {
   TableCell,
   Modal,
   Loading,
+  LoadMore,
 } from '@/components/ui';
 import { usePetugasList } from '@/lib/hooks/usePetugasList';
 import { Petugas } from '@/types';
@@ -22,7 +23,8 @@ import { formatDate } from '@/lib/utils/formatters';
  * Halaman Daftar Petugas (Admin Only)
  * 
  * Features:
- * - Tampilkan tabel daftar petugas
+ * - Tampilkan tabel daftar petugas per halaman (infinite scroll)
+ * - Filter status aktif/nonaktif
  * - Tombol tambah petugas
  * - Tombol edit petugas
  * - Tombol nonaktifkan/aktifkan petugas dengan konfirmasi
@@ -37,7 +39,17 @@ import { formatDate } from '@/lib/utils/formatters';
  */
 export default function DaftarPetugasPage() {
   const router = useRouter();
-  const { petugas, isLoading, toggleStatus } = usePetugasList();
+  const {
+    petugas,
+    isLoading,
+    toggleStatus,
+    total,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    aktif,
+    setAktif,
+  } = usePetugasList();
 
   // State untuk modal konfirmasi
   const [showConfirmModal, setShowConfirmModal] = useState(false);
@@ -114,11 +126,42 @@ export default function DaftarPetugasPage() {
           </Button>
         </div>
 
+        {/* Filter Section */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <label htmlFor="status" className="text-sm font-medium text-neutral-900">
+              Status
+            </label>
+            <select
+              id="status"
+              className="px-4 py-2.5 text-base border border-neutral-300 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-neutral-900 focus:border-transparent transition-all duration-300 disabled:opacity-50"
+              value={aktif === null ? '' : String(aktif)}
+              onChange={(e) => setAktif(e.target.value === '' ? null : e.target.value === 'true')}
+              disabled={isLoading}
+            >
+              <option value="">Semua</option>
+              <option value="true">Aktif</option>
+              <option value="false">Nonaktif</option>
+            </select>
+          </div>
+          {!isLoading && (
+            <p className="text-sm text-neutral-600">
+              Menampilkan {petugas.length} dari {total} petugas
+            </p>
+          )}
+        </div>
+
         {/* Table Section */}
         {isLoading ? (
           <div className="flex items-center justify-center py-12">
             <Loading variant="spinner" size="lg" />
           </div>
+        ) : petugas.length === 0 && aktif !== null ? (
+          <div className="card text-center py-12">
+            <p className="text-neutral-600">
+              Tidak ada petugas dengan status {aktif ? 'aktif' : 'nonaktif'}
+            </p>
+          </div>
         ) : petugas.length === 0 ? (
           <div className="card text-center py-12">
             <p className="text-neutral-600 mb-4">
@@ -180,6 +223,7 @@ export default function DaftarPetugasPage() {
                 ))}
               </TableBody>
             </Table>
+            <LoadMore hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMore} />
           </div>
         )}
 
@@ -0,0 +1,26 @@
+/**
+ * Mock Backend Route Handler
+ *
+ * Meneruskan semua request /api/mock/* ke mock backend (lib/mock).
+ * Aktifkan dengan NEXT_PUBLIC_API_URL=http://localhost:3000/api/mock.
+ */
+
+import { handleMockRequest } from '@/lib/mock';
+
+// Data mock in-memory: jangan di-cache atau di-render statis
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+async function handle(request: Request, { params }: RouteContext): Promise<Response> {
+  const { path } = await params;
+  return handleMockRequest(request, path);
+}
+
+export const GET = handle;
+export const POST = handle;
+export const PATCH = handle;
+export const DELETE = handle;
@@ -4,6 +4,7 @@ import './globals.css';
 import { AuthProvider } from '@/lib/contexts';
 import { NotificationProvider } from '@/components/ui';
 import { QueryProvider } from '@/lib/providers/QueryProvider';
+import { DatabaseRecoveryGate } from '@/components/DatabaseRecoveryGate';
 
 const montserrat = Montserrat({
   variable: '--font-montserrat',
@@ -46,7 +47,7 @@ export default function RootLayout({
         <QueryProvider>
           <AuthProvider>
             <NotificationProvider position="top-right" defaultDuration={5000}>
-              {children}
+              <DatabaseRecoveryGate>{children}</DatabaseRecoveryGate>
             </NotificationProvider>
           </AuthProvider>
         </QueryProvider>
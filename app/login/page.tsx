@@ -9,6 +9,7 @@
 
 import { useLoginForm } from '@/lib/hooks';
 import { Input, Button } from '@/components/ui';
+import { LocalDataLockedModal } from '@/components/layout';
 import Image from 'next/image';
 import Link from 'next/link';
 
@@ -22,6 +23,10 @@ export default function LoginPage() {
     handlePasswordChange,
     togglePasswordVisibility,
     handleSubmit,
+    localDataLock,
+    recoverLocalData,
+    resetLocalData,
+    dismissLocalDataLock,
   } = useLoginForm();
 
   return (
@@ -189,7 +194,18 @@ export default function LoginPage() {
             </Button>
           </form>
 
-
+          {/* Dirender ulang setiap dibuka supaya password lama tidak tersisa */}
+          {localDataLock && (
+            <LocalDataLockedModal
+              isOpen
+              pendingCount={localDataLock.pendingCount}
+              isSubmitting={isSubmitting}
+              error={localDataLock.error}
+              onRecover={recoverLocalData}
+              onReset={resetLocalData}
+              onClose={dismissLocalDataLock}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -23,6 +23,7 @@ import {
   ClipboardListIcon,
 } from '@/components/icons/DashboardIcons';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { SyncStatusBadge } from '@/components/sync';
 import { ROUTES } from '@/lib/constants/navigation';
 
 function PetugasDashboardContent() {
@@ -83,10 +84,7 @@ function PetugasDashboardContent() {
             Siap melayani lansia hari ini?
           </p>
         </div>
-        <div className="flex items-center gap-2 px-4 py-2 bg-sage-100 text-sage-800 rounded-full text-sm font-medium w-fit border border-sage-200">
-          <span className="w-2.5 h-2.5 bg-green-600 rounded-full animate-pulse shadow-sm shadow-green-200" />
-          Status: Online
-        </div>
+        <SyncStatusBadge />
       </header>
 
       {/* Hero Section (Quick Actions) - Fitt's Law */}
@@ -0,0 +1,78 @@
+'use client';
+
+import { use } from 'react';
+import { useRouter } from 'next/navigation';
+import { PetugasLayout } from '@/components/layout';
+import { LansiaForm } from '@/components/lansia';
+import { Loading } from '@/components/ui';
+import { Button } from '@/components/ui/Button';
+import { useLansiaDetail } from '@/lib/hooks';
+import { ROUTES } from '@/lib/constants/navigation';
+
+/**
+ * Halaman Edit Data Lansia (Petugas)
+ *
+ * Responsibilities (SRP):
+ * - Load data lansia (IndexedDB lebih dulu, lalu server)
+ * - Compose LansiaForm dalam mode edit
+ * - Kembali ke detail setelah perubahan tersimpan
+ *
+ * Route: /petugas/lansia/[kode]/edit
+ */
+
+interface PageProps {
+  params: Promise<{ kode: string }>;
+}
+
+export default function EditLansiaPage({ params }: PageProps) {
+  const router = useRouter();
+  const { kode } = use(params);
+  const { lansia, isLoading, isRevalidating, error, refetch } = useLansiaDetail(kode);
+
+  const handleBackToDetail = () => {
+    router.push(ROUTES.PETUGAS.LANSIA_DETAIL(kode));
+  };
+
+  // Tunggu revalidasi supaya form tidak diisi data cache yang sudah usang
+  if (isLoading || isRevalidating) {
+    return (
+      <PetugasLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <Loading />
+        </div>
+      </PetugasLayout>
+    );
+  }
+
+  if (error || !lansia) {
+    return (
+      <PetugasLayout>
+        <div className="max-w-screen-xl mx-auto px-4 py-8">
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error || 'Data lansia tidak ditemukan'}</p>
+            <div className="flex gap-4 justify-center">
+              <Button variant="secondary" onClick={() => router.back()}>
+                Kembali
+              </Button>
+              <Button onClick={refetch}>Coba Lagi</Button>
+            </div>
+          </div>
+        </div>
+      </PetugasLayout>
+    );
+  }
+
+  return (
+    <PetugasLayout>
+      <div className="max-w-3xl mx-auto">
+        {/* key: form diisi ulang jika data lansia berubah */}
+        <LansiaForm
+          key={lansia.updatedAt?.getTime() ?? lansia.kode}
+          lansia={lansia}
+          onUpdated={handleBackToDetail}
+          onCancel={handleBackToDetail}
+        />
+      </div>
+    </PetugasLayout>
+  );
+}
@@ -3,7 +3,7 @@
 import { use } from 'react';
 import { useRouter } from 'next/navigation';
 import { PetugasLayout } from '@/components/layout';
-import { GrafikTrenContent } from '@/components/lansia';
+import { GrafikTrenContent, CachedDataNotice } from '@/components/lansia';
 import { Loading } from '@/components/ui';
 import { useLansiaDetail } from '@/lib/hooks';
 import { Button } from '@/components/ui/Button';
@@ -26,7 +26,16 @@ interface PageProps {
 export default function GrafikTrenPage({ params }: PageProps) {
   const router = useRouter();
   const { kode } = use(params);
-  const { lansia, pemeriksaan, isLoading, error, refetch } = useLansiaDetail(kode);
+  const {
+    lansia,
+    pemeriksaan,
+    isLoading,
+    error,
+    isCached,
+    cachedAt,
+    isRevalidating,
+    refetch,
+  } = useLansiaDetail(kode);
 
   if (isLoading) {
     return (
@@ -69,6 +78,12 @@ export default function GrafikTrenPage({ params }: PageProps) {
           </button>
         </div>
 
+        {isCached && (
+          <div className="mb-6">
+            <CachedDataNotice cachedAt={cachedAt} isRevalidating={isRevalidating} />
+          </div>
+        )}
+
         {/* Content */}
         <GrafikTrenContent
           lansiaKode={lansia.kode}
@@ -3,7 +3,7 @@
 import { use } from 'react';
 import { useRouter } from 'next/navigation';
 import { PetugasLayout } from '@/components/layout';
-import { LansiaDetailContent } from '@/components/lansia';
+import { LansiaDetailContent, CachedDataNotice } from '@/components/lansia';
 import { Loading } from '@/components/ui';
 import { useLansiaDetail } from '@/lib/hooks';
 import { Button } from '@/components/ui/Button';
@@ -13,7 +13,7 @@ import { Button } from '@/components/ui/Button';
  * 
  * Responsibilities (SRP):
  * - Display lansia detail with pemeriksaan history
- * - Show action button for input pemeriksaan
+ * - Show action buttons (input pemeriksaan, edit/hapus lansia, koreksi/hapus pemeriksaan)
  * - Handle loading and error states
  * 
  * Route: /petugas/lansia/[kode]
@@ -26,7 +26,16 @@ interface PageProps {
 export default function PetugasLansiaDetailPage({ params }: PageProps) {
   const router = useRouter();
   const { kode } = use(params);
-  const { lansia, pemeriksaan, isLoading, error, refetch } = useLansiaDetail(kode);
+  const {
+    lansia,
+    pemeriksaan,
+    isLoading,
+    error,
+    isCached,
+    cachedAt,
+    isRevalidating,
+    refetch,
+  } = useLansiaDetail(kode);
 
   if (isLoading) {
     return (
@@ -69,12 +78,19 @@ export default function PetugasLansiaDetailPage({ params }: PageProps) {
           </button>
         </div>
 
+        {isCached && (
+          <div className="mb-6">
+            <CachedDataNotice cachedAt={cachedAt} isRevalidating={isRevalidating} />
+          </div>
+        )}
+
         {/* Content */}
         <LansiaDetailContent
           lansia={lansia}
           pemeriksaan={pemeriksaan}
           showActions={true}
           grafikUrl={`/petugas/lansia/${kode}/grafik`}
+          onChanged={refetch}
         />
       </div>
     </PetugasLayout>
@@ -0,0 +1,71 @@
+'use client';
+
+import { PetugasLayout } from '@/components/layout';
+import {
+  ConflictListContent,
+  DatabaseDiagnosticsContent,
+  DeadLetterContent,
+  HandoverContent,
+} from '@/components/sync';
+
+/**
+ * Halaman Sinkronisasi Data (Petugas)
+ * 
+ * Halaman untuk meninjau data offline yang belum bisa diterima server:
+ * konflik dengan perubahan dari perangkat lain, dan data yang gagal dikirim
+ * setelah batas percobaan ulang terlampaui.
+ * 
+ * Features:
+ * - Daftar konflik dengan merge per field
+ * - Daftar item gagal sync beserta error terakhir
+ * - Edit payload, kirim ulang, atau buang item
+ * - Ekspor/impor data tertunda untuk serah terima perangkat
+ * - Diagnostik database lokal (versi schema dan migration)
+ * 
+ * Design Principles:
+ * - SRP: Component hanya untuk layout dan orchestration
+ * - Composition: Menggunakan komponen sync yang shared
+ * 
+ * @returns {JSX.Element} Halaman sinkronisasi data petugas
+ */
+export default function SinkronisasiPetugasPage() {
+  return (
+    <PetugasLayout>
+      <div className="container mx-auto px-4 py-8 max-w-screen-2xl">
+        {/* Header Section */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-neutral-950 mb-2">
+            Sinkronisasi Data
+          </h1>
+          <p className="text-neutral-600">
+            Tinjau, perbaiki, dan kirim ulang data offline yang ditolak server
+          </p>
+        </div>
+
+        {/* Konflik Section */}
+        <section className="mb-10">
+          <h2 className="text-xl font-semibold text-neutral-900 mb-4">Konflik Data</h2>
+          <ConflictListContent />
+        </section>
+
+        {/* Data Gagal Section */}
+        <section className="mb-10">
+          <h2 className="text-xl font-semibold text-neutral-900 mb-4">Data Gagal</h2>
+          <DeadLetterContent />
+        </section>
+
+        {/* Serah Terima Section */}
+        <section className="mb-10">
+          <h2 className="text-xl font-semibold text-neutral-900 mb-4">Serah Terima Perangkat</h2>
+          <HandoverContent />
+        </section>
+
+        {/* Database Lokal Section */}
+        <section>
+          <h2 className="text-xl font-semibold text-neutral-900 mb-4">Database Lokal</h2>
+          <DatabaseDiagnosticsContent />
+        </section>
+      </div>
+    </PetugasLayout>
+  );
+}
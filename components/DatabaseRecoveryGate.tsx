@@ -0,0 +1,117 @@
+'use client';
+
+/**
+ * Database Recovery Gate Component
+ *
+ * Membuka database lokal saat aplikasi dimuat (menjalankan migration yang tertunda).
+ * Jika upgrade gagal, halaman pemulihan ditampilkan menggantikan aplikasi, karena
+ * fitur offline tidak bisa berjalan tanpa database lokal.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle status buka database dan UI pemulihan
+ * - DIP: Depend on openDatabase/resetDatabase abstraction
+ * - Fail Safe: Data yang belum terkirim sudah di-backup sebelum tombol reset ditampilkan
+ */
+
+import { ReactNode, useEffect, useState } from 'react';
+import { Button } from '@/components/ui';
+import { openDatabase, resetDatabase, type DatabaseOpenResult } from '@/lib/db';
+
+interface DatabaseRecoveryGateProps {
+  children: ReactNode;
+}
+
+type FailedOpenResult = Extract<DatabaseOpenResult, { ok: false }>;
+
+export function DatabaseRecoveryGate({ children }: DatabaseRecoveryGateProps) {
+  const [failure, setFailure] = useState<FailedOpenResult | null>(null);
+  const [isResetting, setIsResetting] = useState(false);
+  const [resetError, setResetError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    openDatabase().then((result) => {
+      if (isMounted && !result.ok) {
+        setFailure(result);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  /**
+   * Reset database lalu muat ulang aplikasi
+   */
+  const handleReset = async () => {
+    setIsResetting(true);
+    setResetError(null);
+
+    const result = await resetDatabase();
+
+    if (result.success) {
+      window.location.reload();
+      return;
+    }
+
+    setResetError(result.error || 'Gagal mereset database lokal');
+    setIsResetting(false);
+  };
+
+  if (!failure) {
+    return <>{children}</>;
+  }
+
+  const backup = failure.backup;
+  const pendingItems = backup
+    ? backup.syncQueue.length + backup.deadLetter.length + backup.conflicts.length
+    : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-neutral-50">
+      <div className="card max-w-lg w-full space-y-4" role="alert">
+        <h1 className="text-2xl font-bold text-neutral-900">Database Lokal Gagal Diperbarui</h1>
+        <p className="text-neutral-700">
+          Aplikasi baru saja diperbarui, tetapi data offline di perangkat ini tidak bisa
+          disesuaikan dengan versi baru.
+        </p>
+
+        {pendingItems !== null ? (
+          <div className="bg-green-50 border border-green-200 rounded-xl p-4">
+            <p className="text-sm text-green-800">
+              {pendingItems} data yang belum terkirim sudah dicadangkan dan akan dikembalikan
+              setelah database direset.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+            <p className="text-sm text-yellow-800">
+              ⚠️ Data yang belum terkirim tidak bisa dicadangkan. Jangan reset database;
+              hubungi admin sebelum melanjutkan.
+            </p>
+          </div>
+        )}
+
+        <details className="text-xs text-neutral-500">
+          <summary className="cursor-pointer">Detail error</summary>
+          <p className="mt-2 font-mono break-all">{failure.error}</p>
+        </details>
+
+        {resetError && <p className="text-sm text-red-700">{resetError}</p>}
+
+        <div className="flex flex-wrap items-center gap-3 justify-end pt-2">
+          <Button variant="secondary" onClick={() => window.location.reload()}>
+            Coba Lagi
+          </Button>
+          {pendingItems !== null && (
+            <Button variant="danger" onClick={handleReset} isLoading={isResetting}>
+              Reset Database Lokal
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,13 +6,12 @@
  * Component untuk menampilkan indikator "Mode Offline" saat tidak ada koneksi internet.
  * Mengikuti prinsip:
  * - SRP: Hanya handle display offline indicator
- * - Composition: Compose useOffline hook
+ * - Composition: Compose useOffline dan useSyncScheduler hook
  * - Responsive: Adapt untuk mobile dan desktop
  */
 
 import { useSyncExternalStore } from 'react';
-import { useOffline } from '@/lib/hooks';
-import { syncManager } from '@/lib/utils';
+import { useOffline, useSyncScheduler } from '@/lib/hooks';
 
 /**
  * Subscribe function untuk useSyncExternalStore
@@ -44,15 +43,10 @@ export function OfflineIndicator() {
   // tanpa perlu setState di useEffect
   const isMounted = useSyncExternalStore(subscribe, getClientSnapshot, getServerSnapshot);
 
-  const { isOnline } = useOffline({
-    onOnline: async () => {
-      console.log('Back online! Triggering sync...');
-      await syncManager.syncAll();
-    },
-    onOffline: () => {
-      console.log('Gone offline!');
-    },
-  });
+  const { isOnline } = useOffline();
+
+  // Background sync terjadwal (juga sync otomatis saat kembali online)
+  useSyncScheduler();
 
   // Don't render on server or if online
   if (!isMounted || isOnline) {
@@ -14,6 +14,10 @@ export * from './layout';
 // Feature Components
 export { OfflineIndicator } from './OfflineIndicator';
 export { ErrorBoundary } from './ErrorBoundary';
+export { DatabaseRecoveryGate } from './DatabaseRecoveryGate';
 
 // Pemeriksaan Components
 export * from './pemeriksaan';
+
+// Sync Components
+export * from './sync';
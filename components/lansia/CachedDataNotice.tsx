@@ -0,0 +1,54 @@
+'use client';
+
+import { formatDateTime } from '@/lib/utils/formatters';
+
+/**
+ * Props untuk CachedDataNotice
+ */
+interface CachedDataNoticeProps {
+  /**
+   * Waktu sinkron terakhir data lokal (null jika belum pernah sinkron)
+   */
+  cachedAt: Date | null;
+  /**
+   * true jika data sedang diperbarui dari server
+   */
+  isRevalidating?: boolean;
+}
+
+/**
+ * CachedDataNotice Component
+ *
+ * Penanda bahwa data yang ditampilkan berasal dari penyimpanan perangkat
+ * (offline, server tidak bisa dihubungi, atau sedang diperbarui),
+ * beserta waktu sinkron terakhirnya.
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk presentasi status cache
+ * - DRY: Dipakai di daftar, pencarian, dan detail lansia
+ *
+ * @returns {JSX.Element} Banner data tersimpan
+ */
+export function CachedDataNotice({ cachedAt, isRevalidating = false }: CachedDataNoticeProps) {
+  const age = cachedAt
+    ? `data dari ${formatDateTime(cachedAt)}`
+    : 'belum pernah sinkron';
+
+  if (isRevalidating) {
+    return (
+      <div className="bg-blue-50 border border-blue-200 rounded-xl p-4" role="status">
+        <p className="text-sm text-blue-800">
+          Menampilkan data tersimpan di perangkat ({age}). Memperbarui dari server...
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4" role="status">
+      <p className="text-sm text-yellow-800">
+        ⚠️ Server tidak dapat dihubungi. Menampilkan data tersimpan di perangkat ({age}).
+      </p>
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 'use client';
 
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Lansia, Pemeriksaan } from '@/types';
+import { Lansia, Pemeriksaan, UpdatePemeriksaanData } from '@/types';
 import { Card, CardHeader, CardBody } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { PemeriksaanEditModal } from '@/components/pemeriksaan/PemeriksaanEditModal';
 import { formatDate, formatUmur } from '@/lib/utils/formatters'
+import { useLansiaActions } from '@/lib/hooks/useLansiaActions';
+import { ROUTES } from '@/lib/constants/navigation';
 import { PemeriksaanHistoryTable } from './PemeriksaanHistoryTable';
 
 /**
@@ -13,6 +18,7 @@ import { PemeriksaanHistoryTable } from './PemeriksaanHistoryTable';
  * Responsibilities (SRP):
  * - Orchestrate layout dan composition dari sub-komponen
  * - Handle navigation actions
+ * - Edit/hapus lansia dan koreksi/hapus pemeriksaan (showActions)
  * - Compose InfoRow dan PemeriksaanHistoryTable
  * 
  * Principles Applied:
@@ -28,6 +34,8 @@ interface LansiaDetailContentProps {
   pemeriksaan: Pemeriksaan[];
   showActions?: boolean;
   grafikUrl?: string;
+  /** Dipanggil setelah pemeriksaan dikoreksi/dihapus (untuk memuat ulang data) */
+  onChanged?: () => void;
 }
 
 export function LansiaDetailContent({
@@ -35,13 +43,45 @@ export function LansiaDetailContent({
   pemeriksaan,
   showActions = false,
   grafikUrl,
+  onChanged,
 }: LansiaDetailContentProps) {
   const router = useRouter();
+  const { isProcessing, removeLansia, savePemeriksaan, removePemeriksaan } = useLansiaActions(
+    lansia.kode
+  );
+  const [showDeleteLansia, setShowDeleteLansia] = useState(false);
+  const [editingPemeriksaan, setEditingPemeriksaan] = useState<Pemeriksaan | null>(null);
+  const [deletingPemeriksaan, setDeletingPemeriksaan] = useState<Pemeriksaan | null>(null);
 
   const handleInputPemeriksaan = () => {
     router.push(`/petugas/lansia/${lansia.kode}/pemeriksaan/tambah`);
   };
 
+  const handleEditLansia = () => {
+    router.push(ROUTES.PETUGAS.LANSIA_EDIT(lansia.kode));
+  };
+
+  const handleConfirmDeleteLansia = async () => {
+    if (await removeLansia()) {
+      setShowDeleteLansia(false);
+      router.push(ROUTES.PETUGAS.LANSIA);
+    }
+  };
+
+  const handleSavePemeriksaan = async (data: UpdatePemeriksaanData) => {
+    if (editingPemeriksaan && (await savePemeriksaan(editingPemeriksaan.id, data))) {
+      setEditingPemeriksaan(null);
+      onChanged?.();
+    }
+  };
+
+  const handleConfirmDeletePemeriksaan = async () => {
+    if (deletingPemeriksaan && (await removePemeriksaan(deletingPemeriksaan.id))) {
+      setDeletingPemeriksaan(null);
+      onChanged?.();
+    }
+  };
+
   const handleLihatGrafik = () => {
     if (grafikUrl) {
       router.push(grafikUrl);
@@ -64,12 +104,28 @@ export function LansiaDetailContent({
               </p>
             </div>
             {showActions && (
-              <Button 
-                onClick={handleInputPemeriksaan}
-                className="w-full sm:w-auto shrink-0"
-              >
-                Input Pemeriksaan Baru
-              </Button>
+              <div className="flex flex-col sm:flex-row gap-2 shrink-0">
+                <Button
+                  onClick={handleInputPemeriksaan}
+                  className="w-full sm:w-auto"
+                >
+                  Input Pemeriksaan Baru
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={handleEditLansia}
+                  className="w-full sm:w-auto"
+                >
+                  Edit Data
+                </Button>
+                <Button
+                  variant="danger"
+                  onClick={() => setShowDeleteLansia(true)}
+                  className="w-full sm:w-auto"
+                >
+                  Hapus
+                </Button>
+              </div>
             )}
           </div>
         </CardHeader>
@@ -135,10 +191,85 @@ export function LansiaDetailContent({
         </div>
         <Card>
           <CardBody>
-            <PemeriksaanHistoryTable pemeriksaan={pemeriksaan} />
+            <PemeriksaanHistoryTable
+              pemeriksaan={pemeriksaan}
+              onEdit={showActions ? setEditingPemeriksaan : undefined}
+              onDelete={showActions ? setDeletingPemeriksaan : undefined}
+            />
           </CardBody>
         </Card>
       </div>
+
+      {showActions && (
+        <>
+          <Modal
+            isOpen={showDeleteLansia}
+            onClose={() => !isProcessing && setShowDeleteLansia(false)}
+            title="Hapus Data Lansia"
+          >
+            <p className="text-neutral-700">
+              Apakah Anda yakin ingin menghapus{' '}
+              <span className="font-semibold">{lansia.nama}</span> beserta seluruh riwayat
+              pemeriksaannya? Tindakan ini tidak dapat dibatalkan.
+            </p>
+            <ModalFooter>
+              <Button
+                variant="secondary"
+                onClick={() => setShowDeleteLansia(false)}
+                disabled={isProcessing}
+              >
+                Batal
+              </Button>
+              <Button
+                variant="danger"
+                onClick={handleConfirmDeleteLansia}
+                isLoading={isProcessing}
+                disabled={isProcessing}
+              >
+                Ya, Hapus
+              </Button>
+            </ModalFooter>
+          </Modal>
+
+          <Modal
+            isOpen={!!deletingPemeriksaan}
+            onClose={() => !isProcessing && setDeletingPemeriksaan(null)}
+            title="Hapus Pemeriksaan"
+          >
+            <p className="text-neutral-700">
+              Hapus pemeriksaan tanggal{' '}
+              <span className="font-semibold">
+                {deletingPemeriksaan && formatDate(deletingPemeriksaan.tanggal)}
+              </span>
+              ?
+            </p>
+            <ModalFooter>
+              <Button
+                variant="secondary"
+                onClick={() => setDeletingPemeriksaan(null)}
+                disabled={isProcessing}
+              >
+                Batal
+              </Button>
+              <Button
+                variant="danger"
+                onClick={handleConfirmDeletePemeriksaan}
+                isLoading={isProcessing}
+                disabled={isProcessing}
+              >
+                Ya, Hapus
+              </Button>
+            </ModalFooter>
+          </Modal>
+
+          <PemeriksaanEditModal
+            pemeriksaan={editingPemeriksaan}
+            isSaving={isProcessing}
+            onClose={() => setEditingPemeriksaan(null)}
+            onSave={handleSavePemeriksaan}
+          />
+        </>
+      )}
     </div>
   );
 }
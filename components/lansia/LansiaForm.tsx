@@ -3,7 +3,7 @@
 /**
  * LansiaForm Component
  *
- * Form untuk pendaftaran lansia baru.
+ * Form untuk pendaftaran lansia baru dan edit data lansia.
  * Mengikuti prinsip:
  * - SRP: Hanya bertanggung jawab untuk UI presentation
  * - OCP: Extensible dengan props
@@ -16,21 +16,32 @@ import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { Modal } from '@/components/ui/Modal';
 import { useLansiaForm } from '@/lib/hooks/useLansiaForm';
+import type { Lansia } from '@/types';
 
 // ============================================
 // Component
 // ============================================
 
-export function LansiaForm() {
+interface LansiaFormProps {
+  /** Lansia yang diedit (kosong untuk pendaftaran baru) */
+  lansia?: Lansia;
+  /** Dipanggil setelah perubahan tersimpan (mode edit) */
+  onUpdated?: (kode: string) => void;
+  /** Tombol batal (mode edit) */
+  onCancel?: () => void;
+}
+
+export function LansiaForm({ lansia, onUpdated, onCancel }: LansiaFormProps = {}) {
   const {
     formData,
     errors,
     isSubmitting,
+    isEditMode,
     generatedKode,
     handleChange,
     handleSubmit,
     resetForm,
-  } = useLansiaForm();
+  } = useLansiaForm({ lansia, onUpdated });
 
   /**
    * Handle close success modal
@@ -55,10 +66,12 @@ export function LansiaForm() {
       <Card padding="lg">
         <div className="mb-6">
           <h2 className="text-2xl font-bold text-neutral-950">
-            Pendaftaran Lansia Baru
+            {isEditMode ? 'Edit Data Lansia' : 'Pendaftaran Lansia Baru'}
           </h2>
           <p className="text-neutral-600 mt-2">
-            Lengkapi data lansia untuk mendaftarkan ke sistem Posyandu
+            {isEditMode
+              ? `Perbarui data lansia dengan ID ${lansia?.kode}`
+              : 'Lengkapi data lansia untuk mendaftarkan ke sistem Posyandu'}
           </p>
         </div>
 
@@ -189,13 +202,30 @@ export function LansiaForm() {
 
             {/* Submit Button */}
             <div className="flex gap-4 pt-4">
+              {isEditMode && onCancel && (
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={onCancel}
+                  disabled={isSubmitting}
+                  fullWidth
+                >
+                  Batal
+                </Button>
+              )}
               <Button
                 type="submit"
                 variant="primary"
                 disabled={isSubmitting}
                 fullWidth
               >
-                {isSubmitting ? 'Mendaftarkan...' : 'Daftarkan Lansia'}
+                {isEditMode
+                  ? isSubmitting
+                    ? 'Menyimpan...'
+                    : 'Simpan Perubahan'
+                  : isSubmitting
+                    ? 'Mendaftarkan...'
+                    : 'Daftarkan Lansia'}
               </Button>
             </div>
           </form>
@@ -11,10 +11,28 @@ import {
   TableHeader,
   TableCell,
   Loading,
+  LoadMore,
 } from '@/components/ui';
 import { useLansiaList } from '@/lib/hooks/useLansiaList';
+import { CachedDataNotice } from './CachedDataNotice';
 import { formatDate, formatUmur } from '@/lib/utils/formatters';
 import { ROUTES } from '@/lib/constants/navigation';
+import type { Gender, LansiaSortField, SortOrder } from '@/types';
+
+/**
+ * Pilihan urutan daftar (field:order)
+ */
+const SORT_OPTIONS: Array<{ value: `${LansiaSortField}:${SortOrder}`; label: string }> = [
+  { value: 'createdAt:desc', label: 'Terbaru didaftarkan' },
+  { value: 'createdAt:asc', label: 'Terlama didaftarkan' },
+  { value: 'nama:asc', label: 'Nama (A-Z)' },
+  { value: 'nama:desc', label: 'Nama (Z-A)' },
+  { value: 'tanggalLahir:asc', label: 'Usia (tertua)' },
+  { value: 'tanggalLahir:desc', label: 'Usia (termuda)' },
+];
+
+const SELECT_CLASSES =
+  'w-full px-4 py-3.5 text-base border border-neutral-300 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-neutral-900 focus:border-transparent transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed';
 
 /**
  * LansiaListContent Component
@@ -24,8 +42,10 @@ import { ROUTES } from '@/lib/constants/navigation';
  * 
  * Features:
  * - Search bar dengan debounce
- * - Tabel daftar lansia
+ * - Urutan dan filter jenis kelamin
+ * - Tabel daftar lansia per halaman (infinite scroll)
  * - Loading state
+ * - Penanda data tersimpan saat offline
  * - Empty state
  * - Navigate ke detail lansia
  * 
@@ -40,8 +60,24 @@ import { ROUTES } from '@/lib/constants/navigation';
 export function LansiaListContent() {
   const router = useRouter();
   const pathname = usePathname();
-  const { lansia, isLoading, searchQuery, isSearching, handleSearch } =
-    useLansiaList();
+  const {
+    lansia,
+    isLoading,
+    isCached,
+    cachedAt,
+    searchQuery,
+    isSearching,
+    handleSearch,
+    total,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    sort,
+    order,
+    setSort,
+    gender,
+    setGender,
+  } = useLansiaList();
 
   /**
    * Handle klik tombol lihat detail
@@ -80,11 +116,53 @@ export function LansiaListContent() {
               ? 'Mencari...'
               : searchQuery.length > 0 && searchQuery.length < 3
               ? 'Ketik minimal 3 karakter untuk mencari'
-              : `Menampilkan ${lansia.length} lansia`}
+              : `Menampilkan ${lansia.length} dari ${total} lansia`}
           </p>
         </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
+          <div className="space-y-2">
+            <label htmlFor="sort" className="block text-sm font-medium text-neutral-900">
+              Urutkan
+            </label>
+            <select
+              id="sort"
+              className={SELECT_CLASSES}
+              value={`${sort}:${order}`}
+              onChange={(e) => {
+                const [field, direction] = e.target.value.split(':');
+                setSort(field as LansiaSortField, direction as SortOrder);
+              }}
+              disabled={isLoading}
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="gender" className="block text-sm font-medium text-neutral-900">
+              Jenis Kelamin
+            </label>
+            <select
+              id="gender"
+              className={SELECT_CLASSES}
+              value={gender ?? ''}
+              onChange={(e) => setGender((e.target.value || null) as Gender | null)}
+              disabled={isLoading}
+            >
+              <option value="">Semua</option>
+              <option value="L">Laki-laki</option>
+              <option value="P">Perempuan</option>
+            </select>
+          </div>
+        </div>
       </div>
 
+      {isCached && !isLoading && <CachedDataNotice cachedAt={cachedAt} />}
+
       {/* Table Section */}
       {isLoading ? (
         <div className="flex items-center justify-center py-12">
@@ -106,13 +184,13 @@ export function LansiaListContent() {
             />
           </svg>
           <p className="text-neutral-600 mb-2">
-            {searchQuery.length >= 3
+            {searchQuery.length >= 3 || gender
               ? 'Tidak ada lansia ditemukan'
               : 'Belum ada lansia terdaftar'}
           </p>
           <p className="text-sm text-neutral-500">
-            {searchQuery.length >= 3
-              ? 'Coba gunakan kata kunci yang berbeda'
+            {searchQuery.length >= 3 || gender
+              ? 'Coba gunakan kata kunci atau filter yang berbeda'
               : 'Daftarkan lansia baru untuk memulai'}
           </p>
         </div>
@@ -131,7 +209,7 @@ export function LansiaListContent() {
             </TableHead>
             <TableBody>
               {lansia.map((l) => (
-                <TableRow key={l.id}>
+                <TableRow key={l.kode}>
                   <TableCell>
                     <span className="font-mono text-sm font-medium text-neutral-900">
                       {l.kode}
@@ -181,6 +259,7 @@ export function LansiaListContent() {
               ))}
             </TableBody>
           </Table>
+          <LoadMore hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMore} />
         </div>
       )}
     </div>
@@ -1,6 +1,7 @@
 'use client';
 
 import { Pemeriksaan } from '@/types';
+import { Button } from '@/components/ui/Button';
 import { formatDate, formatBMI, formatTekananDarah, formatLabValue } from '@/lib/utils/formatters';
 
 /**
@@ -11,6 +12,7 @@ import { formatDate, formatBMI, formatTekananDarah, formatLabValue } from '@/lib
  * - Table view untuk desktop/tablet
  * - Card view untuk mobile
  * - Show empty state when no data
+ * - Tombol koreksi/hapus per pemeriksaan (jika onEdit/onDelete diberikan)
  * 
  * Principles Applied:
  * - SRP: Fokus pada display pemeriksaan data
@@ -20,13 +22,47 @@ import { formatDate, formatBMI, formatTekananDarah, formatLabValue } from '@/lib
  * 
  * Props (ISP):
  * - pemeriksaan: array of pemeriksaan data
+ * - onEdit/onDelete: aksi per pemeriksaan (opsional)
  */
 
 interface PemeriksaanHistoryTableProps {
   pemeriksaan: Pemeriksaan[];
+  onEdit?: (pemeriksaan: Pemeriksaan) => void;
+  onDelete?: (pemeriksaan: Pemeriksaan) => void;
 }
 
-export function PemeriksaanHistoryTable({ pemeriksaan }: PemeriksaanHistoryTableProps) {
+export function PemeriksaanHistoryTable({
+  pemeriksaan,
+  onEdit,
+  onDelete,
+}: PemeriksaanHistoryTableProps) {
+  const hasActions = !!(onEdit || onDelete);
+
+  const renderActions = (p: Pemeriksaan) => (
+    <div className="flex gap-2">
+      {onEdit && (
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => onEdit(p)}
+          aria-label={`Koreksi pemeriksaan ${formatDate(p.tanggal)}`}
+        >
+          Koreksi
+        </Button>
+      )}
+      {onDelete && (
+        <Button
+          variant="danger"
+          size="sm"
+          onClick={() => onDelete(p)}
+          aria-label={`Hapus pemeriksaan ${formatDate(p.tanggal)}`}
+        >
+          Hapus
+        </Button>
+      )}
+    </div>
+  );
+
   if (pemeriksaan.length === 0) {
     return (
       <div className="text-center py-12">
@@ -60,6 +96,11 @@ export function PemeriksaanHistoryTable({ pemeriksaan }: PemeriksaanHistoryTable
               <th className="text-left py-4 px-6 text-base font-bold text-neutral-800">
                 Asam Urat
               </th>
+              {hasActions && (
+                <th className="text-left py-4 px-6 text-base font-bold text-neutral-800">
+                  Aksi
+                </th>
+              )}
             </tr>
           </thead>
           <tbody>
@@ -182,6 +223,7 @@ export function PemeriksaanHistoryTable({ pemeriksaan }: PemeriksaanHistoryTable
                     <span className="text-neutral-400">-</span>
                   )}
                 </td>
+                {hasActions && <td className="py-4 px-6 text-base">{renderActions(p)}</td>}
               </tr>
             ))}
           </tbody>
@@ -335,6 +377,10 @@ export function PemeriksaanHistoryTable({ pemeriksaan }: PemeriksaanHistoryTable
                 </div>
               </div>
             )}
+
+            {hasActions && (
+              <div className="pt-2 border-t border-neutral-200">{renderActions(p)}</div>
+            )}
           </div>
         ))}
       </div>
@@ -14,9 +14,10 @@
  */
 
 import { useRouter } from 'next/navigation';
-import { Input, Loading } from '@/components/ui';
+import { Input, Loading, LoadMore } from '@/components/ui';
 import { useLansiaList } from '@/lib/hooks/useLansiaList';
 import { LansiaCard } from './LansiaCard';
+import { CachedDataNotice } from './CachedDataNotice';
 
 // ============================================
 // Component
@@ -24,8 +25,19 @@ import { LansiaCard } from './LansiaCard';
 
 export function SearchLansiaContent() {
   const router = useRouter();
-  const { lansia, isLoading, searchQuery, isSearching, handleSearch } =
-    useLansiaList();
+  const {
+    lansia,
+    isLoading,
+    isCached,
+    cachedAt,
+    searchQuery,
+    isSearching,
+    handleSearch,
+    total,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+  } = useLansiaList();
 
   /**
    * Handle klik tombol lihat detail
@@ -71,12 +83,16 @@ export function SearchLansiaContent() {
               : searchQuery.length > 0 && searchQuery.length < 3
                 ? 'Ketik minimal 3 karakter untuk mencari'
                 : searchQuery.length >= 3
-                  ? `Ditemukan ${lansia.length} lansia`
+                  ? `Ditemukan ${total} lansia`
                   : 'Ketik minimal 3 karakter untuk memulai pencarian'}
           </p>
         </div>
       </div>
 
+      {isCached && !isLoading && searchQuery.length >= 3 && (
+        <CachedDataNotice cachedAt={cachedAt} />
+      )}
+
       {/* Results Section */}
       {isLoading ? (
         <div className="flex items-center justify-center py-12">
@@ -123,14 +139,17 @@ export function SearchLansiaContent() {
           </p>
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {lansia.map((l) => (
-            <LansiaCard
-              key={l.id}
-              lansia={l}
-              onViewDetail={handleViewDetail}
-            />
-          ))}
+        <div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {lansia.map((l) => (
+              <LansiaCard
+                key={l.kode}
+                lansia={l}
+                onViewDetail={handleViewDetail}
+              />
+            ))}
+          </div>
+          <LoadMore hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMore} />
         </div>
       )}
     </div>
@@ -7,6 +7,7 @@
 export { LansiaListContent } from './LansiaListContent';
 export { LansiaForm } from './LansiaForm';
 export { LansiaCard } from './LansiaCard';
+export { CachedDataNotice } from './CachedDataNotice';
 export { SearchLansiaContent } from './SearchLansiaContent';
 export { LansiaDetailContent } from './LansiaDetailContent';
 export { PemeriksaanHistoryTable } from './PemeriksaanHistoryTable';
@@ -2,8 +2,10 @@
 
 import React, { useState } from 'react';
 import { Header } from './Header';
+import { SessionExpiredModal } from './SessionExpiredModal';
 import { Sidebar, NavigationItem } from './Sidebar';
 import { ROUTES } from '@/lib/constants/navigation';
+import { StorageWarningBanner } from '@/components/sync';
 
 /**
  * AdminLayout Component
@@ -54,6 +56,15 @@ const adminNavigationGroups = [
           </svg>
         ),
       },
+      {
+        label: 'Sinkronisasi',
+        href: ROUTES.ADMIN.SINKRONISASI,
+        icon: (
+          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        ),
+      },
     ],
   },
 ];
@@ -91,10 +102,14 @@ export const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
         {/* Main content */}
         <main className="flex-1 min-w-0">
           <div className="container mx-auto px-4 py-6 md:px-6 md:py-8 max-w-screen-2xl">
+            <StorageWarningBanner />
             {children}
           </div>
         </main>
       </div>
+
+      {/* Login ulang di atas halaman saat sesi berakhir (form tetap utuh) */}
+      <SessionExpiredModal />
     </div>
   );
 };
@@ -1,14 +1,16 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '@/lib/hooks';
 import { Button } from '@/components/ui';
 import { OfflineIndicator } from '@/components';
+import { SyncStatusBadge } from '@/components/sync';
+import { LogoutModal } from './LogoutModal';
 
 /**
  * Header Component
  * 
- * Komponen header dengan logo, user info, offline indicator, dan logout button.
+ * Komponen header dengan logo, user info, offline indicator, status sync, dan logout button.
  * Mengikuti prinsip SRP - hanya bertanggung jawab untuk rendering header.
  * Mengikuti prinsip DIP - bergantung pada useAuth abstraction.
  */
@@ -24,17 +26,11 @@ export const Header: React.FC<HeaderProps> = ({
   onMenuClick,
   showMenuButton = true,
 }) => {
-  const { user, logout, isLoading } = useAuth();
+  const { user, isLoading } = useAuth();
+  const [isLogoutOpen, setIsLogoutOpen] = useState(false);
 
-  const handleLogout = async () => {
-    try {
-      await logout();
-      // Redirect akan ditangani oleh middleware
-      window.location.href = '/login';
-    } catch (error) {
-      console.error('Logout error:', error);
-    }
-  };
+  // Logout lewat modal supaya user memilih simpan/hapus data lokal
+  const handleLogout = () => setIsLogoutOpen(true);
 
   return (
     <header className="sticky top-0 z-40 bg-white/80 backdrop-blur-xl border-b border-neutral-200/50 shadow-[0_4px_24px_rgba(0,0,0,0.02)]">
@@ -79,11 +75,16 @@ export const Header: React.FC<HeaderProps> = ({
           </div>
         </div>
 
-        {/* Right section: Offline indicator + User info + Logout */}
+        {/* Right section: Offline indicator + Sync status + User info + Logout */}
         <div className="flex items-center gap-3">
           {/* Offline indicator */}
           <OfflineIndicator />
 
+          {/* Sync status badge (klik untuk detail antrian) */}
+          <div className="hidden sm:block">
+            <SyncStatusBadge />
+          </div>
+
           {/* User info */}
           {user && user.nama && (
             <div className="hidden md:flex items-center gap-2 px-3 py-2 bg-neutral-50 rounded-lg">
@@ -149,6 +150,8 @@ export const Header: React.FC<HeaderProps> = ({
           </button>
         </div>
       </div>
+
+      <LogoutModal isOpen={isLogoutOpen} onClose={() => setIsLogoutOpen(false)} />
     </header>
   );
 };
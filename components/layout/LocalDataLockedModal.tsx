@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Input, Modal } from '@/components/ui';
+
+/**
+ * Props untuk LocalDataLockedModal
+ */
+export interface LocalDataLockedModalProps {
+  isOpen: boolean;
+  /**
+   * Jumlah data belum tersinkron di perangkat ini
+   */
+  pendingCount: number;
+  isSubmitting: boolean;
+  error: string | null;
+  onRecover: (oldPassword: string) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+/**
+ * LocalDataLockedModal Component
+ *
+ * Modal yang muncul saat login berhasil di server, tetapi data lokal di
+ * perangkat ini masih terkunci dengan password lama (password diganti di
+ * perangkat lain). Data lokal tidak pernah diganti diam-diam; user memilih
+ * cara melanjutkan.
+ *
+ * Features:
+ * - Pulihkan data dengan password lama (key di-wrap ulang dengan password baru)
+ * - Hapus data lokal dan mulai dari data server, hanya jika tidak ada data
+ *   yang belum tersinkron
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk memilih pemulihan data lokal
+ * - DIP: Aksi diterima lewat props (useLoginForm)
+ * - Composition: Compose dari UI components yang sudah ada
+ *
+ * @returns {JSX.Element} Modal pemulihan data lokal
+ */
+export function LocalDataLockedModal({
+  isOpen,
+  pendingCount,
+  isSubmitting,
+  error,
+  onRecover,
+  onReset,
+  onClose,
+}: LocalDataLockedModalProps) {
+  const [oldPassword, setOldPassword] = useState('');
+  const hasPending = pendingCount > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onRecover(oldPassword);
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={isSubmitting ? () => {} : onClose}
+      title="Data Lokal Terkunci"
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-neutral-600">
+          Data di perangkat ini dienkripsi dengan password lama Anda. Masukkan password lama
+          untuk memulihkannya; setelah itu data dibuka dengan password baru.
+        </p>
+
+        <Input
+          label="Password Lama"
+          type="password"
+          value={oldPassword}
+          onChange={(e) => setOldPassword(e.target.value)}
+          placeholder="••••••••"
+          disabled={isSubmitting}
+          autoFocus
+        />
+
+        {hasPending ? (
+          <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+            ⚠️ Ada {pendingCount} data yang belum tersinkron ke server. Data ini hanya ada di
+            perangkat ini, sehingga data lokal tidak dapat dihapus.
+          </p>
+        ) : (
+          <p className="text-sm text-neutral-600">
+            Tidak ada data yang belum tersinkron. Jika lupa password lama, data lokal dapat
+            dihapus dan diambil ulang dari server.
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-700">{error}</p>}
+
+        <div className="flex flex-wrap items-center gap-3 justify-end pt-2">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isSubmitting}>
+            Batal
+          </Button>
+          {!hasPending && (
+            <Button type="button" variant="danger" onClick={onReset} disabled={isSubmitting}>
+              Hapus Data Lokal
+            </Button>
+          )}
+          <Button type="submit" isLoading={isSubmitting} disabled={!oldPassword || isSubmitting}>
+            Pulihkan Data
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button, Modal } from '@/components/ui';
+import { useAuth } from '@/lib/hooks';
+import { ROUTES } from '@/lib/constants';
+import { getPendingLocalItemCount, getRetentionPolicy } from '@/lib/services/localDataService';
+import { UnsyncedDataError, handleAPIError } from '@/lib/utils/errors';
+
+/**
+ * Pilihan data lokal saat logout
+ */
+type LocalDataChoice = 'keep' | 'wipe';
+
+/**
+ * Props untuk LogoutModal
+ */
+export interface LogoutModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * LogoutModal Component
+ *
+ * Modal konfirmasi logout dengan pilihan menyimpan atau menghapus
+ * data lokal (lansia, pemeriksaan, antrian sync) dari perangkat.
+ *
+ * Features:
+ * - Pilihan simpan data (login berikutnya lebih cepat/offline) atau hapus
+ * - Hapus data diblokir selama masih ada data yang belum tersinkron
+ * - Mengikuti kebijakan retensi admin (boleh tidaknya menyimpan data)
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk konfirmasi logout
+ * - DIP: Depends on useAuth dan localDataService
+ * - Composition: Compose dari UI components yang sudah ada
+ *
+ * @returns {JSX.Element} Modal logout
+ */
+export function LogoutModal({ isOpen, onClose }: LogoutModalProps) {
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Logout" size="md">
+      {/* Dirender ulang setiap dibuka supaya jumlah data tertunda selalu terbaru */}
+      {isOpen && <LogoutForm onClose={onClose} />}
+    </Modal>
+  );
+}
+
+/**
+ * Isi modal logout
+ */
+function LogoutForm({ onClose }: Pick<LogoutModalProps, 'onClose'>) {
+  const { user, logout } = useAuth();
+  const [policy] = useState(getRetentionPolicy);
+  const [pendingCount, setPendingCount] = useState<number | null>(null);
+  const [choice, setChoice] = useState<LocalDataChoice>(
+    policy.allowKeepOnLogout ? 'keep' : 'wipe'
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPendingLocalItemCount().then(setPendingCount);
+  }, []);
+
+  const sinkronisasiRoute =
+    user?.role === 'ADMIN' ? ROUTES.ADMIN.SINKRONISASI : ROUTES.PETUGAS.SINKRONISASI;
+  const hasPending = pendingCount !== null && pendingCount > 0;
+  // Data yang belum tersinkron tidak boleh hilang, jadi "simpan" selalu tersedia
+  const canKeep = policy.allowKeepOnLogout || hasPending;
+  const selected: LocalDataChoice = hasPending ? 'keep' : canKeep ? choice : 'wipe';
+
+  /**
+   * Logout dengan pilihan data lokal
+   */
+  const handleLogout = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await logout({ wipeLocalData: selected === 'wipe' });
+      // Redirect akan ditangani oleh middleware
+      window.location.href = '/login';
+    } catch (err) {
+      if (err instanceof UnsyncedDataError) {
+        setPendingCount(err.pendingCount);
+      }
+      setError(handleAPIError(err));
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-neutral-600">
+        Data lansia dan pemeriksaan tersimpan terenkripsi di perangkat ini. Pilih apakah data
+        tetap disimpan untuk login berikutnya atau dihapus dari perangkat.
+      </p>
+
+      {hasPending && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4 space-y-2">
+          <p className="text-sm text-yellow-800">
+            ⚠️ Ada {pendingCount} data yang belum tersinkron ke server. Data ini hanya ada di
+            perangkat ini, sehingga tidak dapat dihapus sebelum berhasil dikirim.
+          </p>
+          <Link
+            href={sinkronisasiRoute}
+            onClick={onClose}
+            className="text-sm font-medium text-yellow-900 underline"
+          >
+            Buka halaman Sinkronisasi
+          </Link>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="flex items-start gap-3 p-3 border border-neutral-200 rounded-xl cursor-pointer">
+          <input
+            type="radio"
+            name="logout-local-data"
+            className="mt-1"
+            checked={selected === 'keep'}
+            onChange={() => setChoice('keep')}
+            disabled={!canKeep || isSubmitting}
+          />
+          <span className="text-sm">
+            <span className="block font-medium text-neutral-900">Simpan data di perangkat</span>
+            <span className="block text-neutral-600">
+              {canKeep
+                ? `Data dihapus otomatis jika tidak login selama ${policy.retentionDays} hari.`
+                : 'Tidak diizinkan oleh kebijakan admin.'}
+            </span>
+          </span>
+        </label>
+
+        <label className="flex items-start gap-3 p-3 border border-neutral-200 rounded-xl cursor-pointer">
+          <input
+            type="radio"
+            name="logout-local-data"
+            className="mt-1"
+            checked={selected === 'wipe'}
+            onChange={() => setChoice('wipe')}
+            disabled={hasPending || pendingCount === null || isSubmitting}
+          />
+          <span className="text-sm">
+            <span className="block font-medium text-neutral-900">Hapus data dari perangkat</span>
+            <span className="block text-neutral-600">
+              Disarankan untuk perangkat yang dipakai bersama.
+            </span>
+          </span>
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <div className="flex items-center gap-3 justify-end pt-2">
+        <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>
+          Batal
+        </Button>
+        <Button
+          variant={selected === 'wipe' ? 'danger' : 'primary'}
+          onClick={handleLogout}
+          isLoading={isSubmitting}
+          disabled={pendingCount === null}
+        >
+          {selected === 'wipe' ? 'Hapus Data & Logout' : 'Logout'}
+        </Button>
+      </div>
+    </div>
+  );
+}
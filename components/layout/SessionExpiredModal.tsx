@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Input, Modal } from '@/components/ui';
+import { useAuth } from '@/lib/hooks';
+import { handleAPIError } from '@/lib/utils/errors';
+
+/**
+ * SessionExpiredModal Component
+ *
+ * Modal login ulang yang muncul di atas halaman saat sesi berakhir
+ * (refresh token ditolak). Halaman tidak berpindah, sehingga form yang
+ * sedang diisi (lansia, pemeriksaan, petugas) tetap utuh dan request yang
+ * tertahan dikirim ulang setelah login berhasil.
+ *
+ * Features:
+ * - Login ulang dengan akun yang sama (cukup password)
+ * - Tidak bisa ditutup tanpa login ulang atau logout
+ * - Logout membatalkan request yang tertahan
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk login ulang
+ * - DIP: Depends on useAuth (reauthenticate/logout)
+ * - Composition: Compose dari UI components yang sudah ada
+ *
+ * @returns {JSX.Element} Modal login ulang
+ */
+export function SessionExpiredModal() {
+  const { user, isSessionExpired } = useAuth();
+  const isOpen = isSessionExpired && !!user;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={() => {}}
+      title="Sesi Berakhir"
+      size="sm"
+      showCloseButton={false}
+      closeOnBackdrop={false}
+      closeOnEsc={false}
+    >
+      {/* Dirender ulang setiap dibuka supaya password tidak tersisa */}
+      {isOpen && <ReauthenticateForm />}
+    </Modal>
+  );
+}
+
+/**
+ * Isi modal login ulang
+ */
+function ReauthenticateForm() {
+  const { user, reauthenticate, logout } = useAuth();
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Login ulang lalu lanjutkan request yang tertahan
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await reauthenticate(password);
+    } catch (err) {
+      setError(handleAPIError(err));
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Batalkan login ulang (data form yang belum tersimpan hilang)
+   */
+  const handleLogout = async () => {
+    setIsSubmitting(true);
+    await logout();
+    // Setelah login kembali ke halaman ini (divalidasi di useLoginForm)
+    const redirect = `${window.location.pathname}${window.location.search}`;
+    window.location.href = `/login?redirect=${encodeURIComponent(redirect)}`;
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-neutral-600">
+        Sesi Anda telah berakhir. Masukkan password untuk melanjutkan sebagai{' '}
+        <span className="font-medium text-neutral-900">{user?.email}</span>. Data yang sedang
+        diisi di halaman ini tidak hilang.
+      </p>
+
+      <Input
+        label="Password"
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        error={error ?? undefined}
+        placeholder="••••••••"
+        disabled={isSubmitting}
+        autoFocus
+        required
+      />
+
+      <div className="flex items-center gap-3 justify-end pt-2">
+        <Button type="button" variant="secondary" onClick={handleLogout} disabled={isSubmitting}>
+          Logout
+        </Button>
+        <Button type="submit" isLoading={isSubmitting} disabled={!password}>
+          Login Ulang
+        </Button>
+      </div>
+    </form>
+  );
+}
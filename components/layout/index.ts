@@ -9,6 +9,17 @@
 export { Header } from './Header';
 export type { HeaderProps } from './Header';
 
+// Logout Modal
+export { LogoutModal } from './LogoutModal';
+export type { LogoutModalProps } from './LogoutModal';
+
+// Local Data Locked Modal
+export { LocalDataLockedModal } from './LocalDataLockedModal';
+export type { LocalDataLockedModalProps } from './LocalDataLockedModal';
+
+// Session Expired Modal
+export { SessionExpiredModal } from './SessionExpiredModal';
+
 // Sidebar
 export { Sidebar } from './Sidebar';
 export type { SidebarProps, NavigationItem } from './Sidebar';
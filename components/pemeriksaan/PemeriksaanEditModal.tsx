@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Input, Modal, ModalFooter } from '@/components/ui';
+import { pemeriksaanKoreksiSchema } from '@/lib/utils/validators';
+import { formatDate } from '@/lib/utils/formatters';
+import type { Pemeriksaan, UpdatePemeriksaanData } from '@/types';
+
+/**
+ * Modal untuk koreksi nilai pemeriksaan
+ *
+ * Responsibilities (SRP):
+ * - Tampilkan nilai pemeriksaan yang bisa dikoreksi
+ * - Validasi dengan schema yang sama dengan form input
+ * - Kirim hanya field yang berubah ke onSave
+ *
+ * Field kosong dianggap tidak diubah (nilai yang sudah ada tidak bisa dihapus).
+ */
+
+type KoreksiField = keyof UpdatePemeriksaanData;
+
+const FIELDS: Array<{ field: KoreksiField; label: string; unit: string }> = [
+  { field: 'tinggi', label: 'Tinggi Badan', unit: 'cm' },
+  { field: 'berat', label: 'Berat Badan', unit: 'kg' },
+  { field: 'sistolik', label: 'Tekanan Sistolik', unit: 'mmHg' },
+  { field: 'diastolik', label: 'Tekanan Diastolik', unit: 'mmHg' },
+  { field: 'gulaPuasa', label: 'Gula Darah Puasa', unit: 'mg/dL' },
+  { field: 'gulaSewaktu', label: 'Gula Darah Sewaktu', unit: 'mg/dL' },
+  { field: 'gula2Jpp', label: 'Gula Darah 2 Jam PP', unit: 'mg/dL' },
+  { field: 'kolesterol', label: 'Kolesterol', unit: 'mg/dL' },
+  { field: 'asamUrat', label: 'Asam Urat', unit: 'mg/dL' },
+];
+
+type FormValues = Record<KoreksiField, string>;
+
+function toFormValues(pemeriksaan: Pemeriksaan): FormValues {
+  return Object.fromEntries(
+    FIELDS.map(({ field }) => [field, pemeriksaan[field]?.toString() ?? ''])
+  ) as FormValues;
+}
+
+interface PemeriksaanEditFormProps {
+  pemeriksaan: Pemeriksaan;
+  isSaving: boolean;
+  onCancel: () => void;
+  onSave: (data: UpdatePemeriksaanData) => void;
+}
+
+function PemeriksaanEditForm({ pemeriksaan, isSaving, onCancel, onSave }: PemeriksaanEditFormProps) {
+  const [values, setValues] = useState<FormValues>(() => toFormValues(pemeriksaan));
+  const [errors, setErrors] = useState<Partial<Record<KoreksiField, string>>>({});
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const original = toFormValues(pemeriksaan);
+    const changes = Object.fromEntries(
+      FIELDS.filter(({ field }) => values[field] !== '' && values[field] !== original[field]).map(
+        ({ field }) => [field, parseFloat(values[field])]
+      )
+    );
+
+    const result = pemeriksaanKoreksiSchema.safeParse(changes);
+    if (!result.success) {
+      setErrors(
+        Object.fromEntries(
+          result.error.issues.map((issue) => [issue.path[0], issue.message])
+        ) as Partial<Record<KoreksiField, string>>
+      );
+      return;
+    }
+
+    setErrors({});
+    if (Object.keys(result.data).length === 0) {
+      onCancel();
+      return;
+    }
+    onSave(result.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {FIELDS.map(({ field, label, unit }) => (
+          <Input
+            key={field}
+            label={`${label} (${unit})`}
+            type="number"
+            step="any"
+            inputMode="decimal"
+            value={values[field]}
+            onChange={(e) => setValues((prev) => ({ ...prev, [field]: e.target.value }))}
+            error={errors[field]}
+            disabled={isSaving}
+          />
+        ))}
+      </div>
+      <ModalFooter>
+        <Button type="button" variant="secondary" onClick={onCancel} disabled={isSaving}>
+          Batal
+        </Button>
+        <Button type="submit" isLoading={isSaving} disabled={isSaving}>
+          Simpan Koreksi
+        </Button>
+      </ModalFooter>
+    </form>
+  );
+}
+
+interface PemeriksaanEditModalProps {
+  /** Pemeriksaan yang dikoreksi (null untuk menutup modal) */
+  pemeriksaan: Pemeriksaan | null;
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (data: UpdatePemeriksaanData) => void;
+}
+
+export function PemeriksaanEditModal({
+  pemeriksaan,
+  isSaving,
+  onClose,
+  onSave,
+}: PemeriksaanEditModalProps) {
+  return (
+    <Modal
+      isOpen={!!pemeriksaan}
+      onClose={isSaving ? () => {} : onClose}
+      title={pemeriksaan ? `Koreksi Pemeriksaan ${formatDate(pemeriksaan.tanggal)}` : ''}
+      size="lg"
+    >
+      {pemeriksaan && (
+        <PemeriksaanEditForm
+          key={pemeriksaan.id}
+          pemeriksaan={pemeriksaan}
+          isSaving={isSaving}
+          onCancel={onClose}
+          onSave={onSave}
+        />
+      )}
+    </Modal>
+  );
+}
@@ -5,6 +5,7 @@ import { useLansiaDetail } from '@/lib/hooks/useLansiaDetail';
 import { Loading } from '@/components/ui';
 import { PemeriksaanHistoryTable } from '@/components/lansia/PemeriksaanHistoryTable';
 import { HealthTrendCharts } from '@/components/lansia/HealthTrendCharts';
+import { CachedDataNotice } from '@/components/lansia/CachedDataNotice';
 import { formatUmur } from '@/lib/utils/formatters';
 
 /**
@@ -22,6 +23,7 @@ import { formatUmur } from '@/lib/utils/formatters';
  * - Display pemeriksaan history table
  * - Display health trend charts
  * - Handle loading and error states
+ * - Tampilkan penanda umur data saat memakai data tersimpan
  *
  * Props (ISP):
  * - kode: kode lansia
@@ -32,7 +34,8 @@ interface RiwayatPemeriksaanContentProps {
 }
 
 export function RiwayatPemeriksaanContent({ kode }: RiwayatPemeriksaanContentProps) {
-  const { lansia, pemeriksaan, isLoading, error } = useLansiaDetail(kode);
+  const { lansia, pemeriksaan, isLoading, error, isCached, cachedAt, isRevalidating } =
+    useLansiaDetail(kode);
   const [showCharts, setShowCharts] = useState(true);
 
   if (isLoading) {
@@ -79,6 +82,8 @@ export function RiwayatPemeriksaanContent({ kode }: RiwayatPemeriksaanContentPro
 
   return (
     <div className="space-y-6">
+      {isCached && <CachedDataNotice cachedAt={cachedAt} isRevalidating={isRevalidating} />}
+
       {/* Header - Info Lansia */}
       <div className="bg-white rounded-xl p-6 shadow-sm">
         <div className="flex items-center justify-between">
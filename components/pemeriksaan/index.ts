@@ -7,3 +7,4 @@
 export { PemeriksaanKesehatanForm } from './PemeriksaanKesehatanForm';
 export { PemeriksaanGabunganForm } from './PemeriksaanGabunganForm';
 export { RiwayatPemeriksaanContent } from './RiwayatPemeriksaanContent';
+export { PemeriksaanEditModal } from './PemeriksaanEditModal';
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Button,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableHeader,
+  TableCell,
+  Loading,
+} from '@/components/ui';
+import { useSyncConflicts } from '@/lib/hooks/useSyncConflicts';
+import { formatDateTime } from '@/lib/utils/formatters';
+import type { ConflictDB } from '@/lib/db';
+import { ConflictMergeModal } from './ConflictMergeModal';
+
+const ENTITY_LABELS: Record<ConflictDB['entity'], string> = {
+  LANSIA: 'Data Lansia',
+  PEMERIKSAAN: 'Pemeriksaan',
+};
+
+/**
+ * ConflictListContent Component
+ *
+ * Komponen shared untuk menampilkan konflik antara edit offline dan versi server.
+ * Dapat digunakan di halaman Admin maupun Petugas.
+ *
+ * Features:
+ * - Tabel konflik dengan waktu terdeteksi
+ * - Buka modal merge untuk memilih nilai per field
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk presentasi
+ * - DIP: Depends on useSyncConflicts hook abstraction
+ * - Composition: Compose dari UI components yang sudah ada
+ *
+ * @returns {JSX.Element} Konten daftar konflik
+ */
+export function ConflictListContent() {
+  const { conflicts, isLoading, resolve } = useSyncConflicts();
+  const [selectedConflict, setSelectedConflict] = useState<ConflictDB | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loading variant="spinner" size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {conflicts.length === 0 ? (
+        <div className="card text-center py-12">
+          <p className="text-neutral-600 mb-2">Tidak ada konflik data</p>
+          <p className="text-sm text-neutral-500">
+            Semua perubahan offline sesuai dengan data di server
+          </p>
+        </div>
+      ) : (
+        <div className="card overflow-hidden">
+          <Table variant="striped" responsive>
+            <TableHead>
+              <TableRow>
+                <TableHeader>Data</TableHeader>
+                <TableHeader>Terdeteksi Pada</TableHeader>
+                <TableHeader>Aksi</TableHeader>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {conflicts.map((conflict) => (
+                <TableRow key={conflict.id}>
+                  <TableCell>
+                    <span className="font-medium text-neutral-900">
+                      {ENTITY_LABELS[conflict.entity]}
+                    </span>
+                    <p className="font-mono text-xs text-neutral-600">{conflict.kode}</p>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-neutral-700 text-sm">
+                      {formatDateTime(conflict.detectedAt)}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      onClick={() => setSelectedConflict(conflict)}
+                    >
+                      Bandingkan
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <ConflictMergeModal
+        conflict={selectedConflict}
+        onClose={() => setSelectedConflict(null)}
+        onResolve={resolve}
+      />
+    </div>
+  );
+}
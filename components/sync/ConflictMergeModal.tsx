@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Modal } from '@/components/ui';
+import { isSameFieldValue, type ConflictChoice } from '@/lib/services/syncConflictService';
+import { formatDate } from '@/lib/utils/formatters';
+import type { ConflictDB } from '@/lib/db';
+
+/**
+ * Label field yang bisa diedit untuk lansia dan pemeriksaan
+ */
+const FIELD_LABELS: Record<string, string> = {
+  nik: 'NIK',
+  kk: 'Nomor KK',
+  nama: 'Nama',
+  tanggalLahir: 'Tanggal Lahir',
+  gender: 'Jenis Kelamin',
+  alamat: 'Alamat',
+  tinggi: 'Tinggi Badan (cm)',
+  berat: 'Berat Badan (kg)',
+  sistolik: 'Sistolik (mmHg)',
+  diastolik: 'Diastolik (mmHg)',
+  asamUrat: 'Asam Urat (mg/dL)',
+  gulaPuasa: 'Gula Darah Puasa (mg/dL)',
+  gulaSewaktu: 'Gula Darah Sewaktu (mg/dL)',
+  gula2Jpp: 'Gula Darah 2 JPP (mg/dL)',
+  kolesterol: 'Kolesterol (mg/dL)',
+};
+
+/**
+ * Format nilai field untuk ditampilkan
+ */
+function formatFieldValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '-';
+  }
+  if (field === 'tanggalLahir' && (typeof value === 'string' || value instanceof Date)) {
+    return formatDate(value);
+  }
+  if (field === 'gender') {
+    return value === 'LAKI_LAKI' ? 'Laki-laki' : 'Perempuan';
+  }
+  return String(value);
+}
+
+/**
+ * Props untuk ConflictMergeModal
+ */
+export interface ConflictMergeModalProps {
+  conflict: ConflictDB | null;
+  onClose: () => void;
+  onResolve: (id: number, choices: Record<string, ConflictChoice>) => Promise<boolean>;
+}
+
+/**
+ * ConflictMergeModal Component
+ *
+ * Modal untuk membandingkan edit lokal dengan versi server per field
+ * dan memilih nilai yang dipakai.
+ *
+ * Features:
+ * - Tabel side-by-side "Versi Perangkat Ini" vs "Versi Server"
+ * - Pilihan per field, default ke versi server
+ * - Pilih semua lokal / semua server sekaligus
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk presentasi dan pilihan merge
+ * - Composition: Compose dari UI components yang sudah ada
+ *
+ * @returns {JSX.Element} Modal merge konflik
+ */
+export function ConflictMergeModal({ conflict, onClose, onResolve }: ConflictMergeModalProps) {
+  return (
+    <Modal isOpen={conflict !== null} onClose={onClose} title="Selesaikan Konflik" size="lg">
+      {/* Key per konflik supaya pilihan di-reset saat konflik lain dibuka */}
+      {conflict && (
+        <ConflictMergeForm
+          key={conflict.id}
+          conflict={conflict}
+          onClose={onClose}
+          onResolve={onResolve}
+        />
+      )}
+    </Modal>
+  );
+}
+
+/**
+ * Isi modal merge (state pilihan per konflik)
+ */
+function ConflictMergeForm({
+  conflict,
+  onClose,
+  onResolve,
+}: ConflictMergeModalProps & { conflict: ConflictDB }) {
+  const fields = Object.keys(conflict.local).filter((field) => field in FIELD_LABELS);
+
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>(() =>
+    Object.fromEntries(fields.map((field) => [field, 'server' as ConflictChoice]))
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Pilih sumber nilai untuk semua field
+   */
+  const chooseAll = (choice: ConflictChoice) => {
+    setChoices(Object.fromEntries(fields.map((field) => [field, choice])));
+  };
+
+  /**
+   * Simpan hasil merge
+   */
+  const handleSubmit = async () => {
+    if (!conflict.id) return;
+
+    setIsSubmitting(true);
+    const success = await onResolve(conflict.id, choices);
+    setIsSubmitting(false);
+
+    if (success) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-neutral-600">
+        Data ini diubah di perangkat lain sebelum perubahan dari perangkat ini terkirim.
+        Pilih nilai yang benar untuk setiap field.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="secondary" size="sm" onClick={() => chooseAll('local')}>
+          Pakai Semua Lokal
+        </Button>
+        <Button variant="secondary" size="sm" onClick={() => chooseAll('server')}>
+          Pakai Semua Server
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto border border-neutral-200 rounded-xl">
+        <table className="w-full text-sm">
+          <thead className="bg-neutral-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-semibold text-neutral-700">Field</th>
+              <th className="px-4 py-3 text-left font-semibold text-neutral-700">
+                Versi Perangkat Ini
+              </th>
+              <th className="px-4 py-3 text-left font-semibold text-neutral-700">Versi Server</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-neutral-200">
+            {fields.map((field) => {
+              const localValue = conflict.local[field];
+              const serverValue = conflict.server[field];
+              const isSame = isSameFieldValue(field, localValue, serverValue);
+
+              return (
+                <tr key={field} className={isSame ? 'text-neutral-500' : undefined}>
+                  <td className="px-4 py-3 font-medium text-neutral-900">
+                    {FIELD_LABELS[field]}
+                  </td>
+                  {(['local', 'server'] as const).map((choice) => (
+                    <td key={choice} className="px-4 py-3">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`conflict-${conflict.id}-${field}`}
+                          checked={choices[field] === choice}
+                          onChange={() => setChoices((prev) => ({ ...prev, [field]: choice }))}
+                          disabled={isSame}
+                        />
+                        <span>
+                          {formatFieldValue(field, choice === 'local' ? localValue : serverValue)}
+                        </span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-3 justify-end pt-2">
+        <Button variant="secondary" onClick={onClose}>
+          Batal
+        </Button>
+        <Button variant="primary" onClick={handleSubmit} disabled={isSubmitting}>
+          Simpan Pilihan
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import {
+  Button,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableHeader,
+  TableCell,
+  Loading,
+} from '@/components/ui';
+import { useDatabaseDiagnostics } from '@/lib/hooks/useDatabaseDiagnostics';
+
+/**
+ * DatabaseDiagnosticsContent Component
+ *
+ * Komponen shared untuk menampilkan kondisi database lokal perangkat.
+ * Dapat digunakan di halaman Admin maupun Petugas.
+ *
+ * Features:
+ * - Versi schema terpasang vs versi yang dibutuhkan aplikasi
+ * - Daftar migration dan statusnya
+ * - Jumlah row per table dan backup pemulihan yang belum dikembalikan
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk presentasi
+ * - DIP: Depends on useDatabaseDiagnostics hook abstraction
+ * - Composition: Compose dari UI components yang sudah ada
+ *
+ * @returns {JSX.Element} Konten diagnostik database
+ */
+export function DatabaseDiagnosticsContent() {
+  const { diagnostics, isLoading, refetch } = useDatabaseDiagnostics();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loading variant="spinner" size="lg" />
+      </div>
+    );
+  }
+
+  if (!diagnostics) {
+    return (
+      <div className="card text-center py-12">
+        <p className="text-neutral-600">Diagnostik database tidak dapat dibaca</p>
+      </div>
+    );
+  }
+
+  const isUpToDate = diagnostics.installedVersion === diagnostics.schemaVersion;
+
+  return (
+    <div className="space-y-6">
+      <div className="card space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <dl className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-neutral-500">Database</dt>
+              <dd className="font-mono text-neutral-900">{diagnostics.name}</dd>
+            </div>
+            <div>
+              <dt className="text-neutral-500">Versi Terpasang</dt>
+              <dd className={isUpToDate ? 'font-medium text-neutral-900' : 'font-medium text-red-700'}>
+                {diagnostics.installedVersion ?? 'Gagal dibuka'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-neutral-500">Versi Aplikasi</dt>
+              <dd className="font-medium text-neutral-900">{diagnostics.schemaVersion}</dd>
+            </div>
+          </dl>
+          <Button variant="secondary" size="sm" onClick={refetch}>
+            Muat Ulang
+          </Button>
+        </div>
+
+        {diagnostics.openError && (
+          <p className="text-sm text-red-700 font-mono break-all">{diagnostics.openError}</p>
+        )}
+
+        {diagnostics.pendingBackups > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+            <p className="text-sm text-yellow-800">
+              ⚠️ Ada {diagnostics.pendingBackups} backup pemulihan yang belum dikembalikan.
+            </p>
+          </div>
+        )}
+
+        {diagnostics.tables.length > 0 && (
+          <dl className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            {diagnostics.tables.map((table) => (
+              <div key={table.name}>
+                <dt className="text-neutral-500 font-mono">{table.name}</dt>
+                <dd className="font-medium text-neutral-900">{table.count} row</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+
+      <div className="card overflow-hidden">
+        <Table variant="striped" responsive>
+          <TableHead>
+            <TableRow>
+              <TableHeader>Versi</TableHeader>
+              <TableHeader>Migration</TableHeader>
+              <TableHeader>Status</TableHeader>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {diagnostics.migrations.map((migration) => (
+              <TableRow key={migration.version}>
+                <TableCell>
+                  <span className="font-mono text-neutral-900">v{migration.version}</span>
+                </TableCell>
+                <TableCell>
+                  <span className="text-neutral-700 text-sm">{migration.description}</span>
+                </TableCell>
+                <TableCell>
+                  <span
+                    className={
+                      migration.applied ? 'text-green-700 text-sm' : 'text-red-700 text-sm'
+                    }
+                  >
+                    {migration.applied ? 'Diterapkan' : 'Belum diterapkan'}
+                  </span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
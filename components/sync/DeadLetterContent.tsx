@@ -0,0 +1,262 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Button,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableHeader,
+  TableCell,
+  Modal,
+  Loading,
+} from '@/components/ui';
+import { useDeadLetterQueue } from '@/lib/hooks/useDeadLetterQueue';
+import { formatDateTime } from '@/lib/utils/formatters';
+import type { DeadLetterDB } from '@/lib/db';
+import { ENTITY_LABELS, TYPE_LABELS, getItemKode } from './syncLabels';
+
+/**
+ * DeadLetterContent Component
+ *
+ * Komponen shared untuk menampilkan data yang gagal disinkronkan.
+ * Dapat digunakan di halaman Admin maupun Petugas.
+ *
+ * Features:
+ * - Tabel item gagal sync dengan pesan error dan HTTP status terakhir
+ * - Lihat dan edit payload (JSON) sebelum dikirim ulang
+ * - Kirim ulang item ke antrian sinkronisasi
+ * - Buang item dengan konfirmasi
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk presentasi
+ * - DIP: Depends on useDeadLetterQueue hook abstraction
+ * - Composition: Compose dari UI components yang sudah ada
+ *
+ * @returns {JSX.Element} Konten dead-letter queue
+ */
+export function DeadLetterContent() {
+  const { items, isLoading, updatePayload, retry, discard } = useDeadLetterQueue();
+
+  // State untuk modal edit payload
+  const [editingItem, setEditingItem] = useState<DeadLetterDB | null>(null);
+  const [payloadDraft, setPayloadDraft] = useState('');
+
+  // State untuk modal konfirmasi buang
+  const [discardingItem, setDiscardingItem] = useState<DeadLetterDB | null>(null);
+
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  /**
+   * Buka modal edit payload
+   */
+  const handleEditClick = (item: DeadLetterDB) => {
+    setEditingItem(item);
+    setPayloadDraft(JSON.stringify(item.data, null, 2));
+  };
+
+  /**
+   * Simpan payload hasil edit
+   */
+  const handleSavePayload = async () => {
+    if (!editingItem?.id) return;
+
+    setProcessingId(editingItem.id);
+    const success = await updatePayload(editingItem.id, payloadDraft);
+    setProcessingId(null);
+
+    if (success) {
+      setEditingItem(null);
+    }
+  };
+
+  /**
+   * Kirim ulang item
+   */
+  const handleRetry = async (item: DeadLetterDB) => {
+    if (!item.id) return;
+
+    setProcessingId(item.id);
+    await retry(item.id);
+    setProcessingId(null);
+  };
+
+  /**
+   * Konfirmasi buang item
+   */
+  const handleConfirmDiscard = async () => {
+    if (!discardingItem?.id) return;
+
+    setProcessingId(discardingItem.id);
+    const success = await discard(discardingItem.id);
+    setProcessingId(null);
+
+    if (success) {
+      setDiscardingItem(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loading variant="spinner" size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {items.length === 0 ? (
+        <div className="card text-center py-12">
+          <p className="text-neutral-600 mb-2">Tidak ada data yang gagal disinkronkan</p>
+          <p className="text-sm text-neutral-500">
+            Semua data offline sudah terkirim atau masih dalam antrian
+          </p>
+        </div>
+      ) : (
+        <div className="card overflow-hidden">
+          <Table variant="striped" responsive>
+            <TableHead>
+              <TableRow>
+                <TableHeader>Data</TableHeader>
+                <TableHeader>Gagal Pada</TableHeader>
+                <TableHeader>Error Terakhir</TableHeader>
+                <TableHeader>Percobaan</TableHeader>
+                <TableHeader>Aksi</TableHeader>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <span className="font-medium text-neutral-900">
+                      {TYPE_LABELS[item.type]} {ENTITY_LABELS[item.entity]}
+                    </span>
+                    {getItemKode(item.data) && (
+                      <p className="font-mono text-xs text-neutral-600">
+                        {getItemKode(item.data)}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-neutral-700 text-sm">
+                      {formatDateTime(item.failedAt)}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-red-700 text-sm">{item.lastError}</span>
+                    {item.lastStatus !== undefined && (
+                      <p className="text-xs text-neutral-500">HTTP {item.lastStatus}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-neutral-700">{item.retryCount}x</span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => handleEditClick(item)}
+                        disabled={processingId === item.id}
+                      >
+                        Lihat / Edit
+                      </Button>
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        onClick={() => handleRetry(item)}
+                        disabled={processingId === item.id}
+                      >
+                        Kirim Ulang
+                      </Button>
+                      <Button
+                        variant="danger"
+                        size="sm"
+                        onClick={() => setDiscardingItem(item)}
+                        disabled={processingId === item.id}
+                      >
+                        Buang
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Modal Edit Payload */}
+      <Modal
+        isOpen={editingItem !== null}
+        onClose={() => setEditingItem(null)}
+        title="Payload Sinkronisasi"
+        size="lg"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-neutral-600">
+            Perbaiki data yang ditolak server, simpan, lalu kirim ulang.
+          </p>
+          <textarea
+            value={payloadDraft}
+            onChange={(e) => setPayloadDraft(e.target.value)}
+            rows={14}
+            spellCheck={false}
+            className="w-full px-4 py-3 font-mono text-sm border border-neutral-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-900 focus:border-transparent"
+            aria-label="Payload JSON"
+          />
+          <div className="flex items-center gap-3 justify-end pt-2">
+            <Button variant="secondary" onClick={() => setEditingItem(null)}>
+              Batal
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleSavePayload}
+              disabled={processingId === editingItem?.id}
+            >
+              Simpan Payload
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Modal Konfirmasi Buang */}
+      <Modal
+        isOpen={discardingItem !== null}
+        onClose={() => setDiscardingItem(null)}
+        title="Buang Data"
+      >
+        <div className="space-y-4">
+          <p className="text-neutral-700">
+            Apakah Anda yakin ingin membuang data{' '}
+            <span className="font-semibold">
+              {discardingItem &&
+                `${TYPE_LABELS[discardingItem.type]} ${ENTITY_LABELS[discardingItem.entity]}`}
+            </span>
+            ?
+          </p>
+          <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+            <p className="text-sm text-yellow-800">
+              ⚠️ Data yang dibuang tidak akan pernah terkirim ke server dan tidak dapat
+              dikembalikan.
+            </p>
+          </div>
+          <div className="flex items-center gap-3 justify-end pt-4">
+            <Button variant="secondary" onClick={() => setDiscardingItem(null)}>
+              Batal
+            </Button>
+            <Button
+              variant="danger"
+              onClick={handleConfirmDiscard}
+              disabled={processingId === discardingItem?.id}
+            >
+              Ya, Buang
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
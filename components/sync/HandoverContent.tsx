@@ -0,0 +1,107 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button, Input } from '@/components/ui';
+import { useHandover } from '@/lib/hooks/useHandover';
+import { HANDOVER_PASSPHRASE_MIN_LENGTH } from '@/lib/services/handoverService';
+import { formatDateTime } from '@/lib/utils/formatters';
+
+/**
+ * HandoverContent Component
+ *
+ * Komponen shared untuk serah terima data offline antar perangkat.
+ * Dapat digunakan di halaman Admin maupun Petugas.
+ *
+ * Features:
+ * - Ekspor antrian, data gagal, dan data lokal yang belum tersinkron ke file
+ *   yang dienkripsi dengan passphrase
+ * - Impor file dari perangkat lain (passphrase salah atau file diubah ditolak)
+ * - Ringkasan hasil impor (data baru dan data yang sudah ada)
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk presentasi
+ * - DIP: Depends on useHandover hook abstraction
+ * - Composition: Compose dari UI components yang sudah ada
+ *
+ * @returns {JSX.Element} Konten serah terima data
+ */
+export function HandoverContent() {
+  const { isExporting, isImporting, lastImport, exportFile, importFile } = useHandover();
+  const [passphrase, setPassphrase] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isPassphraseValid = passphrase.length >= HANDOVER_PASSPHRASE_MIN_LENGTH;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      await importFile(file, passphrase);
+    }
+  };
+
+  return (
+    <div className="card space-y-4">
+      <p className="text-sm text-neutral-600">
+        Gunakan saat perangkat rusak atau diserahkan ke petugas lain. Data yang belum terkirim
+        diekspor ke file, lalu diimpor di perangkat lain dan dikirim ke server dari sana.
+      </p>
+
+      <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+        <p className="text-sm text-yellow-800">
+          ⚠️ File berisi data pasien yang dienkripsi dengan passphrase. Berikan passphrase ke
+          penerima lewat jalur lain (jangan dikirim bersama file), lalu hapus file setelah diimpor.
+        </p>
+      </div>
+
+      <Input
+        label="Passphrase File"
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        helperText={`Minimal ${HANDOVER_PASSPHRASE_MIN_LENGTH} karakter, dipakai saat ekspor dan impor`}
+        autoComplete="off"
+        disabled={isExporting || isImporting}
+      />
+
+      <div className="flex flex-wrap gap-3">
+        <Button
+          variant="primary"
+          onClick={() => exportFile(passphrase)}
+          isLoading={isExporting}
+          disabled={!isPassphraseValid || isExporting}
+        >
+          Ekspor Data Tertunda
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => fileInputRef.current?.click()}
+          isLoading={isImporting}
+          disabled={!isPassphraseValid || isImporting}
+        >
+          Impor File
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {lastImport?.success && lastImport.result && (
+        <div className="bg-green-50 border border-green-200 rounded-xl p-4 space-y-1">
+          <p className="text-sm font-medium text-green-900">
+            File dari {lastImport.exportedBy?.nama ?? '-'}
+            {lastImport.exportedAt && ` (${formatDateTime(lastImport.exportedAt)})`}
+          </p>
+          <p className="text-sm text-green-800">
+            {lastImport.result.queued} antrian, {lastImport.result.failed} data gagal,{' '}
+            {lastImport.result.lansia} lansia, dan {lastImport.result.pemeriksaan} pemeriksaan
+            ditambahkan. {lastImport.result.skipped} data sudah ada di perangkat ini.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Input, Loading } from '@/components/ui';
+import { useRetentionPolicy } from '@/lib/hooks/useRetentionPolicy';
+import { LOCAL_DATA_RETENTION_LIMITS } from '@/lib/constants';
+import type { RetentionPolicy } from '@/lib/api';
+
+/**
+ * RetentionPolicyContent Component
+ *
+ * Form admin untuk kebijakan retensi data lokal di perangkat petugas.
+ *
+ * Features:
+ * - Masa simpan data lokal user yang tidak login (hari)
+ * - Izinkan / larang menyimpan data saat logout
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk presentasi form
+ * - DIP: Depends on useRetentionPolicy hook abstraction
+ * - Composition: Compose dari UI components yang sudah ada
+ *
+ * @returns {JSX.Element} Form kebijakan retensi
+ */
+export function RetentionPolicyContent() {
+  const { policy, isLoading, isSaving, save } = useRetentionPolicy();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loading variant="spinner" size="lg" />
+      </div>
+    );
+  }
+
+  // Key per kebijakan supaya form di-reset setelah kebijakan dimuat/disimpan
+  return (
+    <RetentionPolicyForm
+      key={`${policy.retentionDays}-${policy.allowKeepOnLogout}`}
+      policy={policy}
+      isSaving={isSaving}
+      onSave={save}
+    />
+  );
+}
+
+/**
+ * Isi form kebijakan retensi
+ */
+function RetentionPolicyForm({
+  policy,
+  isSaving,
+  onSave,
+}: {
+  policy: RetentionPolicy;
+  isSaving: boolean;
+  onSave: (policy: RetentionPolicy) => Promise<boolean>;
+}) {
+  const [retentionDays, setRetentionDays] = useState(String(policy.retentionDays));
+  const [allowKeepOnLogout, setAllowKeepOnLogout] = useState(policy.allowKeepOnLogout);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSave({ retentionDays: Number(retentionDays), allowKeepOnLogout });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="card space-y-4">
+      <p className="text-sm text-neutral-600">
+        Berlaku untuk semua perangkat saat user login. Data yang belum tersinkron tidak pernah
+        dihapus otomatis.
+      </p>
+
+      <Input
+        type="number"
+        label="Masa Simpan Data Lokal (hari)"
+        helperText="Data user yang tidak login di perangkat selama masa ini akan dihapus"
+        min={LOCAL_DATA_RETENTION_LIMITS.MIN}
+        max={LOCAL_DATA_RETENTION_LIMITS.MAX}
+        value={retentionDays}
+        onChange={(e) => setRetentionDays(e.target.value)}
+        disabled={isSaving}
+      />
+
+      <label className="flex items-center gap-3 text-sm text-neutral-900 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={allowKeepOnLogout}
+          onChange={(e) => setAllowKeepOnLogout(e.target.checked)}
+          disabled={isSaving}
+        />
+        Izinkan user menyimpan data di perangkat saat logout
+      </label>
+
+      <div className="flex justify-end">
+        <Button type="submit" variant="primary" isLoading={isSaving}>
+          Simpan Kebijakan
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import Link from 'next/link';
+import { useAuth } from '@/lib/hooks';
+import { useStorageStatus } from '@/lib/hooks/useStorageStatus';
+import { ROUTES } from '@/lib/constants';
+import { formatBytes } from '@/lib/utils/formatters';
+
+/**
+ * StorageWarningBanner Component
+ *
+ * Peringatan saat penyimpanan perangkat hampir penuh, sebelum penulisan
+ * data offline (lansia/pemeriksaan baru) mulai gagal.
+ *
+ * Features:
+ * - Tampil hanya saat penggunaan kuota melewati batas peringatan
+ * - Warna dan pesan berbeda untuk tingkat peringatan dan kritis
+ * - Tautan ke halaman Sinkronisasi untuk mengirim data yang tertunda
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk presentasi
+ * - DIP: Depends on useStorageStatus hook abstraction
+ *
+ * @returns {JSX.Element | null} Banner peringatan kuota
+ */
+export function StorageWarningBanner() {
+  const { user } = useAuth();
+  const { pressure, usage, quota, usageRatio } = useStorageStatus();
+
+  if (pressure === 'normal') {
+    return null;
+  }
+
+  const isCritical = pressure === 'critical';
+  const sinkronisasiRoute =
+    user?.role === 'ADMIN' ? ROUTES.ADMIN.SINKRONISASI : ROUTES.PETUGAS.SINKRONISASI;
+
+  return (
+    <div
+      role="alert"
+      className={
+        isCritical
+          ? 'mb-6 bg-red-50 border border-red-200 rounded-xl p-4 space-y-2'
+          : 'mb-6 bg-yellow-50 border border-yellow-200 rounded-xl p-4 space-y-2'
+      }
+    >
+      <p className={isCritical ? 'text-sm text-red-800' : 'text-sm text-yellow-800'}>
+        ⚠️ Penyimpanan perangkat {isCritical ? 'hampir penuh' : 'mulai penuh'} (
+        {Math.round(usageRatio * 100)}%, {formatBytes(usage)} dari {formatBytes(quota)}).{' '}
+        {isCritical
+          ? 'Data baru mungkin gagal disimpan. Sinkronkan data dan kosongkan ruang penyimpanan perangkat.'
+          : 'Sinkronkan data secara berkala agar riwayat lama dapat dibersihkan.'}
+      </p>
+      <Link
+        href={sinkronisasiRoute}
+        className={
+          isCritical
+            ? 'text-sm font-medium text-red-900 underline'
+            : 'text-sm font-medium text-yellow-900 underline'
+        }
+      >
+        Buka halaman Sinkronisasi
+      </Link>
+    </div>
+  );
+}
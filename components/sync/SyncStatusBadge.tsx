@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import { useSyncStatus, type UseSyncStatusReturn } from '@/lib/hooks';
+import { SyncStatusDrawer } from './SyncStatusDrawer';
+
+/**
+ * Tampilan badge berdasarkan status sync
+ */
+function getBadgeAppearance(status: UseSyncStatusReturn): {
+  label: string;
+  className: string;
+  dotClassName: string;
+} {
+  const { isOnline, isSyncing, pendingCount, failedCount, conflictCount } = status;
+  const needsReview = failedCount + conflictCount;
+
+  if (!isOnline) {
+    return {
+      label: pendingCount > 0 ? `Offline · ${pendingCount} menunggu` : 'Offline',
+      className: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+      dotClassName: 'bg-yellow-500',
+    };
+  }
+  if (isSyncing) {
+    return {
+      label: 'Menyinkronkan...',
+      className: 'bg-blue-50 text-blue-800 border-blue-200',
+      dotClassName: 'bg-blue-600 animate-pulse',
+    };
+  }
+  if (needsReview > 0) {
+    return {
+      label: `${needsReview} perlu ditinjau`,
+      className: 'bg-red-50 text-red-800 border-red-200',
+      dotClassName: 'bg-red-600',
+    };
+  }
+  if (pendingCount > 0) {
+    return {
+      label: `${pendingCount} menunggu sync`,
+      className: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+      dotClassName: 'bg-yellow-500 animate-pulse',
+    };
+  }
+  return {
+    label: 'Online · Tersinkron',
+    className: 'bg-sage-100 text-sage-800 border-sage-200',
+    dotClassName: 'bg-green-600 animate-pulse shadow-sm shadow-green-200',
+  };
+}
+
+/**
+ * SyncStatusBadge Component
+ *
+ * Badge status sinkronisasi yang diambil dari sync queue yang sebenarnya.
+ * Klik untuk membuka drawer dengan detail antrian.
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk ringkasan status dan membuka drawer
+ * - DIP: Depends on useSyncStatus hook abstraction
+ * - Composition: Compose SyncStatusDrawer
+ *
+ * @returns {JSX.Element} Badge status sinkronisasi
+ */
+export function SyncStatusBadge() {
+  const status = useSyncStatus();
+  const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const { label, className, dotClassName } = getBadgeAppearance(status);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsDrawerOpen(true)}
+        className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium w-fit border transition-colors hover:brightness-95 ${className}`}
+        aria-label={`Status sinkronisasi: ${label}`}
+        aria-haspopup="dialog"
+      >
+        <span className={`w-2.5 h-2.5 rounded-full ${dotClassName}`} />
+        {label}
+      </button>
+
+      <SyncStatusDrawer
+        isOpen={isDrawerOpen}
+        onClose={() => setIsDrawerOpen(false)}
+        status={status}
+      />
+    </>
+  );
+}
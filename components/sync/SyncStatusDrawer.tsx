@@ -0,0 +1,246 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import Link from 'next/link';
+import { Button, useNotification } from '@/components/ui';
+import { useAuth, type UseSyncStatusReturn } from '@/lib/hooks';
+import { ROUTES } from '@/lib/constants';
+import { formatDateTime } from '@/lib/utils/formatters';
+import type { SyncRunResult } from '@/lib/utils/syncManager';
+import type { SyncQueueDB } from '@/lib/db';
+import { ENTITY_LABELS, TYPE_LABELS, getItemKode } from './syncLabels';
+
+/**
+ * Props untuk SyncStatusDrawer
+ */
+export interface SyncStatusDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  status: UseSyncStatusReturn;
+}
+
+/**
+ * SyncStatusDrawer Component
+ *
+ * Panel samping dengan detail status sinkronisasi.
+ *
+ * Features:
+ * - Ringkasan: koneksi, sync terakhir, jumlah antrian per entity, data gagal/konflik
+ * - Daftar item di antrian beserta item yang sedang dikirim dan jadwal retry
+ * - Tombol sync sekarang untuk seluruh antrian atau per item
+ *
+ * Design Principles:
+ * - SRP: Component hanya untuk presentasi status sync
+ * - DIP: Menerima status dari useSyncStatus (lewat SyncStatusBadge)
+ *
+ * @returns {JSX.Element | null} Drawer status sinkronisasi
+ */
+export function SyncStatusDrawer({ isOpen, onClose, status }: SyncStatusDrawerProps) {
+  const { user } = useAuth();
+  const { showNotification } = useNotification();
+  const [syncingItemId, setSyncingItemId] = useState<number | null>(null);
+
+  const {
+    isOnline,
+    isSyncing,
+    pendingItems,
+    pendingByEntity,
+    activeItem,
+    lastSyncAt,
+    lastError,
+    failedCount,
+    conflictCount,
+  } = status;
+
+  const sinkronisasiRoute =
+    user?.role === 'ADMIN' ? ROUTES.ADMIN.SINKRONISASI : ROUTES.PETUGAS.SINKRONISASI;
+  const canSync = isOnline && !isSyncing;
+
+  // Handle ESC key
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEsc);
+    return () => document.removeEventListener('keydown', handleEsc);
+  }, [isOpen, onClose]);
+
+  /**
+   * Tampilkan hasil sync ke user
+   */
+  const notifyResult = (result: SyncRunResult) => {
+    if (result.status === 'failed') {
+      showNotification('error', result.error || 'Sinkronisasi gagal');
+    } else if (result.status === 'completed' && result.failedItems > 0) {
+      showNotification('warning', `${result.failedItems} data gagal dikirim, akan dicoba lagi`);
+    } else if (result.status === 'completed') {
+      showNotification('success', 'Sinkronisasi selesai');
+    } else {
+      showNotification('info', 'Sinkronisasi sedang berjalan, coba lagi sebentar');
+    }
+  };
+
+  const handleSyncNow = async () => {
+    notifyResult(await status.syncNow());
+  };
+
+  const handleSyncItem = async (item: SyncQueueDB) => {
+    if (!item.id) return;
+
+    setSyncingItemId(item.id);
+    notifyResult(await status.syncItem(item.id));
+    setSyncingItemId(null);
+  };
+
+  if (!isOpen) return null;
+
+  const drawerContent = (
+    <div
+      className="fixed inset-0 z-50 flex justify-end bg-black/50 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="sync-drawer-title"
+    >
+      <div className="bg-white w-full max-w-md h-full shadow-xl flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-neutral-200">
+          <h2 id="sync-drawer-title" className="text-xl font-semibold text-neutral-900">
+            Status Sinkronisasi
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-neutral-500 hover:text-neutral-900 hover:bg-neutral-100 rounded-lg transition-colors"
+            aria-label="Tutup panel"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Ringkasan */}
+          <dl className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-neutral-500">Koneksi</dt>
+              <dd className="font-medium text-neutral-900">{isOnline ? 'Online' : 'Offline'}</dd>
+            </div>
+            <div>
+              <dt className="text-neutral-500">Sync Terakhir</dt>
+              <dd className="font-medium text-neutral-900">
+                {lastSyncAt ? formatDateTime(lastSyncAt) : 'Belum pernah'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-neutral-500">Antrian Lansia</dt>
+              <dd className="font-medium text-neutral-900">{pendingByEntity.LANSIA}</dd>
+            </div>
+            <div>
+              <dt className="text-neutral-500">Antrian Pemeriksaan</dt>
+              <dd className="font-medium text-neutral-900">{pendingByEntity.PEMERIKSAAN}</dd>
+            </div>
+          </dl>
+
+          {lastError && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+              <p className="text-sm text-red-800">Sync terakhir gagal: {lastError}</p>
+            </div>
+          )}
+
+          {(failedCount > 0 || conflictCount > 0) && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4 space-y-2">
+              <p className="text-sm text-yellow-800">
+                {failedCount > 0 && `${failedCount} data gagal dikirim. `}
+                {conflictCount > 0 && `${conflictCount} data konflik perlu ditinjau.`}
+              </p>
+              <Link
+                href={sinkronisasiRoute}
+                onClick={onClose}
+                className="text-sm font-medium text-yellow-900 underline"
+              >
+                Buka halaman Sinkronisasi
+              </Link>
+            </div>
+          )}
+
+          <Button
+            variant="primary"
+            fullWidth
+            onClick={handleSyncNow}
+            isLoading={isSyncing}
+            disabled={!canSync}
+          >
+            {isOnline ? 'Sinkronkan Sekarang' : 'Menunggu Koneksi'}
+          </Button>
+
+          {/* Daftar antrian */}
+          <section>
+            <h3 className="text-sm font-semibold text-neutral-700 mb-3">
+              Antrian ({pendingItems.length})
+            </h3>
+
+            {pendingItems.length === 0 ? (
+              <p className="text-sm text-neutral-500">Semua data sudah tersinkron</p>
+            ) : (
+              <ul className="divide-y divide-neutral-200 border border-neutral-200 rounded-xl">
+                {pendingItems.map((item) => {
+                  const kode = getItemKode(item.data);
+                  const isActive = activeItem?.id === item.id;
+
+                  return (
+                    <li key={item.id} className="flex items-start justify-between gap-3 p-4">
+                      <div className="min-w-0 text-sm">
+                        <p className="font-medium text-neutral-900">
+                          {TYPE_LABELS[item.type]} {ENTITY_LABELS[item.entity]}
+                        </p>
+                        {kode && <p className="font-mono text-xs text-neutral-600">{kode}</p>}
+                        <p className="text-xs text-neutral-500">
+                          Dibuat {formatDateTime(item.createdAt)}
+                        </p>
+                        {isActive ? (
+                          <p className="text-xs text-blue-700">Sedang dikirim...</p>
+                        ) : (
+                          item.lastError && (
+                            <p className="text-xs text-red-700">
+                              Gagal {item.retryCount}x: {item.lastError}
+                              {item.nextAttemptAt &&
+                                ` (dicoba lagi ${formatDateTime(item.nextAttemptAt)})`}
+                            </p>
+                          )
+                        )}
+                      </div>
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => handleSyncItem(item)}
+                        isLoading={syncingItemId === item.id}
+                        disabled={!canSync}
+                      >
+                        Sync
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(drawerContent, document.body);
+}
@@ -0,0 +1,17 @@
+/**
+ * Sync Components Index
+ *
+ * Central export untuk semua komponen sinkronisasi offline.
+ */
+
+export { DeadLetterContent } from './DeadLetterContent';
+export { ConflictListContent } from './ConflictListContent';
+export { DatabaseDiagnosticsContent } from './DatabaseDiagnosticsContent';
+export { RetentionPolicyContent } from './RetentionPolicyContent';
+export { StorageWarningBanner } from './StorageWarningBanner';
+export { HandoverContent } from './HandoverContent';
+export { ConflictMergeModal } from './ConflictMergeModal';
+export type { ConflictMergeModalProps } from './ConflictMergeModal';
+export { SyncStatusBadge } from './SyncStatusBadge';
+export { SyncStatusDrawer } from './SyncStatusDrawer';
+export type { SyncStatusDrawerProps } from './SyncStatusDrawer';
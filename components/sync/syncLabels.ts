@@ -0,0 +1,28 @@
+/**
+ * Sync Labels
+ *
+ * Label tampilan untuk item sync queue dan dead-letter queue.
+ * Dipakai bersama oleh komponen sinkronisasi (DRY).
+ */
+
+import type { SyncQueueDB } from '@/lib/db';
+
+export const ENTITY_LABELS: Record<SyncQueueDB['entity'], string> = {
+  LANSIA: 'Lansia',
+  PEMERIKSAAN: 'Pemeriksaan',
+};
+
+export const TYPE_LABELS: Record<SyncQueueDB['type'], string> = {
+  CREATE: 'Tambah',
+  UPDATE: 'Ubah',
+  DELETE: 'Hapus',
+};
+
+/**
+ * Kode lansia yang dirujuk payload item (jika ada)
+ */
+export function getItemKode(data: unknown): string | undefined {
+  const payload = data as { kode?: unknown; localKode?: unknown } | null;
+  const kode = payload?.kode ?? payload?.localKode;
+  return typeof kode === 'string' ? kode : undefined;
+}
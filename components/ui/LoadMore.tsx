@@ -0,0 +1,81 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Button } from './Button';
+import { Loading } from './Loading';
+
+/**
+ * LoadMore Component
+ *
+ * Pemicu halaman berikutnya untuk daftar berhalaman (infinite scroll).
+ * Halaman berikutnya dimuat otomatis saat elemen ini terlihat di layar;
+ * tombol "Muat lebih banyak" tetap tersedia untuk keyboard/screen reader
+ * dan browser tanpa IntersectionObserver.
+ * Mengikuti prinsip SRP - hanya bertanggung jawab memicu onLoadMore.
+ */
+
+export interface LoadMoreProps {
+  /** Masih ada halaman berikutnya */
+  hasMore: boolean;
+  /** Halaman berikutnya sedang dimuat */
+  isLoading: boolean;
+  /** Callback untuk memuat halaman berikutnya */
+  onLoadMore: () => void;
+  /** Muat otomatis saat terlihat (default true) */
+  auto?: boolean;
+  /** Jarak sebelum elemen terlihat untuk mulai memuat */
+  rootMargin?: string;
+}
+
+export const LoadMore: React.FC<LoadMoreProps> = ({
+  hasMore,
+  isLoading,
+  onLoadMore,
+  auto = true,
+  rootMargin = '200px',
+}) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Simpan callback terbaru tanpa membuat ulang observer setiap render
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!auto || !hasMore || isLoading || !sentinel || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [auto, hasMore, isLoading, rootMargin]);
+
+  if (!hasMore) {
+    return null;
+  }
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4">
+      {isLoading ? (
+        <Loading variant="spinner" size="sm" text="Memuat data berikutnya..." />
+      ) : (
+        <Button variant="secondary" size="sm" onClick={onLoadMore}>
+          Muat lebih banyak
+        </Button>
+      )}
+    </div>
+  );
+};
+
+LoadMore.displayName = 'LoadMore';
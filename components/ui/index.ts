@@ -21,6 +21,10 @@ export type { CardProps, CardHeaderProps, CardBodyProps, CardFooterProps } from
 export { Loading, Skeleton } from './Loading';
 export type { LoadingProps, SkeletonProps } from './Loading';
 
+// LoadMore
+export { LoadMore } from './LoadMore';
+export type { LoadMoreProps } from './LoadMore';
+
 // Modal
 export { Modal, ModalFooter } from './Modal';
 export type { ModalProps, ModalFooterProps } from './Modal';
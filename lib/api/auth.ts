@@ -8,9 +8,17 @@
  * - ISP: Hanya expose method yang relevan untuk auth
  */
 
+import type { z } from 'zod';
 import { apiClient } from './client';
-import { setToken, removeToken } from '../utils/tokenStorage';
-import type { APIResponse, User } from '@/types';
+import { loginResponseSchema, refreshResponseSchema } from './schemas';
+import {
+  setToken,
+  removeToken,
+  getRefreshToken,
+  setRefreshToken,
+  removeRefreshToken,
+} from '../utils/tokenStorage';
+import type { APIResponse } from '@/types';
 
 /**
  * Interface untuk login request
@@ -21,11 +29,18 @@ interface LoginRequest {
 }
 
 /**
- * Interface untuk login response
+ * Type untuk login response
+ * refreshToken: token berumur panjang untuk memperbarui token akses (lihat refresh)
  */
-interface LoginResponse {
+type LoginResponse = z.infer<typeof loginResponseSchema>;
+
+/**
+ * Interface untuk refresh response
+ * refreshToken diisi jika server melakukan rotasi refresh token
+ */
+export interface RefreshResponse {
   token: string;
-  user: User;
+  refreshToken?: string;
 }
 
 /**
@@ -44,13 +59,16 @@ class AuthAPI {
           email,
           kataSandi: password,
         } as LoginRequest,
-        { skipAuth: true } // Skip auth untuk login
+        { skipAuth: true, schema: loginResponseSchema } // Skip auth untuk login
       );
 
       // Simpan token jika login berhasil
       if (response.data?.token) {
         setToken(response.data.token);
       }
+      if (response.data?.refreshToken) {
+        setRefreshToken(response.data.refreshToken);
+      }
 
       return response;
     } catch (error) {
@@ -62,15 +80,47 @@ class AuthAPI {
     }
   }
 
+  /**
+   * Perbarui token akses dengan refresh token
+   * POST /auth/refresh
+   *
+   * Token baru disimpan ke localStorage. Gunakan lewat tokenRefresher
+   * (single-flight), bukan langsung.
+   *
+   * @throws AuthenticationError jika refresh token tidak berlaku lagi
+   */
+  async refresh(refreshToken: string): Promise<APIResponse<RefreshResponse>> {
+    const response = await apiClient.post<RefreshResponse>(
+      '/auth/refresh',
+      { refreshToken },
+      { skipAuth: true, schema: refreshResponseSchema }
+    );
+
+    if (response.data?.token) {
+      setToken(response.data.token);
+    }
+    if (response.data?.refreshToken) {
+      setRefreshToken(response.data.refreshToken);
+    }
+
+    return response;
+  }
+
   /**
    * Logout user
    * POST /auth/logout
    */
   async logout(): Promise<APIResponse<void>> {
-    const response = await apiClient.post<void>('/auth/logout');
+    // Refresh token dikirim supaya server bisa mencabutnya
+    const refreshToken = getRefreshToken();
+    const response = await apiClient.post<void>(
+      '/auth/logout',
+      refreshToken ? { refreshToken } : undefined
+    );
 
     // Hapus token dari localStorage
     removeToken();
+    removeRefreshToken();
 
     return response;
   }
@@ -4,6 +4,24 @@
  * File ini berisi base API client yang digunakan oleh semua API endpoints.
  * Mengimplementasikan fetch wrapper dengan error handling dan timeout.
  *
+ * Header, logging, dan normalisasi error dikerjakan oleh pipeline interceptor
+ * (lihat interceptors.ts); feature code bisa menambah interceptor lewat
+ * `apiClient.use()` tanpa mengubah API class.
+ *
+ * Request yang ditolak 401 diteruskan ke unauthorized handler (refresh token
+ * atau login ulang, lihat tokenRefresh.ts) lalu dikirim ulang sekali dengan
+ * token baru. Client tidak melakukan redirect ke /login, supaya halaman (dan
+ * form yang sedang diisi) tidak hilang.
+ *
+ * Request idempotent (GET/DELETE, atau write dengan Idempotency-Key) dicoba ulang
+ * dengan backoff + jitter saat jaringan/timeout gagal atau server 429/502/503/504.
+ * GET identik yang sedang berjalan dipakai bersama. AbortSignal dari pemanggil
+ * digabung dengan timeout (abort pemanggil -> RequestCancelledError).
+ *
+ * Response divalidasi dengan schema Zod per endpoint (option `schema`, lihat
+ * schemas.ts): tanggal dan angka di-coerce, payload yang tidak sesuai ditolak
+ * dengan ValidationError.
+ *
  * Mengikuti prinsip:
  * - SRP: Hanya handle HTTP communication (token management di tokenStorage.ts)
  * - OCP: Mudah diperluas dengan method baru
@@ -12,80 +30,248 @@
  * - Security: No sensitive data logging in production
  */
 
+import type { z } from 'zod';
 import {
   AppError,
-  AuthenticationError,
-  AuthorizationError,
+  HTTPResponseError,
   NetworkError,
-  NotFoundError,
-  ServerError,
+  RequestCancelledError,
   TimeoutError,
-  ValidationError,
 } from '../utils/errors';
-import { getToken, removeToken } from '../utils/tokenStorage';
-import { API_REQUEST_TIMEOUT_MS } from '@/lib/constants';
+import { removeToken } from '../utils/tokenStorage';
+import { getBackoffDelay } from '../utils/backoff';
+import {
+  API_REQUEST_TIMEOUT_MS,
+  API_RETRY_ATTEMPTS,
+  API_RETRY_BASE_MS,
+  API_RETRY_MAX_MS,
+} from '@/lib/constants';
 import type { APIResponse } from '@/types';
 import { logger } from '../utils/logger';
+import {
+  authHeaderInterceptor,
+  errorNormalizationInterceptor,
+  idempotencyInterceptor,
+  offlineQueueInterceptor,
+  requestLoggingInterceptor,
+  responseValidationInterceptor,
+  type APIInterceptor,
+  type APIRequestContext,
+} from './interceptors';
 
 /**
  * Base URL dari environment variable
  */
 const BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://be-posyandu-digital.vercel.app';
 
+/**
+ * Target sync queue untuk request yang boleh ditahan saat offline
+ */
+export interface OfflineQueueTarget {
+  entity: 'LANSIA' | 'PEMERIKSAAN';
+  type: 'CREATE' | 'UPDATE' | 'DELETE';
+  /**
+   * Payload sync queue (default: body request). Dipakai saat payload queue
+   * butuh field lokal, mis. localId atau baseUpdatedAt.
+   */
+  data?: unknown;
+  /**
+   * Kode lansia yang belum ter-sync; request selalu masuk queue karena server
+   * belum mengenal kode tersebut
+   */
+  dependsOn?: string;
+}
+
 /**
  * Interface untuk request options
+ *
+ * T adalah type data response; diturunkan dari `schema` jika diisi.
  */
-interface RequestOptions extends RequestInit {
+export interface RequestOptions<T = unknown> extends RequestInit {
   timeout?: number;
   skipAuth?: boolean;
+  /**
+   * Dikirim sebagai header Idempotency-Key agar server bisa
+   * mengenali request yang di-replay (mis. retry dari sync queue)
+   */
+  idempotencyKey?: string;
+  /**
+   * Versi (updatedAt) yang menjadi dasar perubahan, dikirim sebagai header If-Match.
+   * Server menolak dengan 409/412 jika data sudah berubah sejak versi ini.
+   */
+  ifMatch?: string;
+  /**
+   * Jumlah percobaan ulang (default: API_RETRY_ATTEMPTS untuk request idempotent, 0 selain itu)
+   */
+  retries?: number;
+  /**
+   * Pakai bersama GET identik yang sedang berjalan (default: true)
+   */
+  dedupe?: boolean;
+  /**
+   * Saat offline, simpan request ini ke sync queue alih-alih dikirim
+   * (lihat offlineQueueInterceptor)
+   */
+  offlineQueue?: OfflineQueueTarget;
+  /**
+   * Schema response (lihat schemas.ts); data yang tidak sesuai ditolak dengan ValidationError
+   */
+  schema?: z.ZodType<T>;
 }
 
 /**
- * Build request headers with optional authentication
- * Extracted to reduce duplication across HTTP methods
+ * Handler untuk response 401 pada request yang memakai token
+ * Mengembalikan true jika token berhasil diperbarui (refresh atau login ulang)
+ * dan request boleh dikirim ulang.
  */
-function buildHeaders(skipAuth: boolean): Record<string, string> {
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
+export type UnauthorizedHandler = () => Promise<boolean>;
 
-  if (!skipAuth) {
-    const token = getToken();
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-  }
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+/**
+ * Options untuk request yang mengubah data (create/update/delete)
+ */
+export type WriteOptions = Pick<RequestOptions, 'idempotencyKey' | 'ifMatch' | 'offlineQueue'>;
 
-  return headers;
+/**
+ * Options untuk request baca yang bisa dibatalkan pemanggil
+ */
+export type ReadOptions = Pick<RequestOptions, 'signal'>;
+
+/**
+ * Status yang menandakan server sementara tidak tersedia (aman dicoba ulang)
+ */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * GET yang sedang berjalan (untuk de-duplikasi)
+ */
+interface InFlightGet {
+  promise: Promise<APIResponse<unknown>>;
+  controller: AbortController;
+  subscribers: number;
 }
 
+/**
+ * Interceptor bawaan, urutan dari paling luar
+ */
+const DEFAULT_INTERCEPTORS: APIInterceptor[] = [
+  errorNormalizationInterceptor,
+  requestLoggingInterceptor,
+  offlineQueueInterceptor,
+  responseValidationInterceptor,
+  authHeaderInterceptor,
+  idempotencyInterceptor,
+];
+
 /**
  * Create fetch request dengan timeout
+ *
+ * Signal pemanggil digabung dengan timeout: abort dari pemanggil menjadi
+ * RequestCancelledError, timeout menjadi TimeoutError, dan kegagalan
+ * jaringan lain menjadi NetworkError.
  */
 async function fetchWithTimeout(
   url: string,
   options: RequestOptions = {}
 ): Promise<Response> {
-  const { timeout = API_REQUEST_TIMEOUT_MS, ...fetchOptions } = options;
+  const { timeout = API_REQUEST_TIMEOUT_MS, signal, ...fetchOptions } = options;
+
+  if (signal?.aborted) {
+    throw new RequestCancelledError();
+  }
 
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  let isTimedOut = false;
+  const timeoutId = setTimeout(() => {
+    isTimedOut = true;
+    controller.abort();
+  }, timeout);
+  const handleAbort = () => controller.abort();
+  signal?.addEventListener('abort', handleAbort);
 
   try {
-    const response = await fetch(url, {
+    return await fetch(url, {
       ...fetchOptions,
       signal: controller.signal,
     });
-    clearTimeout(timeoutId);
-    return response;
   } catch (error) {
-    clearTimeout(timeoutId);
-
     if (error instanceof Error && error.name === 'AbortError') {
-      throw new TimeoutError();
+      throw isTimedOut ? new TimeoutError() : new RequestCancelledError();
     }
 
+    logger.warn('Network request failed', {
+      message: error instanceof Error ? error.message : String(error),
+    });
     throw new NetworkError();
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', handleAbort);
+  }
+}
+
+/**
+ * Tunggu sebelum percobaan ulang (berhenti jika pemanggil membatalkan)
+ */
+function waitForRetry(delayMs: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new RequestCancelledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+/**
+ * Delay percobaan ulang: Retry-After dari server jika ada, selain itu backoff + jitter
+ */
+function getRetryDelay(attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get('Retry-After'));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, API_RETRY_MAX_MS);
+  }
+  return getBackoffDelay(attempt, API_RETRY_BASE_MS, API_RETRY_MAX_MS);
+}
+
+/**
+ * Fetch dengan percobaan ulang untuk kegagalan sementara
+ *
+ * Error lain (4xx, 500) dan pembatalan tidak dicoba ulang.
+ */
+async function fetchWithRetry(
+  url: string,
+  options: RequestOptions,
+  retries: number
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetchWithTimeout(url, options);
+
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt > retries) {
+        return response;
+      }
+
+      logger.warn('Retrying API request', { status: response.status, attempt });
+      await waitForRetry(getRetryDelay(attempt, response), options.signal);
+    } catch (error) {
+      const isTransient = error instanceof NetworkError || error instanceof TimeoutError;
+      if (!isTransient || attempt > retries) {
+        throw error;
+      }
+
+      logger.warn('Retrying API request', { error: (error as Error).name, attempt });
+      await waitForRetry(getRetryDelay(attempt), options.signal);
+    }
   }
 }
 
@@ -98,6 +284,11 @@ async function handleResponse<T>(response: Response): Promise<APIResponse<T>> {
   try {
     data = await response.json();
   } catch {
+    // Response sukses tanpa body (mis. 204 No Content dari DELETE)
+    if (response.ok) {
+      return {};
+    }
+
     // Jika response bukan JSON, buat response object
     data = {
       error: response.statusText || 'Unknown error',
@@ -118,52 +309,159 @@ async function handleResponse<T>(response: Response): Promise<APIResponse<T>> {
     return data;
   }
 
-  // Handle error response berdasarkan status code
-  const errorMessage = data.error || 'Terjadi kesalahan';
+  // Error mentah; dinormalisasi menjadi error class aplikasi oleh interceptor
+  throw new HTTPResponseError(data.error || 'Terjadi kesalahan', response.status, data);
+}
+
+/**
+ * Options request tanpa field khusus APIClient (untuk fetch)
+ */
+function toFetchOptions(context: APIRequestContext): RequestOptions {
+  const fetchOptions: RequestOptions = {
+    ...context.options,
+    method: context.method,
+    headers: context.headers,
+    body: context.body ? JSON.stringify(context.body) : undefined,
+  };
+  delete fetchOptions.skipAuth;
+  delete fetchOptions.idempotencyKey;
+  delete fetchOptions.ifMatch;
+  delete fetchOptions.retries;
+  delete fetchOptions.dedupe;
+  delete fetchOptions.offlineQueue;
+  delete fetchOptions.schema;
+  return fetchOptions;
+}
 
-  // Log error for debugging (sanitized in production)
-  logger.error('API Error', { status: response.status, message: errorMessage });
+/**
+ * Kirim request (akhir pipeline interceptor)
+ *
+ * Kegagalan sementara dicoba ulang hanya untuk request idempotent, kecuali
+ * pemanggil menentukan `retries` sendiri.
+ */
+async function send(context: APIRequestContext): Promise<APIResponse<unknown>> {
+  const { method, options } = context;
+  const isIdempotent = method === 'GET' || method === 'DELETE' || !!options.idempotencyKey;
 
-  switch (response.status) {
-    case 400:
-      throw new ValidationError(errorMessage, data.details);
-    case 401:
-      // Clear token dan redirect ke login
-      removeToken();
-      if (typeof window !== 'undefined') {
-        window.location.href = '/login';
-      }
-      throw new AuthenticationError(errorMessage);
-    case 403:
-      throw new AuthorizationError(errorMessage);
-    case 404:
-      throw new NotFoundError(errorMessage);
-    case 500:
-    case 502:
-    case 503:
-      throw new ServerError(errorMessage);
-    default:
-      throw new AppError(errorMessage, response.status);
-  }
+  const response = await fetchWithRetry(
+    context.url,
+    toFetchOptions(context),
+    options.retries ?? (isIdempotent ? API_RETRY_ATTEMPTS : 0)
+  );
+
+  return handleResponse<unknown>(response);
+}
+
+/**
+ * Nilai query string endpoint (undefined, null, dan string kosong tidak dikirim)
+ */
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Tambahkan query string ke endpoint
+ *
+ * @example
+ * withQuery('/lansia', { limit: 50, q: 'siti' }) // '/lansia?limit=50&q=siti'
+ */
+export function withQuery(endpoint: string, params: QueryParams): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      search.set(key, String(value));
+    }
+  });
+
+  const query = search.toString();
+  return query ? `${endpoint}?${query}` : endpoint;
 }
 
 /**
  * Base API Client Class
  */
 class APIClient {
+  private unauthorizedHandler: UnauthorizedHandler | null = null;
+  private inFlightGets = new Map<string, InFlightGet>();
+  private interceptors: APIInterceptor[] = [];
+
+  constructor() {
+    DEFAULT_INTERCEPTORS.forEach((interceptor) => this.use(interceptor));
+  }
+
+  /**
+   * Daftarkan interceptor (dijalankan setelah interceptor yang sudah terdaftar)
+   *
+   * @returns Function untuk melepas interceptor
+   */
+  use(interceptor: APIInterceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter((item) => item !== interceptor);
+    };
+  }
+
+  /**
+   * Daftarkan handler untuk response 401 (dipanggil oleh tokenRefresh.ts)
+   */
+  setUnauthorizedHandler(handler: UnauthorizedHandler | null): void {
+    this.unauthorizedHandler = handler;
+  }
+
   /**
    * GET request
+   *
+   * GET identik (endpoint dan mode auth sama) yang masih berjalan memakai satu
+   * request. Pemanggil yang membatalkan hanya melepas langganannya; request
+   * dibatalkan setelah semua pemanggil membatalkan.
    */
-  async get<T>(endpoint: string, options: RequestOptions = {}): Promise<APIResponse<T>> {
-    const { skipAuth = false, ...restOptions } = options;
+  async get<T>(endpoint: string, options: RequestOptions<T> = {}): Promise<APIResponse<T>> {
+    const { dedupe = true, signal, ...sharedOptions } = options;
+    if (!dedupe) {
+      return this.request<T>('GET', endpoint, undefined, { ...sharedOptions, signal });
+    }
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
 
-    const response = await fetchWithTimeout(`${BASE_URL}${endpoint}`, {
-      method: 'GET',
-      headers: buildHeaders(skipAuth),
-      ...restOptions,
-    });
+    const key = `${sharedOptions.skipAuth ? 'public' : 'auth'} ${endpoint}`;
+    let entry = this.inFlightGets.get(key);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const promise = this.request<T>('GET', endpoint, undefined, {
+        ...sharedOptions,
+        signal: controller.signal,
+      }).finally(() => {
+        if (this.inFlightGets.get(key) === entry) {
+          this.inFlightGets.delete(key);
+        }
+      });
+      entry = { promise, controller, subscribers: 0 };
+      this.inFlightGets.set(key, entry);
+    }
+
+    const shared = entry;
+    shared.subscribers++;
 
-    return handleResponse<T>(response);
+    if (!signal) {
+      return shared.promise as Promise<APIResponse<T>>;
+    }
+
+    return new Promise<APIResponse<T>>((resolve, reject) => {
+      const handleAbort = () => {
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          shared.controller.abort();
+          this.inFlightGets.delete(key);
+        }
+        reject(new RequestCancelledError());
+      };
+      signal.addEventListener('abort', handleAbort, { once: true });
+
+      shared.promise.then(
+        (response) => resolve(response as APIResponse<T>),
+        reject
+      ).finally(() => signal.removeEventListener('abort', handleAbort));
+    });
   }
 
   /**
@@ -172,18 +470,9 @@ class APIClient {
   async post<T>(
     endpoint: string,
     body?: unknown,
-    options: RequestOptions = {}
+    options: RequestOptions<T> = {}
   ): Promise<APIResponse<T>> {
-    const { skipAuth = false, ...restOptions } = options;
-
-    const response = await fetchWithTimeout(`${BASE_URL}${endpoint}`, {
-      method: 'POST',
-      headers: buildHeaders(skipAuth),
-      body: body ? JSON.stringify(body) : undefined,
-      ...restOptions,
-    });
-
-    return handleResponse<T>(response);
+    return this.request<T>('POST', endpoint, body, options);
   }
 
   /**
@@ -192,33 +481,72 @@ class APIClient {
   async patch<T>(
     endpoint: string,
     body?: unknown,
-    options: RequestOptions = {}
+    options: RequestOptions<T> = {}
   ): Promise<APIResponse<T>> {
-    const { skipAuth = false, ...restOptions } = options;
+    return this.request<T>('PATCH', endpoint, body, options);
+  }
 
-    const response = await fetchWithTimeout(`${BASE_URL}${endpoint}`, {
-      method: 'PATCH',
-      headers: buildHeaders(skipAuth),
-      body: body ? JSON.stringify(body) : undefined,
-      ...restOptions,
-    });
+  /**
+   * DELETE request
+   */
+  async delete<T>(endpoint: string, options: RequestOptions<T> = {}): Promise<APIResponse<T>> {
+    return this.request<T>('DELETE', endpoint, undefined, options);
+  }
+
+  /**
+   * Kirim request lewat pipeline; response 401 memicu refresh token lalu request dikirim ulang sekali
+   *
+   * Request yang gagal 401 bersamaan menunggu refresh yang sama (single-flight
+   * di unauthorized handler), lalu masing-masing dikirim ulang dengan token baru
+   * dan Idempotency-Key yang sama. Jika sesi berakhir, handler menahan request
+   * sampai user login ulang.
+   *
+   * @private
+   */
+  private async request<T>(
+    method: HttpMethod,
+    endpoint: string,
+    body: unknown,
+    options: RequestOptions<T>,
+    isReplay: boolean = false
+  ): Promise<APIResponse<T>> {
+    const context: APIRequestContext = {
+      method,
+      endpoint,
+      url: `${BASE_URL}${endpoint}`,
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      options,
+      isReplay,
+    };
+
+    try {
+      return (await this.dispatch(context)) as APIResponse<T>;
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode === 401 && !options.skipAuth) {
+        if (!isReplay && this.unauthorizedHandler && (await this.unauthorizedHandler())) {
+          return this.request<T>(method, endpoint, body, options, true);
+        }
 
-    return handleResponse<T>(response);
+        // Sesi tidak bisa dipulihkan: token dihapus, caller menerima AuthenticationError
+        removeToken();
+      }
+      throw error;
+    }
   }
 
   /**
-   * DELETE request
+   * Jalankan rantai interceptor yang terdaftar saat request dimulai, lalu kirim
+   *
+   * @private
    */
-  async delete<T>(endpoint: string, options: RequestOptions = {}): Promise<APIResponse<T>> {
-    const { skipAuth = false, ...restOptions } = options;
+  private dispatch(context: APIRequestContext): Promise<APIResponse<unknown>> {
+    const chain = [...this.interceptors];
 
-    const response = await fetchWithTimeout(`${BASE_URL}${endpoint}`, {
-      method: 'DELETE',
-      headers: buildHeaders(skipAuth),
-      ...restOptions,
-    });
+    const run = (index: number) => (current: APIRequestContext): Promise<APIResponse<unknown>> =>
+      index < chain.length ? chain[index](current, run(index + 1)) : send(current);
 
-    return handleResponse<T>(response);
+    return run(0)(context);
   }
 }
 
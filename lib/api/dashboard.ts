@@ -9,26 +9,20 @@
  * - Performance: Single API call untuk multiple stats
  */
 
+import type { z } from 'zod';
 import { apiClient } from './client';
+import { dashboardStatsSchema, type trendDataItemSchema } from './schemas';
 import type { APIResponse } from '@/types';
 
 /**
- * Interface untuk trend data item
+ * Type untuk trend data item (jumlah pemeriksaan per tanggal)
  */
-export interface TrendDataItem {
-    tanggal: string;
-    jumlah: number;
-}
+export type TrendDataItem = z.infer<typeof trendDataItemSchema>;
 
 /**
- * Interface untuk dashboard statistics
+ * Type untuk dashboard statistics
  */
-export interface DashboardStats {
-    totalPetugasAktif: number;
-    totalLansia: number;
-    totalPemeriksaanHariIni: number;
-    trendData: TrendDataItem[];
-}
+export type DashboardStats = z.infer<typeof dashboardStatsSchema>;
 
 /**
  * Dashboard API Class
@@ -45,7 +39,7 @@ class DashboardAPI {
      * - trendData (7 hari terakhir)
      */
     async getStats(): Promise<APIResponse<DashboardStats>> {
-        return apiClient.get<DashboardStats>('/dashboard/stats');
+        return apiClient.get<DashboardStats>('/dashboard/stats', { schema: dashboardStatsSchema });
     }
 }
 
@@ -7,13 +7,57 @@
  * import { authAPI, lansiaAPI, pemeriksaanAPI, dashboardAPI } from '@/lib/api';
  */
 
-export { apiClient } from './client';
+export { apiClient, withQuery } from './client';
+export type {
+  HttpMethod,
+  OfflineQueueTarget,
+  QueryParams,
+  ReadOptions,
+  RequestOptions,
+  UnauthorizedHandler,
+  WriteOptions,
+} from './client';
+export {
+  authHeaderInterceptor,
+  createOfflineQueueInterceptor,
+  errorNormalizationInterceptor,
+  idempotencyInterceptor,
+  offlineQueueInterceptor,
+  requestLoggingInterceptor,
+  responseValidationInterceptor,
+} from './interceptors';
+export type {
+  APIInterceptor,
+  APIInterceptorNext,
+  APIRequestContext,
+  OfflineQueueInterceptorOptions,
+} from './interceptors';
+export {
+  dashboardStatsSchema,
+  lansiaPageSchema,
+  lansiaSchema,
+  loginResponseSchema,
+  minimalLansiaListSchema,
+  minimalLansiaSchema,
+  pemeriksaanListSchema,
+  pemeriksaanSchema,
+  petugasPageSchema,
+  petugasSchema,
+  refreshResponseSchema,
+  retentionPolicySchema,
+  userSchema,
+} from './schemas';
 export { authAPI } from './auth';
+export { tokenRefresher } from './tokenRefresh';
+export type { TokenRefreshedListener, SessionExpiredListener } from './tokenRefresh';
 export { dashboardAPI } from './dashboard';
+export type { DashboardStats, TrendDataItem } from './dashboard';
 export { lansiaAPI } from './lansia';
 export { pemeriksaanAPI } from './pemeriksaan';
 export { petugasAPI } from './petugas';
 export { profileAPI } from './profile';
+export { settingsAPI } from './settings';
+export type { RetentionPolicy } from './settings';
 
 // Re-export error classes untuk kemudahan
 export {
@@ -22,8 +66,11 @@ export {
   AuthenticationError,
   AuthorizationError,
   NotFoundError,
+  ConflictError,
   TimeoutError,
   ServerError,
   NetworkError,
+  RequestCancelledError,
+  HTTPResponseError,
   handleAPIError,
 } from '../utils/errors';
@@ -0,0 +1,253 @@
+/**
+ * API Interceptors
+ *
+ * File ini berisi pipeline interceptor untuk APIClient. Setiap request melewati
+ * rantai interceptor (urutan registrasi, yang pertama paling luar) sebelum
+ * dikirim, sehingga concern lintas endpoint (header, logging, offline, error)
+ * tidak perlu ditulis di setiap API class.
+ *
+ * Interceptor bawaan (didaftarkan oleh APIClient):
+ * 1. errorNormalizationInterceptor - status HTTP -> error class aplikasi
+ * 2. requestLoggingInterceptor - durasi dan hasil request
+ * 3. offlineQueueInterceptor - request write ditahan di sync queue saat offline
+ * 4. responseValidationInterceptor - validasi/coerce response dengan schema Zod
+ * 5. authHeaderInterceptor - header Authorization
+ * 6. idempotencyInterceptor - header Idempotency-Key dan If-Match
+ *
+ * Interceptor tambahan didaftarkan feature code lewat `apiClient.use()`.
+ *
+ * @example
+ * // Correlation ID untuk setiap request
+ * const eject = apiClient.use(async (context, next) => {
+ *   context.headers['X-Correlation-Id'] = crypto.randomUUID();
+ *   return next(context);
+ * });
+ *
+ * Mengikuti prinsip:
+ * - SRP: Satu interceptor untuk satu concern
+ * - OCP: Concern baru ditambah lewat registrasi, tanpa mengubah APIClient/API class
+ */
+
+import {
+  AppError,
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  HTTPResponseError,
+  NotFoundError,
+  ServerError,
+  ValidationError,
+} from '../utils/errors';
+import { getToken } from '../utils/tokenStorage';
+import { logger } from '../utils/logger';
+import { syncQueueRepository } from '../db';
+import type { APIResponse } from '@/types';
+import type { HttpMethod, OfflineQueueTarget, RequestOptions } from './client';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Request yang sedang diproses pipeline
+ * Interceptor boleh mengubah headers/body sebelum memanggil next.
+ */
+export interface APIRequestContext {
+  method: HttpMethod;
+  endpoint: string;
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+  options: RequestOptions;
+  /**
+   * true untuk request yang dikirim ulang setelah 401 (token baru)
+   */
+  isReplay: boolean;
+}
+
+/**
+ * Lanjutkan ke interceptor berikutnya (atau kirim request)
+ */
+export type APIInterceptorNext = (context: APIRequestContext) => Promise<APIResponse<unknown>>;
+
+/**
+ * Interceptor: panggil next untuk meneruskan request, atau kembalikan
+ * response sendiri untuk short-circuit. Error boleh ditangkap/diubah.
+ */
+export type APIInterceptor = (
+  context: APIRequestContext,
+  next: APIInterceptorNext
+) => Promise<APIResponse<unknown>>;
+
+// ============================================
+// Built-in Interceptors
+// ============================================
+
+/**
+ * Ubah error HTTP mentah menjadi error class aplikasi
+ *
+ * Error yang bukan AppError (mis. bug di interceptor lain) dibungkus sebagai
+ * AppError supaya caller selalu menerima satu jenis error.
+ */
+export const errorNormalizationInterceptor: APIInterceptor = async (context, next) => {
+  try {
+    return await next(context);
+  } catch (error) {
+    if (error instanceof HTTPResponseError) {
+      const { message, body } = error;
+      switch (error.statusCode) {
+        case 400:
+          throw new ValidationError(message, body.details);
+        case 401:
+          throw new AuthenticationError(message);
+        case 403:
+          throw new AuthorizationError(message);
+        case 404:
+          throw new NotFoundError(message);
+        case 409:
+        case 412:
+          throw new ConflictError(message, (body as { current?: unknown }).current);
+        case 500:
+        case 502:
+        case 503:
+          throw new ServerError(message);
+        default:
+          throw new AppError(message, error.statusCode);
+      }
+    }
+
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new AppError(error instanceof Error ? error.message : 'Terjadi kesalahan', 0);
+  }
+};
+
+/**
+ * Catat durasi dan hasil setiap request (disanitasi oleh logger)
+ */
+export const requestLoggingInterceptor: APIInterceptor = async (context, next) => {
+  const startedAt = Date.now();
+  const request = { method: context.method, endpoint: context.endpoint, replay: context.isReplay };
+
+  try {
+    const response = await next(context);
+    logger.debug('API Request', { ...request, durationMs: Date.now() - startedAt });
+    return response;
+  } catch (error) {
+    logger.error('API Error', {
+      ...request,
+      durationMs: Date.now() - startedAt,
+      status: error instanceof AppError ? error.statusCode : undefined,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+};
+
+/**
+ * Validasi data response dengan `options.schema` (jika ada)
+ *
+ * Data yang lolos diganti hasil parse (tanggal -> Date, angka -> number,
+ * field tak dikenal dibuang). Response tanpa data (204, queued) dilewati.
+ */
+export const responseValidationInterceptor: APIInterceptor = async (context, next) => {
+  const response = await next(context);
+  const { schema } = context.options;
+  if (!schema || response.data === undefined) {
+    return response;
+  }
+
+  const result = schema.safeParse(response.data);
+  if (!result.success) {
+    logger.warn('API response does not match schema', {
+      method: context.method,
+      endpoint: context.endpoint,
+      issues: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    });
+    throw new ValidationError('Format data dari server tidak valid', result.error.issues);
+  }
+
+  return { ...response, data: result.data };
+};
+
+/**
+ * Tambahkan token akses (dibaca ulang setiap request, termasuk replay setelah refresh)
+ */
+export const authHeaderInterceptor: APIInterceptor = async (context, next) => {
+  if (!context.options.skipAuth) {
+    const token = getToken();
+    if (token) {
+      context.headers['Authorization'] = `Bearer ${token}`;
+    }
+  }
+  return next(context);
+};
+
+/**
+ * Tambahkan header Idempotency-Key dan If-Match dari options request
+ */
+export const idempotencyInterceptor: APIInterceptor = async (context, next) => {
+  const { idempotencyKey, ifMatch } = context.options;
+
+  if (idempotencyKey) {
+    context.headers['Idempotency-Key'] = idempotencyKey;
+  }
+  if (ifMatch) {
+    context.headers['If-Match'] = `"${ifMatch}"`;
+  }
+  return next(context);
+};
+
+// ============================================
+// Offline Queue
+// ============================================
+
+/**
+ * Dependency untuk interceptor offline queue
+ */
+export interface OfflineQueueInterceptorOptions {
+  isOnline: () => boolean;
+  /**
+   * Simpan request ke sync queue (dikirim SyncManager saat online)
+   */
+  enqueue: (target: OfflineQueueTarget, data: unknown) => Promise<void>;
+}
+
+/**
+ * Buat interceptor yang menahan request write di sync queue saat offline
+ *
+ * Hanya berlaku untuk request dengan option `offlineQueue`; request tersebut
+ * tidak dikirim dan caller menerima `{ queued: true }`. Request yang bergantung
+ * pada lansia yang belum ter-sync (`dependsOn`) selalu masuk queue.
+ *
+ * @param options - Cek koneksi dan fungsi enqueue
+ */
+export function createOfflineQueueInterceptor({
+  isOnline,
+  enqueue,
+}: OfflineQueueInterceptorOptions): APIInterceptor {
+  return async (context, next) => {
+    const target = context.options.offlineQueue;
+    if (!target || (isOnline() && !target.dependsOn)) {
+      return next(context);
+    }
+
+    await enqueue(target, target.data ?? context.body);
+    logger.info('API request queued while offline', {
+      method: context.method,
+      endpoint: context.endpoint,
+    });
+    return { queued: true };
+  };
+}
+
+/**
+ * Interceptor offline queue bawaan (navigator.onLine + syncQueueRepository)
+ */
+export const offlineQueueInterceptor = createOfflineQueueInterceptor({
+  isOnline: () => typeof navigator === 'undefined' || navigator.onLine,
+  enqueue: async ({ entity, type, dependsOn }, data) => {
+    await syncQueueRepository.add({ entity, type, data, dependsOn });
+  },
+});
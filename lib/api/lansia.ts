@@ -8,8 +8,24 @@
  * - ISP: Hanya expose method yang relevan untuk lansia
  */
 
-import { apiClient } from './client';
-import type { APIResponse, Lansia, CreateLansiaData, MinimalLansia, Pemeriksaan } from '@/types';
+import { apiClient, withQuery, type ReadOptions, type WriteOptions } from './client';
+import {
+  lansiaPageSchema,
+  lansiaSchema,
+  minimalLansiaListSchema,
+  pemeriksaanListSchema,
+} from './schemas';
+import { LIST_PAGE_SIZE } from '@/lib/constants';
+import type {
+  APIResponse,
+  Lansia,
+  CreateLansiaData,
+  UpdateLansiaData,
+  LansiaListQuery,
+  MinimalLansia,
+  Page,
+  Pemeriksaan,
+} from '@/types';
 
 /**
  * Lansia API Class
@@ -18,17 +34,31 @@ class LansiaAPI {
   /**
    * Create lansia baru
    * POST /lansia
+   *
+   * @param options - idempotencyKey dari sync queue agar retry tidak membuat duplikat
    */
-  async create(data: CreateLansiaData): Promise<APIResponse<Lansia>> {
-    return apiClient.post<Lansia>('/lansia', data);
+  async create(data: CreateLansiaData, options: WriteOptions = {}): Promise<APIResponse<Lansia>> {
+    return apiClient.post<Lansia>('/lansia', data, { ...options, schema: lansiaSchema });
   }
 
   /**
-   * Get semua lansia
-   * GET /lansia
+   * Get satu halaman lansia dengan sort dan filter
+   * GET /lansia?limit=&cursor=&sort=&order=&gender=
+   *
+   * Halaman berikutnya diambil dengan `cursor: page.nextCursor` (null jika habis).
+   * Pencarian memakai find (POST /find).
+   *
+   * @param query - Cursor, urutan, dan filter (default LIST_PAGE_SIZE per halaman)
+   * @param options - signal untuk membatalkan request yang sudah tidak dipakai
    */
-  async getAll(): Promise<APIResponse<Lansia[]>> {
-    return apiClient.get<Lansia[]>('/lansia');
+  async list(
+    query: LansiaListQuery = {},
+    options: ReadOptions = {}
+  ): Promise<APIResponse<Page<Lansia>>> {
+    return apiClient.get<Page<Lansia>>(
+      withQuery('/lansia', { ...query, limit: query.limit ?? LIST_PAGE_SIZE }),
+      { ...options, schema: lansiaPageSchema }
+    );
   }
 
   /**
@@ -36,7 +66,29 @@ class LansiaAPI {
    * GET /lansia/:kode
    */
   async getByKode(kode: string): Promise<APIResponse<Lansia>> {
-    return apiClient.get<Lansia>(`/lansia/${kode}`);
+    return apiClient.get<Lansia>(`/lansia/${kode}`, { schema: lansiaSchema });
+  }
+
+  /**
+   * Update data lansia
+   * PATCH /lansia/:kode
+   *
+   * @param options - ifMatch (updatedAt dasar edit) untuk deteksi konflik
+   */
+  async update(
+    kode: string,
+    data: UpdateLansiaData,
+    options: WriteOptions = {}
+  ): Promise<APIResponse<Lansia>> {
+    return apiClient.patch<Lansia>(`/lansia/${kode}`, data, { ...options, schema: lansiaSchema });
+  }
+
+  /**
+   * Delete lansia
+   * DELETE /lansia/:kode
+   */
+  async delete(kode: string, options: WriteOptions = {}): Promise<APIResponse<void>> {
+    return apiClient.delete<void>(`/lansia/${kode}`, options);
   }
 
   /**
@@ -44,15 +96,23 @@ class LansiaAPI {
    * GET /lansia/:kode/pemeriksaan
    */
   async getPemeriksaan(kode: string): Promise<APIResponse<Pemeriksaan[]>> {
-    return apiClient.get<Pemeriksaan[]>(`/lansia/${kode}/pemeriksaan`);
+    return apiClient.get<Pemeriksaan[]>(`/lansia/${kode}/pemeriksaan`, {
+      schema: pemeriksaanListSchema,
+    });
   }
 
   /**
    * Find lansia (minimal data untuk search)
    * POST /find
+   *
+   * @param options - signal untuk membatalkan pencarian lama saat query berubah
    */
-  async find(query: string): Promise<APIResponse<MinimalLansia[]>> {
-    return apiClient.post<MinimalLansia[]>('/find', { query });
+  async find(query: string, options: ReadOptions = {}): Promise<APIResponse<MinimalLansia[]>> {
+    return apiClient.post<MinimalLansia[]>(
+      '/find',
+      { query },
+      { ...options, schema: minimalLansiaListSchema }
+    );
   }
 }
 
@@ -8,13 +8,15 @@
  * - ISP: Hanya expose method yang relevan untuk pemeriksaan
  */
 
-import { apiClient } from './client';
+import { apiClient, type WriteOptions } from './client';
+import { pemeriksaanSchema } from './schemas';
 import type {
   APIResponse,
   Pemeriksaan,
   PemeriksaanFisikData,
   PemeriksaanKesehatanData,
   PemeriksaanGabunganData,
+  UpdatePemeriksaanData,
 } from '@/types';
 
 /**
@@ -29,29 +31,69 @@ class PemeriksaanAPI {
     kode: string,
     data: PemeriksaanFisikData
   ): Promise<APIResponse<Pemeriksaan>> {
-    return apiClient.post<Pemeriksaan>(`/lansia/${kode}/pemeriksaan/fisik`, data);
+    return apiClient.post<Pemeriksaan>(`/lansia/${kode}/pemeriksaan/fisik`, data, {
+      schema: pemeriksaanSchema,
+    });
   }
 
   /**
    * Create pemeriksaan kesehatan
    * POST /lansia/:kode/pemeriksaan/kesehatan
+   *
+   * @param options - offlineQueue agar request ditahan di sync queue saat offline
    */
   async createKesehatan(
     kode: string,
-    data: PemeriksaanKesehatanData
+    data: PemeriksaanKesehatanData,
+    options: WriteOptions = {}
   ): Promise<APIResponse<Pemeriksaan>> {
-    return apiClient.post<Pemeriksaan>(`/lansia/${kode}/pemeriksaan/kesehatan`, data);
+    return apiClient.post<Pemeriksaan>(`/lansia/${kode}/pemeriksaan/kesehatan`, data, {
+      ...options,
+      schema: pemeriksaanSchema,
+    });
   }
 
   /**
    * Create pemeriksaan gabungan (fisik + kesehatan)
    * POST /lansia/:kode/pemeriksaan
+   *
+   * @param options - idempotencyKey dari sync queue agar retry tidak membuat duplikat
    */
   async createGabungan(
     kode: string,
-    data: PemeriksaanGabunganData
+    data: PemeriksaanGabunganData,
+    options: WriteOptions = {}
   ): Promise<APIResponse<Pemeriksaan>> {
-    return apiClient.post<Pemeriksaan>(`/lansia/${kode}/pemeriksaan`, data);
+    return apiClient.post<Pemeriksaan>(`/lansia/${kode}/pemeriksaan`, data, {
+      ...options,
+      schema: pemeriksaanSchema,
+    });
+  }
+
+  /**
+   * Update pemeriksaan (koreksi hasil pemeriksaan)
+   * PATCH /lansia/:kode/pemeriksaan/:id
+   *
+   * @param options - ifMatch (updatedAt dasar edit) untuk deteksi konflik
+   */
+  async update(
+    kode: string,
+    id: number,
+    data: UpdatePemeriksaanData,
+    options: WriteOptions = {}
+  ): Promise<APIResponse<Pemeriksaan>> {
+    return apiClient.patch<Pemeriksaan>(`/lansia/${kode}/pemeriksaan/${id}`, data, {
+      ...options,
+      schema: pemeriksaanSchema,
+    });
+  }
+
+  /**
+   * Delete pemeriksaan
+   * DELETE /lansia/:kode/pemeriksaan/:id
+   */
+  async delete(kode: string, id: number, options: WriteOptions = {}): Promise<APIResponse<void>> {
+    return apiClient.delete<void>(`/lansia/${kode}/pemeriksaan/${id}`, options);
   }
 }
 
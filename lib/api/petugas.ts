@@ -8,8 +8,17 @@
  * - ISP: Hanya expose method yang relevan untuk petugas
  */
 
-import { apiClient } from './client';
-import type { APIResponse, Petugas, CreatePetugasData, UpdateStatusPetugasData } from '@/types';
+import { apiClient, withQuery, type ReadOptions } from './client';
+import { petugasPageSchema, petugasSchema } from './schemas';
+import { LIST_PAGE_SIZE } from '@/lib/constants';
+import type {
+  APIResponse,
+  Page,
+  Petugas,
+  PetugasListQuery,
+  CreatePetugasData,
+  UpdateStatusPetugasData,
+} from '@/types';
 
 /**
  * Petugas API Class
@@ -20,15 +29,24 @@ class PetugasAPI {
    * POST /petugas
    */
   async create(data: CreatePetugasData): Promise<APIResponse<Petugas>> {
-    return apiClient.post<Petugas>('/petugas', data);
+    return apiClient.post<Petugas>('/petugas', data, { schema: petugasSchema });
   }
 
   /**
-   * Get semua petugas (Admin only)
-   * GET /petugas
+   * Get satu halaman petugas dengan sort dan filter (Admin only)
+   * GET /petugas?limit=&cursor=&sort=&order=&q=&aktif=
+   *
+   * @param query - Cursor, urutan, dan filter (default LIST_PAGE_SIZE per halaman)
+   * @param options - signal untuk membatalkan request yang sudah tidak dipakai
    */
-  async getAll(): Promise<APIResponse<Petugas[]>> {
-    return apiClient.get<Petugas[]>('/petugas');
+  async list(
+    query: PetugasListQuery = {},
+    options: ReadOptions = {}
+  ): Promise<APIResponse<Page<Petugas>>> {
+    return apiClient.get<Page<Petugas>>(
+      withQuery('/petugas', { ...query, limit: query.limit ?? LIST_PAGE_SIZE }),
+      { ...options, schema: petugasPageSchema }
+    );
   }
 
   /**
@@ -39,7 +57,7 @@ class PetugasAPI {
     id: number,
     data: UpdateStatusPetugasData
   ): Promise<APIResponse<Petugas>> {
-    return apiClient.patch<Petugas>(`/petugas/${id}/status`, data);
+    return apiClient.patch<Petugas>(`/petugas/${id}/status`, data, { schema: petugasSchema });
   }
 }
 
@@ -9,6 +9,7 @@
  */
 
 import { apiClient } from './client';
+import { userSchema } from './schemas';
 import type { APIResponse, User, UpdateNamaData, UpdatePasswordData } from '@/types';
 
 /**
@@ -20,7 +21,7 @@ class ProfileAPI {
    * GET /profile
    */
   async get(): Promise<APIResponse<User>> {
-    return apiClient.get<User>('/profile');
+    return apiClient.get<User>('/profile', { schema: userSchema });
   }
 
   /**
@@ -28,7 +29,7 @@ class ProfileAPI {
    * PATCH /profile/nama
    */
   async updateNama(data: UpdateNamaData): Promise<APIResponse<User>> {
-    return apiClient.patch<User>('/profile/nama', data);
+    return apiClient.patch<User>('/profile/nama', data, { schema: userSchema });
   }
 
   /**
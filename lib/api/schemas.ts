@@ -0,0 +1,205 @@
+/**
+ * API Response Schemas
+ *
+ * File ini berisi Zod schemas untuk response backend. Schema dipasang per
+ * endpoint (option `schema` di apiClient) dan divalidasi oleh
+ * responseValidationInterceptor, sehingga:
+ * - Tanggal (string ISO) sudah menjadi Date dan angka sudah menjadi number
+ *   sebelum sampai ke service/hook
+ * - Payload yang tidak sesuai ditolak dengan ValidationError, bukan
+ *   diteruskan diam-diam sebagai data rusak
+ *
+ * Type domain (Lansia, Pemeriksaan, Petugas, User, DashboardStats) diturunkan
+ * dari schema di sini, sehingga type dan validasi tidak bisa berbeda.
+ *
+ * Catatan: schema ini hanya memeriksa bentuk data dari server. Aturan input
+ * form (panjang NIK, rentang nilai, dst.) tetap di lib/utils/validators.ts.
+ *
+ * Mengikuti prinsip:
+ * - SSOT: Satu definisi untuk bentuk data dan type-nya
+ * - SRP: Hanya handle bentuk response backend
+ */
+
+import { z } from 'zod';
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Field opsional: null dari backend diperlakukan sama dengan tidak ada
+ *
+ * @private
+ */
+function nullToUndefined(value: unknown): unknown {
+  return value === null ? undefined : value;
+}
+
+/**
+ * Angka opsional (string numerik dari backend/Decimal ikut di-coerce)
+ */
+const optionalNumber = z.preprocess(nullToUndefined, z.coerce.number().optional());
+
+/**
+ * String opsional
+ */
+const optionalString = z.preprocess(nullToUndefined, z.string().optional());
+
+/**
+ * Tanggal opsional (string ISO -> Date)
+ */
+const optionalDate = z.preprocess(nullToUndefined, z.coerce.date().optional());
+
+/**
+ * Satu halaman hasil list (lihat Page di types)
+ *
+ * Backend yang belum mendukung paginasi mengirim array biasa; array tersebut
+ * diperlakukan sebagai satu halaman lengkap (nextCursor null).
+ */
+function pageSchema<T extends z.ZodType>(item: T) {
+  return z.preprocess(
+    (value) =>
+      Array.isArray(value) ? { items: value, nextCursor: null, total: value.length } : value,
+    z.object({
+      items: z.array(item),
+      nextCursor: z.preprocess((value) => value ?? null, z.string().nullable()),
+      total: z.coerce.number(),
+    })
+  );
+}
+
+// ============================================
+// User
+// ============================================
+
+export const userRoleSchema = z.enum(['ADMIN', 'PETUGAS']);
+
+export const userSchema = z.object({
+  id: z.coerce.number(),
+  nama: z.string(),
+  email: z.string(),
+  role: userRoleSchema,
+});
+
+// ============================================
+// Lansia
+// ============================================
+
+export const genderSchema = z.enum(['L', 'P']);
+
+export const lansiaSchema = z.object({
+  id: z.coerce.number(),
+  kode: z.string(),
+  nik: z.string(),
+  kk: z.string(),
+  nama: z.string(),
+  tanggalLahir: z.coerce.date(),
+  gender: genderSchema,
+  alamat: z.string(),
+  createdAt: z.coerce.date(),
+  updatedAt: optionalDate,
+});
+
+export const lansiaPageSchema = pageSchema(lansiaSchema);
+
+/**
+ * Lansia hasil pencarian (POST /find)
+ */
+export const minimalLansiaSchema = lansiaSchema.pick({
+  id: true,
+  kode: true,
+  nama: true,
+  tanggalLahir: true,
+  gender: true,
+});
+
+export const minimalLansiaListSchema = z.array(minimalLansiaSchema);
+
+// ============================================
+// Pemeriksaan
+// ============================================
+
+export const klasifikasiGulaDarahSchema = z.object({
+  gdp: optionalString,
+  gds: optionalString,
+  duaJpp: optionalString,
+});
+
+export const pemeriksaanSchema = z.object({
+  id: z.coerce.number(),
+  lansiaId: z.coerce.number(),
+  tanggal: z.coerce.date(),
+  tinggi: optionalNumber,
+  berat: optionalNumber,
+  bmi: optionalNumber,
+  kategoriBmi: optionalString,
+  sistolik: optionalNumber,
+  diastolik: optionalNumber,
+  tekananDarah: optionalString,
+  asamUrat: optionalNumber,
+  gulaPuasa: optionalNumber,
+  gulaSewaktu: optionalNumber,
+  gula2Jpp: optionalNumber,
+  klasifikasiGula: z.preprocess(nullToUndefined, klasifikasiGulaDarahSchema.optional()),
+  kolesterol: optionalNumber,
+  klasifikasiKolesterol: optionalString,
+  createdAt: z.coerce.date(),
+  updatedAt: optionalDate,
+});
+
+export const pemeriksaanListSchema = z.array(pemeriksaanSchema);
+
+// ============================================
+// Petugas
+// ============================================
+
+export const petugasSchema = z.object({
+  id: z.coerce.number(),
+  nama: z.string(),
+  email: z.string(),
+  aktif: z.boolean(),
+  createdAt: z.coerce.date(),
+});
+
+export const petugasPageSchema = pageSchema(petugasSchema);
+
+// ============================================
+// Auth
+// ============================================
+
+export const loginResponseSchema = z.object({
+  token: z.string(),
+  refreshToken: optionalString,
+  // Backend versi lama tidak mengirim email; AuthContext melengkapinya dari token
+  user: userSchema.extend({ email: z.string().default('') }),
+});
+
+export const refreshResponseSchema = z.object({
+  token: z.string().min(1),
+  refreshToken: optionalString,
+});
+
+// ============================================
+// Pengaturan
+// ============================================
+
+export const retentionPolicySchema = z.object({
+  retentionDays: z.coerce.number(),
+  allowKeepOnLogout: z.boolean(),
+});
+
+// ============================================
+// Dashboard
+// ============================================
+
+export const trendDataItemSchema = z.object({
+  tanggal: z.string(),
+  jumlah: z.coerce.number(),
+});
+
+export const dashboardStatsSchema = z.object({
+  totalPetugasAktif: z.coerce.number(),
+  totalLansia: z.coerce.number(),
+  totalPemeriksaanHariIni: z.coerce.number(),
+  trendData: z.array(trendDataItemSchema),
+});
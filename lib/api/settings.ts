@@ -0,0 +1,57 @@
+/**
+ * Settings API
+ *
+ * File ini berisi API endpoints untuk pengaturan aplikasi yang dikelola admin.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle settings-related endpoints
+ * - ISP: Hanya expose method yang relevan untuk pengaturan
+ */
+
+import { apiClient } from './client';
+import { retentionPolicySchema } from './schemas';
+import type { APIResponse } from '@/types';
+
+/**
+ * Interface untuk kebijakan retensi data lokal di perangkat
+ */
+export interface RetentionPolicy {
+  /**
+   * Data lokal user yang tidak login selama sekian hari dihapus dari perangkat
+   */
+  retentionDays: number;
+  /**
+   * Boleh tidaknya user menyimpan data lokal saat logout
+   */
+  allowKeepOnLogout: boolean;
+}
+
+/**
+ * Settings API Class
+ */
+class SettingsAPI {
+  /**
+   * Get kebijakan retensi data lokal
+   * GET /pengaturan/retensi-data
+   */
+  async getRetentionPolicy(): Promise<APIResponse<RetentionPolicy>> {
+    return apiClient.get<RetentionPolicy>('/pengaturan/retensi-data', {
+      schema: retentionPolicySchema,
+    });
+  }
+
+  /**
+   * Update kebijakan retensi data lokal (admin only)
+   * PATCH /pengaturan/retensi-data
+   */
+  async updateRetentionPolicy(data: RetentionPolicy): Promise<APIResponse<RetentionPolicy>> {
+    return apiClient.patch<RetentionPolicy>('/pengaturan/retensi-data', data, {
+      schema: retentionPolicySchema,
+    });
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const settingsAPI = new SettingsAPI();
@@ -0,0 +1,328 @@
+/**
+ * Token Refresh
+ *
+ * File ini berisi koordinasi refresh token akses (berlaku 15 menit) supaya
+ * sesi tidak berakhir di tengah pengisian form.
+ *
+ * - Proaktif: token diperbarui TOKEN_REFRESH_LEEWAY_MS sebelum `exp`
+ * - Reaktif: request yang ditolak 401 menunggu refresh lalu dikirim ulang
+ *   (didaftarkan sebagai unauthorized handler di apiClient)
+ * - Sesi berakhir: event session-expired dikirim dan request yang ditolak
+ *   menunggu user login ulang (modal di atas halaman), lalu dikirim ulang;
+ *   state form di halaman tetap utuh karena tidak ada navigasi. Penantian
+ *   dibatasi REAUTHENTICATION_WAIT_MS supaya request (mis. sync run yang
+ *   memegang lock antar tab) tidak tertahan tanpa batas
+ * - Single-flight: refresh yang diminta bersamaan memakai satu request;
+ *   antar tab dikoordinasikan dengan Web Locks supaya refresh token yang
+ *   dirotasi tidak dipakai dua kali
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle kapan dan bagaimana token diperbarui
+ * - DIP: APIClient hanya tahu UnauthorizedHandler, bukan class ini
+ */
+
+import { jwtDecode } from 'jwt-decode';
+import { apiClient } from './client';
+import { authAPI } from './auth';
+import { getRefreshToken, getToken, removeRefreshToken } from '../utils/tokenStorage';
+import { runWithLock } from '../utils/tabLock';
+import { AuthenticationError } from '../utils/errors';
+import {
+  REAUTHENTICATION_WAIT_MS,
+  TOKEN_REFRESH_LEEWAY_MS,
+  TOKEN_REFRESH_RETRY_MS,
+} from '@/lib/constants';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Dipanggil setelah token akses diperbarui (mis. untuk memperbarui cookie)
+ */
+export type TokenRefreshedListener = (token: string) => void;
+
+/**
+ * Dipanggil saat sesi tidak bisa diperbarui lagi (refresh token ditolak/tidak ada)
+ */
+export type SessionExpiredListener = () => void;
+
+/**
+ * Nama Web Lock untuk refresh token (dipakai bersama semua tab)
+ */
+const TOKEN_REFRESH_LOCK_NAME = 'posyandu-token-refresh';
+
+/**
+ * Waktu kedaluwarsa token dalam milidetik (null jika token tidak bisa dibaca)
+ *
+ * @private
+ */
+function getExpiresAt(token: string): number | null {
+  try {
+    return jwtDecode<{ exp: number }>(token).exp * 1000;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cek apakah token sudah/akan kedaluwarsa dalam masa leeway
+ *
+ * @private
+ */
+function isExpiringSoon(token: string): boolean {
+  const expiresAt = getExpiresAt(token);
+  return expiresAt === null || expiresAt - Date.now() <= TOKEN_REFRESH_LEEWAY_MS;
+}
+
+// ============================================
+// Token Refresher
+// ============================================
+
+class TokenRefresher {
+  private inFlight: Promise<string | null> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isStarted = false;
+  private refreshedListeners = new Set<TokenRefreshedListener>();
+  private expiredListeners = new Set<SessionExpiredListener>();
+  private reauthentication: {
+    promise: Promise<boolean>;
+    resolve: (isAuthenticated: boolean) => void;
+  } | null = null;
+
+  constructor() {
+    apiClient.setUnauthorizedHandler(async () => {
+      if ((await this.refresh()) !== null) {
+        return true;
+      }
+      // Tahan request sampai user login ulang (atau memilih logout)
+      return await this.waitForReauthentication();
+    });
+  }
+
+  /**
+   * Mulai refresh proaktif untuk token saat ini (dipanggil setelah login/restore)
+   */
+  start(): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    if (!this.isStarted) {
+      this.isStarted = true;
+      // Timer tertunda saat tab di background; cek ulang saat tab aktif lagi
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    this.schedule();
+  }
+
+  /**
+   * Hentikan refresh proaktif (logout)
+   */
+  stop(): void {
+    this.clearTimer();
+    if (this.isStarted) {
+      this.isStarted = false;
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  /**
+   * Perbarui token akses sekarang (single-flight)
+   *
+   * @returns Token baru, atau null jika sesi tidak bisa diperbarui
+   * @throws Error jika server tidak dapat dihubungi (sesi mungkin masih berlaku)
+   */
+  async refresh(): Promise<string | null> {
+    if (!this.inFlight) {
+      this.inFlight = this.doRefresh().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return await this.inFlight;
+  }
+
+  /**
+   * Subscribe ke event token diperbarui (di tab ini)
+   *
+   * @returns Function untuk unsubscribe
+   */
+  onRefreshed(listener: TokenRefreshedListener): () => void {
+    this.refreshedListeners.add(listener);
+    return () => {
+      this.refreshedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe ke event sesi berakhir (refresh tidak mungkin lagi)
+   *
+   * @returns Function untuk unsubscribe
+   */
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.expiredListeners.add(listener);
+    return () => {
+      this.expiredListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Cek apakah sesi berakhir dan masih menunggu login ulang
+   */
+  isAwaitingReauthentication(): boolean {
+    return this.reauthentication !== null;
+  }
+
+  /**
+   * Selesaikan penantian login ulang
+   *
+   * Dipanggil dengan true setelah token baru disimpan (request yang tertahan
+   * dikirim ulang), atau false saat user logout (request gagal dengan 401).
+   *
+   * @param isAuthenticated - Apakah user berhasil login ulang
+   */
+  completeReauthentication(isAuthenticated: boolean): void {
+    const pending = this.reauthentication;
+    this.reauthentication = null;
+    pending?.resolve(isAuthenticated);
+  }
+
+  /**
+   * Tunggu user login ulang, paling lama REAUTHENTICATION_WAIT_MS
+   *
+   * Setelah batas waktu request gagal dengan 401 (item sync tetap di antrian
+   * dan dicoba lagi), sementara modal login ulang tetap terbuka.
+   *
+   * @private
+   * @returns true jika user berhasil login ulang dalam batas waktu
+   */
+  private async waitForReauthentication(): Promise<boolean> {
+    if (!this.reauthentication) {
+      return false;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), REAUTHENTICATION_WAIT_MS);
+    });
+
+    try {
+      return await Promise.race([this.reauthentication.promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * @private
+   */
+  private async doRefresh(): Promise<string | null> {
+    const staleToken = getToken();
+
+    return await runWithLock(TOKEN_REFRESH_LOCK_NAME, async () => {
+      // Tab lain sudah memperbarui token selama menunggu lock
+      const current = getToken();
+      if (current && current !== staleToken && !isExpiringSoon(current)) {
+        this.handleRefreshed(current);
+        return current;
+      }
+
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) {
+        this.handleExpired();
+        return null;
+      }
+
+      try {
+        const response = await authAPI.refresh(refreshToken);
+        if (!response.data?.token) {
+          throw new AuthenticationError(response.error || 'Refresh token gagal');
+        }
+
+        console.log('[TokenRefresher] Access token refreshed');
+        this.handleRefreshed(response.data.token);
+        return response.data.token;
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.handleExpired();
+          return null;
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Jadwalkan refresh proaktif sebelum token kedaluwarsa
+   *
+   * @private
+   */
+  private schedule(delay?: number): void {
+    this.clearTimer();
+
+    const token = getToken();
+    const expiresAt = token ? getExpiresAt(token) : null;
+    if (!this.isStarted || expiresAt === null) {
+      return;
+    }
+
+    const wait = delay ?? Math.max(expiresAt - Date.now() - TOKEN_REFRESH_LEEWAY_MS, 0);
+    this.timer = setTimeout(() => {
+      this.refresh().catch((error) => {
+        // Mis. offline: coba lagi nanti, sesi lokal tetap berjalan
+        console.warn('[TokenRefresher] Proactive refresh failed, retrying:', error);
+        this.schedule(TOKEN_REFRESH_RETRY_MS);
+      });
+    }, wait);
+  }
+
+  /**
+   * @private
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * @private
+   */
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible') {
+      this.schedule();
+    }
+  };
+
+  /**
+   * @private
+   */
+  private handleRefreshed(token: string): void {
+    this.schedule();
+    this.refreshedListeners.forEach((listener) => listener(token));
+  }
+
+  /**
+   * @private
+   */
+  private handleExpired(): void {
+    // Hanya sesi yang sedang berjalan yang menunggu login ulang
+    // (bukan mis. token lama saat aplikasi dibuka atau request saat logout)
+    if (this.isStarted && !this.reauthentication) {
+      let resolve: (isAuthenticated: boolean) => void = () => {};
+      const promise = new Promise<boolean>((res) => {
+        resolve = res;
+      });
+      this.reauthentication = { promise, resolve };
+    }
+
+    this.stop();
+    removeRefreshToken();
+    this.expiredListeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const tokenRefresher = new TokenRefresher();
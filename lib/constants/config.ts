@@ -15,6 +15,46 @@
  */
 export const API_REQUEST_TIMEOUT_MS = 30_000;
 
+/**
+ * Default number of retries for idempotent API requests
+ * (GET/DELETE, or writes sent with an Idempotency-Key)
+ */
+export const API_RETRY_ATTEMPTS = 2;
+
+/**
+ * Base delay before retrying a failed API request (500 ms, doubled per attempt)
+ */
+export const API_RETRY_BASE_MS = 500;
+
+/**
+ * Upper bound for the delay between API retries, including Retry-After (5 seconds)
+ */
+export const API_RETRY_MAX_MS = 5_000;
+
+/**
+ * Refresh the access token this long before it expires (1 minute)
+ * Keeps the session alive while a form is being filled in
+ */
+export const TOKEN_REFRESH_LEEWAY_MS = 60_000;
+
+/**
+ * Delay before retrying a proactive token refresh that failed (30 seconds)
+ * e.g. the device was offline at the scheduled refresh time
+ */
+export const TOKEN_REFRESH_RETRY_MS = 30_000;
+
+/**
+ * Maximum time a request rejected with 401 waits for the user to log in again (2 minutes)
+ * After that it fails, so callers such as a sync run release their cross-tab lock
+ */
+export const REAUTHENTICATION_WAIT_MS = 120_000;
+
+/**
+ * Allowed clock difference when checking JWT exp/nbf (30 seconds)
+ * Device clocks at posyandu are not always synchronised with the server
+ */
+export const JWT_CLOCK_TOLERANCE_SECONDS = 30;
+
 /**
  * Health check timeout (5 seconds)
  * Shorter timeout for quick health verification
@@ -69,15 +109,91 @@ export const NOTIFICATION_DURATION_LONG_MS = 10_000;
 
 /**
  * Maximum retry attempts for sync queue items
- * After this, items are considered failed and removed
+ * After this, items are moved to the dead-letter queue for manual review
  */
 export const SYNC_MAX_RETRIES = 3;
 
 /**
  * Sync interval when online (5 minutes)
+ * Used by the sync scheduler between successful runs
  */
 export const SYNC_INTERVAL_MS = 5 * 60 * 1_000;
 
+/**
+ * Base delay for exponential backoff after a failed sync (30 seconds)
+ * Doubles on every consecutive failure: 30s, 1m, 2m, ...
+ */
+export const SYNC_BACKOFF_BASE_MS = 30_000;
+
+/**
+ * Upper bound for sync backoff delay (30 minutes)
+ */
+export const SYNC_BACKOFF_MAX_MS = 30 * 60 * 1_000;
+
+/**
+ * Minimum age of a lansia's local pemeriksaan history before it is pulled again (30 minutes)
+ * Keeps syncFromServer incremental instead of refetching every patient each run
+ */
+export const PEMERIKSAAN_PULL_INTERVAL_MS = 30 * 60 * 1_000;
+
+// ============================================
+// Pagination
+// ============================================
+
+/**
+ * Rows per page in list screens (lansia, petugas)
+ */
+export const LIST_PAGE_SIZE = 50;
+
+/**
+ * Rows per page when SyncManager pulls the full lansia table from the server
+ * Larger than LIST_PAGE_SIZE to keep the number of round trips low
+ */
+export const SYNC_PAGE_SIZE = 200;
+
+// ============================================
+// Local Data Retention
+// ============================================
+
+/**
+ * Default retention for another user's local data on a shared device (30 days)
+ * Used until the admin-configured policy has been fetched from the server
+ */
+export const LOCAL_DATA_RETENTION_DAYS = 30;
+
+/**
+ * Allowed range for the admin-configured retention period (days)
+ */
+export const LOCAL_DATA_RETENTION_LIMITS = { MIN: 1, MAX: 365 } as const;
+
+// ============================================
+// Storage Quota
+// ============================================
+
+/**
+ * Storage usage ratio (usage / quota) that triggers a warning to the petugas
+ */
+export const STORAGE_WARNING_RATIO = 0.8;
+
+/**
+ * Storage usage ratio at which writes are likely to fail
+ * Eviction runs immediately before the next write
+ */
+export const STORAGE_CRITICAL_RATIO = 0.95;
+
+/**
+ * Minimum interval between storage estimates before a write (1 minute)
+ * navigator.storage.estimate() is cheap but not free on every create
+ */
+export const STORAGE_CHECK_INTERVAL_MS = 60 * 1_000;
+
+/**
+ * Synced pemeriksaan older than this (days) are evicted from the device
+ * Configurable per deployment via NEXT_PUBLIC_PEMERIKSAAN_EVICTION_DAYS
+ */
+export const PEMERIKSAAN_EVICTION_DAYS =
+  Number(process.env.NEXT_PUBLIC_PEMERIKSAAN_EVICTION_DAYS) || 365;
+
 // ============================================
 // Console Formatting
 // ============================================
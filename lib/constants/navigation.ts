@@ -30,6 +30,7 @@ export const ROUTES = {
     LANSIA: '/admin/lansia',
     LANSIA_DETAIL: (kode: string) => `/admin/lansia/${kode}`,
     LANSIA_GRAFIK: (kode: string) => `/admin/lansia/${kode}/grafik`,
+    SINKRONISASI: '/admin/sinkronisasi',
     PROFIL: '/admin/profil',
   },
 
@@ -40,10 +41,12 @@ export const ROUTES = {
     LANSIA_TAMBAH: '/petugas/lansia/tambah',
     LANSIA_CARI: '/petugas/lansia/cari',
     LANSIA_DETAIL: (kode: string) => `/petugas/lansia/${kode}`,
+    LANSIA_EDIT: (kode: string) => `/petugas/lansia/${kode}/edit`,
     LANSIA_GRAFIK: (kode: string) => `/petugas/lansia/${kode}/grafik`,
     PEMERIKSAAN_TAMBAH: (kode: string) => `/petugas/lansia/${kode}/pemeriksaan/tambah`,
     PEMERIKSAAN_KESEHATAN_TAMBAH: (kode: string) => `/petugas/lansia/${kode}/pemeriksaan/kesehatan/tambah`,
     PEMERIKSAAN_RIWAYAT: (kode: string) => `/petugas/lansia/${kode}/pemeriksaan/riwayat`,
+    SINKRONISASI: '/petugas/sinkronisasi',
     PROFIL: '/petugas/profil',
   },
 } as const;
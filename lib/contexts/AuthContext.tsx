@@ -11,38 +11,62 @@
  */
 
 import React, { createContext, useCallback, useEffect, useState } from 'react';
-import { jwtDecode } from 'jwt-decode';
-import type { User, UserRole } from '@/types';
-import { authAPI } from '@/lib/api';
+import type { User } from '@/types';
+import { authAPI, tokenRefresher } from '@/lib/api';
 import { profileAPI } from '@/lib/api';
 import { setCookie, removeCookie } from '@/lib/utils/cookies';
-import { getToken, setToken as saveTokenToStorage, removeToken as removeTokenFromStorage } from '@/lib/utils/tokenStorage';
-import { AuthenticationError } from '@/lib/utils/errors';
+import {
+  getToken,
+  getRefreshToken,
+  setToken as saveTokenToStorage,
+  removeToken as removeTokenFromStorage,
+  removeRefreshToken,
+} from '@/lib/utils/tokenStorage';
+import { AuthenticationError, LocalKeyMismatchError, UnsyncedDataError } from '@/lib/utils/errors';
+import { verifyAuthToken } from '@/lib/utils/jwtVerifier';
+import {
+  changeLocalDataPassword,
+  lockLocalData,
+  restoreLocalData,
+  unlockLocalData,
+  wipeLocalData,
+  type LocalDataRecovery,
+} from '@/lib/services/localDataService';
 
 // ============================================
 // Types
 // ============================================
 
+export interface LoginOptions {
+  /**
+   * Pilihan user setelah login sebelumnya gagal dengan LocalKeyMismatchError
+   */
+  localDataRecovery?: LocalDataRecovery;
+}
+
+export interface LogoutOptions {
+  /**
+   * Hapus data lokal user dari perangkat (default: data disimpan untuk login berikutnya)
+   */
+  wipeLocalData?: boolean;
+}
+
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<User>;
-  logout: () => Promise<void>;
+  /**
+   * Sesi berakhir dan user harus login ulang (halaman tetap terbuka)
+   */
+  isSessionExpired: boolean;
+  login: (email: string, password: string, options?: LoginOptions) => Promise<User>;
+  reauthenticate: (password: string) => Promise<void>;
+  logout: (options?: LogoutOptions) => Promise<void>;
   updateNama: (nama: string) => Promise<void>;
   updatePassword: (oldPassword: string, newPassword: string) => Promise<void>;
   refreshUser: () => Promise<void>;
 }
 
-interface JWTPayload {
-  id: number;
-  email: string;
-  nama: string;
-  role: UserRole;
-  iat: number;
-  exp: number;
-}
-
 // ============================================
 // Context
 // ============================================
@@ -68,29 +92,26 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isSessionExpired, setIsSessionExpired] = useState(false);
 
   /**
-   * Decode JWT token untuk extract user info
+   * Verifikasi JWT token (signature, exp, issuer, audience) lalu extract user info
+   * Memakai verifier yang sama dengan middleware
    */
-  const decodeToken = useCallback((token: string): User | null => {
-    try {
-      const decoded = jwtDecode<JWTPayload>(token);
+  const decodeToken = useCallback(async (token: string): Promise<User | null> => {
+    const result = await verifyAuthToken(token);
 
-      // Check if token expired
-      const now = Math.floor(Date.now() / 1000);
-      if (decoded.exp < now) {
-        return null;
-      }
-
-      return {
-        id: decoded.id,
-        nama: decoded.nama,
-        email: decoded.email,
-        role: decoded.role,
-      };
-    } catch {
+    if (!result.ok) {
+      console.warn(`[Auth] Token rejected (${result.reason}):`, result.error);
       return null;
     }
+
+    return {
+      id: result.payload.id,
+      nama: result.payload.nama,
+      email: result.payload.email,
+      role: result.payload.role,
+    };
   }, []);
 
   /**
@@ -112,28 +133,59 @@ export function AuthProvider({ children }: AuthProviderProps) {
    * Remove token dari localStorage dan cookie
    */
   const clearToken = useCallback(() => {
+    tokenRefresher.stop();
+    // Request yang menunggu login ulang dihentikan (gagal dengan 401)
+    tokenRefresher.completeReauthentication(false);
     removeTokenFromStorage();
+    removeRefreshToken();
     removeCookie(TOKEN_COOKIE_NAME, { path: '/' });
   }, []);
 
+  /**
+   * Cookie middleware ikut diperbarui setiap token akses di-refresh
+   */
+  useEffect(() => {
+    return tokenRefresher.onRefreshed(saveToken);
+  }, [saveToken]);
+
+  /**
+   * Sesi berakhir: tampilkan modal login ulang alih-alih redirect ke /login
+   */
+  useEffect(() => {
+    return tokenRefresher.onSessionExpired(() => {
+      if (tokenRefresher.isAwaitingReauthentication()) {
+        setIsSessionExpired(true);
+      }
+    });
+  }, []);
+
   /**
    * Initialize auth state dari token yang ada
    */
   useEffect(() => {
-    const initAuth = () => {
+    const initAuth = async () => {
       try {
         const token = getToken();
+        let userData = token ? await decodeToken(token) : null;
 
-        if (token) {
-          const userData = decodeToken(token);
+        // Token akses kedaluwarsa/ditolak: coba perbarui dengan refresh token
+        if (token && !userData && getRefreshToken()) {
+          const refreshed = await tokenRefresher.refresh().catch(() => null);
+          if (refreshed) {
+            userData = await decodeToken(refreshed);
+          }
+        }
 
-          if (userData) {
+        if (token) {
+          if (userData && (await restoreLocalData(userData.id))) {
             setUser(userData);
-            // Ensure cookie is set
-            saveToken(token);
+            // Ensure cookie is set (token terbaru jika baru di-refresh)
+            saveToken(getToken() ?? token);
+            tokenRefresher.start();
           } else {
-            // Token expired atau invalid
+            // Token expired/invalid, atau key data lokal tidak tersedia (harus login ulang)
             clearToken();
+            await lockLocalData();
           }
         }
       } catch {
@@ -152,7 +204,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
    * FAIL FAST: Validate input immediately
    */
   const login = useCallback(
-    async (email: string, password: string): Promise<User> => {
+    async (email: string, password: string, options: LoginOptions = {}): Promise<User> => {
       // FAIL FAST: Validate input
       if (!email || email.trim().length === 0) {
         throw new AuthenticationError('Email tidak boleh kosong');
@@ -173,19 +225,28 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
         const { token, user: userData } = response.data;
 
+        // FAIL FAST: Token yang tidak lolos verifikasi akan ditolak middleware
+        const decodedUser = await decodeToken(token);
+        if (!decodedUser) {
+          throw new AuthenticationError('Token dari server tidak valid');
+        }
+
         // Ensure email is present - backend might not return it in user object
         // Fallback chain: API response -> JWT decode -> login input
         let completeUser: User = userData;
         if (!userData.email) {
-          const decodedUser = decodeToken(token);
           completeUser = {
             ...userData,
-            email: decodedUser?.email || email,
+            email: decodedUser.email || email,
           };
         }
 
-        // Save token
+        // Buka key enkripsi data lokal (diturunkan dari password)
+        await unlockLocalData(completeUser.id, password, options.localDataRecovery);
+
+        // Save token dan jadwalkan refresh sebelum kedaluwarsa
         saveToken(token);
+        tokenRefresher.start();
 
         // Set user state
         setUser(completeUser);
@@ -200,13 +261,81 @@ export function AuthProvider({ children }: AuthProviderProps) {
         setIsLoading(false);
       }
     },
-    [saveToken, clearToken]
+    [decodeToken, saveToken, clearToken]
+  );
+
+  /**
+   * Login ulang setelah sesi berakhir
+   *
+   * Berbeda dengan login: user state, halaman, dan form yang sedang diisi
+   * tidak disentuh (tanpa isLoading/redirect). Request yang tertahan
+   * dikirim ulang setelah token baru disimpan.
+   * FAIL FAST: Hanya boleh memakai akun yang sama
+   */
+  const reauthenticate = useCallback(
+    async (password: string) => {
+      if (!user) {
+        throw new AuthenticationError('User tidak ditemukan');
+      }
+
+      if (!password || password.length === 0) {
+        throw new AuthenticationError('Password tidak boleh kosong');
+      }
+
+      const response = await authAPI.login(user.email, password);
+
+      if (!response.data) {
+        throw new AuthenticationError(response.error || 'Login gagal');
+      }
+
+      const { token, user: userData } = response.data;
+      if (userData.id !== user.id) {
+        removeTokenFromStorage();
+        removeRefreshToken();
+        throw new AuthenticationError('Login ulang harus memakai akun yang sama');
+      }
+
+      // Pastikan key data lokal tetap terbuka. Key yang masih terkunci password lama
+      // (diganti di perangkat lain) hanya dipulihkan lewat halaman login.
+      try {
+        await unlockLocalData(user.id, password);
+      } catch (error) {
+        if (error instanceof LocalKeyMismatchError) {
+          throw new AuthenticationError(
+            'Data di perangkat ini terkunci dengan password lama. Logout lalu login kembali untuk memulihkannya.'
+          );
+        }
+        throw error;
+      }
+
+      saveToken(token);
+      tokenRefresher.start();
+      setIsSessionExpired(false);
+      tokenRefresher.completeReauthentication(true);
+    },
+    [user, saveToken]
   );
 
   /**
    * Logout function
+   * FAIL FAST: Wipe ditolak (dan user tetap login) jika masih ada data belum tersinkron
    */
-  const logout = useCallback(async () => {
+  const logout = useCallback(async (options: LogoutOptions = {}) => {
+    if (options.wipeLocalData && user) {
+      const result = await wipeLocalData(user.id);
+      if (!result.success) {
+        if (result.pendingCount > 0) {
+          throw new UnsyncedDataError(result.pendingCount);
+        }
+        throw new Error(result.error || 'Gagal menghapus data lokal');
+      }
+    }
+
+    // Request yang menunggu login ulang dihentikan, dan request logout ini
+    // tidak ikut menunggu login ulang jika tokennya ditolak
+    tokenRefresher.stop();
+    tokenRefresher.completeReauthentication(false);
+
     try {
       setIsLoading(true);
 
@@ -215,12 +344,14 @@ export function AuthProvider({ children }: AuthProviderProps) {
         // Silent fail for security
       });
     } finally {
-      // Clear token dan user state
+      // Clear token, key data lokal, dan user state
       clearToken();
+      await lockLocalData();
       setUser(null);
+      setIsSessionExpired(false);
       setIsLoading(false);
     }
-  }, [clearToken]);
+  }, [clearToken, user]);
 
   /**
    * Update nama user
@@ -286,10 +417,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
       if (!response.data) {
         throw new Error(response.error || 'Gagal update password');
       }
+
+      // Key data lokal di-wrap ulang dengan password baru
+      if (user) {
+        await changeLocalDataPassword(user.id, oldPassword, newPassword);
+      }
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [user]);
 
   /**
    * Refresh user data dari server
@@ -314,7 +450,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
     user,
     isAuthenticated: !!user,
     isLoading,
+    isSessionExpired,
     login,
+    reauthenticate,
     logout,
     updateNama,
     updatePassword,
@@ -0,0 +1,80 @@
+/**
+ * IndexedDB Diagnostics
+ *
+ * File ini berisi fungsi untuk membaca kondisi database lokal
+ * (versi schema, migration yang sudah diterapkan, jumlah row per table)
+ * untuk ditampilkan saat membantu kader memeriksa perangkatnya.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya membaca informasi diagnostik, tidak mengubah data
+ */
+
+import { db } from './schema';
+import { LATEST_DB_VERSION, MIGRATIONS } from './migrations';
+import { countPendingBackups } from './recovery';
+
+// ============================================
+// Types
+// ============================================
+
+export interface DatabaseDiagnostics {
+  name: string;
+  /**
+   * Versi schema yang dibutuhkan aplikasi
+   */
+  schemaVersion: number;
+  /**
+   * Versi database yang terpasang di perangkat (null jika gagal dibuka)
+   */
+  installedVersion: number | null;
+  tables: Array<{ name: string; count: number }>;
+  migrations: Array<{ version: number; description: string; applied: boolean }>;
+  /**
+   * Backup pemulihan yang belum dikembalikan ke database
+   */
+  pendingBackups: number;
+  openError?: string;
+}
+
+// ============================================
+// Diagnostics
+// ============================================
+
+/**
+ * Kumpulkan informasi diagnostik database lokal
+ *
+ * @returns Diagnostics (tidak throw; error open dicatat di openError)
+ */
+export async function getDatabaseDiagnostics(): Promise<DatabaseDiagnostics> {
+  let openError: string | undefined;
+
+  try {
+    await db.open();
+  } catch (error) {
+    openError = error instanceof Error ? error.message : String(error);
+  }
+
+  const installedVersion = db.isOpen() ? db.verno : null;
+
+  const tables = db.isOpen()
+    ? await Promise.all(
+        db.tables.map(async (table) => ({ name: table.name, count: await table.count() }))
+      )
+    : [];
+
+  const pendingBackups = await countPendingBackups().catch(() => 0);
+
+  return {
+    name: db.name,
+    schemaVersion: LATEST_DB_VERSION,
+    installedVersion,
+    tables,
+    migrations: MIGRATIONS.map(({ version, description }) => ({
+      version,
+      description,
+      applied: installedVersion !== null && version <= installedVersion,
+    })),
+    pendingBackups,
+    openError,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Field Cipher
+ *
+ * File ini berisi enkripsi field sensitif (PII) sebelum disimpan ke IndexedDB.
+ *
+ * - Field sensitif satu row dienkripsi bersama menjadi satu blob AES-GCM
+ *   (`encrypted`) dan dihapus dari row; field lain (id, kode, tanggal,
+ *   metadata sync) tetap plaintext supaya index dan logika sync tetap jalan.
+ * - Blind index (HMAC-SHA256) dipakai untuk lookup/pencarian tanpa menyimpan
+ *   nilai asli: nilai yang sama selalu menghasilkan token yang sama.
+ *
+ * Key dikelola oleh keyring.ts; class ini hanya memakai key yang diberikan.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle enkripsi/dekripsi dan pembuatan token
+ * - DIP: Key di-inject, tidak tahu dari mana key berasal
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Blob terenkripsi yang disimpan di row IndexedDB
+ */
+export interface EncryptedPayload {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+/**
+ * Row yang (mungkin) punya field terenkripsi
+ * Row lama yang belum dienkripsi tidak punya field `encrypted`.
+ */
+export interface EncryptedRecord {
+  encrypted?: EncryptedPayload;
+}
+
+/**
+ * Panjang token pencarian (n-gram)
+ */
+const SEARCH_TOKEN_LENGTH = 3;
+
+// ============================================
+// Serialization
+// ============================================
+
+/**
+ * JSON replacer yang mempertahankan tipe Date
+ *
+ * @private
+ */
+function replaceDates(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+
+/**
+ * JSON reviver pasangan replaceDates
+ *
+ * @private
+ */
+function reviveDates(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && '$date' in value) {
+    return new Date((value as { $date: string }).$date);
+  }
+  return value;
+}
+
+/**
+ * Ubah bytes menjadi hex string
+ *
+ * @private
+ */
+function toHex(buffer: ArrayBuffer, length: number): string {
+  return Array.from(new Uint8Array(buffer, 0, length))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Pecah nilai menjadi n-gram (lowercase) untuk token pencarian
+ *
+ * @param value - Nilai yang akan dipecah
+ * @returns Daftar n-gram unik (kosong jika nilai lebih pendek dari n)
+ */
+export function toSearchGrams(value: string): string[] {
+  const normalized = value.toLowerCase();
+  const grams = new Set<string>();
+
+  for (let i = 0; i + SEARCH_TOKEN_LENGTH <= normalized.length; i++) {
+    grams.add(normalized.slice(i, i + SEARCH_TOKEN_LENGTH));
+  }
+
+  return [...grams];
+}
+
+// ============================================
+// Field Cipher
+// ============================================
+
+export class FieldCipher {
+  private encoder = new TextEncoder();
+  private decoder = new TextDecoder();
+
+  /**
+   * @param dataKey - AES-GCM key untuk enkripsi field
+   * @param indexKey - HMAC key untuk blind index
+   */
+  constructor(
+    private dataKey: CryptoKey,
+    private indexKey: CryptoKey
+  ) {}
+
+  /**
+   * Enkripsi field sensitif satu row
+   *
+   * @param record - Row plaintext
+   * @param fields - Field yang dienkripsi (field undefined dilewati)
+   * @returns Row tanpa field sensitif, dengan blob `encrypted`
+   */
+  async encrypt<T extends object>(
+    record: T,
+    fields: readonly (keyof T)[]
+  ): Promise<T & EncryptedRecord> {
+    const stored = { ...record } as Record<string, unknown>;
+    const secret: Record<string, unknown> = {};
+
+    for (const field of fields) {
+      const name = field as string;
+      if (stored[name] !== undefined) {
+        secret[name] = stored[name];
+      }
+      delete stored[name];
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.dataKey,
+      this.encoder.encode(JSON.stringify(secret, replaceDates))
+    );
+
+    return { ...(stored as T), encrypted: { iv, data } };
+  }
+
+  /**
+   * Dekripsi row yang disimpan oleh encrypt()
+   * Row tanpa blob `encrypted` (data lama) dikembalikan apa adanya.
+   *
+   * @param record - Row dari IndexedDB
+   * @returns Row plaintext
+   * @throws Error jika key tidak cocok atau data rusak
+   */
+  async decrypt<T extends object>(record: T & EncryptedRecord): Promise<T> {
+    if (!record.encrypted) {
+      return record;
+    }
+
+    const { encrypted, ...rest } = record;
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: encrypted.iv },
+      this.dataKey,
+      encrypted.data
+    );
+    const secret = JSON.parse(this.decoder.decode(plaintext), reviveDates);
+
+    return { ...(rest as T), ...secret };
+  }
+
+  /**
+   * Blind index untuk lookup exact match (mis. NIK)
+   *
+   * @param value - Nilai plaintext
+   * @returns HMAC hex string
+   */
+  async blindIndex(value: string): Promise<string> {
+    const signature = await crypto.subtle.sign('HMAC', this.indexKey, this.encoder.encode(value));
+    return toHex(signature, 32);
+  }
+
+  /**
+   * Token pencarian substring: HMAC dari setiap n-gram nilai
+   *
+   * Token dipotong 8 byte; kecocokan token hanya kandidat dan
+   * tetap harus diverifikasi setelah row didekripsi.
+   *
+   * @param values - Nilai plaintext yang bisa dicari
+   * @returns Daftar token unik
+   */
+  async searchTokens(values: string[]): Promise<string[]> {
+    const grams = [...new Set(values.flatMap(toSearchGrams))];
+
+    return await Promise.all(
+      grams.map(async (gram) => {
+        const signature = await crypto.subtle.sign(
+          'HMAC',
+          this.indexKey,
+          this.encoder.encode(gram)
+        );
+        return toHex(signature, 8);
+      })
+    );
+  }
+}
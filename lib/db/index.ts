@@ -8,12 +8,71 @@
  */
 
 // Export database instance dan types
-export { db } from './schema';
-export type { LansiaDB, PemeriksaanDB, SyncQueueDB } from './schema';
+export {
+  db,
+  DB_NAME,
+  getUserDatabaseName,
+  getActiveDatabaseUser,
+  setActiveDatabaseUser,
+} from './schema';
+export type {
+  LansiaDB,
+  PemeriksaanDB,
+  SyncQueueDB,
+  DeadLetterDB,
+  ConflictDB,
+  LansiaCreatePayload,
+  LansiaUpdatePayload,
+  LansiaDeletePayload,
+  PemeriksaanCreatePayload,
+  PemeriksaanUpdatePayload,
+  PemeriksaanDeletePayload,
+} from './schema';
 
 // Export repositories
 export { lansiaRepository } from './repositories/lansiaRepository';
 export { pemeriksaanRepository } from './repositories/pemeriksaanRepository';
 export { syncQueueRepository } from './repositories/syncQueueRepository';
+export { deadLetterRepository } from './repositories/deadLetterRepository';
+export { idRemapRepository } from './repositories/idRemapRepository';
+export { conflictRepository } from './repositories/conflictRepository';
+export { handoverRepository } from './repositories/handoverRepository';
+export type {
+  HandoverData,
+  HandoverPemeriksaan,
+  HandoverImportResult,
+} from './repositories/handoverRepository';
 export { BaseRepository } from './repositories/BaseRepository';
 export type { BaseEntity } from './repositories/BaseRepository';
+
+// Export enkripsi data lokal
+export { keyring } from './keyring';
+export type { UnlockStatus, DeviceUser } from './keyring';
+export { FieldCipher } from './fieldCipher';
+export type { EncryptedPayload, EncryptedRecord } from './fieldCipher';
+
+// Export database per user
+export {
+  countPendingItems,
+  countUserPendingItems,
+  deleteUserDatabase,
+  adoptLegacyDatabase,
+} from './userDatabases';
+
+// Export storage manager (kuota dan eviction)
+export { storageManager } from './storageManager';
+export type { StorageStatus, StoragePressure, StorageStatusListener } from './storageManager';
+
+// Export migrations, recovery, dan diagnostics
+export { MIGRATIONS, LATEST_DB_VERSION } from './migrations';
+export type { Migration } from './migrations';
+export {
+  openDatabase,
+  resetDatabase,
+  backupPendingData,
+  getPendingBackup,
+  countPendingBackups,
+} from './recovery';
+export type { RecoveryBackupDB, DatabaseOpenResult, ResetDatabaseResult } from './recovery';
+export { getDatabaseDiagnostics } from './diagnostics';
+export type { DatabaseDiagnostics } from './diagnostics';
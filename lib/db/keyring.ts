@@ -0,0 +1,436 @@
+/**
+ * IndexedDB Keyring
+ *
+ * File ini berisi pengelolaan key untuk enkripsi data lokal (lihat fieldCipher.ts).
+ *
+ * Skema key:
+ * - Setiap user punya data key (AES-GCM) dan index key (HMAC) acak
+ * - Kedua key disimpan ter-wrap (AES-KW) dengan key yang diturunkan dari
+ *   password login (PBKDF2), sehingga tidak bisa dibuka tanpa login ulang
+ * - Setelah login, key aktif disimpan sebagai CryptoKey non-extractable
+ *   di record sesi supaya reload halaman tidak meminta login ulang
+ * - Logout menghapus record sesi dan key di memory
+ *
+ * Key disimpan di database terpisah supaya reset database data (recovery.ts)
+ * tidak menghapus key. Entry keyring sekaligus menjadi daftar user yang punya
+ * data lokal di perangkat ini (dipakai kebijakan retensi).
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle derivasi, penyimpanan, dan siklus hidup key
+ * - Fail Safe: Tanpa key, repository menolak baca/tulis (tidak fallback ke plaintext)
+ */
+
+import Dexie, { type EntityTable } from 'dexie';
+import { EncryptionLockedError, LocalKeyMismatchError } from '@/lib/utils/errors';
+import { DB_NAME } from './schema';
+import { FieldCipher } from './fieldCipher';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Key per user yang ter-wrap dengan password
+ */
+interface KeyringEntryDB {
+  userId: number;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  wrappedDataKey: ArrayBuffer;
+  wrappedIndexKey: ArrayBuffer;
+  createdAt: Date;
+  updatedAt?: Date;
+  /**
+   * Terakhir login/logout di perangkat ini
+   */
+  lastActiveAt?: Date;
+}
+
+/**
+ * User yang punya data lokal di perangkat ini
+ */
+export interface DeviceUser {
+  userId: number;
+  lastActiveAt: Date;
+}
+
+/**
+ * Sesi aktif (hanya satu per perangkat)
+ */
+interface KeySessionDB {
+  id: 'current';
+  userId: number;
+  dataKey: CryptoKey;
+  indexKey: CryptoKey;
+  unlockedAt: Date;
+}
+
+/**
+ * Hasil unlock
+ * - unlocked: key lama berhasil dibuka
+ * - created: user baru di perangkat ini (atau datanya sudah dihapus), key dibuat
+ *
+ * Key lama yang tidak bisa dibuka (password diganti di perangkat lain) tidak
+ * pernah diganti diam-diam; unlock gagal dengan LocalKeyMismatchError.
+ */
+export type UnlockStatus = 'unlocked' | 'created';
+
+/**
+ * Iterasi PBKDF2 (rekomendasi OWASP untuk PBKDF2-HMAC-SHA256)
+ */
+const KEY_DERIVATION_ITERATIONS = 600_000;
+
+const DATA_KEY_ALGORITHM: AesKeyGenParams = { name: 'AES-GCM', length: 256 };
+const INDEX_KEY_ALGORITHM: HmacKeyGenParams = { name: 'HMAC', hash: 'SHA-256', length: 256 };
+
+// ============================================
+// Keyring Database
+// ============================================
+
+/**
+ * Database terpisah untuk key (schema tidak pernah berubah)
+ */
+class KeyringDatabase extends Dexie {
+  keyring!: EntityTable<KeyringEntryDB, 'userId'>;
+  sessions!: EntityTable<KeySessionDB, 'id'>;
+
+  constructor() {
+    super(`${DB_NAME}_keys`);
+
+    this.version(1).stores({
+      keyring: 'userId',
+      sessions: 'id',
+    });
+  }
+}
+
+const keyringDb = new KeyringDatabase();
+
+// ============================================
+// Key Derivation
+// ============================================
+
+/**
+ * Turunkan key-encryption key dari password
+ *
+ * @private
+ */
+async function deriveWrappingKey(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+/**
+ * Buka key yang ter-wrap menjadi CryptoKey non-extractable
+ *
+ * @private
+ * @throws DOMException (OperationError) jika wrapping key salah
+ */
+async function unwrapKeys(
+  entry: KeyringEntryDB,
+  wrappingKey: CryptoKey
+): Promise<{ dataKey: CryptoKey; indexKey: CryptoKey }> {
+  const dataKey = await crypto.subtle.unwrapKey(
+    'raw',
+    entry.wrappedDataKey,
+    wrappingKey,
+    'AES-KW',
+    DATA_KEY_ALGORITHM,
+    false,
+    ['encrypt', 'decrypt']
+  );
+  const indexKey = await crypto.subtle.unwrapKey(
+    'raw',
+    entry.wrappedIndexKey,
+    wrappingKey,
+    'AES-KW',
+    INDEX_KEY_ALGORITHM,
+    false,
+    ['sign']
+  );
+
+  return { dataKey, indexKey };
+}
+
+/**
+ * Wrap key mentah dengan password (salt baru)
+ *
+ * @private
+ * @returns Entry keyring dan wrapping key-nya (untuk unwrap tanpa derivasi ulang)
+ */
+async function wrapKeys(
+  userId: number,
+  password: string,
+  rawDataKey: CryptoKey,
+  rawIndexKey: CryptoKey
+): Promise<{ entry: KeyringEntryDB; wrappingKey: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const wrappingKey = await deriveWrappingKey(password, salt, KEY_DERIVATION_ITERATIONS);
+
+  const entry: KeyringEntryDB = {
+    userId,
+    salt,
+    iterations: KEY_DERIVATION_ITERATIONS,
+    wrappedDataKey: await crypto.subtle.wrapKey('raw', rawDataKey, wrappingKey, 'AES-KW'),
+    wrappedIndexKey: await crypto.subtle.wrapKey('raw', rawIndexKey, wrappingKey, 'AES-KW'),
+    createdAt: new Date(),
+  };
+
+  return { entry, wrappingKey };
+}
+
+/**
+ * Cek apakah WebCrypto tersedia (hanya di secure context: https/localhost)
+ *
+ * @private
+ */
+function assertCryptoAvailable(): void {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Browser tidak mendukung enkripsi data lokal (WebCrypto)');
+  }
+}
+
+// ============================================
+// Keyring
+// ============================================
+
+class Keyring {
+  private cipher: FieldCipher | null = null;
+  private userId: number | null = null;
+  private pending: Promise<unknown> | null = null;
+
+  /**
+   * Buka (atau buat) key user dengan password login
+   *
+   * @param userId - ID user yang login
+   * @param password - Password login
+   * @returns Status unlock
+   * @throws LocalKeyMismatchError jika key tersimpan tidak bisa dibuka dengan password ini
+   */
+  async unlock(userId: number, password: string): Promise<UnlockStatus> {
+    return await this.track(this.doUnlock(userId, password));
+  }
+
+  /**
+   * Pulihkan sesi key setelah reload halaman
+   *
+   * @param userId - ID user dari token yang masih berlaku
+   * @returns false jika tidak ada sesi key untuk user ini (harus login ulang)
+   */
+  async restoreSession(userId: number): Promise<boolean> {
+    if (this.cipher && this.userId === userId) {
+      return true;
+    }
+
+    await this.track(this.loadSession());
+    return this.cipher !== null && this.userId === userId;
+  }
+
+  /**
+   * Wrap ulang key user setelah password diganti
+   *
+   * @param userId - ID user
+   * @param oldPassword - Password lama
+   * @param newPassword - Password baru
+   */
+  async rewrap(userId: number, oldPassword: string, newPassword: string): Promise<void> {
+    assertCryptoAvailable();
+
+    const entry = await keyringDb.keyring.get(userId);
+    if (!entry) {
+      return;
+    }
+
+    const oldWrappingKey = await deriveWrappingKey(oldPassword, entry.salt, entry.iterations);
+    const rawDataKey = await crypto.subtle.unwrapKey(
+      'raw',
+      entry.wrappedDataKey,
+      oldWrappingKey,
+      'AES-KW',
+      DATA_KEY_ALGORITHM,
+      true,
+      ['encrypt', 'decrypt']
+    );
+    const rawIndexKey = await crypto.subtle.unwrapKey(
+      'raw',
+      entry.wrappedIndexKey,
+      oldWrappingKey,
+      'AES-KW',
+      INDEX_KEY_ALGORITHM,
+      true,
+      ['sign']
+    );
+
+    const rewrapped = await wrapKeys(userId, newPassword, rawDataKey, rawIndexKey);
+    await keyringDb.keyring.put({
+      ...rewrapped.entry,
+      createdAt: entry.createdAt,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Hapus key dari memory dan sesi (logout)
+   * Key ter-wrap tetap disimpan supaya user yang sama bisa membuka datanya lagi.
+   */
+  async lock(): Promise<void> {
+    const userId = this.userId;
+    this.cipher = null;
+    this.userId = null;
+    await keyringDb.sessions.clear();
+
+    if (userId !== null) {
+      await keyringDb.keyring.update(userId, { lastActiveAt: new Date() });
+    }
+  }
+
+  /**
+   * Daftar user yang punya key (dan data lokal) di perangkat ini
+   */
+  async listDeviceUsers(): Promise<DeviceUser[]> {
+    const entries = await keyringDb.keyring.toArray();
+    return entries.map((entry) => ({
+      userId: entry.userId,
+      lastActiveAt: entry.lastActiveAt ?? entry.updatedAt ?? entry.createdAt,
+    }));
+  }
+
+  /**
+   * Hapus key user dari perangkat (setelah datanya dihapus)
+   *
+   * @param userId - ID user
+   */
+  async forget(userId: number): Promise<void> {
+    if (this.userId === userId) {
+      await this.lock();
+    }
+    await keyringDb.keyring.delete(userId);
+  }
+
+  /**
+   * Apakah key sudah terbuka
+   */
+  isUnlocked(): boolean {
+    return this.cipher !== null;
+  }
+
+  /**
+   * Cipher aktif untuk repository
+   *
+   * Menunggu unlock/restore yang sedang berjalan, lalu mencoba memulihkan
+   * sesi yang tersimpan (mis. sync berjalan sebelum AuthProvider selesai init).
+   *
+   * @throws EncryptionLockedError jika tidak ada sesi key
+   */
+  async getCipher(): Promise<FieldCipher> {
+    if (this.pending) {
+      await this.pending.catch(() => undefined);
+    }
+
+    if (!this.cipher) {
+      await this.track(this.loadSession()).catch(() => undefined);
+    }
+
+    if (!this.cipher) {
+      throw new EncryptionLockedError();
+    }
+
+    return this.cipher;
+  }
+
+  /**
+   * @private
+   */
+  private async doUnlock(userId: number, password: string): Promise<UnlockStatus> {
+    assertCryptoAvailable();
+
+    const entry = await keyringDb.keyring.get(userId);
+    let status: UnlockStatus = 'created';
+    let keys: { dataKey: CryptoKey; indexKey: CryptoKey } | null = null;
+
+    if (entry) {
+      try {
+        const wrappingKey = await deriveWrappingKey(password, entry.salt, entry.iterations);
+        keys = await unwrapKeys(entry, wrappingKey);
+        status = 'unlocked';
+      } catch {
+        // Data lokal lama tetap utuh sampai user memilih memulihkan atau menghapusnya
+        throw new LocalKeyMismatchError();
+      }
+    }
+
+    if (!keys) {
+      const rawDataKey = await crypto.subtle.generateKey(DATA_KEY_ALGORITHM, true, [
+        'encrypt',
+        'decrypt',
+      ]);
+      const rawIndexKey = await crypto.subtle.generateKey(INDEX_KEY_ALGORITHM, true, ['sign']);
+      const { entry: newEntry, wrappingKey } = await wrapKeys(
+        userId,
+        password,
+        rawDataKey,
+        rawIndexKey
+      );
+      await keyringDb.keyring.put(newEntry);
+
+      // Pakai salinan non-extractable untuk sesi
+      keys = await unwrapKeys(newEntry, wrappingKey);
+    }
+
+    await keyringDb.keyring.update(userId, { lastActiveAt: new Date() });
+    await keyringDb.sessions.put({ id: 'current', userId, ...keys, unlockedAt: new Date() });
+    this.cipher = new FieldCipher(keys.dataKey, keys.indexKey);
+    this.userId = userId;
+
+    return status;
+  }
+
+  /**
+   * @private
+   */
+  private async loadSession(): Promise<void> {
+    const session = await keyringDb.sessions.get('current');
+    if (session) {
+      this.cipher = new FieldCipher(session.dataKey, session.indexKey);
+      this.userId = session.userId;
+    }
+  }
+
+  /**
+   * Tandai operasi yang sedang berjalan supaya getCipher() menunggu
+   *
+   * @private
+   */
+  private async track<T>(operation: Promise<T>): Promise<T> {
+    this.pending = operation;
+    try {
+      return await operation;
+    } finally {
+      if (this.pending === operation) {
+        this.pending = null;
+      }
+    }
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const keyring = new Keyring();
@@ -0,0 +1,141 @@
+/**
+ * IndexedDB Migrations
+ *
+ * File ini berisi registry migration schema IndexedDB.
+ * Setiap perubahan schema (table baru, index baru, compound index, atau backfill
+ * data) ditambahkan sebagai migration baru dengan nomor versi berikutnya.
+ *
+ * Aturan:
+ * - Jangan mengubah atau menghapus migration yang sudah dirilis; perangkat di
+ *   lapangan mungkin masih berada di versi lama
+ * - `stores` hanya berisi table yang berubah (Dexie mewarisi definisi versi sebelumnya)
+ * - `upgrade` dijalankan dalam satu transaction; jika throw, seluruh upgrade
+ *   dibatalkan dan database tetap di versi lama (lihat recovery.ts)
+ *
+ * Mengikuti prinsip:
+ * - OCP: Schema diperluas dengan menambah migration, bukan mengubah yang lama
+ * - SRP: Hanya berisi definisi migration
+ */
+
+import type Dexie from 'dexie';
+import type { Transaction } from 'dexie';
+import { generateIdempotencyKey } from '@/lib/utils/idempotency';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Definisi satu migration schema
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  /**
+   * Definisi index per table (null untuk menghapus table)
+   */
+  stores: Record<string, string | null>;
+  /**
+   * Backfill/transformasi data existing ke bentuk versi ini
+   */
+  upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+// ============================================
+// Migration Registry
+// ============================================
+
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description: 'Table lansia, pemeriksaan, dan sync queue',
+    stores: {
+      // Index: id (primary), kode (unique), nik, nama
+      lansia: '++id, kode, nik, nama, syncedAt',
+      // Index: id (primary), lansiaId, tanggal
+      pemeriksaan: '++id, lansiaId, tanggal, syncedAt',
+      // Index: id (primary), entity, createdAt
+      syncQueue: '++id, entity, createdAt',
+    },
+  },
+  {
+    version: 2,
+    description: 'Dead-letter queue untuk item sync yang gagal',
+    stores: {
+      // Index: id (primary), entity, failedAt
+      deadLetter: '++id, entity, failedAt',
+    },
+  },
+  {
+    version: 3,
+    description: 'Idempotency key untuk item queue yang sudah ada',
+    stores: {},
+    upgrade: async (tx) => {
+      const assignKey = (item: { idempotencyKey?: string }) => {
+        if (!item.idempotencyKey) {
+          item.idempotencyKey = generateIdempotencyKey();
+        }
+      };
+      await tx.table('syncQueue').toCollection().modify(assignKey);
+      await tx.table('deadLetter').toCollection().modify(assignKey);
+    },
+  },
+  {
+    version: 4,
+    description: 'Table konflik sinkronisasi',
+    stores: {
+      // Index: id (primary), entity, kode, detectedAt
+      conflicts: '++id, entity, kode, detectedAt',
+    },
+  },
+  {
+    version: 5,
+    description: 'Compound index riwayat pemeriksaan dan lookup sync queue',
+    stores: {
+      pemeriksaan: '++id, lansiaId, tanggal, syncedAt, [lansiaId+tanggal]',
+      syncQueue: '++id, entity, createdAt, [entity+type]',
+    },
+  },
+  {
+    version: 6,
+    description: 'Blind index NIK menggantikan index nik/nama plaintext (enkripsi PII)',
+    stores: {
+      // Row lama dienkripsi setelah login (lihat BaseRepository.encryptPlaintextRows)
+      lansia: '++id, kode, nikIndex, syncedAt',
+    },
+  },
+];
+
+/**
+ * Versi schema terbaru yang dibutuhkan aplikasi
+ */
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ============================================
+// Registration
+// ============================================
+
+/**
+ * Daftarkan semua migration ke instance Dexie
+ *
+ * @param db - Database instance (dipanggil dari constructor)
+ * @param migrations - Registry migration (urut naik, tanpa nomor ganda)
+ */
+export function applyMigrations(db: Dexie, migrations: readonly Migration[] = MIGRATIONS): void {
+  let previousVersion = 0;
+
+  for (const migration of migrations) {
+    if (!Number.isInteger(migration.version) || migration.version <= previousVersion) {
+      throw new Error(
+        `[Migrations] Invalid version ${migration.version} after ${previousVersion}: ` +
+          'migrations must use increasing integer versions'
+      );
+    }
+    previousVersion = migration.version;
+
+    const version = db.version(migration.version).stores(migration.stores);
+    if (migration.upgrade) {
+      version.upgrade(migration.upgrade);
+    }
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * IndexedDB Recovery
+ *
+ * File ini berisi jalur pemulihan jika database lokal gagal dibuka atau
+ * di-upgrade setelah update aplikasi (mis. migration throw di perangkat kader).
+ *
+ * Prinsip utama: data yang belum terkirim (sync queue, dead-letter, konflik)
+ * tidak boleh hilang. Sebelum database di-reset, isinya dibaca langsung dari
+ * IndexedDB (tanpa upgrade) dan disalin ke database backup terpisah, lalu
+ * dikembalikan ke database baru setelah reset.
+ *
+ * Payload item berisi PII dan disalin dalam bentuk terenkripsi (row yang masih
+ * plaintext dienkripsi lebih dulu jika key sudah terbuka). Key disimpan di
+ * database terpisah (keyring.ts), jadi backup tetap bisa dibaca setelah reset.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle backup, reset, dan restore database lokal
+ * - Fail Safe: Backup dibuat sebelum operasi destruktif apa pun
+ */
+
+import Dexie, { type EntityTable } from 'dexie';
+import { EncryptionLockedError } from '@/lib/utils/errors';
+import { generateIdempotencyKey } from '@/lib/utils/idempotency';
+import { db, DB_NAME, type ConflictDB, type DeadLetterDB, type SyncQueueDB } from './schema';
+import type { EncryptedRecord } from './fieldCipher';
+import type { BaseEntity, BaseRepository } from './repositories/BaseRepository';
+import { syncQueueRepository } from './repositories/syncQueueRepository';
+import { deadLetterRepository } from './repositories/deadLetterRepository';
+import { conflictRepository } from './repositories/conflictRepository';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Salinan data yang belum terkirim dari database yang gagal di-upgrade
+ */
+export interface RecoveryBackupDB {
+  id?: number;
+  /**
+   * Database asal backup (database per user; backup lama tidak punya field ini)
+   */
+  databaseName?: string;
+  createdAt: Date;
+  /**
+   * Versi database saat backup dibuat (versi schema, bukan versi native IndexedDB)
+   */
+  fromVersion: number;
+  error: string;
+  syncQueue: SyncQueueDB[];
+  deadLetter: DeadLetterDB[];
+  conflicts: ConflictDB[];
+  restoredAt?: Date;
+}
+
+/**
+ * Hasil membuka database
+ */
+export type DatabaseOpenResult =
+  | { ok: true }
+  | { ok: false; error: string; backup?: RecoveryBackupDB };
+
+/**
+ * Hasil reset database
+ */
+export interface ResetDatabaseResult {
+  success: boolean;
+  restoredItems: number;
+  error?: string;
+}
+
+/**
+ * Table yang berisi data yang belum terkirim ke server
+ */
+const PENDING_TABLES = ['syncQueue', 'deadLetter', 'conflicts'] as const;
+type PendingTable = (typeof PENDING_TABLES)[number];
+
+// ============================================
+// Backup Database
+// ============================================
+
+/**
+ * Database terpisah untuk backup (schema tidak pernah berubah)
+ */
+class RecoveryDatabase extends Dexie {
+  backups!: EntityTable<RecoveryBackupDB, 'id'>;
+
+  constructor() {
+    super(`${DB_NAME}_recovery`);
+
+    this.version(1).stores({
+      backups: '++id, createdAt',
+    });
+  }
+}
+
+const recoveryDb = new RecoveryDatabase();
+
+// ============================================
+// Raw IndexedDB Access
+// ============================================
+
+/**
+ * Baca table yang belum terkirim langsung dari IndexedDB tanpa memicu upgrade
+ *
+ * indexedDB.open tanpa versi membuka database di versi yang terpasang,
+ * sehingga bisa dibaca walaupun schema Dexie yang baru gagal di-apply.
+ *
+ * @private
+ */
+function readPendingTables(): Promise<{
+  version: number;
+  tables: Record<PendingTable, unknown[]>;
+}> {
+  return new Promise((resolve, reject) => {
+    const tables: Record<PendingTable, unknown[]> = {
+      syncQueue: [],
+      deadLetter: [],
+      conflicts: [],
+    };
+    const request = indexedDB.open(db.name);
+
+    // Database belum ada: jangan buat database kosong
+    request.onupgradeneeded = () => request.transaction?.abort();
+    request.onerror = () => {
+      if (request.error?.name === 'AbortError') {
+        resolve({ version: 0, tables });
+      } else {
+        reject(request.error);
+      }
+    };
+
+    request.onsuccess = () => {
+      const idb = request.result;
+      // Dexie menyimpan versi schema dikali 10 di IndexedDB
+      const version = idb.version / 10;
+      const names = PENDING_TABLES.filter((name) => idb.objectStoreNames.contains(name));
+
+      if (names.length === 0) {
+        idb.close();
+        resolve({ version, tables });
+        return;
+      }
+
+      const tx = idb.transaction(names, 'readonly');
+      for (const name of names) {
+        const getAll = tx.objectStore(name).getAll();
+        getAll.onsuccess = () => {
+          tables[name] = getAll.result;
+        };
+      }
+      tx.oncomplete = () => {
+        idb.close();
+        resolve({ version, tables });
+      };
+      tx.onerror = () => {
+        idb.close();
+        reject(tx.error);
+      };
+    };
+  });
+}
+
+/**
+ * Enkripsi row backup yang masih plaintext (data dari sebelum payload dienkripsi)
+ *
+ * Tanpa key yang terbuka (mis. database gagal dibuka sebelum login), row
+ * disalin apa adanya; row tersebut dienkripsi setelah login
+ * (lihat BaseRepository.encryptPlaintextRows).
+ *
+ * @private
+ */
+async function encryptBackupRows<T extends BaseEntity>(
+  repository: BaseRepository<T>,
+  rows: unknown[]
+): Promise<T[]> {
+  const typedRows = rows as Array<T & EncryptedRecord>;
+
+  try {
+    return await Promise.all(
+      typedRows.map((row) => (row.encrypted ? row : repository.encodeForStorage(row)))
+    );
+  } catch (error) {
+    if (error instanceof EncryptionLockedError) {
+      console.warn('[DBRecovery] Keys locked, plaintext rows backed up as-is');
+      return typedRows;
+    }
+    throw error;
+  }
+}
+
+// ============================================
+// Recovery Functions
+// ============================================
+
+/**
+ * Salin data yang belum terkirim ke database backup
+ *
+ * @param reason - Error yang memicu backup
+ * @returns Backup yang tersimpan
+ */
+export async function backupPendingData(reason: string): Promise<RecoveryBackupDB> {
+  const { version, tables } = await readPendingTables();
+
+  const backup: RecoveryBackupDB = {
+    databaseName: db.name,
+    createdAt: new Date(),
+    fromVersion: version,
+    error: reason,
+    syncQueue: await encryptBackupRows<SyncQueueDB>(syncQueueRepository, tables.syncQueue),
+    deadLetter: await encryptBackupRows<DeadLetterDB>(deadLetterRepository, tables.deadLetter),
+    conflicts: await encryptBackupRows<ConflictDB>(conflictRepository, tables.conflicts),
+  };
+  backup.id = await recoveryDb.backups.add(backup);
+
+  console.warn(
+    `[DBRecovery] Backed up ${backup.syncQueue.length} queued, ` +
+      `${backup.deadLetter.length} dead-letter, ${backup.conflicts.length} conflict items`
+  );
+  return backup;
+}
+
+/**
+ * Apakah backup berasal dari database aktif dan belum dikembalikan
+ *
+ * @private
+ */
+function isPendingForActiveDatabase(backup: RecoveryBackupDB): boolean {
+  return !backup.restoredAt && (backup.databaseName ?? DB_NAME) === db.name;
+}
+
+/**
+ * Backup terbaru dari database aktif yang belum dikembalikan
+ */
+export async function getPendingBackup(): Promise<RecoveryBackupDB | undefined> {
+  const backups = await recoveryDb.backups.orderBy('createdAt').reverse().toArray();
+  return backups.find(isPendingForActiveDatabase);
+}
+
+/**
+ * Jumlah backup database aktif yang belum dikembalikan
+ */
+export async function countPendingBackups(): Promise<number> {
+  return await recoveryDb.backups.filter(isPendingForActiveDatabase).count();
+}
+
+/**
+ * Buka database lokal (menjalankan migration yang tertunda)
+ *
+ * Jika gagal, data yang belum terkirim langsung di-backup supaya aman
+ * sebelum user memilih untuk reset.
+ *
+ * @returns ok false beserta error dan backup jika database tidak bisa dibuka
+ */
+export async function openDatabase(): Promise<DatabaseOpenResult> {
+  try {
+    await db.open();
+    return { ok: true };
+  } catch (error) {
+    const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    console.error('[DBRecovery] Failed to open database:', error);
+
+    try {
+      const backup = (await getPendingBackup()) ?? (await backupPendingData(message));
+      return { ok: false, error: message, backup };
+    } catch (backupError) {
+      console.error('[DBRecovery] Failed to back up pending data:', backupError);
+      return { ok: false, error: message };
+    }
+  }
+}
+
+/**
+ * Hapus dan buat ulang database lokal, lalu kembalikan data yang belum terkirim
+ *
+ * Data lansia dan pemeriksaan lokal akan diambil ulang dari server pada sync
+ * berikutnya; data yang dibuat offline tetap ada di sync queue yang dikembalikan.
+ *
+ * @returns Jumlah item yang dikembalikan
+ */
+export async function resetDatabase(): Promise<ResetDatabaseResult> {
+  try {
+    const backup = (await getPendingBackup()) ?? (await backupPendingData('Manual reset'));
+
+    db.close();
+    await db.delete();
+    await db.open();
+
+    // Item dari versi lama mungkin belum punya field yang diisi oleh migration
+    const withKey = <T extends { idempotencyKey?: string }>(item: T) => ({
+      ...item,
+      idempotencyKey: item.idempotencyKey || generateIdempotencyKey(),
+    });
+
+    await db.transaction('rw', db.syncQueue, db.deadLetter, db.conflicts, async () => {
+      await db.syncQueue.bulkPut(backup.syncQueue.map(withKey));
+      await db.deadLetter.bulkPut(backup.deadLetter.map(withKey));
+      await db.conflicts.bulkPut(backup.conflicts);
+    });
+
+    if (backup.id !== undefined) {
+      await recoveryDb.backups.update(backup.id, { restoredAt: new Date() });
+    }
+
+    const restoredItems =
+      backup.syncQueue.length + backup.deadLetter.length + backup.conflicts.length;
+    console.log(`[DBRecovery] Database reset, ${restoredItems} items restored`);
+
+    return { success: true, restoredItems };
+  } catch (error) {
+    console.error('[DBRecovery] Failed to reset database:', error);
+    return {
+      success: false,
+      restoredItems: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -8,6 +8,8 @@
  * - create, getById, getAll, update, delete
  * - count, clear, bulkUpsert
  * - Consistent error handling and logging
+ * - Enkripsi field sensitif secara transparan (lihat encryptedFields)
+ * - Cek kuota penyimpanan sebelum create (lihat storageManager)
  */
 
 import type { Table } from 'dexie';
@@ -15,6 +17,10 @@ import {
   assertDefined,
   assertValidNumber,
 } from '@/lib/utils/failFast';
+import { StorageQuotaError } from '@/lib/utils/errors';
+import { keyring } from '../keyring';
+import { storageManager } from '../storageManager';
+import type { EncryptedRecord } from '../fieldCipher';
 
 /**
  * Base entity interface - all entities must have an id
@@ -27,26 +33,146 @@ export interface BaseEntity {
  * Generic Base Repository Class
  */
 export abstract class BaseRepository<T extends BaseEntity> {
-  protected table: Table<T, number>;
+  /**
+   * Table di-resolve setiap akses karena database aktif berganti per user
+   */
+  private getTable: () => Table<T, number>;
   protected entityName: string;
+  /**
+   * Field yang dienkripsi sebelum disimpan (kosong = tanpa enkripsi)
+   * Caller selalu menerima/mengirim row plaintext.
+   */
+  protected encryptedFields: readonly (keyof T)[];
 
-  constructor(table: Table<T, number>, entityName: string) {
-    this.table = table as Table<T, number>;
+  constructor(
+    getTable: () => Table<T, number>,
+    entityName: string,
+    encryptedFields: readonly (keyof T)[] = []
+  ) {
+    this.getTable = getTable;
     this.entityName = entityName;
+    this.encryptedFields = encryptedFields;
+  }
+
+  /**
+   * Table di database aktif
+   */
+  protected get table(): Table<T, number> {
+    return this.getTable();
+  }
+
+  /**
+   * Ubah row plaintext menjadi bentuk yang disimpan di IndexedDB
+   *
+   * Dipanggil sebelum transaction (WebCrypto tidak boleh di-await di dalam
+   * transaction IndexedDB karena transaction akan auto-commit).
+   */
+  async encodeForStorage(entity: T): Promise<T> {
+    if (this.encryptedFields.length === 0) {
+      return entity;
+    }
+
+    const cipher = await keyring.getCipher();
+    return await cipher.encrypt(entity, this.encryptedFields);
+  }
+
+  /**
+   * Ubah row dari IndexedDB menjadi plaintext
+   * Row yang tidak bisa didekripsi (key berbeda) dianggap tidak ada.
+   */
+  protected async decode(row: T | undefined): Promise<T | undefined> {
+    if (!row || this.encryptedFields.length === 0) {
+      return row;
+    }
+
+    const cipher = await keyring.getCipher();
+    try {
+      return await cipher.decrypt(row as T & EncryptedRecord);
+    } catch (error) {
+      console.warn(`[${this.entityName}Repository] Cannot decrypt row, skipping:`, {
+        id: row.id,
+        error,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * decode() untuk banyak row
+   */
+  protected async decodeAll(rows: T[]): Promise<T[]> {
+    const decoded: Array<T | undefined> = await Promise.all(rows.map((row) => this.decode(row)));
+    return decoded.filter((row): row is T => row !== undefined);
+  }
+
+  /**
+   * Gabungkan row tersimpan dengan row baru yang sudah di-encode
+   * Field sensitif plaintext dari row lama (data sebelum enkripsi) dibuang.
+   */
+  protected mergeStored(existing: T, stored: T): T {
+    const base = { ...existing } as Record<string, unknown>;
+    for (const field of this.encryptedFields) {
+      delete base[field as string];
+    }
+    return { ...(base as T), ...stored, id: existing.id };
+  }
+
+  /**
+   * Enkripsi row lama yang masih plaintext (dipanggil setelah key terbuka)
+   *
+   * @returns Jumlah row yang dienkripsi
+   */
+  async encryptPlaintextRows(): Promise<number> {
+    if (this.encryptedFields.length === 0) {
+      return 0;
+    }
+
+    const plaintextRows = await this.table
+      .filter((row) => !(row as T & EncryptedRecord).encrypted)
+      .toArray();
+    if (plaintextRows.length === 0) {
+      return 0;
+    }
+
+    const storedRows = await Promise.all(plaintextRows.map((row) => this.encodeForStorage(row)));
+
+    await this.table.db.transaction('rw', this.table, async () => {
+      for (const stored of storedRows) {
+        const current = await this.table.get(stored.id as number);
+        // Lewati row yang sudah diubah/dienkripsi sejak dibaca
+        if (current && !(current as T & EncryptedRecord).encrypted) {
+          await this.table.put(stored);
+        }
+      }
+    });
+
+    console.log(`[${this.entityName}Repository] Encrypted ${storedRows.length} plaintext rows`);
+    return storedRows.length;
   }
 
   /**
    * Create new entity
+   * Kuota dicek lebih dulu supaya petugas diperingatkan sebelum penulisan gagal.
    */
   async create(entity: T): Promise<number> {
     assertDefined(entity, `${this.entityName} data is required`);
+
+    try {
+      await storageManager.beforeWrite();
+    } catch (error) {
+      console.warn(`[${this.entityName}Repository] Storage check failed:`, error);
+    }
     
     try {
-      const id = await this.table.add(entity);
+      const id = await this.table.add(await this.encodeForStorage(entity));
       console.log(`[${this.entityName}Repository] Created:`, { id });
       return id as number;
     } catch (error) {
       console.error(`❌ [${this.entityName}Repository] Failed to create:`, error);
+      if (error instanceof Error && error.name === 'QuotaExceededError') {
+        void storageManager.check();
+        throw new StorageQuotaError();
+      }
       throw new Error(
         `Failed to create ${this.entityName}: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -60,7 +186,7 @@ export abstract class BaseRepository<T extends BaseEntity> {
     assertValidNumber(id, `${this.entityName} ID`);
     
     try {
-      return await this.table.get(id);
+      return await this.decode(await this.table.get(id));
     } catch (error) {
       console.error(`❌ [${this.entityName}Repository] Failed to get by ID:`, { id, error });
       throw new Error(
@@ -74,7 +200,7 @@ export abstract class BaseRepository<T extends BaseEntity> {
    */
   async getAll(): Promise<T[]> {
     try {
-      return await this.table.toArray();
+      return await this.decodeAll(await this.table.toArray());
     } catch (error) {
       console.error(`❌ [${this.entityName}Repository] Failed to get all:`, error);
       throw new Error(
@@ -91,6 +217,10 @@ export abstract class BaseRepository<T extends BaseEntity> {
     assertDefined(data, 'Update data is required');
     
     try {
+      if (this.encryptedFields.some((field) => field in data)) {
+        return await this.updateEncrypted(id, data);
+      }
+
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const result = await this.table.update(id, data as any);
       console.log(`[${this.entityName}Repository] Updated:`, { id, result });
@@ -103,6 +233,22 @@ export abstract class BaseRepository<T extends BaseEntity> {
     }
   }
 
+  /**
+   * Update yang menyentuh field terenkripsi: dekripsi, gabung, enkripsi ulang
+   *
+   * @private
+   */
+  private async updateEncrypted(id: number, data: Partial<T>): Promise<number> {
+    const current = await this.decode(await this.table.get(id));
+    if (!current) {
+      return 0;
+    }
+
+    await this.table.put(await this.encodeForStorage({ ...current, ...data, id }));
+    console.log(`[${this.entityName}Repository] Updated:`, { id, result: 1 });
+    return 1;
+  }
+
   /**
    * Delete entity
    */
@@ -0,0 +1,81 @@
+/**
+ * Conflict Repository
+ *
+ * File ini berisi operasi untuk konflik sinkronisasi di IndexedDB.
+ * Konflik dibuat saat server menolak UPDATE karena data sudah diubah
+ * di perangkat lain, dan disimpan sampai petugas memilih nilai per field.
+ * Versi lokal dan server (`local`, `server`) berisi PII, jadi disimpan terenkripsi.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle operasi database untuk konflik
+ * - DIP: Depend on abstraction (Dexie table)
+ * - DRY: Extends BaseRepository untuk enkripsi isi konflik
+ * - KISS: Implementasi sederhana dan straightforward
+ */
+
+import { db, type ConflictDB } from '../schema';
+import { BaseRepository } from './BaseRepository';
+
+/**
+ * Conflict Repository Class
+ */
+class ConflictRepository extends BaseRepository<ConflictDB> {
+  constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    super(() => db.conflicts as any, 'Conflict', ['local', 'server']);
+  }
+
+  /**
+   * Simpan konflik baru
+   */
+  async add(conflict: Omit<ConflictDB, 'id' | 'detectedAt'>): Promise<number> {
+    const id = await db.conflicts.add(
+      await this.encodeForStorage({ ...conflict, detectedAt: new Date() })
+    );
+    return id as number;
+  }
+
+  /**
+   * Pindahkan item sync queue yang ditolak server menjadi konflik (atomic)
+   * Item tidak di-retry karena hasilnya akan selalu ditolak sampai konflik diselesaikan
+   */
+  async moveFromQueue(
+    queueId: number,
+    conflict: Omit<ConflictDB, 'id' | 'detectedAt'>
+  ): Promise<number> {
+    // Enkripsi sebelum transaction (lihat BaseRepository.encodeForStorage)
+    const stored = await this.encodeForStorage({ ...conflict, detectedAt: new Date() });
+
+    return await db.transaction('rw', db.syncQueue, db.conflicts, async () => {
+      const id = await db.conflicts.add(stored);
+      await db.syncQueue.delete(queueId);
+      return id as number;
+    });
+  }
+
+  /**
+   * Get semua konflik, terbaru lebih dulu
+   */
+  async getAll(): Promise<ConflictDB[]> {
+    return await this.decodeAll(await db.conflicts.orderBy('detectedAt').reverse().toArray());
+  }
+
+  /**
+   * Hapus konflik (setelah diselesaikan)
+   */
+  async delete(id: number): Promise<void> {
+    await db.conflicts.delete(id);
+  }
+
+  /**
+   * Count total konflik
+   */
+  async count(): Promise<number> {
+    return await db.conflicts.count();
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const conflictRepository = new ConflictRepository();
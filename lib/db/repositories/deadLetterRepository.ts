@@ -0,0 +1,142 @@
+/**
+ * Dead-Letter Repository
+ *
+ * File ini berisi operasi untuk dead-letter queue di IndexedDB.
+ * Item sync queue yang gagal melebihi batas retry dipindahkan ke sini,
+ * bukan dihapus, supaya data pemeriksaan offline tidak hilang diam-diam.
+ * Payload (`data`) disimpan terenkripsi seperti di sync queue.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle operasi database untuk dead-letter queue
+ * - DIP: Depend on abstraction (Dexie table)
+ * - DRY: Extends BaseRepository untuk enkripsi payload
+ * - KISS: Implementasi sederhana dan straightforward
+ */
+
+import { db, type DeadLetterDB, type SyncQueueDB } from '../schema';
+import type { EncryptedRecord } from '../fieldCipher';
+import { BaseRepository } from './BaseRepository';
+import { generateIdempotencyKey } from '@/lib/utils/idempotency';
+
+/**
+ * Informasi kegagalan terakhir sebuah item
+ */
+export interface DeadLetterFailure {
+  message: string;
+  status?: number;
+}
+
+/**
+ * Dead-Letter Repository Class
+ */
+class DeadLetterRepository extends BaseRepository<DeadLetterDB> {
+  constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    super(() => db.deadLetter as any, 'DeadLetter', ['data']);
+  }
+
+  /**
+   * Pindahkan item dari sync queue ke dead-letter queue (atomic)
+   */
+  async moveFromQueue(item: SyncQueueDB, failure: DeadLetterFailure): Promise<number> {
+    // Enkripsi sebelum transaction (lihat BaseRepository.encodeForStorage)
+    const stored = await this.encodeForStorage({
+      entity: item.entity,
+      type: item.type,
+      data: item.data,
+      idempotencyKey: item.idempotencyKey,
+      retryCount: item.retryCount,
+      createdAt: item.createdAt,
+      dependsOn: item.dependsOn,
+      failedAt: new Date(),
+      lastError: failure.message,
+      lastStatus: failure.status,
+    });
+
+    return await db.transaction('rw', db.syncQueue, db.deadLetter, async () => {
+      const id = await db.deadLetter.add(stored);
+
+      if (item.id) {
+        await db.syncQueue.delete(item.id);
+      }
+
+      return id as number;
+    });
+  }
+
+  /**
+   * Get semua item, terbaru lebih dulu
+   */
+  async getAll(): Promise<DeadLetterDB[]> {
+    return await this.decodeAll(await db.deadLetter.orderBy('failedAt').reverse().toArray());
+  }
+
+  /**
+   * Update payload item (koreksi manual sebelum retry)
+   *
+   * Payload yang berubah adalah request baru, jadi idempotency key ikut diganti.
+   * Payload yang sama tidak mengubah apa pun (key tetap, replay tetap aman).
+   */
+  async updateData(id: number, data: unknown): Promise<void> {
+    const item = await this.getById(id);
+
+    if (!item) {
+      throw new Error(`Dead-letter item ${id} tidak ditemukan`);
+    }
+
+    if (JSON.stringify(item.data) === JSON.stringify(data)) {
+      return;
+    }
+
+    await this.update(id, { data, idempotencyKey: generateIdempotencyKey() });
+  }
+
+  /**
+   * Kembalikan item ke sync queue dengan retry count direset (atomic)
+   * Idempotency key dipertahankan agar replay tetap aman
+   * Payload terenkripsi disalin apa adanya (key yang sama untuk kedua table).
+   */
+  async requeue(id: number): Promise<number> {
+    return await db.transaction('rw', db.syncQueue, db.deadLetter, async () => {
+      const item: (DeadLetterDB & EncryptedRecord) | undefined = await db.deadLetter.get(id);
+
+      if (!item) {
+        throw new Error(`Dead-letter item ${id} tidak ditemukan`);
+      }
+
+      const queued: SyncQueueDB & EncryptedRecord = {
+        entity: item.entity,
+        type: item.type,
+        data: item.data,
+        encrypted: item.encrypted,
+        idempotencyKey: item.idempotencyKey,
+        retryCount: 0,
+        createdAt: item.createdAt,
+        dependsOn: item.dependsOn,
+      };
+      const queueId = await db.syncQueue.add(queued);
+      await db.deadLetter.delete(id);
+
+      return queueId as number;
+    });
+  }
+
+  /**
+   * Buang item secara permanen
+   */
+  async delete(id: number): Promise<void> {
+    await db.deadLetter.delete(id);
+  }
+
+  /**
+   * Count total item
+   */
+  async count(): Promise<number> {
+    return await db.deadLetter.count();
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const deadLetterRepository = new DeadLetterRepository();
@@ -0,0 +1,320 @@
+/**
+ * Handover Repository
+ *
+ * File ini berisi operasi untuk memindahkan pekerjaan offline yang belum
+ * terkirim (sync queue, dead-letter, dan row lokal terkait) dari satu
+ * perangkat ke perangkat lain.
+ *
+ * - collectPending: kumpulkan item dan row lokal (plaintext) untuk diekspor;
+ *   handoverService mengenkripsinya dengan passphrase sebelum ditulis ke file
+ * - importData: masukkan hasil ekspor ke database aktif tanpa duplikat
+ *
+ * Item queue mempertahankan idempotencyKey aslinya, sehingga item yang
+ * ternyata sudah sempat terkirim dari perangkat lama tidak dibuat dua kali
+ * oleh server.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle pengumpulan dan penulisan data handover
+ * - DIP: Depend on abstraction (Dexie table dan repository)
+ */
+
+import {
+  db,
+  type DeadLetterDB,
+  type LansiaDB,
+  type PemeriksaanCreatePayload,
+  type PemeriksaanDB,
+  type SyncQueueDB,
+} from '../schema';
+import { lansiaRepository } from './lansiaRepository';
+import { pemeriksaanRepository } from './pemeriksaanRepository';
+import { syncQueueRepository } from './syncQueueRepository';
+import { deadLetterRepository } from './deadLetterRepository';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Pemeriksaan beserta kode lansianya (ID lansia berbeda di perangkat tujuan)
+ */
+export interface HandoverPemeriksaan extends PemeriksaanDB {
+  lansiaKode: string;
+}
+
+/**
+ * Data yang dipindahkan antar perangkat
+ */
+export interface HandoverData {
+  syncQueue: SyncQueueDB[];
+  deadLetter: DeadLetterDB[];
+  lansia: LansiaDB[];
+  pemeriksaan: HandoverPemeriksaan[];
+}
+
+/**
+ * Ringkasan hasil import
+ */
+export interface HandoverImportResult {
+  queued: number;
+  failed: number;
+  lansia: number;
+  pemeriksaan: number;
+  /**
+   * Item/row yang sudah ada di perangkat ini dan dilewati
+   */
+  skipped: number;
+}
+
+/**
+ * Bagian payload queue yang mereferensikan identifier lokal
+ */
+interface QueuedRefs {
+  kode?: string;
+  localKode?: string;
+  localId?: number;
+  id?: number;
+}
+
+/**
+ * Cari ID yang belum dipakai di table (sama seperti ID temporary offline: Date.now())
+ *
+ * @private
+ */
+async function findFreeId(
+  table: typeof db.lansia | typeof db.pemeriksaan,
+  taken: Set<number>
+): Promise<number> {
+  let candidate = Date.now();
+  while (taken.has(candidate) || (await table.get(candidate))) {
+    candidate++;
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+/**
+ * Handover Repository Class
+ */
+class HandoverRepository {
+  /**
+   * Kumpulkan pekerjaan offline yang belum terkirim
+   *
+   * Berisi seluruh sync queue dan dead-letter, lansia/pemeriksaan yang belum
+   * pernah tersinkron atau punya edit lokal, serta row yang direferensikan item queue.
+   */
+  async collectPending(): Promise<HandoverData> {
+    const syncQueue = await syncQueueRepository.getAll();
+    const deadLetter = (await deadLetterRepository.getAll()).reverse();
+
+    const lansiaKodes = new Set<string>();
+    const pemeriksaanIds = new Set<number>();
+
+    for (const item of [...syncQueue, ...deadLetter]) {
+      const refs = item.data as QueuedRefs;
+      if (refs.kode) lansiaKodes.add(refs.kode);
+      if (refs.localKode) lansiaKodes.add(refs.localKode);
+      if (item.dependsOn) lansiaKodes.add(item.dependsOn);
+      if (item.entity === 'PEMERIKSAAN') {
+        const id = item.type === 'CREATE' ? refs.localId : refs.id;
+        if (id !== undefined) pemeriksaanIds.add(id);
+      }
+    }
+
+    // Pemeriksaan lokal (row mentah hanya untuk filter; isi didekripsi via repository)
+    const pemeriksaanRows = await db.pemeriksaan
+      .filter((row) => !row.syncedAt || !!row.localModifiedAt || pemeriksaanIds.has(row.id))
+      .toArray();
+    const lansiaIds = new Set(pemeriksaanRows.map((row) => row.lansiaId));
+
+    const lansiaRows = await db.lansia
+      .filter(
+        (row) =>
+          !row.syncedAt || !!row.localModifiedAt || lansiaKodes.has(row.kode) || lansiaIds.has(row.id)
+      )
+      .toArray();
+
+    const lansia = (
+      await Promise.all(lansiaRows.map((row) => lansiaRepository.getById(row.id)))
+    ).filter((row): row is LansiaDB => row !== undefined);
+    const kodeById = new Map(lansia.map((row) => [row.id, row.kode]));
+
+    const pemeriksaan: HandoverPemeriksaan[] = [];
+    for (const row of pemeriksaanRows) {
+      const decoded = await pemeriksaanRepository.getById(row.id);
+      const lansiaKode = kodeById.get(row.lansiaId);
+      if (decoded && lansiaKode) {
+        pemeriksaan.push({ ...decoded, lansiaKode });
+      }
+    }
+
+    return {
+      syncQueue,
+      deadLetter,
+      lansia,
+      pemeriksaan,
+    };
+  }
+
+  /**
+   * Masukkan data handover ke database aktif
+   *
+   * - Lansia dengan kode yang sudah ada dilewati (row perangkat ini dipakai)
+   * - Pemeriksaan yang sudah ada (ID, lansia, dan tanggal sama) dilewati
+   * - ID temporary yang bentrok dengan row lain diganti, termasuk referensinya di payload
+   * - Item queue/dead-letter dengan idempotencyKey yang sudah ada dilewati
+   *
+   * @param data - Data dari perangkat lain (plaintext)
+   * @returns Ringkasan hasil import
+   */
+  async importData(data: HandoverData): Promise<HandoverImportResult> {
+    const result: HandoverImportResult = {
+      queued: 0,
+      failed: 0,
+      lansia: 0,
+      pemeriksaan: 0,
+      skipped: 0,
+    };
+
+    // Step 1: Lansia (kode tetap, ID bisa berubah)
+    const lansiaIdByKode = new Map<string, number>();
+    const takenLansiaIds = new Set<number>();
+    const newLansia: LansiaDB[] = [];
+
+    for (const lansia of data.lansia) {
+      const existing = await db.lansia.where('kode').equals(lansia.kode).first();
+      if (existing) {
+        lansiaIdByKode.set(lansia.kode, existing.id);
+        result.skipped++;
+        continue;
+      }
+
+      const id =
+        takenLansiaIds.has(lansia.id) || (await db.lansia.get(lansia.id))
+          ? await findFreeId(db.lansia, takenLansiaIds)
+          : lansia.id;
+      takenLansiaIds.add(id);
+      lansiaIdByKode.set(lansia.kode, id);
+      newLansia.push({ ...lansia, id });
+    }
+
+    // Step 2: Pemeriksaan (lansiaId mengikuti perangkat ini)
+    const pemeriksaanIdMap = new Map<number, number>();
+    const takenPemeriksaanIds = new Set<number>();
+    const newPemeriksaan: PemeriksaanDB[] = [];
+
+    for (const { lansiaKode, ...pemeriksaan } of data.pemeriksaan) {
+      const lansiaId =
+        lansiaIdByKode.get(lansiaKode) ??
+        (await db.lansia.where('kode').equals(lansiaKode).first())?.id;
+      if (lansiaId === undefined) {
+        result.skipped++;
+        continue;
+      }
+
+      const existing = await db.pemeriksaan.get(pemeriksaan.id);
+      if (
+        existing &&
+        existing.lansiaId === lansiaId &&
+        existing.tanggal.getTime() === pemeriksaan.tanggal.getTime()
+      ) {
+        result.skipped++;
+        continue;
+      }
+
+      const id =
+        existing || takenPemeriksaanIds.has(pemeriksaan.id)
+          ? await findFreeId(db.pemeriksaan, takenPemeriksaanIds)
+          : pemeriksaan.id;
+      takenPemeriksaanIds.add(id);
+      if (id !== pemeriksaan.id) {
+        pemeriksaanIdMap.set(pemeriksaan.id, id);
+      }
+      newPemeriksaan.push({ ...pemeriksaan, lansiaId, id });
+    }
+
+    // Step 3: Item queue/dead-letter (dedup via idempotencyKey, ID lokal di-remap)
+    const existingKeys = new Set([
+      ...(await db.syncQueue.toArray()).map((item) => item.idempotencyKey),
+      ...(await db.deadLetter.toArray()).map((item) => item.idempotencyKey),
+    ]);
+
+    const remapData = (item: SyncQueueDB | DeadLetterDB): unknown => {
+      if (item.entity !== 'PEMERIKSAAN') {
+        return item.data;
+      }
+      const payload = item.data as PemeriksaanCreatePayload & QueuedRefs;
+      if (item.type === 'CREATE' && payload.localId !== undefined) {
+        return { ...payload, localId: pemeriksaanIdMap.get(payload.localId) ?? payload.localId };
+      }
+      if (payload.id !== undefined && pemeriksaanIdMap.has(payload.id)) {
+        return { ...payload, id: pemeriksaanIdMap.get(payload.id) };
+      }
+      return payload;
+    };
+
+    const isNew = (item: SyncQueueDB | DeadLetterDB) => {
+      if (existingKeys.has(item.idempotencyKey)) {
+        result.skipped++;
+        return false;
+      }
+      existingKeys.add(item.idempotencyKey);
+      return true;
+    };
+
+    const newQueue: SyncQueueDB[] = data.syncQueue
+      .filter(isNew)
+      .map((item) => {
+        const copy: SyncQueueDB = { ...item, data: remapData(item) };
+        // ID baru dari perangkat ini; item langsung siap dikirim (tanpa sisa backoff)
+        delete copy.id;
+        delete copy.nextAttemptAt;
+        return copy;
+      });
+    const newDeadLetter: DeadLetterDB[] = data.deadLetter
+      .filter(isNew)
+      .map((item) => {
+        const copy: DeadLetterDB = { ...item, data: remapData(item) };
+        delete copy.id;
+        return copy;
+      });
+
+    // Enkripsi sebelum transaction (lihat BaseRepository.encodeForStorage)
+    const storedLansia = await Promise.all(
+      newLansia.map((lansia) => lansiaRepository.encodeForStorage(lansia))
+    );
+    const storedPemeriksaan = await Promise.all(
+      newPemeriksaan.map((pemeriksaan) => pemeriksaanRepository.encodeForStorage(pemeriksaan))
+    );
+    const storedQueue = await Promise.all(
+      newQueue.map((item) => syncQueueRepository.encodeForStorage(item))
+    );
+    const storedDeadLetter = await Promise.all(
+      newDeadLetter.map((item) => deadLetterRepository.encodeForStorage(item))
+    );
+
+    await db.transaction(
+      'rw',
+      [db.lansia, db.pemeriksaan, db.syncQueue, db.deadLetter],
+      async () => {
+        await db.lansia.bulkAdd(storedLansia);
+        await db.pemeriksaan.bulkAdd(storedPemeriksaan);
+        await db.syncQueue.bulkAdd(storedQueue);
+        await db.deadLetter.bulkAdd(storedDeadLetter);
+      }
+    );
+
+    result.lansia = storedLansia.length;
+    result.pemeriksaan = storedPemeriksaan.length;
+    result.queued = storedQueue.length;
+    result.failed = storedDeadLetter.length;
+
+    console.log('[HandoverRepository] Imported:', result);
+    return result;
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const handoverRepository = new HandoverRepository();
@@ -0,0 +1,202 @@
+/**
+ * ID Remap Repository
+ *
+ * File ini berisi operasi untuk mengganti identifier temporary (kode dan ID
+ * yang dibuat saat offline) dengan identifier dari server setelah CREATE
+ * berhasil di-sync.
+ *
+ * Remap dilakukan di semua table yang mereferensikan identifier tersebut
+ * dalam satu transaction, supaya tidak ada row yang menunjuk ke ID lama.
+ * Payload queue/dead-letter terenkripsi, jadi payload baru disiapkan (dekripsi,
+ * remap, enkripsi ulang) sebelum transaction dan hanya ditulis di dalamnya.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle penggantian identifier lintas table
+ * - DIP: Depend on abstraction (Dexie table)
+ * - KISS: Implementasi sederhana dan straightforward
+ */
+
+import {
+  db,
+  type DeadLetterDB,
+  type LansiaDB,
+  type PemeriksaanDB,
+  type SyncQueueDB,
+} from '../schema';
+import type { EncryptedPayload, EncryptedRecord } from '../fieldCipher';
+import type { BaseRepository } from './BaseRepository';
+import { lansiaRepository } from './lansiaRepository';
+import { pemeriksaanRepository } from './pemeriksaanRepository';
+import { syncQueueRepository } from './syncQueueRepository';
+import { deadLetterRepository } from './deadLetterRepository';
+
+/**
+ * Item queue/dead-letter yang bisa mereferensikan identifier lokal
+ */
+type QueuedItem = SyncQueueDB | DeadLetterDB;
+
+/**
+ * Payload baru (terenkripsi) untuk satu item queue/dead-letter
+ */
+interface RemappedPayload {
+  /**
+   * Idempotency key saat payload dibaca; berbeda berarti payload sudah diganti
+   */
+  idempotencyKey: string;
+  encrypted?: EncryptedPayload;
+}
+
+/**
+ * Remap dan enkripsi ulang payload item (di luar transaction)
+ *
+ * @private
+ * @param remapData - Payload baru, atau undefined jika item tidak berubah
+ * @returns Payload baru per ID item
+ */
+async function prepareRemap<T extends QueuedItem>(
+  repository: BaseRepository<T>,
+  items: T[],
+  remapData: (item: T) => unknown
+): Promise<Map<number, RemappedPayload>> {
+  const remapped = new Map<number, RemappedPayload>();
+
+  for (const item of items) {
+    const data = remapData(item);
+    if (data === undefined || item.id === undefined) {
+      continue;
+    }
+
+    const stored: T & EncryptedRecord = await repository.encodeForStorage({ ...item, data });
+    remapped.set(item.id, { idempotencyKey: item.idempotencyKey, encrypted: stored.encrypted });
+  }
+
+  return remapped;
+}
+
+/**
+ * Modifier Dexie yang menulis payload hasil prepareRemap
+ * Item yang payload-nya diganti sejak dibaca (idempotency key berbeda) dilewati.
+ *
+ * @private
+ */
+function applyRemap(remapped: Map<number, RemappedPayload>) {
+  return (item: QueuedItem & EncryptedRecord) => {
+    const payload = item.id !== undefined ? remapped.get(item.id) : undefined;
+    if (payload && payload.idempotencyKey === item.idempotencyKey) {
+      delete item.data;
+      item.encrypted = payload.encrypted;
+    }
+  };
+}
+
+/**
+ * ID Remap Repository Class
+ */
+class IdRemapRepository {
+  /**
+   * Ganti lansia temporary dengan lansia dari server (atomic)
+   *
+   * - Row lansia lokal diganti row server
+   * - Pemeriksaan yang menunjuk ke ID lokal dipindah ke ID server
+   * - Item queue/dead-letter dengan kode lokal memakai kode server
+   * - Item yang menunggu (dependsOn) lansia ini dilepas
+   */
+  async remapLansia(localKode: string, server: LansiaDB): Promise<void> {
+    // Enkripsi sebelum transaction (lihat BaseRepository.encodeForStorage)
+    const stored = await lansiaRepository.encodeForStorage(server);
+
+    const remapData = (item: QueuedItem) => {
+      const data = item.data as { kode?: string };
+      return data.kode === localKode ? { ...data, kode: server.kode } : undefined;
+    };
+    const queuePayloads = await prepareRemap(
+      syncQueueRepository,
+      await syncQueueRepository.getAll(),
+      remapData
+    );
+    const deadLetterPayloads = await prepareRemap(
+      deadLetterRepository,
+      await deadLetterRepository.getAll(),
+      remapData
+    );
+
+    await db.transaction(
+      'rw',
+      [db.lansia, db.pemeriksaan, db.syncQueue, db.deadLetter],
+      async () => {
+        const local = await db.lansia.where('kode').equals(localKode).first();
+        const existing = await db.lansia.where('kode').equals(server.kode).first();
+
+        if (local) {
+          await db.lansia.delete(local.id);
+        }
+        if (existing && existing.id !== server.id) {
+          await db.lansia.delete(existing.id);
+        }
+        await db.lansia.put(stored);
+
+        if (local && local.id !== server.id) {
+          await db.pemeriksaan
+            .where('lansiaId')
+            .equals(local.id)
+            .modify({ lansiaId: server.id });
+        }
+
+        const releaseDependents = (item: QueuedItem) => {
+          if (item.dependsOn === localKode) {
+            delete item.dependsOn;
+          }
+        };
+
+        await db.syncQueue.toCollection().modify(applyRemap(queuePayloads));
+        await db.deadLetter.toCollection().modify(applyRemap(deadLetterPayloads));
+        await db.syncQueue.toCollection().modify(releaseDependents);
+        await db.deadLetter.toCollection().modify(releaseDependents);
+      }
+    );
+  }
+
+  /**
+   * Ganti pemeriksaan temporary dengan pemeriksaan dari server (atomic)
+   *
+   * - Row pemeriksaan lokal diganti row server (ID dan klasifikasi final)
+   * - Item queue/dead-letter yang menunjuk ke ID lokal memakai ID server
+   */
+  async remapPemeriksaan(localId: number, server: PemeriksaanDB): Promise<void> {
+    const stored = await pemeriksaanRepository.encodeForStorage(server);
+
+    const remapData = (item: QueuedItem) => {
+      const data = item.data as { id?: number };
+      return item.entity === 'PEMERIKSAAN' && data.id === localId && localId !== server.id
+        ? { ...data, id: server.id }
+        : undefined;
+    };
+    const queuePayloads = await prepareRemap(
+      syncQueueRepository,
+      await syncQueueRepository.getAll(),
+      remapData
+    );
+    const deadLetterPayloads = await prepareRemap(
+      deadLetterRepository,
+      await deadLetterRepository.getAll(),
+      remapData
+    );
+
+    await db.transaction('rw', [db.pemeriksaan, db.syncQueue, db.deadLetter], async () => {
+      await db.pemeriksaan.delete(localId);
+      await db.pemeriksaan.put(stored);
+
+      if (localId === server.id) {
+        return;
+      }
+
+      await db.syncQueue.toCollection().modify(applyRemap(queuePayloads));
+      await db.deadLetter.toCollection().modify(applyRemap(deadLetterPayloads));
+    });
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const idRemapRepository = new IdRemapRepository();
@@ -2,6 +2,8 @@
  * Lansia Repository
  *
  * File ini berisi CRUD operations untuk data lansia di IndexedDB.
+ * NIK, KK, nama, tanggal lahir, dan alamat disimpan terenkripsi; lookup NIK
+ * dan pencarian memakai blind index (nikIndex, searchTokens).
  *
  * Mengikuti prinsip:
  * - SRP: Hanya handle operasi database untuk lansia
@@ -12,7 +14,10 @@
  */
 
 import { db, type LansiaDB } from '../schema';
+import { keyring } from '../keyring';
+import type { EncryptedRecord } from '../fieldCipher';
 import { BaseRepository } from './BaseRepository';
+import { shouldKeepLocal } from './versionGuard';
 import {
   assertNonEmptyString,
   assertHasProperties,
@@ -25,14 +30,15 @@ import {
 class LansiaRepository extends BaseRepository<LansiaDB> {
   constructor() {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    super(db.lansia as any, 'Lansia');
+    super(() => db.lansia as any, 'Lansia', ['nik', 'kk', 'nama', 'tanggalLahir', 'alamat']);
   }
 
   /**
-   * Override create to add custom validation
+   * Validasi field wajib
+   *
+   * @private
    */
-  async create(lansia: LansiaDB): Promise<number> {
-    // Validate required fields
+  private assertValid(lansia: LansiaDB): void {
     assertHasProperties(
       lansia,
       ['kode', 'nik', 'kk', 'nama', 'tanggalLahir', 'gender', 'alamat'],
@@ -41,39 +47,94 @@ class LansiaRepository extends BaseRepository<LansiaDB> {
     assertNonEmptyString(lansia.kode, 'Kode');
     assertNonEmptyString(lansia.nik, 'NIK');
     assertNonEmptyString(lansia.nama, 'Nama');
+  }
+
+  /**
+   * Override create to add custom validation
+   */
+  async create(lansia: LansiaDB): Promise<number> {
+    this.assertValid(lansia);
 
     return super.create(lansia);
   }
 
+  /**
+   * Enkripsi PII dan tambahkan blind index NIK serta token pencarian
+   */
+  async encodeForStorage(lansia: LansiaDB): Promise<LansiaDB> {
+    const cipher = await keyring.getCipher();
+    const stored = await super.encodeForStorage(lansia);
+
+    return {
+      ...stored,
+      nikIndex: await cipher.blindIndex(lansia.nik),
+      searchTokens: await cipher.searchTokens([lansia.nama, lansia.nik]),
+    };
+  }
+
+  /**
+   * Dekripsi row dan buang blind index (internal repository)
+   */
+  protected async decode(row: LansiaDB | undefined): Promise<LansiaDB | undefined> {
+    const lansia = await super.decode(row);
+    if (lansia) {
+      delete lansia.nikIndex;
+      delete lansia.searchTokens;
+    }
+    return lansia;
+  }
+
   /**
    * Get lansia by kode
    */
   async getByKode(kode: string): Promise<LansiaDB | undefined> {
     assertNonEmptyString(kode, 'Kode');
-    return await this.table.where('kode').equals(kode).first();
+    return await this.decode(await this.table.where('kode').equals(kode).first());
   }
 
   /**
-   * Get lansia by NIK
+   * Get lansia by NIK (melalui blind index)
    */
   async getByNik(nik: string): Promise<LansiaDB | undefined> {
-    return await this.table.where('nik').equals(nik).first();
+    const cipher = await keyring.getCipher();
+    const row =
+      (await this.table.where('nikIndex').equals(await cipher.blindIndex(nik)).first()) ??
+      // Row lama yang belum dienkripsi belum punya nikIndex
+      (await this.table
+        .filter((lansia) => !(lansia as EncryptedRecord).encrypted && lansia.nik === nik)
+        .first());
+
+    return await this.decode(row);
   }
 
   /**
    * Search lansia by kode, nama, atau NIK
+   *
+   * Kandidat dipilih dari kode (plaintext) atau token pencarian tanpa dekripsi,
+   * lalu diverifikasi ulang setelah didekripsi (token bisa false positive).
    */
   async search(query: string): Promise<LansiaDB[]> {
     const lowerQuery = query.toLowerCase();
+    const cipher = await keyring.getCipher();
+    const queryTokens = await cipher.searchTokens([query]);
 
-    return await this.table
+    const candidates = await this.table
       .filter(
         (lansia) =>
           lansia.kode.toLowerCase().includes(lowerQuery) ||
-          lansia.nama.toLowerCase().includes(lowerQuery) ||
-          lansia.nik.includes(query)
+          // Query terlalu pendek untuk token, atau row belum dienkripsi
+          queryTokens.length === 0 ||
+          !(lansia as EncryptedRecord).encrypted ||
+          queryTokens.every((token) => lansia.searchTokens?.includes(token))
       )
       .toArray();
+
+    return (await this.decodeAll(candidates)).filter(
+      (lansia) =>
+        lansia.kode.toLowerCase().includes(lowerQuery) ||
+        lansia.nama.toLowerCase().includes(lowerQuery) ||
+        lansia.nik.includes(query)
+    );
   }
 
   /**
@@ -89,26 +150,51 @@ class LansiaRepository extends BaseRepository<LansiaDB> {
   }
 
   /**
-   * Bulk upsert (insert or update) lansia
+   * Bulk upsert (insert or update) lansia dari server
+   *
+   * Row lokal yang masih punya edit offline atau lebih baru dari versi
+   * server tidak ditimpa (lihat shouldKeepLocal).
    */
   async bulkUpsert(lansiaList: LansiaDB[]): Promise<void> {
+    lansiaList.forEach((lansia) => this.assertValid(lansia));
+    const storedList = await Promise.all(lansiaList.map((lansia) => this.encodeForStorage(lansia)));
+
     await db.transaction('rw', this.table, async () => {
-      for (const lansia of lansiaList) {
-        const existing = await this.getByKode(lansia.kode);
-        if (existing) {
-          await this.update(existing.id, lansia);
-        } else {
-          await this.create(lansia);
+      for (const stored of storedList) {
+        // Metadata versi (updatedAt, localModifiedAt) tidak dienkripsi
+        const existing = await this.table.where('kode').equals(stored.kode).first();
+        if (!existing) {
+          await this.table.add(stored);
+        } else if (!shouldKeepLocal(existing, stored)) {
+          await this.table.put(this.mergeStored(existing, stored));
         }
       }
     });
   }
 
+  /**
+   * Simpan versi server yang sudah pasti terbaru (mis. response UPDATE)
+   * Menimpa row lokal dan menghapus penanda edit offline.
+   */
+  async applyServerVersion(lansia: LansiaDB): Promise<void> {
+    this.assertValid(lansia);
+    const stored = await this.encodeForStorage({ ...lansia, localModifiedAt: undefined });
+
+    await db.transaction('rw', this.table, async () => {
+      const existing = await this.table.where('kode').equals(lansia.kode).first();
+      if (existing) {
+        await this.table.put(this.mergeStored(existing, stored));
+      } else {
+        await this.table.add(stored);
+      }
+    });
+  }
+
   /**
    * Get lansia yang belum di-sync
    */
   async getUnsyncedLansia(): Promise<LansiaDB[]> {
-    return await this.table.filter((lansia) => !lansia.syncedAt).toArray();
+    return await this.decodeAll(await this.table.filter((lansia) => !lansia.syncedAt).toArray());
   }
 }
 
@@ -2,6 +2,8 @@
  * Pemeriksaan Repository
  *
  * File ini berisi CRUD operations untuk data pemeriksaan di IndexedDB.
+ * Hasil pengukuran dan klasifikasi disimpan terenkripsi; lansiaId dan
+ * tanggal tetap plaintext untuk index.
  *
  * Mengikuti prinsip:
  * - SRP: Hanya handle operasi database untuk pemeriksaan
@@ -11,8 +13,10 @@
  * - Fail Fast: Validate input immediately dan throw pada error
  */
 
+import Dexie from 'dexie';
 import { db, type PemeriksaanDB } from '../schema';
 import { BaseRepository } from './BaseRepository';
+import { shouldKeepLocal } from './versionGuard';
 import {
   assertValidNumber,
   assertValidDate,
@@ -26,41 +30,67 @@ import {
 class PemeriksaanRepository extends BaseRepository<PemeriksaanDB> {
   constructor() {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    super(db.pemeriksaan as any, 'Pemeriksaan');
+    super(() => db.pemeriksaan as any, 'Pemeriksaan', [
+      'tinggi',
+      'berat',
+      'bmi',
+      'kategoriBmi',
+      'sistolik',
+      'diastolik',
+      'tekananDarah',
+      'asamUrat',
+      'gulaPuasa',
+      'gulaSewaktu',
+      'gula2Jpp',
+      'klasifikasiGula',
+      'kolesterol',
+      'klasifikasiKolesterol',
+    ]);
   }
 
   /**
    * Override create to add custom validation
    */
   async create(pemeriksaan: PemeriksaanDB): Promise<number> {
+    this.assertValid(pemeriksaan);
+
+    return super.create(pemeriksaan);
+  }
+
+  /**
+   * Validasi field wajib
+   *
+   * @private
+   */
+  private assertValid(pemeriksaan: PemeriksaanDB): void {
     assertHasProperties(pemeriksaan, ['lansiaId', 'tanggal'], 'Pemeriksaan');
     assertValidNumber(pemeriksaan.lansiaId, 'Lansia ID');
     assertValidDate(pemeriksaan.tanggal, 'Tanggal pemeriksaan');
+  }
 
-    return super.create(pemeriksaan);
+  /**
+   * Collection pemeriksaan satu lansia, terurut tanggal (compound index [lansiaId+tanggal])
+   */
+  private byLansiaIdOrderedByTanggal(lansiaId: number) {
+    return this.table
+      .where('[lansiaId+tanggal]')
+      .between([lansiaId, Dexie.minKey], [lansiaId, Dexie.maxKey]);
   }
 
   /**
-   * Get semua pemeriksaan by lansiaId
+   * Get semua pemeriksaan by lansiaId (terbaru lebih dulu)
    */
   async getByLansiaId(lansiaId: number): Promise<PemeriksaanDB[]> {
-    return await this.table
-      .where('lansiaId')
-      .equals(lansiaId)
-      .reverse()
-      .sortBy('tanggal');
+    return await this.decodeAll(
+      await this.byLansiaIdOrderedByTanggal(lansiaId).reverse().toArray()
+    );
   }
 
   /**
    * Get pemeriksaan terbaru by lansiaId
    */
   async getLatestByLansiaId(lansiaId: number): Promise<PemeriksaanDB | undefined> {
-    return await this.table
-      .where('lansiaId')
-      .equals(lansiaId)
-      .reverse()
-      .sortBy('tanggal')
-      .then((results) => results[0]);
+    return await this.decode(await this.byLansiaIdOrderedByTanggal(lansiaId).last());
   }
 
   /**
@@ -74,10 +104,9 @@ class PemeriksaanRepository extends BaseRepository<PemeriksaanDB> {
       throw new Error('Start date must be before or equal to end date');
     }
 
-    return await this.table
-      .where('tanggal')
-      .between(startDate, endDate, true, true)
-      .toArray();
+    return await this.decodeAll(
+      await this.table.where('tanggal').between(startDate, endDate, true, true).toArray()
+    );
   }
 
   /**
@@ -88,21 +117,89 @@ class PemeriksaanRepository extends BaseRepository<PemeriksaanDB> {
   }
 
   /**
-   * Bulk upsert (insert or update) pemeriksaan
+   * Bulk upsert (insert or update) pemeriksaan dari server
+   *
+   * Row lokal yang masih punya edit offline atau lebih baru dari versi
+   * server tidak ditimpa (lihat shouldKeepLocal).
    */
   async bulkUpsert(pemeriksaanList: PemeriksaanDB[]): Promise<void> {
+    pemeriksaanList.forEach((pemeriksaan) => this.assertValid(pemeriksaan));
+    const storedList = await Promise.all(
+      pemeriksaanList.map((pemeriksaan) => this.encodeForStorage(pemeriksaan))
+    );
+
     await db.transaction('rw', this.table, async () => {
-      for (const pemeriksaan of pemeriksaanList) {
-        const existing = await this.getById(pemeriksaan.id);
-        if (existing) {
-          await this.update(existing.id, pemeriksaan);
-        } else {
-          await this.create(pemeriksaan);
+      for (const stored of storedList) {
+        // Metadata versi (updatedAt, localModifiedAt) tidak dienkripsi
+        const existing = await this.table.get(stored.id);
+        if (!existing) {
+          await this.table.add(stored);
+        } else if (!shouldKeepLocal(existing, stored)) {
+          await this.table.put(this.mergeStored(existing, stored));
         }
       }
     });
   }
 
+  /**
+   * Simpan versi server yang sudah pasti terbaru (mis. response UPDATE)
+   * Menimpa row lokal dan menghapus penanda edit offline.
+   */
+  async applyServerVersion(pemeriksaan: PemeriksaanDB): Promise<void> {
+    await this.table.put(
+      await this.encodeForStorage({ ...pemeriksaan, localModifiedAt: undefined })
+    );
+  }
+
+  /**
+   * Rekonsiliasi riwayat pemeriksaan satu lansia dengan data dari server
+   *
+   * - Row dari server di-upsert (server adalah source of truth untuk klasifikasi)
+   * - Row lokal yang sudah pernah di-sync tapi tidak ada lagi di server dihapus (stale)
+   * - Row lokal yang belum di-sync (dibuat offline) dibiarkan sampai queue diproses
+   * - Row lokal dengan edit offline yang belum terkirim tidak ditimpa
+   *
+   * @param since - Jika diisi, hanya riwayat mulai tanggal ini yang direkonsiliasi
+   *   (row server yang lebih lama tidak disimpan, row lokal yang lebih lama tidak disentuh)
+   */
+  async reconcileByLansiaId(
+    lansiaId: number,
+    serverList: PemeriksaanDB[],
+    since?: Date
+  ): Promise<{ upserted: number; removed: number }> {
+    assertValidNumber(lansiaId, 'Lansia ID');
+    const isInWindow = (pemeriksaan: PemeriksaanDB) => !since || pemeriksaan.tanggal >= since;
+    const windowList = serverList.filter(isInWindow);
+    const storedList = await Promise.all(
+      windowList.map((pemeriksaan) => this.encodeForStorage(pemeriksaan))
+    );
+
+    return await db.transaction('rw', this.table, async () => {
+      const serverIds = new Set(windowList.map((pemeriksaan) => pemeriksaan.id));
+
+      const localList = (await this.table.where('lansiaId').equals(lansiaId).toArray()).filter(
+        isInWindow
+      );
+      const localById = new Map(localList.map((local) => [local.id, local]));
+
+      const staleIds = localList
+        .filter((local) => local.syncedAt && !local.localModifiedAt && !serverIds.has(local.id))
+        .map((local) => local.id);
+
+      if (staleIds.length > 0) {
+        await this.table.bulkDelete(staleIds);
+      }
+
+      const upsertList = storedList.filter((server) => {
+        const local = localById.get(server.id);
+        return !local || !shouldKeepLocal(local, server);
+      });
+      await this.table.bulkPut(upsertList);
+
+      return { upserted: upsertList.length, removed: staleIds.length };
+    });
+  }
+
   /**
    * Count pemeriksaan by lansiaId
    */
@@ -114,7 +211,9 @@ class PemeriksaanRepository extends BaseRepository<PemeriksaanDB> {
    * Get pemeriksaan yang belum di-sync
    */
   async getUnsyncedPemeriksaan(): Promise<PemeriksaanDB[]> {
-    return await this.table.filter((pemeriksaan) => !pemeriksaan.syncedAt).toArray();
+    return await this.decodeAll(
+      await this.table.filter((pemeriksaan) => !pemeriksaan.syncedAt).toArray()
+    );
   }
 
   /**
@@ -3,57 +3,98 @@
  *
  * File ini berisi CRUD operations untuk sync queue di IndexedDB.
  * Sync queue menyimpan operasi yang perlu di-sync ke server saat offline.
+ * Payload (`data`) berisi PII, jadi disimpan terenkripsi; metadata antrian
+ * (entity, type, retry, jadwal) tetap plaintext untuk index dan penjadwalan.
  *
  * Mengikuti prinsip:
  * - SRP: Hanya handle operasi database untuk sync queue
  * - DIP: Depend on abstraction (Dexie table)
+ * - DRY: Extends BaseRepository untuk enkripsi payload
  * - KISS: Implementasi sederhana dan straightforward
  */
 
 import { db, type SyncQueueDB } from '../schema';
+import { BaseRepository } from './BaseRepository';
+import { generateIdempotencyKey } from '@/lib/utils/idempotency';
 
 /**
  * Sync Queue Repository Class
  */
-class SyncQueueRepository {
+class SyncQueueRepository extends BaseRepository<SyncQueueDB> {
+  constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    super(() => db.syncQueue as any, 'SyncQueue', ['data']);
+  }
+
   /**
-   * Add item ke sync queue
+   * Add item ke sync queue dengan idempotency key baru
    */
-  async add(item: Omit<SyncQueueDB, 'id' | 'retryCount' | 'createdAt'>): Promise<number> {
-    const id = await db.syncQueue.add({
+  async add(
+    item: Omit<SyncQueueDB, 'id' | 'idempotencyKey' | 'retryCount' | 'createdAt'>
+  ): Promise<number> {
+    const stored = await this.encodeForStorage({
       ...item,
+      idempotencyKey: generateIdempotencyKey(),
       retryCount: 0,
       createdAt: new Date(),
     });
+    const id = await db.syncQueue.add(stored);
     return id as number;
   }
 
   /**
-   * Get item by ID
+   * Get semua items dalam queue
    */
-  async getById(id: number): Promise<SyncQueueDB | undefined> {
-    return await db.syncQueue.get(id);
+  async getAll(): Promise<SyncQueueDB[]> {
+    return await this.decodeAll(await db.syncQueue.orderBy('createdAt').toArray());
   }
 
   /**
-   * Get semua items dalam queue
+   * Get jadwal percobaan berikutnya yang paling dekat
+   *
+   * @returns Waktu nextAttemptAt terdekat, atau undefined jika tidak ada item yang menunggu backoff
    */
-  async getAll(): Promise<SyncQueueDB[]> {
-    return await db.syncQueue.orderBy('createdAt').toArray();
+  async getEarliestNextAttempt(): Promise<Date | undefined> {
+    const items = await db.syncQueue.toArray();
+
+    let earliest: Date | undefined;
+    for (const item of items) {
+      if (item.nextAttemptAt && (!earliest || item.nextAttemptAt < earliest)) {
+        earliest = item.nextAttemptAt;
+      }
+    }
+    return earliest;
   }
 
   /**
    * Get items by entity type
    */
   async getByEntity(entity: 'LANSIA' | 'PEMERIKSAAN'): Promise<SyncQueueDB[]> {
-    return await db.syncQueue.where('entity').equals(entity).toArray();
+    return await this.decodeAll(await db.syncQueue.where('entity').equals(entity).toArray());
+  }
+
+  /**
+   * Cari item yang masih pending berdasarkan entity, type, dan kriteria payload
+   * Digunakan untuk menggabungkan edit/delete ke CREATE yang belum terkirim
+   */
+  async findPending(
+    entity: SyncQueueDB['entity'],
+    type: SyncQueueDB['type'],
+    predicate: (data: unknown) => boolean
+  ): Promise<SyncQueueDB | undefined> {
+    // Payload terenkripsi, jadi kriteria dicek setelah didekripsi
+    const items = await db.syncQueue.where('[entity+type]').equals([entity, type]).toArray();
+    return (await this.decodeAll(items)).find((item) => predicate(item.data));
   }
 
   /**
-   * Update item
+   * Ganti payload item yang masih pending (mis. edit offline digabung ke CREATE/UPDATE)
+   *
+   * Payload yang berubah adalah request baru, jadi idempotency key ikut diganti
+   * supaya server tidak membalas dengan hasil request lama.
    */
-  async update(id: number, data: Partial<SyncQueueDB>): Promise<number> {
-    return await db.syncQueue.update(id, data);
+  async updateData(id: number, data: unknown): Promise<number> {
+    return await this.update(id, { data, idempotencyKey: generateIdempotencyKey() });
   }
 
   /**
@@ -75,6 +116,34 @@ class SyncQueueRepository {
     }
   }
 
+  /**
+   * Catat kegagalan: increment retry count, simpan error terakhir,
+   * dan jadwalkan percobaan berikutnya
+   *
+   * @param getNextAttemptAt - Menghitung jadwal retry dari retry count yang baru
+   * @returns Retry count setelah di-increment
+   */
+  async recordFailure(
+    id: number,
+    message: string,
+    status?: number,
+    getNextAttemptAt?: (retryCount: number) => Date
+  ): Promise<number> {
+    const item = await this.getById(id);
+    if (!item) {
+      return 0;
+    }
+
+    const retryCount = item.retryCount + 1;
+    await this.update(id, {
+      retryCount,
+      nextAttemptAt: getNextAttemptAt?.(retryCount),
+      lastError: message,
+      lastStatus: status,
+    });
+    return retryCount;
+  }
+
   /**
    * Delete items dengan retry count > maxRetries
    * Default uses SYNC_MAX_RETRIES from config
@@ -117,7 +186,7 @@ class SyncQueueRepository {
    * Get oldest item (FIFO)
    */
   async getOldest(): Promise<SyncQueueDB | undefined> {
-    return await db.syncQueue.orderBy('createdAt').first();
+    return await this.decode(await db.syncQueue.orderBy('createdAt').first());
   }
 
   /**
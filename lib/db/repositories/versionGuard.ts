@@ -0,0 +1,41 @@
+/**
+ * Version Guard
+ *
+ * Aturan kapan data dari server boleh menimpa row lokal di IndexedDB.
+ * Dipakai oleh repository saat upsert hasil pull dari server.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya memutuskan lokal vs server, tidak menulis ke database
+ * - DRY: Aturan yang sama untuk lansia dan pemeriksaan
+ */
+
+/**
+ * Field versi yang dimiliki LansiaDB dan PemeriksaanDB
+ */
+interface Versioned {
+  updatedAt?: Date;
+  localModifiedAt?: Date;
+}
+
+/**
+ * Cek apakah row lokal harus dipertahankan saat menerima versi dari server
+ *
+ * Row lokal dipertahankan jika:
+ * - masih punya edit offline yang belum terkirim (localModifiedAt), atau
+ * - versi server lebih lama dari versi lokal (updatedAt)
+ *
+ * @param existing - Row lokal saat ini
+ * @param incoming - Row dari server
+ * @returns true jika row lokal tidak boleh ditimpa
+ */
+export function shouldKeepLocal(existing: Versioned, incoming: Versioned): boolean {
+  if (existing.localModifiedAt) {
+    return true;
+  }
+
+  if (existing.updatedAt && incoming.updatedAt) {
+    return incoming.updatedAt.getTime() < existing.updatedAt.getTime();
+  }
+
+  return false;
+}
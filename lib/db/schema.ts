@@ -10,67 +10,221 @@
  */
 
 import Dexie, { type EntityTable } from 'dexie';
-import type { Lansia, Pemeriksaan } from '@/types';
+import { applyMigrations } from './migrations';
+import type {
+  CreateLansiaData,
+  Lansia,
+  Pemeriksaan,
+  PemeriksaanGabunganData,
+  UpdateLansiaData,
+  UpdatePemeriksaanData,
+} from '@/types';
 
 /**
  * Interface untuk Lansia di IndexedDB
- * Menambahkan field syncedAt untuk tracking sync status
+ * Menambahkan field syncedAt untuk tracking sync status,
+ * pemeriksaanSyncedAt untuk incremental pull riwayat pemeriksaan,
+ * dan localModifiedAt selama ada edit offline yang belum terkirim
+ * (row tersebut tidak ditimpa oleh data dari server)
+ *
+ * nikIndex dan searchTokens adalah blind index (HMAC) pengganti index nik/nama
+ * karena field tersebut dienkripsi; hanya dipakai di dalam lansiaRepository.
  */
 export interface LansiaDB extends Lansia {
   syncedAt?: Date;
+  pemeriksaanSyncedAt?: Date;
+  localModifiedAt?: Date;
+  nikIndex?: string;
+  searchTokens?: string[];
 }
 
 /**
  * Interface untuk Pemeriksaan di IndexedDB
  * Menambahkan field syncedAt untuk tracking sync status
+ * dan localModifiedAt selama ada edit offline yang belum terkirim
  */
 export interface PemeriksaanDB extends Pemeriksaan {
   syncedAt?: Date;
+  localModifiedAt?: Date;
 }
 
 /**
  * Interface untuk Sync Queue
  * Menyimpan operasi yang perlu di-sync ke server
+ * nextAttemptAt diisi setelah gagal (backoff), item dilewati sampai waktunya tiba
+ * dependsOn berisi kode lokal lansia yang CREATE-nya harus terkirim lebih dulu
+ * idempotencyKey dikirim sebagai header di setiap percobaan agar retry tidak membuat duplikat
+ * data berisi PII dan disimpan terenkripsi (lihat syncQueueRepository)
  */
 export interface SyncQueueDB {
   id?: number;
   entity: 'LANSIA' | 'PEMERIKSAAN';
   type: 'CREATE' | 'UPDATE' | 'DELETE';
   data: unknown;
+  idempotencyKey: string;
+  retryCount: number;
+  createdAt: Date;
+  dependsOn?: string;
+  nextAttemptAt?: Date;
+  lastError?: string;
+  lastStatus?: number;
+}
+
+/**
+ * Interface untuk Dead-Letter Queue
+ * Menyimpan item sync queue yang gagal setelah SYNC_MAX_RETRIES
+ * agar bisa diperiksa, diedit, dikirim ulang, atau dibuang secara manual
+ * data disimpan terenkripsi seperti di sync queue
+ */
+export interface DeadLetterDB {
+  id?: number;
+  entity: SyncQueueDB['entity'];
+  type: SyncQueueDB['type'];
+  data: unknown;
+  idempotencyKey: string;
   retryCount: number;
   createdAt: Date;
+  dependsOn?: string;
+  failedAt: Date;
+  lastError: string;
+  lastStatus?: number;
+}
+
+/**
+ * Interface untuk Konflik Sinkronisasi
+ * Dibuat saat server menolak UPDATE karena data sudah diubah di perangkat lain.
+ * local berisi field yang diubah di perangkat ini, server berisi versi server terkini
+ * (keduanya disimpan terenkripsi).
+ */
+export interface ConflictDB {
+  id?: number;
+  entity: SyncQueueDB['entity'];
+  kode: string;
+  recordId?: number;
+  local: Record<string, unknown>;
+  server: Record<string, unknown>;
+  detectedAt: Date;
+}
+
+/**
+ * Payload sync queue per entity dan operasi
+ *
+ * localKode / localId menunjuk ke row IndexedDB (temporary kode/ID) yang dibuat
+ * saat offline, dan dibuang sebelum payload dikirim ke server.
+ * baseUpdatedAt adalah updatedAt server yang menjadi dasar edit (dikirim sebagai If-Match).
+ */
+export type LansiaCreatePayload = CreateLansiaData & { localKode?: string };
+export type LansiaUpdatePayload = UpdateLansiaData & { kode: string; baseUpdatedAt?: string };
+export interface LansiaDeletePayload {
+  kode: string;
+}
+export type PemeriksaanCreatePayload = PemeriksaanGabunganData & {
+  kode: string;
+  localId?: number;
+};
+export type PemeriksaanUpdatePayload = UpdatePemeriksaanData & {
+  kode: string;
+  id: number;
+  baseUpdatedAt?: string;
+};
+export interface PemeriksaanDeletePayload {
+  kode: string;
+  id: number;
+}
+
+/**
+ * Nama database IndexedDB
+ * Dipakai apa adanya saat tidak ada user login; data user memakai getUserDatabaseName.
+ */
+export const DB_NAME = 'PosyanduLansiaDB';
+
+/**
+ * localStorage key untuk user pemilik database aktif (dipulihkan saat reload)
+ */
+const ACTIVE_USER_KEY = 'posyandu_db_user';
+
+/**
+ * Nama database milik satu user
+ *
+ * @param userId - ID user
+ */
+export function getUserDatabaseName(userId: number): string {
+  return `${DB_NAME}_user_${userId}`;
 }
 
 /**
  * Database class dengan Dexie
  */
-class PosyanduDatabase extends Dexie {
+export class PosyanduDatabase extends Dexie {
   // Tables
   lansia!: EntityTable<LansiaDB, 'id'>;
   pemeriksaan!: EntityTable<PemeriksaanDB, 'id'>;
   syncQueue!: EntityTable<SyncQueueDB, 'id'>;
+  deadLetter!: EntityTable<DeadLetterDB, 'id'>;
+  conflicts!: EntityTable<ConflictDB, 'id'>;
 
-  constructor() {
-    super('PosyanduLansiaDB');
-
-    // Define schema
-    this.version(1).stores({
-      // Lansia table
-      // Index: id (primary), kode (unique), nik, nama
-      lansia: '++id, kode, nik, nama, syncedAt',
+  constructor(name: string = DB_NAME) {
+    super(name);
 
-      // Pemeriksaan table
-      // Index: id (primary), lansiaId, tanggal
-      pemeriksaan: '++id, lansiaId, tanggal, syncedAt',
+    // Define schema (lihat migrations.ts untuk menambah versi baru)
+    applyMigrations(this);
+  }
+}
 
-      // Sync Queue table
-      // Index: id (primary), entity, createdAt
-      syncQueue: '++id, entity, createdAt',
-    });
+/**
+ * Baca user pemilik database aktif terakhir
+ *
+ * @private
+ */
+function readActiveUserId(): number | null {
+  if (typeof window === 'undefined') {
+    return null;
   }
+
+  const stored = Number(localStorage.getItem(ACTIVE_USER_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : null;
 }
 
+let activeUserId = readActiveUserId();
+
 /**
- * Export singleton database instance
+ * Database instance aktif (milik user yang sedang login)
+ *
+ * Diganti oleh setActiveDatabaseUser saat login/logout. Import `db` adalah
+ * live binding, jadi selalu menunjuk ke database aktif; jangan simpan
+ * referensi table di luar pemanggilan (lihat BaseRepository).
  */
-export const db = new PosyanduDatabase();
+export let db = new PosyanduDatabase(
+  activeUserId === null ? DB_NAME : getUserDatabaseName(activeUserId)
+);
+
+/**
+ * User pemilik database aktif (null jika tidak ada user login)
+ */
+export function getActiveDatabaseUser(): number | null {
+  return activeUserId;
+}
+
+/**
+ * Ganti database aktif ke milik user (dipanggil saat login/logout)
+ *
+ * @param userId - ID user, atau null untuk database tanpa user
+ */
+export function setActiveDatabaseUser(userId: number | null): void {
+  if (typeof window !== 'undefined') {
+    if (userId === null) {
+      localStorage.removeItem(ACTIVE_USER_KEY);
+    } else {
+      localStorage.setItem(ACTIVE_USER_KEY, String(userId));
+    }
+  }
+
+  if (userId === activeUserId) {
+    return;
+  }
+
+  db.close();
+  activeUserId = userId;
+  db = new PosyanduDatabase(userId === null ? DB_NAME : getUserDatabaseName(userId));
+  console.log(`[DB] Active database: ${db.name}`);
+}
@@ -0,0 +1,265 @@
+/**
+ * Storage Manager
+ *
+ * File ini berisi pemantauan kuota penyimpanan perangkat (Storage API) dan
+ * eviction riwayat pemeriksaan lama supaya IndexedDB tidak tumbuh tanpa batas
+ * di tablet lapangan.
+ *
+ * - Meminta persistent storage supaya browser tidak menghapus data saat
+ *   penyimpanan perangkat menipis.
+ * - Hanya pemeriksaan yang sudah tersinkron (syncedAt, tanpa edit lokal) dan
+ *   lebih lama dari PEMERIKSAAN_EVICTION_DAYS yang dihapus. Data yang belum
+ *   tersinkron, sync queue, dead-letter, dan konflik tidak pernah disentuh.
+ * - Status tekanan kuota dipantau oleh UI untuk memperingatkan petugas
+ *   sebelum penulisan data gagal.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle kuota dan eviction data lokal
+ * - Fail Safe: Browser tanpa Storage API dianggap tidak tertekan kuota
+ */
+
+import { db } from './schema';
+import {
+  PEMERIKSAAN_EVICTION_DAYS,
+  STORAGE_CHECK_INTERVAL_MS,
+  STORAGE_CRITICAL_RATIO,
+  STORAGE_WARNING_RATIO,
+} from '@/lib/constants';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Tingkat tekanan kuota penyimpanan
+ */
+export type StoragePressure = 'normal' | 'warning' | 'critical';
+
+/**
+ * Snapshot penggunaan penyimpanan perangkat
+ */
+export interface StorageStatus {
+  /**
+   * false jika browser tidak mendukung navigator.storage.estimate
+   */
+  isSupported: boolean;
+  usage: number;
+  quota: number;
+  /**
+   * usage / quota (0 jika tidak diketahui)
+   */
+  usageRatio: number;
+  pressure: StoragePressure;
+  /**
+   * true jika browser tidak akan menghapus data ini otomatis
+   */
+  isPersisted: boolean;
+  checkedAt: Date | null;
+}
+
+export type StorageStatusListener = (status: StorageStatus) => void;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INITIAL_STATUS: StorageStatus = {
+  isSupported: false,
+  usage: 0,
+  quota: 0,
+  usageRatio: 0,
+  pressure: 'normal',
+  isPersisted: false,
+  checkedAt: null,
+};
+
+/**
+ * Tentukan tingkat tekanan dari rasio penggunaan
+ *
+ * @private
+ */
+function toPressure(usageRatio: number): StoragePressure {
+  if (usageRatio >= STORAGE_CRITICAL_RATIO) return 'critical';
+  if (usageRatio >= STORAGE_WARNING_RATIO) return 'warning';
+  return 'normal';
+}
+
+// ============================================
+// Storage Manager
+// ============================================
+
+class StorageManager {
+  private status: StorageStatus = INITIAL_STATUS;
+  private listeners = new Set<StorageStatusListener>();
+  private hasRequestedPersistence = false;
+
+  /**
+   * Get snapshot status terakhir (referensi stabil sampai status berubah)
+   */
+  getStatus(): StorageStatus {
+    return this.status;
+  }
+
+  /**
+   * Subscribe ke perubahan status penyimpanan
+   *
+   * @returns Function untuk unsubscribe
+   */
+  subscribe(listener: StorageStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Baca penggunaan kuota dari Storage API
+   *
+   * @returns Status terbaru
+   */
+  async check(): Promise<StorageStatus> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return this.status;
+    }
+
+    try {
+      const [estimate, isPersisted] = await Promise.all([
+        navigator.storage.estimate(),
+        navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+      ]);
+      const usage = estimate.usage ?? 0;
+      const quota = estimate.quota ?? 0;
+      const usageRatio = quota > 0 ? usage / quota : 0;
+
+      this.setStatus({
+        isSupported: true,
+        usage,
+        quota,
+        usageRatio,
+        pressure: toPressure(usageRatio),
+        isPersisted,
+        checkedAt: new Date(),
+      });
+    } catch (error) {
+      console.warn('[StorageManager] Failed to estimate storage:', error);
+    }
+
+    return this.status;
+  }
+
+  /**
+   * Minta persistent storage (sekali per sesi)
+   *
+   * @returns true jika data tidak akan dihapus otomatis oleh browser
+   */
+  async requestPersistence(): Promise<boolean> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+      return false;
+    }
+    if (this.status.isPersisted || this.hasRequestedPersistence) {
+      return this.status.isPersisted;
+    }
+
+    this.hasRequestedPersistence = true;
+    try {
+      const isPersisted = await navigator.storage.persist();
+      console.log(`[StorageManager] Persistent storage ${isPersisted ? 'granted' : 'denied'}`);
+      this.setStatus({ ...this.status, isPersisted });
+      return isPersisted;
+    } catch (error) {
+      console.warn('[StorageManager] Failed to request persistent storage:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Hapus pemeriksaan tersinkron yang lebih lama dari masa simpan
+   *
+   * Row tanpa syncedAt (belum terkirim) atau dengan localModifiedAt
+   * (edit lokal belum terkirim) tidak pernah dihapus.
+   *
+   * @param windowDays - Masa simpan dalam hari
+   * @returns Jumlah pemeriksaan yang dihapus
+   */
+  async evictExpiredPemeriksaan(windowDays: number = PEMERIKSAAN_EVICTION_DAYS): Promise<number> {
+    const cutoff = this.getEvictionCutoff(windowDays);
+
+    const evicted = await db.transaction('rw', db.pemeriksaan, db.conflicts, async () => {
+      // Row yang masih ditinjau di konflik tetap disimpan
+      const conflicts = await db.conflicts.where('entity').equals('PEMERIKSAAN').toArray();
+      const conflictIds = new Set(conflicts.map((conflict) => conflict.recordId));
+
+      const ids = await db.pemeriksaan
+        .where('tanggal')
+        .below(cutoff)
+        .filter(
+          (pemeriksaan) =>
+            !!pemeriksaan.syncedAt &&
+            !pemeriksaan.localModifiedAt &&
+            !conflictIds.has(pemeriksaan.id)
+        )
+        .primaryKeys();
+
+      await db.pemeriksaan.bulkDelete(ids);
+      return ids.length;
+    });
+
+    if (evicted > 0) {
+      console.log(`[StorageManager] Evicted ${evicted} synced pemeriksaan older than ${windowDays} days`);
+    }
+    return evicted;
+  }
+
+  /**
+   * Batas tanggal pemeriksaan yang disimpan di perangkat
+   *
+   * @param windowDays - Masa simpan dalam hari
+   */
+  getEvictionCutoff(windowDays: number = PEMERIKSAAN_EVICTION_DAYS): Date {
+    return new Date(Date.now() - windowDays * DAY_MS);
+  }
+
+  /**
+   * Pemeliharaan berkala (dipanggil setelah sync):
+   * minta persistent storage, eviction, lalu perbarui status kuota
+   */
+  async runMaintenance(): Promise<StorageStatus> {
+    await this.requestPersistence();
+
+    try {
+      await this.evictExpiredPemeriksaan();
+    } catch (error) {
+      console.error('[StorageManager] Eviction failed:', error);
+    }
+
+    return await this.check();
+  }
+
+  /**
+   * Cek kuota sebelum menulis data baru
+   *
+   * Estimate di-throttle STORAGE_CHECK_INTERVAL_MS. Saat kritis, eviction
+   * dijalankan lebih dulu supaya penulisan tidak gagal; status tetap
+   * diteruskan ke listener untuk memperingatkan petugas.
+   */
+  async beforeWrite(): Promise<void> {
+    const { checkedAt } = this.status;
+    const isStale = !checkedAt || Date.now() - checkedAt.getTime() > STORAGE_CHECK_INTERVAL_MS;
+
+    const status = isStale ? await this.check() : this.status;
+    if (status.pressure === 'critical') {
+      await this.runMaintenance();
+    }
+  }
+
+  /**
+   * @private
+   */
+  private setStatus(status: StorageStatus): void {
+    this.status = status;
+    this.listeners.forEach((listener) => listener(status));
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const storageManager = new StorageManager();
@@ -0,0 +1,176 @@
+/**
+ * Per-User Databases
+ *
+ * File ini berisi operasi lintas database untuk data lokal per user:
+ * setiap user yang login di perangkat punya database sendiri
+ * (lihat getUserDatabaseName), sehingga data satu user tidak terlihat
+ * oleh user berikutnya di perangkat yang sama.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle hitung, pindah, dan hapus database per user
+ * - Fail Safe: Database dengan data yang belum terkirim tidak dihapus di sini
+ *   tanpa dicek oleh caller (lihat countUserPendingItems)
+ */
+
+import Dexie from 'dexie';
+import { db, DB_NAME, PosyanduDatabase, getUserDatabaseName } from './schema';
+import { keyring } from './keyring';
+import type { EncryptedRecord, FieldCipher } from './fieldCipher';
+
+// ============================================
+// Pending Items
+// ============================================
+
+/**
+ * Jumlah item yang belum terkirim (sync queue, dead-letter, konflik)
+ *
+ * @param database - Database yang dihitung (default: database aktif)
+ */
+export async function countPendingItems(database: PosyanduDatabase = db): Promise<number> {
+  const [queued, failed, conflicts] = await Promise.all([
+    database.syncQueue.count(),
+    database.deadLetter.count(),
+    database.conflicts.count(),
+  ]);
+  return queued + failed + conflicts;
+}
+
+/**
+ * Jumlah item yang belum terkirim di database milik user
+ *
+ * @param userId - ID user
+ * @returns 0 jika database user tidak ada
+ */
+export async function countUserPendingItems(userId: number): Promise<number> {
+  const name = getUserDatabaseName(userId);
+  if (name === db.name) {
+    return await countPendingItems(db);
+  }
+  if (!(await Dexie.exists(name))) {
+    return 0;
+  }
+
+  const database = new PosyanduDatabase(name);
+  try {
+    return await countPendingItems(database);
+  } finally {
+    database.close();
+  }
+}
+
+// ============================================
+// Delete
+// ============================================
+
+/**
+ * Hapus database milik user
+ *
+ * @param userId - ID user
+ */
+export async function deleteUserDatabase(userId: number): Promise<void> {
+  const name = getUserDatabaseName(userId);
+
+  if (name === db.name) {
+    await db.delete();
+  } else {
+    await Dexie.delete(name);
+  }
+
+  console.log(`[UserDatabases] Deleted ${name}`);
+}
+
+// ============================================
+// Legacy Database
+// ============================================
+
+/**
+ * Tabel berisi item yang belum terkirim (harus terbukti milik user yang login)
+ */
+const PENDING_TABLES = new Set(['syncQueue', 'deadLetter', 'conflicts']);
+
+/**
+ * Apakah isi database lama milik user yang login
+ *
+ * Database lama tidak mencatat pemilik row, jadi kepemilikan dibuktikan lewat
+ * key: row terenkripsi hanya bisa dibuka key user yang menulisnya. Item belum
+ * terkirim tanpa enkripsi (dari versi sebelum enkripsi) tidak bisa dibuktikan
+ * pemiliknya sehingga dianggap milik user lain.
+ */
+async function ownsLegacyRows(
+  tables: { name: string; rows: EncryptedRecord[] }[],
+  cipher: FieldCipher
+): Promise<boolean> {
+  for (const { name, rows } of tables) {
+    for (const row of rows) {
+      if (!row.encrypted) {
+        if (PENDING_TABLES.has(name)) {
+          return false;
+        }
+        continue;
+      }
+
+      try {
+        await cipher.decrypt(row);
+      } catch {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Pindahkan isi database lama (sebelum data dipisah per user) ke database aktif
+ *
+ * Sebelumnya semua user berbagi satu database. Isinya hanya diambil alih jika
+ * semua row terenkripsi bisa dibuka key user yang login (lihat ownsLegacyRows)
+ * dan database aktif masih kosong. Selain itu database lama dibiarkan sampai
+ * user pemiliknya login di perangkat ini lalu sync atau ekspor serah terima.
+ *
+ * @returns Jumlah row yang dipindahkan
+ */
+export async function adoptLegacyDatabase(): Promise<number> {
+  if (db.name === DB_NAME || !(await Dexie.exists(DB_NAME))) {
+    return 0;
+  }
+
+  const legacy = new PosyanduDatabase(DB_NAME);
+  try {
+    const tables = await Promise.all(
+      legacy.tables.map(async (table) => ({
+        name: table.name,
+        rows: (await table.toArray()) as EncryptedRecord[],
+      }))
+    );
+    const total = tables.reduce((sum, table) => sum + table.rows.length, 0);
+
+    if (total > 0) {
+      if (!(await ownsLegacyRows(tables, await keyring.getCipher()))) {
+        console.warn(
+          `[UserDatabases] ${DB_NAME} belongs to another user, left in place until they sync it`
+        );
+        return 0;
+      }
+
+      const activeCounts = await Promise.all(db.tables.map((table) => table.count()));
+      if (activeCounts.some((count) => count > 0)) {
+        console.warn(`[UserDatabases] ${db.name} is not empty, legacy data left in ${DB_NAME}`);
+        return 0;
+      }
+
+      await db.transaction('rw', db.tables, async () => {
+        for (const { name, rows } of tables) {
+          await db.table(name).bulkPut(rows);
+        }
+      });
+    }
+
+    legacy.close();
+    await Dexie.delete(DB_NAME);
+
+    console.log(`[UserDatabases] Moved ${total} legacy rows into ${db.name}`);
+    return total;
+  } finally {
+    legacy.close();
+  }
+}
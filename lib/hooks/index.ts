@@ -16,16 +16,28 @@ export { usePetugasForm } from './usePetugasForm';
 export { useLansiaList } from './useLansiaList';
 export { useLansiaForm } from './useLansiaForm';
 export { useLansiaDetail } from './useLansiaDetail';
+export { useLansiaActions } from './useLansiaActions';
 export { usePemeriksaanKesehatanForm } from './usePemeriksaanKesehatanForm';
 export { usePemeriksaanGabunganForm } from './usePemeriksaanGabunganForm';
 export { useProfileForm } from './useProfileForm';
 export { usePasswordForm } from './usePasswordForm';
+export { useDeadLetterQueue } from './useDeadLetterQueue';
+export { useSyncScheduler } from './useSyncScheduler';
+export { useSyncConflicts } from './useSyncConflicts';
+export { useSyncStatus } from './useSyncStatus';
+export { useSyncCompleted } from './useSyncCompleted';
+export { useDatabaseDiagnostics } from './useDatabaseDiagnostics';
+export { useRetentionPolicy } from './useRetentionPolicy';
+export { useStorageStatus } from './useStorageStatus';
+export { useHandover } from './useHandover';
+export type { UseSyncStatusReturn } from './useSyncStatus';
 export type {
   DashboardStats,
   TrendData,
   UseDashboardStatsReturn,
 } from './useDashboardStats';
 export type { UseLansiaDetailReturn } from './useLansiaDetail';
+export type { UseLansiaActionsReturn } from './useLansiaActions';
 export type {
   UsePemeriksaanKesehatanFormReturn,
   PemeriksaanKesehatanFormData,
@@ -0,0 +1,55 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getDatabaseDiagnostics, type DatabaseDiagnostics } from '@/lib/db';
+
+/**
+ * Interface untuk return value hook useDatabaseDiagnostics
+ */
+interface UseDatabaseDiagnosticsReturn {
+  diagnostics: DatabaseDiagnostics | null;
+  isLoading: boolean;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Custom hook untuk membaca diagnostik database lokal
+ *
+ * Responsibilities:
+ * - Load versi schema, migration, dan jumlah row per table
+ *
+ * Design Principles:
+ * - SRP: Single responsibility untuk diagnostik database
+ * - DIP: Depends on getDatabaseDiagnostics abstraction
+ *
+ * @returns {UseDatabaseDiagnosticsReturn} Object dengan diagnostics dan refetch
+ */
+export function useDatabaseDiagnostics(): UseDatabaseDiagnosticsReturn {
+  const [diagnostics, setDiagnostics] = useState<DatabaseDiagnostics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  /**
+   * Load diagnostik database lokal
+   */
+  const fetchDiagnostics = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setDiagnostics(await getDatabaseDiagnostics());
+    } catch (err) {
+      console.error('[useDatabaseDiagnostics] Failed to read diagnostics:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load data on mount
+  useEffect(() => {
+    fetchDiagnostics();
+  }, [fetchDiagnostics]);
+
+  return {
+    diagnostics,
+    isLoading,
+    refetch: fetchDiagnostics,
+  };
+}
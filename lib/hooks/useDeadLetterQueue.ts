@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { deadLetterRepository, type DeadLetterDB } from '@/lib/db';
+import { syncManager } from '@/lib/utils/syncManager';
+import { useNotification } from '@/components/ui';
+import { handleAPIError } from '@/lib/utils/errors';
+import { useSyncCompleted } from './useSyncCompleted';
+
+/**
+ * Interface untuk return value hook useDeadLetterQueue
+ */
+interface UseDeadLetterQueueReturn {
+  items: DeadLetterDB[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  updatePayload: (id: number, payloadJson: string) => Promise<boolean>;
+  retry: (id: number) => Promise<boolean>;
+  discard: (id: number) => Promise<boolean>;
+}
+
+/**
+ * Custom hook untuk mengelola dead-letter queue sinkronisasi
+ *
+ * Responsibilities:
+ * - Load item yang gagal sync dari IndexedDB
+ * - Edit payload item sebelum dikirim ulang
+ * - Kirim ulang (kembalikan ke sync queue) atau buang item
+ *
+ * Design Principles:
+ * - SRP: Single responsibility untuk dead-letter management
+ * - DIP: Depends on deadLetterRepository dan syncManager abstraction
+ * - SoC: Separates data logic from UI
+ *
+ * @returns {UseDeadLetterQueueReturn} Object dengan items dan actions
+ */
+export function useDeadLetterQueue(): UseDeadLetterQueueReturn {
+  const [items, setItems] = useState<DeadLetterDB[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { showNotification } = useNotification();
+
+  /**
+   * Load semua item dari dead-letter queue
+   */
+  const fetchItems = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setItems(await deadLetterRepository.getAll());
+    } catch (err) {
+      const errorMessage = handleAPIError(err);
+      setError(errorMessage);
+      showNotification('error', errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showNotification]);
+
+  /**
+   * Simpan payload hasil edit (harus JSON object yang valid)
+   */
+  const updatePayload = useCallback(
+    async (id: number, payloadJson: string): Promise<boolean> => {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(payloadJson);
+      } catch {
+        showNotification('error', 'Payload bukan JSON yang valid');
+        return false;
+      }
+
+      if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+        showNotification('error', 'Payload harus berupa object');
+        return false;
+      }
+
+      try {
+        await deadLetterRepository.updateData(id, payload);
+        showNotification('success', 'Payload berhasil disimpan');
+        await fetchItems();
+        return true;
+      } catch (err) {
+        showNotification('error', handleAPIError(err));
+        return false;
+      }
+    },
+    [fetchItems, showNotification]
+  );
+
+  /**
+   * Kirim ulang item ke server melalui sync queue
+   */
+  const retry = useCallback(
+    async (id: number): Promise<boolean> => {
+      try {
+        await syncManager.retryDeadLetter(id);
+        showNotification('info', 'Item dikembalikan ke antrian sinkronisasi');
+        await fetchItems();
+        return true;
+      } catch (err) {
+        showNotification('error', handleAPIError(err));
+        return false;
+      }
+    },
+    [fetchItems, showNotification]
+  );
+
+  /**
+   * Buang item secara permanen
+   */
+  const discard = useCallback(
+    async (id: number): Promise<boolean> => {
+      try {
+        await syncManager.discardDeadLetter(id);
+        showNotification('success', 'Item berhasil dibuang');
+        await fetchItems();
+        return true;
+      } catch (err) {
+        showNotification('error', handleAPIError(err));
+        return false;
+      }
+    },
+    [fetchItems, showNotification]
+  );
+
+  // Load data on mount
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  // Refresh setelah sync (di tab ini maupun tab lain)
+  useSyncCompleted(fetchItems);
+
+  return {
+    items,
+    isLoading,
+    error,
+    refetch: fetchItems,
+    updatePayload,
+    retry,
+    discard,
+  };
+}
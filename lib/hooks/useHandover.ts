@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useNotification } from '@/components/ui';
+import {
+  exportHandover,
+  importHandover,
+  type ImportHandoverResult,
+} from '@/lib/services/handoverService';
+import { useAuth } from './useAuth';
+import { useOffline } from './useOffline';
+
+/**
+ * Interface untuk return value hook useHandover
+ */
+interface UseHandoverReturn {
+  isExporting: boolean;
+  isImporting: boolean;
+  /**
+   * Hasil impor terakhir (untuk ditampilkan sebagai ringkasan)
+   */
+  lastImport: ImportHandoverResult | null;
+  exportFile: (passphrase: string) => Promise<boolean>;
+  importFile: (file: File, passphrase: string) => Promise<boolean>;
+}
+
+/**
+ * Custom hook untuk serah terima data offline antar perangkat
+ *
+ * Responsibilities:
+ * - Ekspor data tertunda dan unduh sebagai file JSON terenkripsi passphrase
+ * - Baca file dari perangkat lain dan impor ke antrian sinkronisasi
+ *
+ * Design Principles:
+ * - SRP: Single responsibility untuk handover
+ * - DIP: Depends on handoverService abstraction
+ * - SoC: Separates data logic from UI
+ *
+ * @returns {UseHandoverReturn} Object dengan status dan actions
+ */
+export function useHandover(): UseHandoverReturn {
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [lastImport, setLastImport] = useState<ImportHandoverResult | null>(null);
+  const { user } = useAuth();
+  const { isOnline } = useOffline();
+  const { showNotification } = useNotification();
+
+  /**
+   * Ekspor data tertunda lalu unduh file
+   */
+  const exportFile = useCallback(
+    async (passphrase: string): Promise<boolean> => {
+      if (!user) return false;
+
+      try {
+        setIsExporting(true);
+        const result = await exportHandover(user, passphrase);
+
+        if (!result.success || !result.content || !result.fileName) {
+          showNotification('error', result.error || 'Gagal mengekspor data');
+          return false;
+        }
+
+        const url = URL.createObjectURL(new Blob([result.content], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = result.fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+
+        showNotification('success', 'File serah terima berhasil diunduh');
+        return true;
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [user, showNotification]
+  );
+
+  /**
+   * Impor file serah terima dari perangkat lain
+   */
+  const importFile = useCallback(
+    async (file: File, passphrase: string): Promise<boolean> => {
+      try {
+        setIsImporting(true);
+        const result = await importHandover(await file.text(), passphrase, isOnline);
+        setLastImport(result);
+
+        if (!result.success) {
+          showNotification('error', result.error || 'Gagal mengimpor file');
+          return false;
+        }
+
+        showNotification(
+          'success',
+          isOnline
+            ? 'File berhasil diimpor, data sedang dikirim ke server'
+            : 'File berhasil diimpor, data akan dikirim saat online'
+        );
+        return true;
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [isOnline, showNotification]
+  );
+
+  return {
+    isExporting,
+    isImporting,
+    lastImport,
+    exportFile,
+    importFile,
+  };
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useNotification } from '@/components/ui';
+import { deleteLansia } from '@/lib/services/lansiaService';
+import { deletePemeriksaan, updatePemeriksaan } from '@/lib/services/pemeriksaanService';
+import { NOTIFICATION_DURATION_MS } from '@/lib/constants';
+import type { UpdatePemeriksaanData } from '@/types';
+import { useOffline } from './useOffline';
+
+/**
+ * Interface untuk return value hook useLansiaActions
+ */
+export interface UseLansiaActionsReturn {
+  /**
+   * true selama ada perubahan yang sedang disimpan
+   */
+  isProcessing: boolean;
+  removeLansia: () => Promise<boolean>;
+  savePemeriksaan: (id: number, data: UpdatePemeriksaanData) => Promise<boolean>;
+  removePemeriksaan: (id: number) => Promise<boolean>;
+}
+
+/**
+ * Hook untuk aksi ubah/hapus di halaman detail lansia
+ *
+ * Responsibilities:
+ * - Hapus lansia beserta riwayatnya
+ * - Koreksi dan hapus pemeriksaan
+ * - Online langsung ke API, offline lewat sync queue (lihat service)
+ * - Tampilkan notifikasi hasil
+ *
+ * Design Principles:
+ * - SRP: Hanya handle aksi mutasi, data detail tetap di useLansiaDetail
+ * - DIP: Depends on lansiaService/pemeriksaanService abstraction
+ *
+ * @param kode - Kode unik lansia
+ * @returns Fungsi aksi, masing-masing mengembalikan true jika berhasil
+ */
+export function useLansiaActions(kode: string): UseLansiaActionsReturn {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { isOnline } = useOffline();
+  const { showNotification } = useNotification();
+
+  /**
+   * Jalankan satu aksi dan tampilkan notifikasi hasilnya
+   */
+  const run = useCallback(
+    async (
+      action: () => Promise<{ success: boolean; error?: string; isOffline?: boolean }>,
+      messages: { success: string; error: string }
+    ): Promise<boolean> => {
+      try {
+        setIsProcessing(true);
+        const result = await action();
+
+        if (!result.success) {
+          showNotification('error', result.error || messages.error, NOTIFICATION_DURATION_MS);
+          return false;
+        }
+
+        showNotification(
+          'success',
+          result.isOffline
+            ? `${messages.success} (offline). Data akan disinkronkan saat online.`
+            : messages.success,
+          NOTIFICATION_DURATION_MS
+        );
+        return true;
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [showNotification]
+  );
+
+  const removeLansia = useCallback(
+    () =>
+      run(() => deleteLansia(kode, isOnline), {
+        success: 'Data lansia berhasil dihapus',
+        error: 'Gagal menghapus data lansia',
+      }),
+    [run, kode, isOnline]
+  );
+
+  const savePemeriksaan = useCallback(
+    (id: number, data: UpdatePemeriksaanData) =>
+      run(() => updatePemeriksaan(kode, id, data, isOnline), {
+        success: 'Pemeriksaan berhasil diperbarui',
+        error: 'Gagal memperbarui pemeriksaan',
+      }),
+    [run, kode, isOnline]
+  );
+
+  const removePemeriksaan = useCallback(
+    (id: number) =>
+      run(() => deletePemeriksaan(kode, id, isOnline), {
+        success: 'Pemeriksaan berhasil dihapus',
+        error: 'Gagal menghapus pemeriksaan',
+      }),
+    [run, kode, isOnline]
+  );
+
+  return {
+    isProcessing,
+    removeLansia,
+    savePemeriksaan,
+    removePemeriksaan,
+  };
+}
@@ -1,19 +1,20 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { lansiaAPI } from '@/lib/api';
 import { Lansia, Pemeriksaan } from '@/types';
 import { handleAPIError } from '@/lib/utils/errors';
+import { getCachedLansiaDetail, refreshLansiaDetail } from '@/lib/services/lansiaService';
+import { useOffline } from './useOffline';
 
 /**
  * Hook untuk fetch detail lansia dan riwayat pemeriksaan
- * 
+ *
  * Responsibilities (SRP):
- * - Fetch lansia data by kode
- * - Fetch pemeriksaan history
+ * - Tampilkan data lansia dan riwayat pemeriksaan dari IndexedDB lebih dulu
+ * - Revalidate dari API lalu simpan kembali ke IndexedDB (stale-while-revalidate)
  * - Handle loading and error states
  * - Provide refetch functionality
- * 
+ *
  * @param kode - Kode unik lansia
  */
 export interface UseLansiaDetailReturn {
@@ -21,6 +22,18 @@ export interface UseLansiaDetailReturn {
   pemeriksaan: Pemeriksaan[];
   isLoading: boolean;
   error: string | null;
+  /**
+   * true selama data yang tampil berasal dari IndexedDB (belum/ gagal revalidate)
+   */
+  isCached: boolean;
+  /**
+   * Waktu sinkron terakhir data cache (null jika belum pernah sinkron)
+   */
+  cachedAt: Date | null;
+  /**
+   * true selama data sedang diperbarui dari server
+   */
+  isRevalidating: boolean;
   refetch: () => Promise<void>;
 }
 
@@ -29,6 +42,10 @@ export function useLansiaDetail(kode: string): UseLansiaDetailReturn {
   const [pemeriksaan, setPemeriksaan] = useState<Pemeriksaan[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isCached, setIsCached] = useState(false);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  const [isRevalidating, setIsRevalidating] = useState(false);
+  const { isOnline } = useOffline();
 
   const fetchData = useCallback(async () => {
     if (!kode) {
@@ -38,29 +55,44 @@ export function useLansiaDetail(kode: string): UseLansiaDetailReturn {
     }
 
     try {
-      setIsLoading(true);
       setError(null);
 
-      // Fetch lansia data
-      const lansiaResponse = await lansiaAPI.getByKode(kode);
-      if (lansiaResponse.error) {
-        throw new Error(lansiaResponse.error);
+      // Render langsung dari IndexedDB jika tersedia
+      const cached = await getCachedLansiaDetail(kode);
+      if (cached) {
+        setLansia(cached.lansia);
+        setPemeriksaan(cached.pemeriksaan);
+        setIsCached(true);
+        setCachedAt(cached.syncedAt);
+        setIsLoading(false);
+      } else {
+        setIsLoading(true);
       }
 
-      if (!lansiaResponse.data) {
-        throw new Error('Data lansia tidak ditemukan');
+      if (!isOnline) {
+        if (!cached) {
+          throw new Error(
+            'Data lansia belum tersimpan di perangkat ini. Hubungkan ke internet untuk memuat data.'
+          );
+        }
+        return;
       }
 
-      setLansia(lansiaResponse.data);
+      // Revalidate dari server
+      try {
+        setIsRevalidating(true);
 
-      // Fetch pemeriksaan history
-      const pemeriksaanResponse = await lansiaAPI.getPemeriksaan(kode);
-      if (pemeriksaanResponse.error) {
-        // Pemeriksaan error tidak fatal, set empty array
-        console.warn('Gagal fetch pemeriksaan:', pemeriksaanResponse.error);
-        setPemeriksaan([]);
-      } else {
-        setPemeriksaan(pemeriksaanResponse.data || []);
+        const fresh = await refreshLansiaDetail(kode);
+        setLansia(fresh.lansia);
+        setPemeriksaan(fresh.pemeriksaan);
+        setIsCached(false);
+        setCachedAt(null);
+      } catch (err) {
+        if (!cached) {
+          throw err;
+        }
+        // Tetap tampilkan data lokal (mis. offline atau lansia belum terkirim ke server)
+        console.warn('Gagal memperbarui detail lansia, menampilkan data lokal:', err);
       }
     } catch (err) {
       const errorMessage = handleAPIError(err);
@@ -69,8 +101,9 @@ export function useLansiaDetail(kode: string): UseLansiaDetailReturn {
       setPemeriksaan([]);
     } finally {
       setIsLoading(false);
+      setIsRevalidating(false);
     }
-  }, [kode]);
+  }, [kode, isOnline]);
 
   useEffect(() => {
     fetchData();
@@ -81,6 +114,9 @@ export function useLansiaDetail(kode: string): UseLansiaDetailReturn {
     pemeriksaan,
     isLoading,
     error,
+    isCached,
+    cachedAt,
+    isRevalidating,
     refetch: fetchData,
   };
 }
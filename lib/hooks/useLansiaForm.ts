@@ -3,7 +3,7 @@
 /**
  * useLansiaForm Hook
  *
- * Custom hook untuk mengelola form pendaftaran lansia.
+ * Custom hook untuk mengelola form pendaftaran dan edit data lansia.
  * Mengikuti prinsip:
  * - SRP: Hanya handle form state dan validation
  * - DIP: Depend on abstractions (submission service)
@@ -11,13 +11,15 @@
  */
 
 import { useState, useCallback } from 'react';
+import { format } from 'date-fns';
 import { generateIdPasien } from '@/lib/utils/generateIdPasien';
 import { lansiaFormSchema } from '@/lib/utils/validators';
 import { submitLansiaOnline, submitLansiaOffline } from '@/lib/services/lansiaSubmissionService';
+import { updateLansia } from '@/lib/services/lansiaService';
 import { useOffline } from './useOffline';
 import { useNotification } from '@/components/ui/Notification';
 import { NOTIFICATION_DURATION_MS } from '@/lib/constants';
-import type { Gender } from '@/types';
+import type { Gender, Lansia, UpdateLansiaData } from '@/types';
 
 // ============================================
 // Types
@@ -41,10 +43,22 @@ interface LansiaFormErrors {
   alamat?: string;
 }
 
+interface UseLansiaFormOptions {
+  /**
+   * Lansia yang diedit (kosong untuk pendaftaran baru)
+   */
+  lansia?: Lansia;
+  /**
+   * Dipanggil setelah perubahan tersimpan (mode edit)
+   */
+  onUpdated?: (kode: string) => void;
+}
+
 interface UseLansiaFormReturn {
   formData: LansiaFormData;
   errors: LansiaFormErrors;
   isSubmitting: boolean;
+  isEditMode: boolean;
   generatedKode: string | null;
   handleChange: (field: keyof LansiaFormData, value: string) => void;
   handleSubmit: (e: React.FormEvent) => Promise<void>;
@@ -64,6 +78,20 @@ const initialFormData: LansiaFormData = {
   alamat: '',
 };
 
+/**
+ * Isi form dari data lansia yang diedit
+ */
+function toFormData(lansia: Lansia): LansiaFormData {
+  return {
+    nik: lansia.nik,
+    kk: lansia.kk,
+    nama: lansia.nama,
+    tanggalLahir: format(lansia.tanggalLahir, 'yyyy-MM-dd'),
+    gender: lansia.gender,
+    alamat: lansia.alamat,
+  };
+}
+
 // ============================================
 // Hook
 // ============================================
@@ -79,10 +107,16 @@ const initialFormData: LansiaFormData = {
  * 5. If offline: save ke IndexedDB → add ke syncQueue
  * 6. Return generated kode untuk ditampilkan
  *
+ * Mode edit (options.lansia diisi): form diisi data lansia, dan hanya field
+ * yang berubah dikirim lewat updateLansia (online atau sync queue).
+ *
+ * @param options - Lansia yang diedit dan callback setelah tersimpan
  * @returns Form state dan handlers
  */
-export function useLansiaForm(): UseLansiaFormReturn {
-  const [formData, setFormData] = useState<LansiaFormData>(initialFormData);
+export function useLansiaForm({ lansia, onUpdated }: UseLansiaFormOptions = {}): UseLansiaFormReturn {
+  const [formData, setFormData] = useState<LansiaFormData>(() =>
+    lansia ? toFormData(lansia) : initialFormData
+  );
   const [errors, setErrors] = useState<LansiaFormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [generatedKode, setGeneratedKode] = useState<string | null>(null);
@@ -167,6 +201,41 @@ export function useLansiaForm(): UseLansiaFormReturn {
 
       setIsSubmitting(true);
 
+      if (lansia) {
+        try {
+          // Hanya field yang berubah, supaya edit di perangkat lain tidak tertimpa
+          const original = toFormData(lansia);
+          const changes = Object.fromEntries(
+            (Object.keys(formData) as Array<keyof LansiaFormData>)
+              .filter((field) => formData[field] !== original[field])
+              .map((field) => [field, formData[field]])
+          ) as UpdateLansiaData;
+
+          if (Object.keys(changes).length === 0) {
+            showNotification('info', 'Tidak ada perubahan untuk disimpan');
+            return;
+          }
+
+          const result = await updateLansia(lansia.kode, changes, isOnline);
+          if (result.success) {
+            const message = result.isOffline
+              ? 'Perubahan tersimpan (offline). Data akan disinkronkan saat online.'
+              : 'Data lansia berhasil diperbarui';
+            showNotification('success', message, NOTIFICATION_DURATION_MS);
+            onUpdated?.(lansia.kode);
+          } else {
+            showNotification(
+              'error',
+              result.error || 'Gagal memperbarui data lansia',
+              NOTIFICATION_DURATION_MS
+            );
+          }
+        } finally {
+          setIsSubmitting(false);
+        }
+        return;
+      }
+
       try {
         // Prepare submission data
         const submissionData = {
@@ -206,22 +275,23 @@ export function useLansiaForm(): UseLansiaFormReturn {
         setIsSubmitting(false);
       }
     },
-    [formData, validateForm, isOnline, showNotification]
+    [formData, validateForm, isOnline, showNotification, lansia, onUpdated]
   );
 
   /**
    * Reset form ke initial state
    */
   const resetForm = useCallback(() => {
-    setFormData(initialFormData);
+    setFormData(lansia ? toFormData(lansia) : initialFormData);
     setErrors({});
     setGeneratedKode(null);
-  }, []);
+  }, [lansia]);
 
   return {
     formData,
     errors,
     isSubmitting,
+    isEditMode: !!lansia,
     generatedKode,
     handleChange,
     handleSubmit,
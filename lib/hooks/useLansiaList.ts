@@ -1,10 +1,15 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { lansiaAPI } from '@/lib/api';
-import { Lansia, MinimalLansia } from '@/types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Gender, Lansia, LansiaSortField, MinimalLansia, SortOrder } from '@/types';
 import { useNotification } from '@/components/ui';
-import { handleAPIError } from '@/lib/utils/errors';
+import { useOffline } from './useOffline';
+import {
+  DEFAULT_LANSIA_ORDER,
+  DEFAULT_LANSIA_SORT,
+  getLansiaList,
+  MIN_SEARCH_QUERY_LENGTH,
+} from '@/lib/services/lansiaService';
 
 /**
  * Interface untuk return value hook useLansiaList
@@ -13,24 +18,52 @@ interface UseLansiaListReturn {
   lansia: (Lansia | MinimalLansia)[];
   isLoading: boolean;
   error: string | null;
+  /**
+   * true jika data diambil dari IndexedDB (offline atau server gagal)
+   */
+  isCached: boolean;
+  /**
+   * Waktu sinkron terakhir data cache (null jika belum pernah sinkron)
+   */
+  cachedAt: Date | null;
   searchQuery: string;
   isSearching: boolean;
   handleSearch: (query: string) => void;
   refetch: () => Promise<void>;
+  /**
+   * Jumlah seluruh lansia yang cocok dengan pencarian/filter (semua halaman)
+   */
+  total: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  /**
+   * Muat halaman berikutnya dan tambahkan ke daftar
+   */
+  loadMore: () => Promise<void>;
+  sort: LansiaSortField;
+  order: SortOrder;
+  setSort: (sort: LansiaSortField, order: SortOrder) => void;
+  /**
+   * Filter jenis kelamin (null untuk semua)
+   */
+  gender: Gender | null;
+  setGender: (gender: Gender | null) => void;
 }
 
 /**
  * Custom hook untuk mengelola data lansia
  * 
  * Responsibilities:
- * - Fetch data lansia dari API
+ * - Fetch data lansia dari API, fallback ke IndexedDB saat offline/gagal
  * - Handle search functionality dengan debounce
+ * - Paging dengan cursor (loadMore), urutan, dan filter jenis kelamin
+ * - Batalkan request lama saat query berubah (hasil lama tidak menimpa hasil baru)
  * - Handle loading dan error states
  * - Provide refetch function untuk refresh data
  * 
  * Design Principles:
  * - SRP: Single responsibility untuk lansia data management
- * - DIP: Depends on lansiaAPI abstraction
+ * - DIP: Depends on lansiaService abstraction
  * - SoC: Separates data logic from UI
  * 
  * @returns {UseLansiaListReturn} Object dengan lansia data dan functions
@@ -40,32 +73,82 @@ export function useLansiaList(): UseLansiaListReturn {
   const [isLoading, setIsLoading] = useState(true);
   const [isSearching, setIsSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isCached, setIsCached] = useState(false);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [sort, setSortField] = useState<LansiaSortField>(DEFAULT_LANSIA_SORT);
+  const [order, setOrder] = useState<SortOrder>(DEFAULT_LANSIA_ORDER);
+  const [gender, setGender] = useState<Gender | null>(null);
   const { showNotification } = useNotification();
+  const { isOnline } = useOffline();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Query milik daftar yang sedang tampil (dipakai loadMore, bukan input yang belum di-debounce)
+  const activeQueryRef = useRef('');
+  const searchQueryRef = useRef('');
 
   /**
-   * Fetch semua data lansia dari API
+   * Batalkan request sebelumnya dan buat signal untuk request baru
+   */
+  const startRequest = useCallback((): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  /**
+   * Terapkan hasil query ke state
+   * Error hanya ditampilkan jika data lokal juga tidak bisa dibaca
+   */
+  const applyResult = useCallback(
+    (result: Awaited<ReturnType<typeof getLansiaList>>) => {
+      setLansia(result.data);
+      setIsCached(result.isCached);
+      setCachedAt(result.cachedAt);
+      setNextCursor(result.nextCursor);
+      setTotal(result.total);
+
+      if (!result.success) {
+        const errorMessage = result.error || 'Gagal mengambil data lansia';
+        setError(errorMessage);
+        showNotification('error', errorMessage);
+      }
+    },
+    [showNotification]
+  );
+
+  /**
+   * Fetch halaman pertama data lansia dari API (atau IndexedDB)
    */
   const fetchAll = useCallback(async () => {
+    const signal = startRequest();
+    activeQueryRef.current = '';
+
     try {
       setIsLoading(true);
+      // Request yang dibatalkan tidak sempat mereset state-nya sendiri
+      setIsSearching(false);
+      setIsLoadingMore(false);
       setError(null);
 
-      const response = await lansiaAPI.getAll();
-
-      if (response.data) {
-        setLansia(response.data);
-      } else {
-        throw new Error(response.error || 'Gagal mengambil data lansia');
+      const result = await getLansiaList(
+        '',
+        isOnline,
+        { sort, order, gender: gender ?? undefined },
+        signal
+      );
+      if (!signal.aborted) {
+        applyResult(result);
       }
-    } catch (err) {
-      const errorMessage = handleAPIError(err);
-      setError(errorMessage);
-      showNotification('error', errorMessage);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [showNotification]);
+  }, [applyResult, isOnline, startRequest, sort, order, gender]);
 
   /**
    * Search lansia berdasarkan query
@@ -73,40 +156,102 @@ export function useLansiaList(): UseLansiaListReturn {
    */
   const searchLansia = useCallback(
     async (query: string) => {
-      if (query.length < 3) {
-        // Jika query < 3 karakter, fetch all
+      if (query.length < MIN_SEARCH_QUERY_LENGTH) {
+        // Jika query terlalu pendek, fetch all
         await fetchAll();
         return;
       }
 
+      const signal = startRequest();
+      activeQueryRef.current = query;
+
       try {
         setIsSearching(true);
+        setIsLoading(false);
+        setIsLoadingMore(false);
         setError(null);
 
-        const response = await lansiaAPI.find(query);
-
-        if (response.data) {
-          setLansia(response.data);
-        } else {
-          throw new Error(response.error || 'Gagal mencari data lansia');
+        const result = await getLansiaList(
+          query,
+          isOnline,
+          { sort, order, gender: gender ?? undefined },
+          signal
+        );
+        if (!signal.aborted) {
+          applyResult(result);
         }
-      } catch (err) {
-        const errorMessage = handleAPIError(err);
-        setError(errorMessage);
-        showNotification('error', errorMessage);
       } finally {
-        setIsSearching(false);
+        if (!signal.aborted) {
+          setIsSearching(false);
+        }
       }
     },
-    [fetchAll, showNotification]
+    [fetchAll, applyResult, isOnline, startRequest, sort, order, gender]
   );
 
+  /**
+   * Muat halaman berikutnya
+   * Diabaikan jika tidak ada halaman lagi atau masih ada request berjalan
+   */
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoading || isSearching || isLoadingMore) {
+      return;
+    }
+
+    const signal = startRequest();
+
+    try {
+      setIsLoadingMore(true);
+
+      const result = await getLansiaList(
+        activeQueryRef.current,
+        isOnline,
+        { cursor: nextCursor, sort, order, gender: gender ?? undefined },
+        signal
+      );
+      if (signal.aborted) return;
+
+      if (result.success) {
+        setLansia((prev) => [...prev, ...result.data]);
+        setNextCursor(result.nextCursor);
+        setTotal(result.total);
+      } else {
+        // Daftar yang sudah tampil tetap; user bisa mencoba lagi
+        showNotification('error', result.error || 'Gagal memuat data lansia berikutnya');
+      }
+    } finally {
+      if (!signal.aborted) {
+        setIsLoadingMore(false);
+      }
+    }
+  }, [
+    nextCursor,
+    isLoading,
+    isSearching,
+    isLoadingMore,
+    startRequest,
+    isOnline,
+    sort,
+    order,
+    gender,
+    showNotification,
+  ]);
+
+  /**
+   * Ganti urutan daftar (halaman pertama dimuat ulang)
+   */
+  const setSort = useCallback((field: LansiaSortField, direction: SortOrder) => {
+    setSortField(field);
+    setOrder(direction);
+  }, []);
+
   /**
    * Handle search dengan debounce
    * Debounce 500ms untuk menghindari terlalu banyak API calls
    */
   const handleSearch = useCallback(
     (query: string) => {
+      searchQueryRef.current = query;
       setSearchQuery(query);
       // Search akan di-trigger oleh useEffect yang watch searchQuery
     },
@@ -118,22 +263,31 @@ export function useLansiaList(): UseLansiaListReturn {
    * Exposed untuk manual refresh
    */
   const refetch = useCallback(async () => {
-    if (searchQuery.length >= 3) {
+    if (searchQuery.length >= MIN_SEARCH_QUERY_LENGTH) {
       await searchLansia(searchQuery);
     } else {
       await fetchAll();
     }
   }, [searchQuery, searchLansia, fetchAll]);
 
-  // Fetch data on mount
+  // Fetch halaman pertama saat mount, dan ulangi saat urutan/filter berubah
+  useEffect(() => {
+    if (searchQueryRef.current.length >= MIN_SEARCH_QUERY_LENGTH) {
+      searchLansia(searchQueryRef.current);
+    } else {
+      fetchAll();
+    }
+  }, [fetchAll, searchLansia]);
+
+  // Batalkan request yang masih berjalan saat unmount
   useEffect(() => {
-    fetchAll();
-  }, [fetchAll]);
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   // Handle search dengan debounce
   useEffect(() => {
     const timeoutId = setTimeout(() => {
-      if (searchQuery.length >= 3) {
+      if (searchQuery.length >= MIN_SEARCH_QUERY_LENGTH) {
         searchLansia(searchQuery);
       } else if (searchQuery.length === 0) {
         fetchAll();
@@ -147,9 +301,20 @@ export function useLansiaList(): UseLansiaListReturn {
     lansia,
     isLoading,
     error,
+    isCached,
+    cachedAt,
     searchQuery,
     isSearching,
     handleSearch,
     refetch,
+    total,
+    hasMore: nextCursor !== null,
+    isLoadingMore,
+    loadMore,
+    sort,
+    order,
+    setSort,
+    gender,
+    setGender,
   };
 }
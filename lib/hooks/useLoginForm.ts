@@ -3,8 +3,9 @@ import { useRouter } from 'next/navigation';
 import { useAuth } from './useAuth';
 import { useNotification } from '@/components/ui';
 import { loginFormSchema } from '@/lib/utils/validators';
-import { handleAPIError } from '@/lib/utils/errors';
-import type { UserRole } from '@/types';
+import { LocalKeyMismatchError, handleAPIError } from '@/lib/utils/errors';
+import { getSafeRedirectUrl } from '@/lib/utils/routeGuards';
+import type { LocalDataRecovery } from '@/lib/services/localDataService';
 
 /**
  * useLoginForm Hook
@@ -14,6 +15,14 @@ import type { UserRole } from '@/types';
  * - SRP: Hanya handle form state dan validation
  * - SoC: Memisahkan form logic dari UI
  * - DIP: Bergantung pada useAuth abstraction
+ *
+ * Setelah login, user diarahkan ke `?redirect=` dari middleware (deep link,
+ * mis. /petugas/lansia/<kode>/grafik) jika path tersebut boleh diakses
+ * role-nya; selain itu ke dashboard role.
+ *
+ * Jika data lokal di perangkat ini terkunci dengan password lama
+ * (LocalKeyMismatchError), login ditahan sampai user memilih memulihkan
+ * dengan password lama atau menghapus data lokal (lihat localDataLock).
  */
 
 interface LoginFormData {
@@ -26,15 +35,30 @@ interface LoginFormErrors {
   password?: string;
 }
 
+/**
+ * Data lokal yang key-nya tidak bisa dibuka dengan password login
+ */
+interface LocalDataLock {
+  /**
+   * Jumlah data belum tersinkron (hapus data lokal hanya boleh jika 0)
+   */
+  pendingCount: number;
+  error: string | null;
+}
+
 interface UseLoginFormReturn {
   formData: LoginFormData;
   errors: LoginFormErrors;
   isSubmitting: boolean;
   showPassword: boolean;
+  localDataLock: LocalDataLock | null;
   handleEmailChange: (value: string) => void;
   handlePasswordChange: (value: string) => void;
   togglePasswordVisibility: () => void;
   handleSubmit: (e: React.FormEvent) => Promise<void>;
+  recoverLocalData: (oldPassword: string) => Promise<void>;
+  resetLocalData: () => Promise<void>;
+  dismissLocalDataLock: () => void;
 }
 
 export function useLoginForm(): UseLoginFormReturn {
@@ -50,6 +74,7 @@ export function useLoginForm(): UseLoginFormReturn {
   const [errors, setErrors] = useState<LoginFormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [localDataLock, setLocalDataLock] = useState<LocalDataLock | null>(null);
 
   /**
    * Validate single field
@@ -103,10 +128,61 @@ export function useLoginForm(): UseLoginFormReturn {
   };
 
   /**
-   * Get dashboard URL based on role
+   * Login lalu arahkan ke halaman tujuan
+   *
+   * @param recovery - Pilihan pemulihan data lokal (setelah LocalKeyMismatchError)
+   */
+  const submitLogin = async (recovery?: LocalDataRecovery) => {
+    setIsSubmitting(true);
+
+    try {
+      // Login dan dapatkan user data langsung
+      const userData = await login(formData.email, formData.password, {
+        localDataRecovery: recovery,
+      });
+      setLocalDataLock(null);
+
+      // Show success notification
+      showNotification('success', 'Login berhasil');
+
+      // Kembali ke deep link awal (divalidasi), atau dashboard sesuai role
+      const redirect = new URLSearchParams(window.location.search).get('redirect');
+      router.push(getSafeRedirectUrl(redirect, userData.role));
+    } catch (error) {
+      if (error instanceof LocalKeyMismatchError) {
+        setLocalDataLock({
+          pendingCount: error.pendingCount,
+          error: recovery ? handleAPIError(error) : null,
+        });
+      } else if (recovery) {
+        setLocalDataLock((prev) => prev && { ...prev, error: handleAPIError(error) });
+      } else {
+        showNotification('error', handleAPIError(error));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Pulihkan data lokal dengan password lama, lalu login
+   */
+  const recoverLocalData = async (oldPassword: string) => {
+    await submitLogin({ action: 'recover', oldPassword });
+  };
+
+  /**
+   * Hapus data lokal yang terkunci (tanpa data belum tersinkron), lalu login
    */
-  const getDashboardUrl = (role: UserRole): string => {
-    return role === 'ADMIN' ? '/admin/dashboard' : '/petugas/dashboard';
+  const resetLocalData = async () => {
+    await submitLogin({ action: 'reset' });
+  };
+
+  /**
+   * Batalkan login (data lokal tetap terkunci dan utuh)
+   */
+  const dismissLocalDataLock = () => {
+    setLocalDataLock(null);
   };
 
   /**
@@ -133,24 +209,7 @@ export function useLoginForm(): UseLoginFormReturn {
     }
 
     // Submit login
-    setIsSubmitting(true);
-
-    try {
-      // Login dan dapatkan user data langsung
-      const userData = await login(formData.email, formData.password);
-
-      // Show success notification
-      showNotification('success', 'Login berhasil');
-
-      // Redirect based on role dari user data yang dikembalikan
-      const dashboardUrl = getDashboardUrl(userData.role);
-      router.push(dashboardUrl);
-    } catch (error) {
-      const errorMessage = handleAPIError(error);
-      showNotification('error', errorMessage);
-    } finally {
-      setIsSubmitting(false);
-    }
+    await submitLogin();
   };
 
   return {
@@ -158,9 +217,13 @@ export function useLoginForm(): UseLoginFormReturn {
     errors,
     isSubmitting,
     showPassword,
+    localDataLock,
     handleEmailChange,
     handlePasswordChange,
     togglePasswordVisibility,
     handleSubmit,
+    recoverLocalData,
+    resetLocalData,
+    dismissLocalDataLock,
   };
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { petugasAPI } from '@/lib/api';
 import { Petugas } from '@/types';
 import { useNotification } from '@/components/ui';
@@ -15,13 +15,28 @@ interface UsePetugasListReturn {
   error: string | null;
   refetch: () => Promise<void>;
   toggleStatus: (id: number, currentStatus: boolean) => Promise<boolean>;
+  /**
+   * Jumlah seluruh petugas yang cocok dengan filter (semua halaman)
+   */
+  total: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  /**
+   * Muat halaman berikutnya dan tambahkan ke daftar
+   */
+  loadMore: () => Promise<void>;
+  /**
+   * Filter status (null untuk semua)
+   */
+  aktif: boolean | null;
+  setAktif: (aktif: boolean | null) => void;
 }
 
 /**
  * Custom hook untuk mengelola data petugas
  * 
  * Responsibilities:
- * - Fetch data petugas dari API
+ * - Fetch data petugas dari API per halaman (cursor), dengan filter status
  * - Update status petugas (aktif/nonaktif)
  * - Handle loading dan error states
  * - Provide refetch function untuk refresh data
@@ -37,32 +52,101 @@ export function usePetugasList(): UsePetugasListReturn {
   const [petugas, setPetugas] = useState<Petugas[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [aktif, setAktif] = useState<boolean | null>(null);
   const { showNotification } = useNotification();
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Batalkan request sebelumnya dan buat signal untuk request baru
+   */
+  const startRequest = useCallback((): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  }, []);
 
   /**
-   * Fetch data petugas dari API
+   * Fetch halaman pertama data petugas dari API
    * Menggunakan useCallback untuk memoization
    */
   const fetchPetugas = useCallback(async () => {
+    const signal = startRequest();
+
     try {
       setIsLoading(true);
+      // Request yang dibatalkan tidak sempat mereset state-nya sendiri
+      setIsLoadingMore(false);
       setError(null);
 
-      const response = await petugasAPI.getAll();
+      const response = await petugasAPI.list({ aktif: aktif ?? undefined }, { signal });
+      if (signal.aborted) return;
 
       if (response.data) {
-        setPetugas(response.data);
+        const { items, nextCursor, total } = response.data;
+        // Satu halaman penuh bisa berasal dari backend tanpa filter (array biasa)
+        const visible = nextCursor
+          ? items
+          : items.filter((p) => aktif === null || p.aktif === aktif);
+        setPetugas(visible);
+        setNextCursor(nextCursor);
+        setTotal(total - (items.length - visible.length));
       } else {
         throw new Error(response.error || 'Gagal mengambil data petugas');
       }
     } catch (err) {
+      if (signal.aborted) return;
       const errorMessage = handleAPIError(err);
       setError(errorMessage);
       showNotification('error', errorMessage);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [showNotification, startRequest, aktif]);
+
+  /**
+   * Muat halaman berikutnya
+   * Diabaikan jika tidak ada halaman lagi atau masih ada request berjalan
+   */
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoading || isLoadingMore) {
+      return;
+    }
+
+    const signal = startRequest();
+
+    try {
+      setIsLoadingMore(true);
+
+      const response = await petugasAPI.list(
+        { aktif: aktif ?? undefined, cursor: nextCursor },
+        { signal }
+      );
+      if (signal.aborted) return;
+
+      if (response.data) {
+        const { items } = response.data;
+        setPetugas((prev) => [...prev, ...items]);
+        setNextCursor(response.data.nextCursor);
+        setTotal(response.data.total);
+      } else {
+        throw new Error(response.error || 'Gagal mengambil data petugas');
+      }
+    } catch (err) {
+      if (!signal.aborted) {
+        showNotification('error', handleAPIError(err));
+      }
+    } finally {
+      if (!signal.aborted) {
+        setIsLoadingMore(false);
+      }
     }
-  }, [showNotification]);
+  }, [nextCursor, isLoading, isLoadingMore, startRequest, aktif, showNotification]);
 
   /**
    * Toggle status petugas (aktif/nonaktif)
@@ -80,10 +164,15 @@ export function usePetugasList(): UsePetugasListReturn {
         });
 
         if (response.data) {
-          // Update local state
-          setPetugas((prev) =>
-            prev.map((p) => (p.id === id ? { ...p, aktif: newStatus } : p))
-          );
+          // Petugas keluar dari filter status: cursor server sudah bergeser,
+          // jadi muat ulang dari halaman pertama supaya tidak ada baris terlewat
+          if (aktif !== null && aktif !== newStatus) {
+            void fetchPetugas();
+          } else {
+            setPetugas((prev) =>
+              prev.map((p) => (p.id === id ? { ...p, aktif: newStatus } : p))
+            );
+          }
 
           showNotification(
             'success',
@@ -100,7 +189,7 @@ export function usePetugasList(): UsePetugasListReturn {
         return false;
       }
     },
-    [showNotification]
+    [aktif, fetchPetugas, showNotification]
   );
 
   /**
@@ -116,11 +205,22 @@ export function usePetugasList(): UsePetugasListReturn {
     fetchPetugas();
   }, [fetchPetugas]);
 
+  // Batalkan request yang masih berjalan saat unmount
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   return {
     petugas,
     isLoading,
     error,
     refetch,
     toggleStatus,
+    total,
+    hasMore: nextCursor !== null,
+    isLoadingMore,
+    loadMore,
+    aktif,
+    setAktif,
   };
 }
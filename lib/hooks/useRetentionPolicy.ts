@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { RetentionPolicy } from '@/lib/api';
+import {
+  getRetentionPolicy,
+  refreshRetentionPolicy,
+  updateRetentionPolicy,
+} from '@/lib/services/localDataService';
+import { useNotification } from '@/components/ui';
+import { LOCAL_DATA_RETENTION_LIMITS } from '@/lib/constants';
+import { handleAPIError } from '@/lib/utils/errors';
+
+/**
+ * Interface untuk return value hook useRetentionPolicy
+ */
+interface UseRetentionPolicyReturn {
+  policy: RetentionPolicy;
+  isLoading: boolean;
+  isSaving: boolean;
+  refetch: () => Promise<void>;
+  save: (policy: RetentionPolicy) => Promise<boolean>;
+}
+
+/**
+ * Custom hook untuk mengelola kebijakan retensi data lokal (admin)
+ *
+ * Responsibilities:
+ * - Load kebijakan dari server (fallback ke cache perangkat)
+ * - Validasi dan simpan kebijakan baru
+ *
+ * Design Principles:
+ * - SRP: Single responsibility untuk kebijakan retensi
+ * - DIP: Depends on localDataService abstraction
+ * - SoC: Separates data logic from UI
+ *
+ * @returns {UseRetentionPolicyReturn} Object dengan policy dan actions
+ */
+export function useRetentionPolicy(): UseRetentionPolicyReturn {
+  const [policy, setPolicy] = useState<RetentionPolicy>(getRetentionPolicy);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { showNotification } = useNotification();
+
+  /**
+   * Load kebijakan retensi terbaru
+   */
+  const fetchPolicy = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setPolicy(await refreshRetentionPolicy());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Simpan kebijakan retensi baru
+   * FAIL FAST: Validate input immediately
+   */
+  const save = useCallback(
+    async (next: RetentionPolicy): Promise<boolean> => {
+      const { MIN, MAX } = LOCAL_DATA_RETENTION_LIMITS;
+      if (!Number.isInteger(next.retentionDays) || next.retentionDays < MIN || next.retentionDays > MAX) {
+        showNotification('error', `Masa retensi harus antara ${MIN} dan ${MAX} hari`);
+        return false;
+      }
+
+      try {
+        setIsSaving(true);
+        setPolicy(await updateRetentionPolicy(next));
+        showNotification('success', 'Kebijakan retensi data berhasil disimpan');
+        return true;
+      } catch (err) {
+        showNotification('error', handleAPIError(err));
+        return false;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [showNotification]
+  );
+
+  // Load data on mount
+  useEffect(() => {
+    fetchPolicy();
+  }, [fetchPolicy]);
+
+  return {
+    policy,
+    isLoading,
+    isSaving,
+    refetch: fetchPolicy,
+    save,
+  };
+}
@@ -0,0 +1,46 @@
+'use client';
+
+/**
+ * useStorageStatus Hook
+ *
+ * Custom hook untuk membaca penggunaan kuota penyimpanan perangkat.
+ * Mengikuti prinsip:
+ * - SRP: Hanya menyediakan status kuota untuk ditampilkan di UI
+ * - DIP: Depend on storageManager abstraction
+ *
+ * Status diperbarui saat mount, setelah sync (pemeliharaan storage),
+ * dan sebelum data baru ditulis ke IndexedDB.
+ */
+
+import { useEffect, useSyncExternalStore } from 'react';
+import { storageManager, type StorageStatus } from '@/lib/db';
+
+const subscribeStatus = (onStoreChange: () => void) => storageManager.subscribe(onStoreChange);
+const getStatus = () => storageManager.getStatus();
+
+// Storage API hanya ada di browser
+const SERVER_STATUS: StorageStatus = {
+  isSupported: false,
+  usage: 0,
+  quota: 0,
+  usageRatio: 0,
+  pressure: 'normal',
+  isPersisted: false,
+  checkedAt: null,
+};
+const getServerStatus = () => SERVER_STATUS;
+
+/**
+ * Hook untuk status kuota penyimpanan
+ *
+ * @returns Snapshot status penyimpanan terbaru
+ */
+export function useStorageStatus(): StorageStatus {
+  const status = useSyncExternalStore(subscribeStatus, getStatus, getServerStatus);
+
+  useEffect(() => {
+    storageManager.check();
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,39 @@
+'use client';
+
+/**
+ * useSyncCompleted Hook
+ *
+ * Custom hook untuk menjalankan callback setiap kali sync selesai,
+ * baik di tab ini maupun di tab lain.
+ * Mengikuti prinsip:
+ * - SRP: Hanya menghubungkan event syncManager ke lifecycle React
+ * - DIP: Depend on syncManager abstraction
+ */
+
+import { useEffect, useRef } from 'react';
+import { syncManager, type SyncRunResult } from '@/lib/utils/syncManager';
+
+/**
+ * Hook untuk refresh data yang dibaca dari IndexedDB setelah sync
+ *
+ * Callback terbaru selalu dipakai tanpa subscribe ulang.
+ *
+ * @param callback - Dipanggil dengan hasil sync
+ *
+ * @example
+ * ```tsx
+ * const { refetch } = useDeadLetterQueue();
+ * useSyncCompleted(() => refetch());
+ * ```
+ */
+export function useSyncCompleted(callback: (result: SyncRunResult) => void): void {
+  const callbackRef = useRef(callback);
+
+  useEffect(() => {
+    callbackRef.current = callback;
+  }, [callback]);
+
+  useEffect(() => {
+    return syncManager.onSyncCompleted((result) => callbackRef.current(result));
+  }, []);
+}
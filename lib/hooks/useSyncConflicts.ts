@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { conflictRepository, type ConflictDB } from '@/lib/db';
+import { resolveConflict, type ConflictChoice } from '@/lib/services/syncConflictService';
+import { syncScheduler } from '@/lib/utils/syncScheduler';
+import { useNotification } from '@/components/ui';
+import { handleAPIError } from '@/lib/utils/errors';
+import { useSyncCompleted } from './useSyncCompleted';
+
+/**
+ * Interface untuk return value hook useSyncConflicts
+ */
+interface UseSyncConflictsReturn {
+  conflicts: ConflictDB[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  resolve: (id: number, choices: Record<string, ConflictChoice>) => Promise<boolean>;
+}
+
+/**
+ * Custom hook untuk mengelola konflik sinkronisasi
+ *
+ * Responsibilities:
+ * - Load konflik (edit offline vs versi server) dari IndexedDB
+ * - Selesaikan konflik dengan pilihan nilai per field
+ * - Kirim hasil merge ke server jika sedang online
+ *
+ * Design Principles:
+ * - SRP: Single responsibility untuk conflict management
+ * - DIP: Depends on conflictRepository dan syncConflictService abstraction
+ * - SoC: Separates data logic from UI
+ *
+ * @returns {UseSyncConflictsReturn} Object dengan conflicts dan actions
+ */
+export function useSyncConflicts(): UseSyncConflictsReturn {
+  const [conflicts, setConflicts] = useState<ConflictDB[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { showNotification } = useNotification();
+
+  /**
+   * Load semua konflik
+   */
+  const fetchConflicts = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setConflicts(await conflictRepository.getAll());
+    } catch (err) {
+      const errorMessage = handleAPIError(err);
+      setError(errorMessage);
+      showNotification('error', errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showNotification]);
+
+  /**
+   * Simpan hasil merge konflik
+   */
+  const resolve = useCallback(
+    async (id: number, choices: Record<string, ConflictChoice>): Promise<boolean> => {
+      const result = await resolveConflict(id, choices);
+
+      if (!result.success) {
+        showNotification('error', result.error || 'Gagal menyelesaikan konflik');
+        return false;
+      }
+
+      if (result.hasLocalChanges) {
+        showNotification('success', 'Hasil penggabungan masuk antrian sinkronisasi');
+        if (navigator.onLine) {
+          void syncScheduler.syncNow();
+        }
+      } else {
+        showNotification('success', 'Data disamakan dengan versi server');
+      }
+
+      await fetchConflicts();
+      return true;
+    },
+    [fetchConflicts, showNotification]
+  );
+
+  // Load data on mount
+  useEffect(() => {
+    fetchConflicts();
+  }, [fetchConflicts]);
+
+  // Refresh setelah sync (di tab ini maupun tab lain)
+  useSyncCompleted(fetchConflicts);
+
+  return {
+    conflicts,
+    isLoading,
+    error,
+    refetch: fetchConflicts,
+    resolve,
+  };
+}
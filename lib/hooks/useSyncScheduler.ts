@@ -0,0 +1,68 @@
+'use client';
+
+/**
+ * useSyncScheduler Hook
+ *
+ * Custom hook untuk menjalankan background sync dan membaca state scheduler.
+ * Mengikuti prinsip:
+ * - SRP: Hanya menghubungkan SyncScheduler ke lifecycle React
+ * - DIP: Depend on syncScheduler abstraction
+ * - KISS: useSyncExternalStore tanpa state duplikat di React
+ */
+
+import { useEffect, useSyncExternalStore } from 'react';
+import { syncScheduler, type SyncSchedulerState } from '@/lib/utils/syncScheduler';
+import type { SyncRunResult } from '@/lib/utils/syncManager';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseSyncSchedulerReturn extends SyncSchedulerState {
+  /**
+   * Jalankan sync sekarang tanpa menunggu jadwal
+   */
+  syncNow: () => Promise<SyncRunResult>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+const subscribe = (onStoreChange: () => void) => syncScheduler.subscribe(onStoreChange);
+const getSnapshot = () => syncScheduler.getState();
+
+/**
+ * Hook untuk background sync terjadwal
+ *
+ * Scheduler dimulai saat component mount dan berhenti saat semua
+ * component yang memakai hook ini unmount.
+ *
+ * @returns State scheduler dan action syncNow
+ *
+ * @example
+ * ```tsx
+ * function SyncInfo() {
+ *   const { status, nextRunAt, syncNow } = useSyncScheduler();
+ *
+ *   return (
+ *     <button onClick={syncNow} disabled={status === 'syncing'}>
+ *       Sync {nextRunAt && `(berikutnya ${formatDateTime(nextRunAt)})`}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useSyncScheduler(): UseSyncSchedulerReturn {
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  useEffect(() => {
+    syncScheduler.start();
+    return () => syncScheduler.stop();
+  }, []);
+
+  return {
+    ...state,
+    syncNow: () => syncScheduler.syncNow(),
+  };
+}
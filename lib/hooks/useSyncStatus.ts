@@ -0,0 +1,144 @@
+'use client';
+
+/**
+ * useSyncStatus Hook
+ *
+ * Custom hook untuk membaca status sinkronisasi lengkap dari queue yang sebenarnya.
+ * Mengikuti prinsip:
+ * - SRP: Hanya mengumpulkan status sync untuk ditampilkan di UI
+ * - DIP: Depend on repository, syncManager, dan syncScheduler abstraction
+ * - Composition: Compose useOffline dan useSyncScheduler hook
+ *
+ * Sumber data:
+ * - Sync queue, dead-letter, dan konflik: Dexie liveQuery (update otomatis
+ *   setiap kali table berubah, termasuk dari service saat offline)
+ * - Item yang sedang dikirim dan waktu sync terakhir: syncManager
+ * - Status penjadwalan dan error terakhir: syncScheduler
+ */
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { liveQuery } from 'dexie';
+import {
+  conflictRepository,
+  deadLetterRepository,
+  syncQueueRepository,
+  type SyncQueueDB,
+} from '@/lib/db';
+import { syncManager, type SyncProgress, type SyncRunResult } from '@/lib/utils/syncManager';
+import type { SyncSchedulerStatus } from '@/lib/utils/syncScheduler';
+import { useOffline } from './useOffline';
+import { useSyncScheduler } from './useSyncScheduler';
+
+// ============================================
+// Types
+// ============================================
+
+interface SyncQueueSnapshot {
+  pendingItems: SyncQueueDB[];
+  failedCount: number;
+  conflictCount: number;
+}
+
+export interface UseSyncStatusReturn extends SyncQueueSnapshot {
+  isOnline: boolean;
+  isLoading: boolean;
+  /**
+   * true selama syncAll berjalan (terjadwal, manual, atau dari retry)
+   */
+  isSyncing: boolean;
+  schedulerStatus: SyncSchedulerStatus;
+  pendingCount: number;
+  pendingByEntity: Record<SyncQueueDB['entity'], number>;
+  activeItem: SyncProgress['activeItem'];
+  lastSyncAt: Date | null;
+  lastError: string | null;
+  /**
+   * Jalankan sync seluruh queue sekarang
+   */
+  syncNow: () => Promise<SyncRunResult>;
+  /**
+   * Kirim satu item sekarang (mengabaikan masa backoff-nya)
+   */
+  syncItem: (id: number) => Promise<SyncRunResult>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+const subscribeProgress = (onStoreChange: () => void) => syncManager.subscribe(onStoreChange);
+const getProgress = () => syncManager.getProgress();
+
+// Waktu sync terakhir hanya ada di localStorage; server render tanpa nilai
+const SERVER_PROGRESS: SyncProgress = { isSyncing: false, activeItem: null, lastSyncAt: null };
+const getServerProgress = () => SERVER_PROGRESS;
+
+/**
+ * Query snapshot queue (dipantau oleh liveQuery)
+ */
+async function querySyncQueue(): Promise<SyncQueueSnapshot> {
+  const [pendingItems, failedCount, conflictCount] = await Promise.all([
+    syncQueueRepository.getAll(),
+    deadLetterRepository.count(),
+    conflictRepository.count(),
+  ]);
+  return { pendingItems, failedCount, conflictCount };
+}
+
+/**
+ * Hook untuk status sinkronisasi
+ *
+ * Juga menjalankan background sync (via useSyncScheduler) selama component mount.
+ *
+ * @returns Status sync dan action syncNow/syncItem
+ *
+ * @example
+ * ```tsx
+ * function SyncBadge() {
+ *   const { pendingCount, activeItem, syncNow } = useSyncStatus();
+ *
+ *   return (
+ *     <button onClick={syncNow}>
+ *       {activeItem ? 'Menyinkronkan...' : `${pendingCount} menunggu`}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useSyncStatus(): UseSyncStatusReturn {
+  const { isOnline } = useOffline();
+  const scheduler = useSyncScheduler();
+  const progress = useSyncExternalStore(subscribeProgress, getProgress, getServerProgress);
+
+  const [snapshot, setSnapshot] = useState<SyncQueueSnapshot | null>(null);
+
+  useEffect(() => {
+    const subscription = liveQuery(querySyncQueue).subscribe({
+      next: setSnapshot,
+      error: (error) => console.error('[useSyncStatus] Failed to read sync queue:', error),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const pendingItems = snapshot?.pendingItems ?? [];
+
+  return {
+    isOnline,
+    isLoading: snapshot === null,
+    isSyncing: progress.isSyncing,
+    schedulerStatus: scheduler.status,
+    pendingItems,
+    pendingCount: pendingItems.length,
+    pendingByEntity: {
+      LANSIA: pendingItems.filter((item) => item.entity === 'LANSIA').length,
+      PEMERIKSAAN: pendingItems.filter((item) => item.entity === 'PEMERIKSAAN').length,
+    },
+    failedCount: snapshot?.failedCount ?? 0,
+    conflictCount: snapshot?.conflictCount ?? 0,
+    activeItem: progress.activeItem,
+    lastSyncAt: progress.lastSyncAt,
+    lastError: scheduler.lastError,
+    syncNow: scheduler.syncNow,
+    syncItem: (id: number) => syncManager.syncItem(id),
+  };
+}
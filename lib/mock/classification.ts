@@ -0,0 +1,65 @@
+/**
+ * Mock Classification
+ *
+ * File ini berisi perhitungan hasil pemeriksaan di mock backend (BMI,
+ * kategori tekanan darah, gula darah, kolesterol). Backend asli menghitung
+ * klasifikasi di server; mock memakai utility klasifikasi yang sama dengan
+ * frontend supaya hasilnya konsisten dengan yang ditampilkan.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle perhitungan field turunan pemeriksaan
+ * - DRY: Memakai utility klasifikasi yang sudah ada
+ */
+
+import { hitungBMI } from '@/lib/utils/bmi';
+import { klasifikasiTekananDarah } from '@/lib/utils/tekananDarah';
+import { klasifikasiDuaJPP, klasifikasiGDP, klasifikasiGDS } from '@/lib/utils/gulaDarah';
+import { klasifikasiKolesterol } from '@/lib/utils/kolesterol';
+import type { Pemeriksaan, PemeriksaanGabunganData } from '@/types';
+
+/**
+ * Field hasil klasifikasi (dihitung ulang setiap nilai berubah)
+ */
+export type PemeriksaanClassification = Pick<
+  Pemeriksaan,
+  'bmi' | 'kategoriBmi' | 'tekananDarah' | 'klasifikasiGula' | 'klasifikasiKolesterol'
+>;
+
+/**
+ * Hitung klasifikasi dari nilai pemeriksaan
+ *
+ * Field yang nilainya tidak lengkap (mis. hanya tinggi tanpa berat) dibiarkan kosong.
+ *
+ * @param values - Nilai hasil pengukuran
+ * @returns Field klasifikasi untuk disimpan bersama pemeriksaan
+ */
+export function classifyPemeriksaan(values: PemeriksaanGabunganData): PemeriksaanClassification {
+  const bmi =
+    values.berat !== undefined && values.tinggi !== undefined
+      ? hitungBMI(values.berat, values.tinggi)
+      : null;
+  const tekananDarah =
+    values.sistolik !== undefined && values.diastolik !== undefined
+      ? klasifikasiTekananDarah(values.sistolik, values.diastolik)
+      : null;
+
+  const klasifikasiGula = {
+    gdp: values.gulaPuasa !== undefined ? klasifikasiGDP(values.gulaPuasa) ?? undefined : undefined,
+    gds:
+      values.gulaSewaktu !== undefined ? klasifikasiGDS(values.gulaSewaktu) ?? undefined : undefined,
+    duaJpp:
+      values.gula2Jpp !== undefined ? klasifikasiDuaJPP(values.gula2Jpp) ?? undefined : undefined,
+  };
+  const hasGula = Object.values(klasifikasiGula).some((value) => value !== undefined);
+
+  return {
+    bmi: bmi?.nilai,
+    kategoriBmi: bmi?.kategori,
+    tekananDarah: tekananDarah?.kategori,
+    klasifikasiGula: hasGula ? klasifikasiGula : undefined,
+    klasifikasiKolesterol:
+      values.kolesterol !== undefined
+        ? klasifikasiKolesterol(values.kolesterol) ?? undefined
+        : undefined,
+  };
+}
@@ -0,0 +1,598 @@
+/**
+ * Mock Handlers
+ *
+ * File ini berisi daftar route mock backend beserta handler-nya. Kontrak
+ * (path, body, response, status error) mengikuti API class di lib/api,
+ * sehingga frontend bisa dijalankan tanpa backend asli.
+ *
+ * Body request divalidasi dengan schema form yang sama dengan frontend
+ * (lib/utils/validators.ts); klasifikasi pemeriksaan dihitung di server
+ * seperti backend asli.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Handler hanya berisi logika endpoint (auth, idempotency, dan
+ *   serialisasi di router.ts)
+ * - OCP: Endpoint baru cukup ditambah ke mockRoutes
+ */
+
+import { format, isSameDay, startOfDay, subDays } from 'date-fns';
+import { z } from 'zod';
+import { LOCAL_DATA_RETENTION_LIMITS } from '@/lib/constants';
+import {
+  lansiaFormSchema,
+  pemeriksaanFisikSchema,
+  pemeriksaanKesehatanSchema,
+  petugasFormSchema,
+  updateNamaSchema,
+  updatePasswordSchema,
+} from '@/lib/utils/validators';
+import type {
+  Gender,
+  Lansia,
+  LansiaSortField,
+  MinimalLansia,
+  Pemeriksaan,
+  PemeriksaanGabunganData,
+  Petugas,
+  PetugasSortField,
+} from '@/types';
+import { classifyPemeriksaan } from './classification';
+import {
+  MockHttpError,
+  assertVersion,
+  noContent,
+  ok,
+  parseBody,
+  type MockRequest,
+  type MockRoute,
+} from './http';
+import { paginate, type SortFields } from './pagination';
+import { createKode, getMockStore, resetMockStore, toPublicUser, type MockUser } from './store';
+import {
+  consumeRefreshToken,
+  getJwks,
+  issueAccessToken,
+  issueRefreshToken,
+  revokeRefreshToken,
+} from './tokens';
+
+// ============================================
+// Request Schemas (khusus mock)
+// ============================================
+
+const loginSchema = z.object({
+  email: z.string().min(1, 'Email tidak boleh kosong'),
+  kataSandi: z.string().min(1, 'Password tidak boleh kosong'),
+});
+
+const refreshSchema = z.object({ refreshToken: z.string().min(1) });
+
+const logoutSchema = z.object({ refreshToken: z.string().optional() }).optional();
+
+const findSchema = z.object({ query: z.string() });
+
+const pemeriksaanGabunganSchema = pemeriksaanFisikSchema
+  .partial()
+  .extend(pemeriksaanKesehatanSchema.shape);
+
+const updateStatusPetugasSchema = z.object({ aktif: z.boolean() });
+
+const retentionPolicySchema = z.object({
+  retentionDays: z
+    .number()
+    .int()
+    .min(LOCAL_DATA_RETENTION_LIMITS.MIN)
+    .max(LOCAL_DATA_RETENTION_LIMITS.MAX),
+  allowKeepOnLogout: z.boolean(),
+});
+
+/**
+ * Jumlah maksimal hasil pencarian lansia
+ */
+const FIND_LIMIT = 20;
+
+/**
+ * Jumlah hari trend pemeriksaan di dashboard
+ */
+const TREND_DAYS = 7;
+
+const LANSIA_SORT_FIELDS: SortFields<Lansia, LansiaSortField> = {
+  nama: (item) => item.nama.toLowerCase(),
+  kode: (item) => item.kode,
+  tanggalLahir: (item) => item.tanggalLahir.getTime(),
+  createdAt: (item) => item.createdAt.getTime(),
+};
+
+const PETUGAS_SORT_FIELDS: SortFields<Petugas, PetugasSortField> = {
+  nama: (item) => item.nama.toLowerCase(),
+  email: (item) => item.email.toLowerCase(),
+  createdAt: (item) => item.createdAt.getTime(),
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * @private
+ */
+function currentUser(request: MockRequest): MockUser {
+  if (!request.user) {
+    throw new MockHttpError(401, 'Autentikasi diperlukan');
+  }
+  return request.user;
+}
+
+/**
+ * @private
+ */
+function findLansia(kode: string): Lansia {
+  const lansia = getMockStore().lansia.find((item) => item.kode === kode);
+  if (!lansia) {
+    throw new MockHttpError(404, 'Lansia tidak ditemukan');
+  }
+  return lansia;
+}
+
+/**
+ * @private
+ */
+function findPemeriksaan(lansia: Lansia, id: string): Pemeriksaan {
+  const pemeriksaan = getMockStore().pemeriksaan.find(
+    (item) => item.id === Number(id) && item.lansiaId === lansia.id
+  );
+  if (!pemeriksaan) {
+    throw new MockHttpError(404, 'Pemeriksaan tidak ditemukan');
+  }
+  return pemeriksaan;
+}
+
+/**
+ * @private
+ */
+function assertUniqueNik(nik: string, exceptId?: number): void {
+  if (getMockStore().lansia.some((item) => item.nik === nik && item.id !== exceptId)) {
+    throw new MockHttpError(409, 'NIK sudah terdaftar');
+  }
+}
+
+/**
+ * @private
+ */
+function toPetugas({ id, nama, email, aktif, createdAt }: MockUser): Petugas {
+  return { id, nama, email, aktif, createdAt };
+}
+
+/**
+ * Buat pemeriksaan baru untuk lansia dengan kode di params
+ *
+ * @private
+ */
+function createPemeriksaan(request: MockRequest, values: PemeriksaanGabunganData): Pemeriksaan {
+  const data = getMockStore();
+  const lansia = findLansia(request.params.kode);
+  const now = new Date();
+
+  const pemeriksaan: Pemeriksaan = {
+    ...values,
+    ...classifyPemeriksaan(values),
+    id: data.nextId.pemeriksaan++,
+    lansiaId: lansia.id,
+    tanggal: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+  data.pemeriksaan.push(pemeriksaan);
+  return pemeriksaan;
+}
+
+/**
+ * Login/refresh berhasil: token akses baru dan refresh token baru
+ *
+ * @private
+ */
+async function issueSession(user: MockUser) {
+  return {
+    token: await issueAccessToken(user),
+    refreshToken: issueRefreshToken(user.id),
+  };
+}
+
+// ============================================
+// Routes
+// ============================================
+
+export const mockRoutes: MockRoute[] = [
+  // ---------- Infrastructure ----------
+  {
+    method: 'GET',
+    path: '/health',
+    access: 'public',
+    handler: () => ok({ status: 'ok', mock: true }),
+  },
+  {
+    method: 'GET',
+    path: '/.well-known/jwks.json',
+    access: 'public',
+    handler: async () => ok(await getJwks()),
+  },
+  {
+    method: 'POST',
+    path: '/reset',
+    access: 'public',
+    handler: () => {
+      resetMockStore();
+      return noContent();
+    },
+  },
+
+  // ---------- Auth ----------
+  {
+    method: 'POST',
+    path: '/auth/login',
+    access: 'public',
+    handler: async (request) => {
+      const { email, kataSandi } = parseBody(loginSchema, request.body);
+      const user = getMockStore().users.find(
+        (item) => item.email.toLowerCase() === email.trim().toLowerCase()
+      );
+
+      if (!user || user.kataSandi !== kataSandi) {
+        throw new MockHttpError(401, 'Email atau password salah');
+      }
+      if (!user.aktif) {
+        throw new MockHttpError(403, 'Akun tidak aktif, hubungi admin');
+      }
+
+      return ok({ ...(await issueSession(user)), user: toPublicUser(user) });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/refresh',
+    access: 'public',
+    handler: async (request) => {
+      const { refreshToken } = parseBody(refreshSchema, request.body);
+      const userId = consumeRefreshToken(refreshToken);
+      const user = getMockStore().users.find((item) => item.id === userId);
+
+      if (!user || !user.aktif) {
+        throw new MockHttpError(401, 'Refresh token tidak valid');
+      }
+      return ok(await issueSession(user));
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/logout',
+    access: 'public',
+    handler: (request) => {
+      const body = parseBody(logoutSchema, request.body);
+      if (body?.refreshToken) {
+        revokeRefreshToken(body.refreshToken);
+      }
+      return noContent();
+    },
+  },
+
+  // ---------- Lansia ----------
+  {
+    method: 'GET',
+    path: '/lansia',
+    access: 'user',
+    handler: (request) => {
+      const gender = request.query.get('gender') as Gender | null;
+
+      const items = getMockStore().lansia.filter((item) => !gender || item.gender === gender);
+      return ok(
+        paginate(items, request.query, {
+          sortFields: LANSIA_SORT_FIELDS,
+          defaultSort: 'createdAt',
+          defaultOrder: 'desc',
+        })
+      );
+    },
+  },
+  {
+    method: 'POST',
+    path: '/lansia',
+    access: 'user',
+    handler: (request) => {
+      const data = getMockStore();
+      const values = parseBody(lansiaFormSchema, request.body);
+      assertUniqueNik(values.nik);
+
+      const now = new Date();
+      const lansia: Lansia = {
+        ...values,
+        id: data.nextId.lansia++,
+        kode: createKode(data, now),
+        tanggalLahir: new Date(values.tanggalLahir),
+        createdAt: now,
+        updatedAt: now,
+      };
+      data.lansia.push(lansia);
+      return ok(lansia, 201);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/lansia/:kode',
+    access: 'user',
+    handler: (request) => ok(findLansia(request.params.kode)),
+  },
+  {
+    method: 'PATCH',
+    path: '/lansia/:kode',
+    access: 'user',
+    handler: (request) => {
+      const lansia = findLansia(request.params.kode);
+      assertVersion(request, lansia);
+
+      const { tanggalLahir, ...values } = parseBody(lansiaFormSchema.partial(), request.body);
+      if (values.nik) {
+        assertUniqueNik(values.nik, lansia.id);
+      }
+
+      Object.assign(lansia, values, {
+        ...(tanggalLahir ? { tanggalLahir: new Date(tanggalLahir) } : {}),
+        updatedAt: new Date(),
+      });
+      return ok(lansia);
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/lansia/:kode',
+    access: 'user',
+    handler: (request) => {
+      const data = getMockStore();
+      const lansia = findLansia(request.params.kode);
+
+      data.lansia = data.lansia.filter((item) => item.id !== lansia.id);
+      data.pemeriksaan = data.pemeriksaan.filter((item) => item.lansiaId !== lansia.id);
+      return noContent();
+    },
+  },
+  {
+    method: 'POST',
+    path: '/find',
+    access: 'user',
+    handler: (request) => {
+      const query = parseBody(findSchema, request.body).query.trim().toLowerCase();
+      if (!query) {
+        return ok([]);
+      }
+
+      const results: MinimalLansia[] = getMockStore()
+        .lansia.filter(
+          (item) =>
+            item.nama.toLowerCase().includes(query) ||
+            item.kode.toLowerCase().includes(query) ||
+            item.nik.startsWith(query)
+        )
+        .slice(0, FIND_LIMIT)
+        .map(({ id, kode, nama, tanggalLahir, gender }) => ({
+          id,
+          kode,
+          nama,
+          tanggalLahir,
+          gender,
+        }));
+      return ok(results);
+    },
+  },
+
+  // ---------- Pemeriksaan ----------
+  {
+    method: 'GET',
+    path: '/lansia/:kode/pemeriksaan',
+    access: 'user',
+    handler: (request) => {
+      const lansia = findLansia(request.params.kode);
+      return ok(
+        getMockStore()
+          .pemeriksaan.filter((item) => item.lansiaId === lansia.id)
+          .sort((a, b) => b.tanggal.getTime() - a.tanggal.getTime())
+      );
+    },
+  },
+  {
+    method: 'POST',
+    path: '/lansia/:kode/pemeriksaan',
+    access: 'user',
+    handler: (request) =>
+      ok(createPemeriksaan(request, parseBody(pemeriksaanGabunganSchema, request.body)), 201),
+  },
+  {
+    method: 'POST',
+    path: '/lansia/:kode/pemeriksaan/fisik',
+    access: 'user',
+    handler: (request) =>
+      ok(createPemeriksaan(request, parseBody(pemeriksaanFisikSchema, request.body)), 201),
+  },
+  {
+    method: 'POST',
+    path: '/lansia/:kode/pemeriksaan/kesehatan',
+    access: 'user',
+    handler: (request) =>
+      ok(createPemeriksaan(request, parseBody(pemeriksaanKesehatanSchema, request.body)), 201),
+  },
+  {
+    method: 'PATCH',
+    path: '/lansia/:kode/pemeriksaan/:id',
+    access: 'user',
+    handler: (request) => {
+      const pemeriksaan = findPemeriksaan(findLansia(request.params.kode), request.params.id);
+      assertVersion(request, pemeriksaan);
+
+      const values = { ...pemeriksaan, ...parseBody(pemeriksaanGabunganSchema, request.body) };
+      Object.assign(pemeriksaan, values, classifyPemeriksaan(values), { updatedAt: new Date() });
+      return ok(pemeriksaan);
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/lansia/:kode/pemeriksaan/:id',
+    access: 'user',
+    handler: (request) => {
+      const data = getMockStore();
+      const pemeriksaan = findPemeriksaan(findLansia(request.params.kode), request.params.id);
+
+      data.pemeriksaan = data.pemeriksaan.filter((item) => item.id !== pemeriksaan.id);
+      return noContent();
+    },
+  },
+
+  // ---------- Petugas (admin) ----------
+  {
+    method: 'GET',
+    path: '/petugas',
+    access: 'admin',
+    handler: (request) => {
+      const q = request.query.get('q')?.trim().toLowerCase();
+      const aktif = request.query.get('aktif');
+
+      const items = getMockStore()
+        .users.filter((user) => user.role === 'PETUGAS')
+        .map(toPetugas)
+        .filter(
+          (item) =>
+            (!q || item.nama.toLowerCase().includes(q) || item.email.toLowerCase().includes(q)) &&
+            (aktif === null || String(item.aktif) === aktif)
+        );
+      return ok(
+        paginate(items, request.query, {
+          sortFields: PETUGAS_SORT_FIELDS,
+          defaultSort: 'createdAt',
+          defaultOrder: 'desc',
+        })
+      );
+    },
+  },
+  {
+    method: 'POST',
+    path: '/petugas',
+    access: 'admin',
+    handler: (request) => {
+      const data = getMockStore();
+      const { nama, email, kataSandi } = parseBody(petugasFormSchema, request.body);
+      if (data.users.some((user) => user.email.toLowerCase() === email.toLowerCase())) {
+        throw new MockHttpError(409, 'Email sudah terdaftar');
+      }
+
+      const user: MockUser = {
+        id: data.nextId.user++,
+        nama,
+        email,
+        role: 'PETUGAS',
+        kataSandi,
+        aktif: true,
+        createdAt: new Date(),
+      };
+      data.users.push(user);
+      return ok(toPetugas(user), 201);
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/petugas/:id/status',
+    access: 'admin',
+    handler: (request) => {
+      const data = getMockStore();
+      const user = data.users.find(
+        (item) => item.id === Number(request.params.id) && item.role === 'PETUGAS'
+      );
+      if (!user) {
+        throw new MockHttpError(404, 'Petugas tidak ditemukan');
+      }
+
+      user.aktif = parseBody(updateStatusPetugasSchema, request.body).aktif;
+      if (!user.aktif) {
+        // Petugas nonaktif tidak bisa memperbarui sesi lagi
+        data.refreshTokens.forEach((userId, token) => {
+          if (userId === user.id) data.refreshTokens.delete(token);
+        });
+      }
+      return ok(toPetugas(user));
+    },
+  },
+
+  // ---------- Profile ----------
+  {
+    method: 'GET',
+    path: '/profile',
+    access: 'user',
+    handler: (request) => ok(toPublicUser(currentUser(request))),
+  },
+  {
+    method: 'PATCH',
+    path: '/profile/nama',
+    access: 'user',
+    handler: (request) => {
+      const user = currentUser(request);
+      user.nama = parseBody(updateNamaSchema, request.body).nama;
+      return ok(toPublicUser(user));
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/profile/password',
+    access: 'user',
+    handler: (request) => {
+      const user = currentUser(request);
+      const { kataSandiLama, kataSandiBaru } = parseBody(updatePasswordSchema, request.body);
+      if (user.kataSandi !== kataSandiLama) {
+        throw new MockHttpError(400, 'Password lama salah');
+      }
+
+      user.kataSandi = kataSandiBaru;
+      return noContent();
+    },
+  },
+
+  // ---------- Dashboard ----------
+  {
+    method: 'GET',
+    path: '/dashboard/stats',
+    access: 'user',
+    handler: () => {
+      const data = getMockStore();
+      const today = startOfDay(new Date());
+
+      const trendData = Array.from({ length: TREND_DAYS }, (_, index) => {
+        const day = subDays(today, TREND_DAYS - 1 - index);
+        return {
+          tanggal: format(day, 'yyyy-MM-dd'),
+          jumlah: data.pemeriksaan.filter((item) => isSameDay(item.tanggal, day)).length,
+        };
+      });
+
+      return ok({
+        totalPetugasAktif: data.users.filter((user) => user.role === 'PETUGAS' && user.aktif)
+          .length,
+        totalLansia: data.lansia.length,
+        totalPemeriksaanHariIni: trendData[trendData.length - 1].jumlah,
+        trendData,
+      });
+    },
+  },
+
+  // ---------- Pengaturan ----------
+  {
+    method: 'GET',
+    path: '/pengaturan/retensi-data',
+    access: 'user',
+    handler: () => ok(getMockStore().retentionPolicy),
+  },
+  {
+    method: 'PATCH',
+    path: '/pengaturan/retensi-data',
+    access: 'admin',
+    handler: (request) => {
+      const data = getMockStore();
+      data.retentionPolicy = parseBody(retentionPolicySchema, request.body);
+      return ok(data.retentionPolicy);
+    },
+  },
+];
@@ -0,0 +1,140 @@
+/**
+ * Mock HTTP
+ *
+ * File ini berisi types dan helper untuk handler mock backend: definisi
+ * route, error HTTP, validasi body, dan pengecekan versi (If-Match).
+ *
+ * Format error mengikuti backend: `{ error, details? }`, dan untuk konflik
+ * versi `{ error, current }` (dibaca ConflictError di client).
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle kontrak HTTP mock
+ * - DRY: Validasi dan error dipakai bersama semua handler
+ */
+
+import type { z } from 'zod';
+import type { HttpMethod } from '@/lib/api/client';
+import type { MockUser } from './store';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Siapa yang boleh memanggil route
+ * - public: tanpa token
+ * - user: admin atau petugas yang login
+ * - admin: hanya admin
+ */
+export type MockAccess = 'public' | 'user' | 'admin';
+
+/**
+ * Request yang sudah diautentikasi dan di-parse
+ */
+export interface MockRequest {
+  params: Record<string, string>;
+  /**
+   * Query string (limit, cursor, sort, filter)
+   */
+  query: URLSearchParams;
+  body: unknown;
+  headers: Headers;
+  /**
+   * User pemilik token (null hanya untuk route public)
+   */
+  user: MockUser | null;
+}
+
+/**
+ * Response handler (body undefined -> 204 No Content)
+ */
+export interface MockResult {
+  status: number;
+  body?: unknown;
+}
+
+export type MockHandler = (request: MockRequest) => MockResult | Promise<MockResult>;
+
+export interface MockRoute {
+  method: HttpMethod;
+  /**
+   * Path relatif terhadap /api/mock, segmen `:nama` menjadi params
+   */
+  path: string;
+  access: MockAccess;
+  handler: MockHandler;
+}
+
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Error yang dikirim ke client sebagai response JSON
+ */
+export class MockHttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public extra: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Response sukses dengan body JSON
+ */
+export function ok(body: unknown, status: number = 200): MockResult {
+  return { status, body };
+}
+
+/**
+ * Response sukses tanpa body
+ */
+export function noContent(): MockResult {
+  return { status: 204 };
+}
+
+/**
+ * Validasi body request dengan schema form yang sama dengan frontend
+ *
+ * @throws MockHttpError 400 dengan detail issue jika tidak valid
+ */
+export function parseBody<T>(schema: z.ZodType<T>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new MockHttpError(400, result.error.issues[0]?.message ?? 'Data tidak valid', {
+      details: result.error.issues,
+    });
+  }
+  return result.data;
+}
+
+/**
+ * Tolak perubahan yang didasarkan pada versi lama (header If-Match)
+ *
+ * Request tanpa If-Match selalu diterima (last write wins).
+ *
+ * @throws MockHttpError 412 dengan data terbaru di `current`
+ */
+export function assertVersion(
+  request: MockRequest,
+  current: { createdAt: Date; updatedAt?: Date }
+): void {
+  const ifMatch = request.headers.get('If-Match');
+  if (!ifMatch) {
+    return;
+  }
+
+  const expected = ifMatch.replace(/^W\//, '').replace(/"/g, '');
+  const actual = (current.updatedAt ?? current.createdAt).toISOString();
+  if (expected !== actual) {
+    throw new MockHttpError(412, 'Data sudah diubah oleh pengguna lain', { current });
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Mock Backend Index
+ *
+ * File ini mengexport mock backend untuk route handler app/api/mock.
+ * Hanya diimport dari server (route handler), tidak dari komponen client.
+ *
+ * Usage:
+ * import { handleMockRequest } from '@/lib/mock';
+ */
+
+export { handleMockRequest, isMockApiEnabled } from './router';
+export { mockRoutes } from './handlers';
+export { getMockStore, resetMockStore } from './store';
+export type { MockStoreData, MockUser } from './store';
+export { paginate } from './pagination';
+export type { PaginateOptions, SortFields } from './pagination';
+export type { MockAccess, MockHandler, MockRequest, MockResult, MockRoute } from './http';
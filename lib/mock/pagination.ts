@@ -0,0 +1,148 @@
+/**
+ * Mock Pagination
+ *
+ * File ini berisi helper cursor pagination untuk endpoint list mock backend
+ * (GET /lansia, GET /petugas). Query yang didukung sama dengan backend:
+ * `limit`, `cursor`, `sort`, dan `order`; response berbentuk
+ * `{ items, nextCursor, total }`.
+ *
+ * Cursor adalah keyset (nilai sort + id item terakhir) yang di-encode
+ * base64url, sehingga halaman berikutnya tetap konsisten walau ada data baru
+ * yang ditambahkan di tengah proses paging.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle paging, filter tetap di handler
+ * - DRY: Dipakai bersama semua endpoint list
+ */
+
+import { LIST_PAGE_SIZE, SYNC_PAGE_SIZE } from '@/lib/constants';
+import type { Page, SortOrder } from '@/types';
+import { MockHttpError } from './http';
+
+// ============================================
+// Types
+// ============================================
+
+type SortValue = string | number;
+
+/**
+ * Nilai sort per field (string dibandingkan case-insensitive oleh pemanggil)
+ */
+export type SortFields<T, TSort extends string> = Record<TSort, (item: T) => SortValue>;
+
+export interface PaginateOptions<T, TSort extends string> {
+  sortFields: SortFields<T, TSort>;
+  defaultSort: TSort;
+  defaultOrder: SortOrder;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * @private
+ */
+function compareValues(a: SortValue, b: SortValue): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+/**
+ * @private
+ */
+function encodeCursor(value: SortValue, id: number): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+/**
+ * @private
+ */
+function decodeCursor(cursor: string): [SortValue, number] {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      (typeof decoded[0] === 'string' || typeof decoded[0] === 'number') &&
+      typeof decoded[1] === 'number'
+    ) {
+      return [decoded[0], decoded[1]];
+    }
+  } catch {
+    // Diteruskan ke error di bawah
+  }
+  throw new MockHttpError(400, 'Cursor tidak valid');
+}
+
+/**
+ * @private
+ */
+function parseLimit(value: string | null): number {
+  if (value === null) {
+    return LIST_PAGE_SIZE;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > SYNC_PAGE_SIZE) {
+    throw new MockHttpError(400, `Limit harus antara 1 dan ${SYNC_PAGE_SIZE}`);
+  }
+  return limit;
+}
+
+// ============================================
+// Paginate
+// ============================================
+
+/**
+ * Urutkan dan potong items sesuai query limit/cursor/sort/order
+ *
+ * @param items - Data yang sudah difilter
+ * @param query - Query string request
+ * @param options - Field yang boleh dipakai untuk sort dan default-nya
+ * @throws MockHttpError 400 jika sort, order, limit, atau cursor tidak valid
+ */
+export function paginate<T extends { id: number }, TSort extends string>(
+  items: T[],
+  query: URLSearchParams,
+  { sortFields, defaultSort, defaultOrder }: PaginateOptions<T, TSort>
+): Page<T> {
+  const sort = query.get('sort') ?? defaultSort;
+  if (!Object.hasOwn(sortFields, sort)) {
+    throw new MockHttpError(400, `Sort tidak didukung: ${sort}`);
+  }
+  const order = query.get('order') ?? defaultOrder;
+  if (order !== 'asc' && order !== 'desc') {
+    throw new MockHttpError(400, `Order tidak didukung: ${order}`);
+  }
+  const limit = parseLimit(query.get('limit'));
+
+  const getValue = sortFields[sort as TSort];
+  const direction = order === 'asc' ? 1 : -1;
+  // id sebagai tie-breaker supaya urutan (dan cursor) selalu deterministik
+  const compareKey = (value: SortValue, id: number, other: T) =>
+    direction * (compareValues(value, getValue(other)) || id - other.id);
+
+  const sorted = [...items].sort((a, b) => compareKey(getValue(a), a.id, b));
+
+  const cursor = query.get('cursor');
+  let start = 0;
+  if (cursor) {
+    const [value, id] = decodeCursor(cursor);
+    start = sorted.findIndex((item) => compareKey(value, id, item) < 0);
+    if (start === -1) {
+      start = sorted.length;
+    }
+  }
+
+  const pageItems = sorted.slice(start, start + limit);
+  const last = pageItems[pageItems.length - 1];
+  const hasMore = start + limit < sorted.length;
+
+  return {
+    items: pageItems,
+    nextCursor: hasMore && last ? encodeCursor(getValue(last), last.id) : null,
+    total: sorted.length,
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * Mock Router
+ *
+ * File ini berisi dispatcher mock backend untuk route handler
+ * app/api/mock/[...path]: mencocokkan route, autentikasi token, cek role,
+ * replay Idempotency-Key, dan serialisasi response/error.
+ *
+ * Mock hanya aktif jika NEXT_PUBLIC_API_URL mengarah ke /api/mock
+ * (mis. http://localhost:3000/api/mock); selain itu semua request 404.
+ * MOCK_API_LATENCY_MS menambah jeda setiap response untuk menguji loading state.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle concern HTTP lintas endpoint (handler di handlers.ts)
+ * - DIP: Route handler Next.js hanya tahu handleMockRequest
+ */
+
+import type { HttpMethod } from '@/lib/api/client';
+import { mockRoutes } from './handlers';
+import { MockHttpError, type MockResult, type MockRoute } from './http';
+import { getMockStore } from './store';
+import { verifyAccessToken } from './tokens';
+
+const LATENCY_MS = Number(process.env.MOCK_API_LATENCY_MS) || 0;
+
+/**
+ * Cek apakah frontend dikonfigurasi memakai mock backend
+ */
+export function isMockApiEnabled(): boolean {
+  return (process.env.NEXT_PUBLIC_API_URL ?? '').replace(/\/+$/, '').endsWith('/api/mock');
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Cocokkan path dengan pola route (`:nama` -> params)
+ *
+ * @private
+ */
+function matchPath(pattern: string, segments: string[]): Record<string, string> | null {
+  const parts = pattern.split('/').filter(Boolean);
+  if (parts.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < parts.length; i++) {
+    if (parts[i].startsWith(':')) {
+      params[parts[i].slice(1)] = segments[i];
+    } else if (parts[i] !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * @private
+ */
+function findRoute(
+  method: HttpMethod,
+  segments: string[]
+): { route: MockRoute; params: Record<string, string> } {
+  let isKnownPath = false;
+
+  for (const route of mockRoutes) {
+    const params = matchPath(route.path, segments);
+    if (!params) continue;
+    if (route.method === method) {
+      return { route, params };
+    }
+    isKnownPath = true;
+  }
+
+  throw isKnownPath
+    ? new MockHttpError(405, 'Method tidak didukung')
+    : new MockHttpError(404, 'Endpoint tidak ditemukan');
+}
+
+/**
+ * User pemilik token Bearer, dengan pengecekan akses route
+ *
+ * @private
+ */
+async function authenticate(route: MockRoute, headers: Headers) {
+  if (route.access === 'public') {
+    return null;
+  }
+
+  const token = headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const userId = token ? await verifyAccessToken(token) : null;
+  const user = getMockStore().users.find((item) => item.id === userId);
+
+  if (!user || !user.aktif) {
+    throw new MockHttpError(401, 'Token tidak valid atau sudah kedaluwarsa');
+  }
+  if (route.access === 'admin' && user.role !== 'ADMIN') {
+    throw new MockHttpError(403, 'Akses ditolak');
+  }
+  return user;
+}
+
+/**
+ * @private
+ */
+async function readBody(request: Request): Promise<unknown> {
+  const text = await request.text();
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new MockHttpError(400, 'Body request bukan JSON yang valid');
+  }
+}
+
+/**
+ * @private
+ */
+function toResponse({ status, body }: MockResult): Response {
+  return body === undefined ? new Response(null, { status }) : Response.json(body, { status });
+}
+
+// ============================================
+// Dispatch
+// ============================================
+
+/**
+ * Proses request ke mock backend
+ *
+ * @param request - Request dari route handler
+ * @param segments - Path setelah /api/mock
+ * @returns Response JSON dengan format yang sama seperti backend
+ */
+export async function handleMockRequest(request: Request, segments: string[]): Promise<Response> {
+  if (!isMockApiEnabled()) {
+    return Response.json({ error: 'Mock API tidak aktif' }, { status: 404 });
+  }
+  if (LATENCY_MS > 0) {
+    await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+  }
+
+  const method = request.method as HttpMethod;
+  let result: MockResult;
+
+  try {
+    const { route, params } = findRoute(method, segments);
+    const user = await authenticate(route, request.headers);
+
+    // Request yang di-replay (retry/sync queue) mendapat response yang sama, tanpa efek ganda
+    const idempotencyKey = request.headers.get('Idempotency-Key');
+    const storeKey = idempotencyKey
+      ? `${user?.id ?? 'public'} ${method} ${segments.join('/')} ${idempotencyKey}`
+      : null;
+    const stored = storeKey ? getMockStore().idempotency.get(storeKey) : undefined;
+    if (stored) {
+      return toResponse(stored);
+    }
+
+    result = await route.handler({
+      params,
+      query: new URL(request.url).searchParams,
+      body: method === 'GET' ? undefined : await readBody(request),
+      headers: request.headers,
+      user,
+    });
+
+    if (storeKey) {
+      // Snapshot: replay mengembalikan response asli walau data sudah berubah lagi
+      getMockStore().idempotency.set(storeKey, { ...result, body: structuredClone(result.body) });
+    }
+  } catch (error) {
+    if (error instanceof MockHttpError) {
+      result = { status: error.status, body: { error: error.message, ...error.extra } };
+    } else {
+      console.error('[MockAPI] Unhandled error:', error);
+      result = { status: 500, body: { error: 'Terjadi kesalahan pada mock server' } };
+    }
+  }
+
+  return toResponse(result);
+}
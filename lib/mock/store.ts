@@ -0,0 +1,264 @@
+/**
+ * Mock Store
+ *
+ * File ini berisi data in-memory mock backend: user (admin/petugas), lansia,
+ * pemeriksaan, refresh token, response idempotency, dan pengaturan.
+ *
+ * Data di-seed saat pertama kali dipakai dan hilang saat server di-restart.
+ * Store disimpan di globalThis supaya tidak ter-reset oleh hot reload
+ * route handler saat development.
+ *
+ * Akun seed (password disimpan plaintext karena hanya untuk development):
+ * - admin@posyandu.test / Admin123!
+ * - petugas@posyandu.test / Petugas123!
+ * - nonaktif@posyandu.test / Petugas123! (tidak aktif, login ditolak)
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle penyimpanan data mock
+ * - KISS: Array in-memory, tanpa database
+ */
+
+import { subDays, subMonths } from 'date-fns';
+import {
+  LOCAL_DATA_RETENTION_DAYS,
+  PATIENT_ID_PREFIX,
+  PATIENT_ID_SUFFIX_LENGTH,
+} from '@/lib/constants';
+import type { RetentionPolicy } from '@/lib/api/settings';
+import type { Gender, Lansia, Pemeriksaan, User } from '@/types';
+import { classifyPemeriksaan } from './classification';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * User beserta data yang tidak pernah dikirim ke client
+ */
+export interface MockUser extends User {
+  kataSandi: string;
+  aktif: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Response yang disimpan untuk replay request dengan Idempotency-Key yang sama
+ */
+export interface StoredResponse {
+  status: number;
+  body?: unknown;
+}
+
+export interface MockStoreData {
+  users: MockUser[];
+  lansia: Lansia[];
+  pemeriksaan: Pemeriksaan[];
+  /**
+   * Refresh token aktif -> ID user
+   */
+  refreshTokens: Map<string, number>;
+  idempotency: Map<string, StoredResponse>;
+  retentionPolicy: RetentionPolicy;
+  nextId: { user: number; lansia: number; pemeriksaan: number };
+}
+
+// ============================================
+// Seed
+// ============================================
+
+const BASE62_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+interface SeedLansia {
+  nik: string;
+  kk: string;
+  nama: string;
+  tanggalLahir: string;
+  gender: Gender;
+  alamat: string;
+}
+
+const SEED_LANSIA: SeedLansia[] = [
+  {
+    nik: '3509010101500001',
+    kk: '3509010101500100',
+    nama: 'Siti Aminah',
+    tanggalLahir: '1950-01-01',
+    gender: 'P',
+    alamat: 'Jl. Mawar No. 12, RT 01/RW 02',
+  },
+  {
+    nik: '3509010203480002',
+    kk: '3509010203480100',
+    nama: 'Ahmad Sulaiman',
+    tanggalLahir: '1948-03-02',
+    gender: 'L',
+    alamat: 'Jl. Melati No. 5, RT 03/RW 01',
+  },
+  {
+    nik: '3509011507550003',
+    kk: '3509011507550100',
+    nama: 'Sri Wahyuni',
+    tanggalLahir: '1955-07-15',
+    gender: 'P',
+    alamat: 'Jl. Kenanga No. 8, RT 02/RW 02',
+  },
+  {
+    nik: '3509012011520004',
+    kk: '3509012011520100',
+    nama: 'Bambang Hartono',
+    tanggalLahir: '1952-11-20',
+    gender: 'L',
+    alamat: 'Jl. Anggrek No. 21, RT 04/RW 03',
+  },
+  {
+    nik: '3509010909600005',
+    kk: '3509010909600100',
+    nama: 'Kartini Rahayu',
+    tanggalLahir: '1960-09-09',
+    gender: 'P',
+    alamat: 'Jl. Dahlia No. 3, RT 01/RW 01',
+  },
+];
+
+/**
+ * Buat data awal: tiga akun, lima lansia, dan riwayat pemeriksaan bulanan
+ *
+ * @private
+ */
+function createSeed(): MockStoreData {
+  const now = new Date();
+  const createdAt = subMonths(now, 6);
+
+  const users: MockUser[] = [
+    {
+      id: 1,
+      nama: 'Admin Posyandu',
+      email: 'admin@posyandu.test',
+      role: 'ADMIN',
+      kataSandi: 'Admin123!',
+      aktif: true,
+      createdAt,
+    },
+    {
+      id: 2,
+      nama: 'Petugas Posyandu',
+      email: 'petugas@posyandu.test',
+      role: 'PETUGAS',
+      kataSandi: 'Petugas123!',
+      aktif: true,
+      createdAt,
+    },
+    {
+      id: 3,
+      nama: 'Petugas Nonaktif',
+      email: 'nonaktif@posyandu.test',
+      role: 'PETUGAS',
+      kataSandi: 'Petugas123!',
+      aktif: false,
+      createdAt,
+    },
+  ];
+
+  const data: MockStoreData = {
+    users,
+    lansia: [],
+    pemeriksaan: [],
+    refreshTokens: new Map(),
+    idempotency: new Map(),
+    retentionPolicy: { retentionDays: LOCAL_DATA_RETENTION_DAYS, allowKeepOnLogout: true },
+    nextId: { user: users.length + 1, lansia: 1, pemeriksaan: 1 },
+  };
+
+  SEED_LANSIA.forEach((seed, index) => {
+    const lansia: Lansia = {
+      ...seed,
+      id: data.nextId.lansia++,
+      kode: createKode(data, createdAt),
+      tanggalLahir: new Date(seed.tanggalLahir),
+      createdAt,
+      updatedAt: createdAt,
+    };
+    data.lansia.push(lansia);
+
+    // Riwayat 5 bulan terakhir, nilai sedikit berbeda per lansia dan per bulan
+    for (let month = 5; month >= 1; month--) {
+      const tanggal = subDays(subMonths(now, month), index);
+      const values = {
+        tinggi: 150 + index * 4,
+        berat: 50 + index * 3 + (month % 3),
+        sistolik: 115 + index * 8 + month * 2,
+        diastolik: 75 + index * 3,
+        gulaPuasa: 90 + index * 12 + month,
+        kolesterol: 180 + index * 15 - month * 2,
+        asamUrat: 5 + index * 0.5,
+      };
+      data.pemeriksaan.push({
+        ...values,
+        ...classifyPemeriksaan(values),
+        id: data.nextId.pemeriksaan++,
+        lansiaId: lansia.id,
+        tanggal,
+        createdAt: tanggal,
+        updatedAt: tanggal,
+      });
+    }
+  });
+
+  return data;
+}
+
+// ============================================
+// Store
+// ============================================
+
+const globalStore = globalThis as typeof globalThis & { __posyanduMockStore?: MockStoreData };
+
+/**
+ * Data mock (dibuat sekali per proses server)
+ */
+export function getMockStore(): MockStoreData {
+  if (!globalStore.__posyanduMockStore) {
+    globalStore.__posyanduMockStore = createSeed();
+  }
+  return globalStore.__posyanduMockStore;
+}
+
+/**
+ * Kembalikan data ke kondisi seed (POST /api/mock/reset)
+ */
+export function resetMockStore(): void {
+  globalStore.__posyanduMockStore = createSeed();
+}
+
+/**
+ * Buat kode lansia unik dengan format yang sama dengan generateIdPasien:
+ * pasien + YYYYMMDD + 2 karakter base62
+ *
+ * @param data - Store (untuk cek kode yang sudah dipakai)
+ * @param date - Tanggal pendaftaran
+ */
+export function createKode(data: MockStoreData, date: Date = new Date()): string {
+  const dateStr = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('');
+
+  for (;;) {
+    let suffix = '';
+    for (let i = 0; i < PATIENT_ID_SUFFIX_LENGTH; i++) {
+      suffix += BASE62_CHARS[Math.floor(Math.random() * BASE62_CHARS.length)];
+    }
+    const kode = `${PATIENT_ID_PREFIX}${dateStr}${suffix}`;
+    if (!data.lansia.some((lansia) => lansia.kode === kode)) {
+      return kode;
+    }
+  }
+}
+
+/**
+ * Data user yang aman dikirim ke client
+ */
+export function toPublicUser({ id, nama, email, role }: MockUser): User {
+  return { id, nama, email, role };
+}
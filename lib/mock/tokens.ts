@@ -0,0 +1,142 @@
+/**
+ * Mock Tokens
+ *
+ * File ini berisi penerbitan token mock backend:
+ * - Token akses JWT RS256 dengan claim yang sama seperti backend
+ *   (id, email, nama, role, iat, exp, iss/aud dari env verifikasi)
+ * - Refresh token opaque dengan rotasi (token lama tidak berlaku setelah dipakai)
+ * - JWKS di /.well-known/jwks.json untuk jwtVerifier (NEXT_PUBLIC_JWT_JWKS_URL)
+ *
+ * Key pair dibuat saat server start; setelah restart token lama ditolak
+ * (kid tidak dikenal) dan user perlu login ulang.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle penerbitan dan verifikasi token mock
+ * - Security: Signature asli, sehingga alur verifikasi di middleware ikut teruji
+ */
+
+import { SignJWT, exportJWK, generateKeyPair, jwtVerify, type JWK } from 'jose';
+import type { User } from '@/types';
+import { getMockStore } from './store';
+
+// ============================================
+// Configuration
+// ============================================
+
+const ALGORITHM = 'RS256';
+const ISSUER = process.env.NEXT_PUBLIC_JWT_ISSUER || undefined;
+const AUDIENCE = process.env.NEXT_PUBLIC_JWT_AUDIENCE || undefined;
+
+/**
+ * Umur token akses (default 15 menit seperti backend). Perkecil lewat
+ * MOCK_API_TOKEN_TTL_SECONDS untuk menguji refresh token dan sesi berakhir.
+ */
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.MOCK_API_TOKEN_TTL_SECONDS) || 15 * 60;
+
+// ============================================
+// Key Pair
+// ============================================
+
+interface MockSigningKey {
+  kid: string;
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+  jwk: JWK;
+}
+
+const globalKeys = globalThis as typeof globalThis & {
+  __posyanduMockSigningKey?: Promise<MockSigningKey>;
+};
+
+/**
+ * Key pair untuk menandatangani token (dibuat sekali per proses server)
+ *
+ * @private
+ */
+function getSigningKey(): Promise<MockSigningKey> {
+  if (!globalKeys.__posyanduMockSigningKey) {
+    globalKeys.__posyanduMockSigningKey = (async () => {
+      const { privateKey, publicKey } = await generateKeyPair(ALGORITHM, { extractable: true });
+      const kid = crypto.randomUUID();
+      const jwk = { ...(await exportJWK(publicKey)), kid, alg: ALGORITHM, use: 'sig' };
+      return { kid, privateKey, publicKey, jwk };
+    })();
+  }
+  return globalKeys.__posyanduMockSigningKey;
+}
+
+// ============================================
+// Tokens
+// ============================================
+
+/**
+ * Terbitkan token akses untuk user
+ */
+export async function issueAccessToken(user: User): Promise<string> {
+  const { kid, privateKey } = await getSigningKey();
+
+  const jwt = new SignJWT({ id: user.id, email: user.email, nama: user.nama, role: user.role })
+    .setProtectedHeader({ alg: ALGORITHM, kid })
+    .setIssuedAt()
+    .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`);
+  if (ISSUER) jwt.setIssuer(ISSUER);
+  if (AUDIENCE) jwt.setAudience(AUDIENCE);
+
+  return jwt.sign(privateKey);
+}
+
+/**
+ * Verifikasi token akses dari header Authorization
+ *
+ * @returns ID user, atau null jika token tidak valid/kedaluwarsa
+ */
+export async function verifyAccessToken(token: string): Promise<number | null> {
+  try {
+    const { publicKey } = await getSigningKey();
+    const { payload } = await jwtVerify(token, publicKey, {
+      algorithms: [ALGORITHM],
+      issuer: ISSUER,
+      audience: AUDIENCE,
+    });
+    return typeof payload.id === 'number' ? payload.id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Terbitkan refresh token baru untuk user
+ */
+export function issueRefreshToken(userId: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const token = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  getMockStore().refreshTokens.set(token, userId);
+  return token;
+}
+
+/**
+ * Pakai refresh token (rotasi: token lama langsung dicabut)
+ *
+ * @returns ID user, atau null jika token tidak dikenal/sudah dipakai
+ */
+export function consumeRefreshToken(token: string): number | null {
+  const { refreshTokens } = getMockStore();
+  const userId = refreshTokens.get(token);
+  refreshTokens.delete(token);
+  return userId ?? null;
+}
+
+/**
+ * Cabut refresh token (logout)
+ */
+export function revokeRefreshToken(token: string): void {
+  getMockStore().refreshTokens.delete(token);
+}
+
+/**
+ * JWKS untuk verifikasi token oleh frontend
+ */
+export async function getJwks(): Promise<{ keys: JWK[] }> {
+  const { jwk } = await getSigningKey();
+  return { keys: [jwk] };
+}
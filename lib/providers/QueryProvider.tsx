@@ -11,10 +11,14 @@
  * - gcTime: 10 menit (cache dibuang setelah 10 menit tidak digunakan)
  * - refetchOnWindowFocus: false (tidak refetch saat window focus)
  * - retry: 1 (hanya retry 1x jika gagal)
+ *
+ * Semua query di-invalidate setiap kali sync selesai (termasuk sync di tab lain),
+ * karena data server dan IndexedDB baru saja diperbarui.
  */
 
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { ReactNode, useState } from 'react';
+import { ReactNode, useEffect, useState } from 'react';
+import { syncManager } from '@/lib/utils/syncManager';
 
 interface QueryProviderProps {
     children: ReactNode;
@@ -45,5 +49,11 @@ export function QueryProvider({ children }: QueryProviderProps) {
             })
     );
 
+    useEffect(() => {
+        return syncManager.onSyncCompleted(() => {
+            void queryClient.invalidateQueries();
+        });
+    }, [queryClient]);
+
     return <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
 }
@@ -0,0 +1,422 @@
+/**
+ * Handover Service
+ *
+ * Business logic layer untuk serah terima pekerjaan offline antar perangkat
+ * (mis. tablet rusak atau perangkat diserahkan di puskesmas).
+ * Follows Separation of Concerns - format file dan validasi di sini,
+ * penulisan IndexedDB di handoverRepository.
+ *
+ * Responsibilities:
+ * - Ekspor sync queue, dead-letter, dan row lokal terkait ke file JSON
+ * - Enkripsi isi file dengan key dari passphrase (PBKDF2 -> AES-GCM), sehingga
+ *   file tidak bisa dibaca atau diubah tanpa passphrase
+ * - Impor file di perangkat lain lalu kirim lewat pipeline SyncManager
+ */
+
+import { handoverRepository } from '@/lib/db';
+import type { HandoverData, HandoverImportResult } from '@/lib/db';
+import { syncManager } from '@/lib/utils/syncManager';
+import { ValidationError, handleAPIError } from '@/lib/utils/errors';
+import type { User } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Penanda format file handover
+ */
+export const HANDOVER_FORMAT = 'posyandu-handover';
+
+/**
+ * Versi format file handover (naikkan jika struktur data berubah)
+ */
+export const HANDOVER_VERSION = 2;
+
+/**
+ * Panjang minimal passphrase file handover
+ */
+export const HANDOVER_PASSPHRASE_MIN_LENGTH = 8;
+
+/**
+ * Iterasi PBKDF2 (sama dengan key lokal di keyring)
+ */
+const KEY_DERIVATION_ITERATIONS = 600_000;
+
+/**
+ * Panjang salt PBKDF2 dan IV AES-GCM (byte)
+ */
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/**
+ * Header file handover (tidak terenkripsi, tetapi ikut diautentikasi
+ * sebagai additional data AES-GCM sehingga tidak bisa diubah)
+ */
+export interface HandoverHeader {
+  format: typeof HANDOVER_FORMAT;
+  version: number;
+  exportedAt: string;
+  exportedBy: Pick<User, 'id' | 'nama'>;
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    /** Salt (base64) */
+    salt: string;
+  };
+}
+
+/**
+ * Isi file handover
+ * ciphertext adalah AES-GCM (base64) dari JSON HandoverData.
+ */
+export interface HandoverBundle extends HandoverHeader {
+  /** IV AES-GCM (base64) */
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * Jumlah data dalam file handover
+ */
+export interface HandoverSummary {
+  queued: number;
+  failed: number;
+  lansia: number;
+  pemeriksaan: number;
+}
+
+/**
+ * Hasil ekspor
+ */
+export interface ExportHandoverResult {
+  success: boolean;
+  fileName?: string;
+  content?: string;
+  summary?: HandoverSummary;
+  error?: string;
+}
+
+/**
+ * Hasil impor
+ */
+export interface ImportHandoverResult {
+  success: boolean;
+  result?: HandoverImportResult;
+  exportedBy?: HandoverHeader['exportedBy'];
+  exportedAt?: Date;
+  error?: string;
+}
+
+/**
+ * Field bertipe Date per table (JSON menyimpannya sebagai ISO string)
+ */
+const DATE_FIELDS = {
+  syncQueue: ['createdAt', 'nextAttemptAt'],
+  deadLetter: ['createdAt', 'failedAt'],
+  lansia: ['tanggalLahir', 'createdAt', 'updatedAt', 'syncedAt', 'pemeriksaanSyncedAt', 'localModifiedAt'],
+  pemeriksaan: ['tanggal', 'createdAt', 'updatedAt', 'syncedAt', 'localModifiedAt'],
+} as const satisfies Record<keyof HandoverData, readonly string[]>;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Encode bytes ke base64
+ *
+ * @private
+ */
+function toBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+}
+
+/**
+ * Decode base64 ke bytes
+ *
+ * @private
+ * @throws ValidationError jika bukan base64 yang valid
+ */
+function fromBase64(value: unknown): Uint8Array<ArrayBuffer> {
+  try {
+    return Uint8Array.from(atob(value as string), (char) => char.charCodeAt(0));
+  } catch {
+    throw new ValidationError('Isi file serah terima rusak');
+  }
+}
+
+/**
+ * Turunkan key AES-GCM dari passphrase
+ *
+ * @private
+ */
+async function deriveHandoverKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Additional data AES-GCM dari header
+ * Disusun ulang dengan urutan field tetap supaya tidak bergantung pada urutan di file.
+ *
+ * @private
+ */
+function headerBytes(header: HandoverHeader): Uint8Array<ArrayBuffer> {
+  const { format, version, exportedAt, exportedBy, kdf } = header;
+  return new TextEncoder().encode(
+    JSON.stringify([
+      format,
+      version,
+      exportedAt,
+      [exportedBy.id, exportedBy.nama],
+      [kdf.name, kdf.hash, kdf.iterations, kdf.salt],
+    ])
+  );
+}
+
+/**
+ * Validasi passphrase
+ *
+ * @private
+ * @throws ValidationError jika passphrase terlalu pendek
+ */
+function assertPassphrase(passphrase: string): void {
+  if (passphrase.length < HANDOVER_PASSPHRASE_MIN_LENGTH) {
+    throw new ValidationError(`Passphrase minimal ${HANDOVER_PASSPHRASE_MIN_LENGTH} karakter`);
+  }
+}
+
+/**
+ * Kembalikan field tanggal menjadi Date
+ * Field lain (termasuk payload queue, mis. tanggalLahir string) dibiarkan apa adanya.
+ *
+ * @private
+ */
+function reviveDates<T>(rows: T[], fields: readonly string[]): T[] {
+  return rows.map((row) => {
+    const revived = { ...row } as Record<string, unknown>;
+    for (const field of fields) {
+      if (typeof revived[field] === 'string') {
+        revived[field] = new Date(revived[field] as string);
+      }
+    }
+    return revived as T;
+  });
+}
+
+/**
+ * Ringkasan isi data handover
+ *
+ * @private
+ */
+function summarize(data: HandoverData): HandoverSummary {
+  return {
+    queued: data.syncQueue.length,
+    failed: data.deadLetter.length,
+    lansia: data.lansia.length,
+    pemeriksaan: data.pemeriksaan.length,
+  };
+}
+
+/**
+ * Parse, dekripsi, dan validasi isi file handover
+ *
+ * @private
+ * @throws ValidationError jika format/versi tidak valid, passphrase salah, atau file diubah
+ */
+async function parseBundle(
+  content: string,
+  passphrase: string
+): Promise<{ header: HandoverHeader; data: HandoverData }> {
+  let parsed: Partial<HandoverBundle>;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new ValidationError('File bukan JSON yang valid');
+  }
+
+  if (!parsed || parsed.format !== HANDOVER_FORMAT) {
+    throw new ValidationError('File bukan file serah terima Posyandu');
+  }
+  if (parsed.version !== HANDOVER_VERSION) {
+    throw new ValidationError(`Versi file (${parsed.version}) tidak didukung aplikasi ini`);
+  }
+
+  // Iterasi dari file tidak dipercaya: nilai lain ditolak agar file tidak bisa
+  // memaksa PBKDF2 berjalan sangat lama (atau terlalu lemah)
+  const { kdf, exportedBy } = parsed;
+  if (
+    !kdf ||
+    kdf.name !== 'PBKDF2' ||
+    kdf.hash !== 'SHA-256' ||
+    kdf.iterations !== KEY_DERIVATION_ITERATIONS ||
+    !exportedBy ||
+    typeof parsed.exportedAt !== 'string'
+  ) {
+    throw new ValidationError('Header file serah terima tidak valid');
+  }
+
+  const salt = fromBase64(kdf.salt);
+  const iv = fromBase64(parsed.iv);
+  if (salt.length !== SALT_LENGTH || iv.length !== IV_LENGTH) {
+    throw new ValidationError('Header file serah terima tidak valid');
+  }
+
+  const header = parsed as HandoverHeader;
+  const key = await deriveHandoverKey(passphrase, salt, KEY_DERIVATION_ITERATIONS);
+
+  let data: Partial<HandoverData>;
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: headerBytes(header) },
+      key,
+      fromBase64(parsed.ciphertext)
+    );
+    data = JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new ValidationError('Passphrase salah atau file telah diubah');
+  }
+
+  if (
+    !data ||
+    !Array.isArray(data.syncQueue) ||
+    !Array.isArray(data.deadLetter) ||
+    !Array.isArray(data.lansia) ||
+    !Array.isArray(data.pemeriksaan)
+  ) {
+    throw new ValidationError('Isi file serah terima tidak lengkap');
+  }
+
+  return { header, data: data as HandoverData };
+}
+
+// ============================================
+// Export Service
+// ============================================
+
+/**
+ * Buat file handover terenkripsi berisi pekerjaan offline yang belum terkirim
+ *
+ * @param exportedBy - User yang mengekspor (dicatat di header file)
+ * @param passphrase - Passphrase untuk mengenkripsi file (diberikan ke penerima lewat jalur lain)
+ * @returns Isi file dan ringkasan, atau error
+ */
+export async function exportHandover(
+  exportedBy: Pick<User, 'id' | 'nama'>,
+  passphrase: string
+): Promise<ExportHandoverResult> {
+  try {
+    assertPassphrase(passphrase);
+
+    const data = await handoverRepository.collectPending();
+    const summary = summarize(data);
+
+    if (summary.queued + summary.failed + summary.lansia + summary.pemeriksaan === 0) {
+      return { success: false, summary, error: 'Tidak ada data tertunda untuk diekspor' };
+    }
+
+    const exportedAt = new Date();
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const header: HandoverHeader = {
+      format: HANDOVER_FORMAT,
+      version: HANDOVER_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      exportedBy: { id: exportedBy.id, nama: exportedBy.nama },
+      kdf: {
+        name: 'PBKDF2',
+        hash: 'SHA-256',
+        iterations: KEY_DERIVATION_ITERATIONS,
+        salt: toBase64(salt),
+      },
+    };
+
+    const key = await deriveHandoverKey(passphrase, salt, KEY_DERIVATION_ITERATIONS);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: headerBytes(header) },
+      key,
+      new TextEncoder().encode(JSON.stringify(data))
+    );
+    const bundle: HandoverBundle = {
+      ...header,
+      iv: toBase64(iv),
+      ciphertext: toBase64(new Uint8Array(ciphertext)),
+    };
+
+    return {
+      success: true,
+      fileName: `serah-terima-posyandu-${exportedAt.toISOString().slice(0, 10)}-${exportedBy.id}.json`,
+      content: JSON.stringify(bundle),
+      summary,
+    };
+  } catch (error) {
+    console.error('Error exporting handover:', error);
+    return { success: false, error: handleAPIError(error) };
+  }
+}
+
+// ============================================
+// Import Service
+// ============================================
+
+/**
+ * Impor file handover ke perangkat ini
+ *
+ * Item baru masuk ke sync queue perangkat ini dan dikirim oleh SyncManager
+ * (langsung jika online, atau pada sync berikutnya).
+ *
+ * @param content - Isi file handover
+ * @param passphrase - Passphrase yang dipakai saat ekspor
+ * @param isOnline - Status koneksi
+ * @returns Ringkasan impor, atau error jika file tidak valid atau passphrase salah
+ */
+export async function importHandover(
+  content: string,
+  passphrase: string,
+  isOnline: boolean
+): Promise<ImportHandoverResult> {
+  try {
+    const bundle = await parseBundle(content, passphrase);
+    const data: HandoverData = {
+      syncQueue: reviveDates(bundle.data.syncQueue, DATE_FIELDS.syncQueue),
+      deadLetter: reviveDates(bundle.data.deadLetter, DATE_FIELDS.deadLetter),
+      lansia: reviveDates(bundle.data.lansia, DATE_FIELDS.lansia),
+      pemeriksaan: reviveDates(bundle.data.pemeriksaan, DATE_FIELDS.pemeriksaan),
+    };
+
+    const result = await handoverRepository.importData(data);
+
+    if (isOnline && result.queued > 0) {
+      // Background sync, tidak menahan hasil impor
+      void syncManager.syncAll();
+    }
+
+    return {
+      success: true,
+      result,
+      exportedBy: bundle.header.exportedBy,
+      exportedAt: new Date(bundle.header.exportedAt),
+    };
+  } catch (error) {
+    console.error('Error importing handover:', error);
+    return { success: false, error: handleAPIError(error) };
+  }
+}
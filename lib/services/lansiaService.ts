@@ -12,9 +12,30 @@
  */
 
 import { lansiaAPI } from '@/lib/api';
-import { lansiaRepository, syncQueueRepository } from '@/lib/db';
+import { LIST_PAGE_SIZE } from '@/lib/constants';
+import { lansiaRepository, pemeriksaanRepository, syncQueueRepository } from '@/lib/db';
 import { generateIdPasien } from '@/lib/utils/generateIdPasien';
-import type { CreateLansiaData, Lansia } from '@/types';
+import {
+  ConflictError,
+  RequestCancelledError,
+  handleAPIError,
+  isServerUnavailableError,
+} from '@/lib/utils/errors';
+import { syncManager } from '@/lib/utils/syncManager';
+import { createConflict } from './syncConflictService';
+import type { LansiaCreatePayload, LansiaDB, LansiaUpdatePayload } from '@/lib/db';
+import type {
+  APIResponse,
+  CreateLansiaData,
+  Gender,
+  Lansia,
+  LansiaSortField,
+  MinimalLansia,
+  Page,
+  Pemeriksaan,
+  SortOrder,
+  UpdateLansiaData,
+} from '@/types';
 
 // ============================================
 // Types
@@ -31,6 +52,84 @@ export interface CreateLansiaResult {
   isOffline?: boolean;
 }
 
+/**
+ * Pesan untuk update yang ditolak karena data di server sudah berubah
+ */
+export const CONFLICT_ERROR_MESSAGE =
+  'Data sudah diubah di perangkat lain. Pilih nilai yang benar di halaman Sinkronisasi.';
+
+/**
+ * Result of lansia update/delete
+ */
+export interface MutateLansiaResult {
+  success: boolean;
+  lansia?: Lansia;
+  error?: string;
+  isOffline?: boolean;
+}
+
+/**
+ * Result of lansia list/search query
+ */
+export interface LansiaListResult {
+  success: boolean;
+  data: Array<Lansia | MinimalLansia>;
+  /**
+   * true jika data diambil dari IndexedDB karena server tidak bisa dihubungi
+   */
+  isCached: boolean;
+  /**
+   * Waktu sinkron terakhir data lokal yang ditampilkan (hanya jika isCached)
+   */
+  cachedAt: Date | null;
+  /**
+   * Cursor halaman berikutnya (null jika sudah halaman terakhir)
+   */
+  nextCursor: string | null;
+  /**
+   * Jumlah seluruh lansia yang cocok dengan filter (semua halaman)
+   */
+  total: number;
+  error?: string;
+}
+
+/**
+ * Halaman, urutan, dan filter daftar lansia
+ */
+export interface LansiaPageOptions {
+  /**
+   * Cursor dari LansiaListResult.nextCursor (kosong untuk halaman pertama)
+   */
+  cursor?: string | null;
+  sort?: LansiaSortField;
+  order?: SortOrder;
+  gender?: Gender;
+  limit?: number;
+}
+
+/**
+ * Detail lansia beserta riwayat pemeriksaan
+ */
+export interface LansiaDetail {
+  lansia: Lansia;
+  pemeriksaan: Pemeriksaan[];
+  /**
+   * Waktu sinkron terakhir data lokal (null jika belum pernah sinkron)
+   */
+  syncedAt: Date | null;
+}
+
+/**
+ * Minimal panjang query untuk pencarian
+ */
+export const MIN_SEARCH_QUERY_LENGTH = 3;
+
+/**
+ * Urutan default daftar lansia (terbaru dulu, sama dengan backend)
+ */
+export const DEFAULT_LANSIA_SORT: LansiaSortField = 'createdAt';
+export const DEFAULT_LANSIA_ORDER: SortOrder = 'desc';
+
 // ============================================
 // ID Generation Service
 // ============================================
@@ -48,6 +147,33 @@ export async function generateUniqueLansiaId(): Promise<string> {
 // Lansia Creation Service
 // ============================================
 
+/**
+ * Simpan lansia hasil create dari server ke IndexedDB
+ */
+async function storeCreatedLansia(response: APIResponse<Lansia>): Promise<CreateLansiaResult> {
+  if (response.data) {
+    // Save to IndexedDB with syncedAt
+    const lansiaDB = {
+      ...response.data,
+      syncedAt: new Date(),
+    };
+    await lansiaRepository.create(lansiaDB);
+
+    return {
+      success: true,
+      kode: response.data.kode,
+      lansia: response.data,
+      isOffline: false,
+    };
+  }
+
+  return {
+    success: false,
+    kode: '',
+    error: 'No data returned from API',
+  };
+}
+
 /**
  * Create lansia online (with API)
  *
@@ -58,31 +184,7 @@ async function createLansiaOnline(
   data: CreateLansiaData
 ): Promise<CreateLansiaResult> {
   try {
-    const response = await lansiaAPI.create(data);
-
-    if (response.data) {
-      // Save to IndexedDB with syncedAt
-      const lansiaDB = {
-        ...response.data,
-        tanggalLahir: new Date(response.data.tanggalLahir),
-        createdAt: new Date(response.data.createdAt),
-        syncedAt: new Date(),
-      };
-      await lansiaRepository.create(lansiaDB);
-
-      return {
-        success: true,
-        kode: response.data.kode,
-        lansia: response.data,
-        isOffline: false,
-      };
-    }
-
-    return {
-      success: false,
-      kode: '',
-      error: 'No data returned from API',
-    };
+    return await storeCreatedLansia(await lansiaAPI.create(data));
   } catch (error) {
     return {
       success: false,
@@ -95,6 +197,10 @@ async function createLansiaOnline(
 /**
  * Create lansia offline (IndexedDB + sync queue)
  *
+ * Request dikirim dengan option offlineQueue: interceptor menyimpannya ke
+ * sync queue. Jika koneksi sudah kembali, request terkirim dan hasilnya
+ * disimpan seperti create online.
+ *
  * @param data - Lansia data
  * @param kode - Pre-generated patient code
  * @returns Creation result
@@ -104,6 +210,16 @@ async function createLansiaOffline(
   kode: string
 ): Promise<CreateLansiaResult> {
   try {
+    // localKode untuk remap ke kode dari server
+    const payload: LansiaCreatePayload = { ...data, localKode: kode };
+    const response = await lansiaAPI.create(data, {
+      offlineQueue: { entity: 'LANSIA', type: 'CREATE', data: payload },
+    });
+
+    if (!response.queued) {
+      return await storeCreatedLansia(response);
+    }
+
     const lansiaDB = {
       id: Date.now(), // Temporary ID
       kode,
@@ -118,13 +234,6 @@ async function createLansiaOffline(
 
     await lansiaRepository.create(lansiaDB);
 
-    // Add to sync queue
-    await syncQueueRepository.add({
-      entity: 'LANSIA',
-      type: 'CREATE',
-      data,
-    });
-
     return {
       success: true,
       kode,
@@ -160,6 +269,276 @@ export async function createLansia(
   }
 }
 
+// ============================================
+// Lansia Update / Delete Service
+// ============================================
+
+/**
+ * Convert perubahan dari form (string dates) ke format IndexedDB
+ */
+function toLansiaDBChanges(data: UpdateLansiaData): Partial<LansiaDB> {
+  const { tanggalLahir, ...rest } = data;
+  return tanggalLahir ? { ...rest, tanggalLahir: new Date(tanggalLahir) } : rest;
+}
+
+/**
+ * Cari CREATE lansia yang belum terkirim untuk lansia lokal
+ * (match by localKode, fallback NIK untuk item lama tanpa localKode)
+ */
+async function findPendingLansiaCreate(local: LansiaDB) {
+  return await syncQueueRepository.findPending('LANSIA', 'CREATE', (data) => {
+    const payload = data as LansiaCreatePayload;
+    return payload.localKode ? payload.localKode === local.kode : payload.nik === local.nik;
+  });
+}
+
+/**
+ * Cari UPDATE lansia yang belum terkirim (edit offline berikutnya digabung ke sini)
+ */
+async function findPendingLansiaUpdate(kode: string) {
+  return await syncQueueRepository.findPending(
+    'LANSIA',
+    'UPDATE',
+    (data) => (data as LansiaUpdatePayload).kode === kode
+  );
+}
+
+/**
+ * Terapkan lansia hasil update dari server ke IndexedDB
+ */
+async function storeUpdatedLansia(response: APIResponse<Lansia>): Promise<MutateLansiaResult> {
+  if (!response.data) {
+    return { success: false, error: response.error || 'Gagal memperbarui data lansia' };
+  }
+
+  const lansiaDB = {
+    ...response.data,
+    syncedAt: new Date(),
+  };
+  await lansiaRepository.applyServerVersion(lansiaDB);
+
+  return { success: true, lansia: response.data, isOffline: false };
+}
+
+/**
+ * Update lansia online (with API)
+ *
+ * Versi lokal (updatedAt) dikirim sebagai If-Match. Jika server menolak
+ * karena data sudah berubah, konflik disimpan untuk diselesaikan petugas.
+ *
+ * @param kode - Patient code
+ * @param data - Changed fields
+ * @returns Update result
+ */
+async function updateLansiaOnline(
+  kode: string,
+  data: UpdateLansiaData
+): Promise<MutateLansiaResult> {
+  try {
+    const local = await lansiaRepository.getByKode(kode);
+    const response = await lansiaAPI.update(kode, data, {
+      ifMatch: local?.updatedAt?.toISOString(),
+    });
+
+    return await storeUpdatedLansia(response);
+  } catch (error) {
+    if (
+      error instanceof ConflictError &&
+      (await createConflict({ entity: 'LANSIA', kode, local: { ...data }, current: error.current }))
+    ) {
+      return { success: false, error: CONFLICT_ERROR_MESSAGE };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Update lansia offline (IndexedDB + sync queue)
+ *
+ * Jika lansia belum pernah ter-sync, perubahan digabung ke CREATE yang masih
+ * pending sehingga server langsung menerima data yang sudah dikoreksi.
+ * Edit berikutnya pada lansia yang sudah ter-sync digabung ke UPDATE yang pending,
+ * dengan baseUpdatedAt dari edit pertama (versi server yang diedit).
+ * Edit pertama dikirim dengan option offlineQueue (lihat createLansiaOffline).
+ *
+ * @param kode - Patient code
+ * @param data - Changed fields
+ * @returns Update result
+ */
+async function updateLansiaOffline(
+  kode: string,
+  data: UpdateLansiaData
+): Promise<MutateLansiaResult> {
+  try {
+    const local = await lansiaRepository.getByKode(kode);
+
+    if (!local) {
+      return { success: false, error: 'Data lansia tidak ditemukan di perangkat' };
+    }
+
+    const pendingCreate = local.syncedAt ? undefined : await findPendingLansiaCreate(local);
+    const pendingUpdate = pendingCreate ? undefined : await findPendingLansiaUpdate(kode);
+
+    if (pendingCreate?.id) {
+      await syncQueueRepository.updateData(pendingCreate.id, {
+        ...(pendingCreate.data as LansiaCreatePayload),
+        ...data,
+      });
+    } else if (pendingUpdate?.id) {
+      await syncQueueRepository.updateData(pendingUpdate.id, {
+        ...(pendingUpdate.data as LansiaUpdatePayload),
+        ...data,
+      });
+    } else {
+      const payload: LansiaUpdatePayload = {
+        kode,
+        ...data,
+        baseUpdatedAt: local.updatedAt?.toISOString(),
+      };
+      const response = await lansiaAPI.update(kode, data, {
+        ifMatch: payload.baseUpdatedAt,
+        offlineQueue: { entity: 'LANSIA', type: 'UPDATE', data: payload },
+      });
+
+      if (!response.queued) {
+        return await storeUpdatedLansia(response);
+      }
+    }
+
+    await lansiaRepository.update(local.id, {
+      ...toLansiaDBChanges(data),
+      ...(local.syncedAt && { localModifiedAt: new Date() }),
+    });
+
+    return { success: true, isOffline: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Update lansia (handles both online and offline)
+ *
+ * @param kode - Patient code
+ * @param data - Changed fields
+ * @param isOnline - Whether device is online
+ * @returns Update result
+ */
+export async function updateLansia(
+  kode: string,
+  data: UpdateLansiaData,
+  isOnline: boolean
+): Promise<MutateLansiaResult> {
+  if (isOnline) {
+    return await updateLansiaOnline(kode, data);
+  } else {
+    return await updateLansiaOffline(kode, data);
+  }
+}
+
+/**
+ * Hapus lansia beserta riwayat pemeriksaannya dari IndexedDB
+ */
+async function removeLansiaLocally(local: LansiaDB): Promise<void> {
+  await pemeriksaanRepository.deleteByLansiaId(local.id);
+  await lansiaRepository.delete(local.id);
+}
+
+/**
+ * Delete lansia online (with API)
+ *
+ * @param kode - Patient code
+ * @returns Delete result
+ */
+async function deleteLansiaOnline(kode: string): Promise<MutateLansiaResult> {
+  try {
+    const response = await lansiaAPI.delete(kode);
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    const local = await lansiaRepository.getByKode(kode);
+    if (local) {
+      await removeLansiaLocally(local);
+    }
+
+    return { success: true, isOffline: false };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Delete lansia offline (IndexedDB + sync queue)
+ *
+ * Jika lansia belum pernah ter-sync, CREATE yang pending dan pemeriksaan
+ * yang mengikutinya dibuang dari queue karena server belum mengenal lansia ini.
+ * Selain itu DELETE dikirim dengan option offlineQueue.
+ *
+ * @param kode - Patient code
+ * @returns Delete result
+ */
+async function deleteLansiaOffline(kode: string): Promise<MutateLansiaResult> {
+  try {
+    const local = await lansiaRepository.getByKode(kode);
+
+    if (!local) {
+      return { success: false, error: 'Data lansia tidak ditemukan di perangkat' };
+    }
+
+    const pendingCreate = local.syncedAt ? undefined : await findPendingLansiaCreate(local);
+
+    await removeLansiaLocally(local);
+
+    if (pendingCreate?.id) {
+      const pendingPemeriksaan = (await syncQueueRepository.getByEntity('PEMERIKSAAN'))
+        .filter((item) => (item.data as { kode?: string }).kode === kode)
+        .map((item) => item.id)
+        .filter((id): id is number => id !== undefined);
+
+      await syncQueueRepository.bulkDelete([pendingCreate.id, ...pendingPemeriksaan]);
+      return { success: true, isOffline: true };
+    }
+
+    const response = await lansiaAPI.delete(kode, {
+      offlineQueue: { entity: 'LANSIA', type: 'DELETE', data: { kode } },
+    });
+
+    return { success: true, isOffline: !!response.queued };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Delete lansia (handles both online and offline)
+ *
+ * @param kode - Patient code
+ * @param isOnline - Whether device is online
+ * @returns Delete result
+ */
+export async function deleteLansia(kode: string, isOnline: boolean): Promise<MutateLansiaResult> {
+  if (isOnline) {
+    return await deleteLansiaOnline(kode);
+  } else {
+    return await deleteLansiaOffline(kode);
+  }
+}
+
 // ============================================
 // Data Transformation Service
 // ============================================
@@ -208,21 +587,6 @@ export async function getLansiaByKode(kode: string): Promise<Lansia | null> {
   }
 }
 
-/**
- * Get all lansia
- *
- * @returns Array of lansia
- */
-export async function getAllLansia(): Promise<Lansia[]> {
-  try {
-    const response = await lansiaAPI.getAll();
-    return response.data || [];
-  } catch (error) {
-    console.error('Error fetching all lansia:', error);
-    return [];
-  }
-}
-
 /**
  * Search lansia
  *
@@ -240,3 +604,348 @@ export async function searchLansia(
     return [];
   }
 }
+
+/**
+ * Apakah row lokal punya perubahan yang belum terkirim ke server
+ *
+ * @private
+ */
+function hasPendingLocalChanges(lansia: LansiaDB): boolean {
+  return !lansia.syncedAt || !!lansia.localModifiedAt;
+}
+
+/**
+ * Gabungkan satu halaman hasil server dengan hasil IndexedDB (berdasarkan kode)
+ *
+ * Row lokal yang diedit offline menimpa row server yang sama di halaman
+ * tersebut. Row yang dibuat offline (belum pernah ada di server) hanya
+ * ditambahkan ke halaman pertama, supaya tidak muncul ganda saat halaman
+ * berikutnya dimuat. Row lokal yang sudah sinkron tetapi tidak ada di hasil
+ * server menunggu halamannya sendiri (atau sudah usang) dan tidak ditampilkan.
+ *
+ * @private
+ */
+function mergeLansiaResults(
+  remote: Array<Lansia | MinimalLansia>,
+  local: LansiaDB[],
+  isFirstPage: boolean
+): Array<Lansia | MinimalLansia> {
+  const pendingByKode = new Map(
+    local.filter(hasPendingLocalChanges).map((lansia) => [lansia.kode, lansia])
+  );
+
+  const merged = remote.map((lansia) => {
+    const pending = pendingByKode.get(lansia.kode);
+    if (!pending) return lansia;
+
+    // Pakai id server supaya navigasi detail tetap mengarah ke data yang sama
+    return { ...pending, id: lansia.id };
+  });
+
+  if (!isFirstPage) {
+    return merged;
+  }
+
+  const remoteKode = new Set(remote.map((lansia) => lansia.kode));
+  const localOnly = [...pendingByKode.values()].filter(
+    (lansia) => !lansia.syncedAt && !remoteKode.has(lansia.kode)
+  );
+  return [...merged, ...localOnly];
+}
+
+/**
+ * Waktu sinkron terakhir dari row lokal
+ *
+ * @private
+ */
+function getLatestSyncedAt(lansiaList: LansiaDB[]): Date | null {
+  return lansiaList.reduce<Date | null>(
+    (latest, lansia) =>
+      lansia.syncedAt && (!latest || lansia.syncedAt > latest) ? lansia.syncedAt : latest,
+    null
+  );
+}
+
+/**
+ * Prefix cursor halaman yang dibaca dari IndexedDB (offset, bukan keyset server)
+ */
+const LOCAL_CURSOR_PREFIX = 'local:';
+
+/**
+ * Offset dari cursor lokal, atau null jika cursor milik server
+ *
+ * @private
+ */
+function parseLocalCursor(cursor: string | null | undefined): number | null {
+  if (!cursor?.startsWith(LOCAL_CURSOR_PREFIX)) {
+    return null;
+  }
+  const offset = Number(cursor.slice(LOCAL_CURSOR_PREFIX.length));
+  return Number.isInteger(offset) && offset > 0 ? offset : 0;
+}
+
+/**
+ * Filter dan urutkan lansia dengan aturan yang sama dengan server
+ *
+ * @private
+ */
+function filterAndSortLansia<T extends Lansia>(lansiaList: T[], page: LansiaPageOptions): T[] {
+  const sort = page.sort ?? DEFAULT_LANSIA_SORT;
+  const direction = (page.order ?? DEFAULT_LANSIA_ORDER) === 'asc' ? 1 : -1;
+  const getValue = (lansia: T): string | number => {
+    const value = lansia[sort];
+    if (value instanceof Date) return value.getTime();
+    return sort === 'nama' ? value.toLowerCase() : value;
+  };
+
+  return lansiaList
+    .filter((lansia) => !page.gender || lansia.gender === page.gender)
+    .sort((a, b) => {
+      const valueA = getValue(a);
+      const valueB = getValue(b);
+      if (valueA === valueB) return direction * (a.id - b.id);
+      return direction * (valueA < valueB ? -1 : 1);
+    });
+}
+
+/**
+ * Filter, urutkan, dan potong data lokal dengan aturan yang sama dengan server
+ *
+ * @private
+ */
+function pageLocalLansia(
+  lansiaList: LansiaDB[],
+  page: LansiaPageOptions,
+  offset: number,
+  limit: number
+): { items: LansiaDB[]; nextCursor: string | null; total: number } {
+  const sorted = filterAndSortLansia(lansiaList, page);
+  const end = offset + limit;
+  return {
+    items: sorted.slice(offset, end),
+    nextCursor: end < sorted.length ? `${LOCAL_CURSOR_PREFIX}${end}` : null,
+    total: sorted.length,
+  };
+}
+
+/**
+ * Ambil satu halaman dari server: daftar (GET /lansia) atau hasil pencarian (POST /find)
+ *
+ * Hasil pencarian selalu satu halaman (urutan relevansi dari server, filter
+ * gender diterapkan di sini). Daftar yang muat dalam satu halaman (termasuk
+ * backend lama yang mengirim array tanpa paginasi dan tanpa filter) difilter
+ * dan diurutkan ulang dengan aturan yang sama dengan server.
+ *
+ * @private
+ * @throws Error jika server menolak atau response kosong
+ */
+async function fetchRemoteLansiaPage(
+  query: string,
+  isSearch: boolean,
+  page: LansiaPageOptions,
+  signal?: AbortSignal
+): Promise<Page<Lansia | MinimalLansia>> {
+  if (isSearch) {
+    const response = await lansiaAPI.find(query, { signal });
+    if (!response.data) {
+      throw new Error(response.error || 'Gagal mencari data lansia');
+    }
+
+    const items = response.data.filter((lansia) => !page.gender || lansia.gender === page.gender);
+    return { items, nextCursor: null, total: items.length };
+  }
+
+  const response = await lansiaAPI.list(
+    {
+      gender: page.gender,
+      sort: page.sort ?? DEFAULT_LANSIA_SORT,
+      order: page.order ?? DEFAULT_LANSIA_ORDER,
+      cursor: page.cursor,
+      limit: page.limit,
+    },
+    { signal }
+  );
+  if (!response.data) {
+    throw new Error(response.error || 'Gagal mengambil data lansia');
+  }
+
+  const { items, nextCursor, total } = response.data;
+  if (page.cursor || nextCursor) {
+    return response.data;
+  }
+
+  const filtered = filterAndSortLansia(items, page);
+  return { items: filtered, nextCursor, total: total - (items.length - filtered.length) };
+}
+
+/**
+ * Ambil satu halaman daftar lansia (atau hasil pencarian) dengan fallback ke IndexedDB
+ *
+ * Online: halaman dari server (lihat fetchRemoteLansiaPage) digabung dengan
+ * data lokal yang belum terkirim.
+ * Offline atau server tidak terjangkau (network, timeout, 5xx): data diambil
+ * dari IndexedDB, difilter dan diurutkan dengan aturan yang sama, lalu
+ * ditandai sebagai cache beserta waktu sinkron terakhirnya. Halaman lokal memakai cursor lokal, sehingga
+ * "muat lebih banyak" tetap membaca IndexedDB walau koneksi sudah kembali
+ * (refresh daftar untuk kembali ke data server). Halaman lanjutan dari
+ * server yang gagal dimuat tidak fallback, karena posisi cursor server tidak
+ * bisa dipetakan ke data lokal.
+ *
+ * Error lain (401/403, response tidak valid, dll.) diteruskan sebagai hasil
+ * gagal, bukan disamarkan dengan data cache. Request yang dibatalkan lewat
+ * `signal` (query sudah diganti) juga tidak fallback ke IndexedDB; hasilnya
+ * gagal dan boleh diabaikan pemanggil.
+ *
+ * @param query - Query pencarian (kosong atau < 3 karakter untuk semua lansia)
+ * @param isOnline - Network status
+ * @param page - Cursor, urutan, dan filter
+ * @param signal - Untuk membatalkan request server yang sudah tidak dipakai
+ * @returns List result
+ */
+export async function getLansiaList(
+  query: string,
+  isOnline: boolean,
+  page: LansiaPageOptions = {},
+  signal?: AbortSignal
+): Promise<LansiaListResult> {
+  const isSearch = query.length >= MIN_SEARCH_QUERY_LENGTH;
+  const isFirstPage = !page.cursor;
+  const localOffset = parseLocalCursor(page.cursor);
+  const getLocal = () => (isSearch ? lansiaRepository.search(query) : lansiaRepository.getAll());
+  const emptyResult = { data: [], isCached: false, cachedAt: null, nextCursor: null, total: 0 };
+  let remoteError: unknown;
+
+  if (isOnline && localOffset === null) {
+    try {
+      const remote = await fetchRemoteLansiaPage(query, isSearch, page, signal);
+
+      const local = await getLocal().catch((error) => {
+        console.error('Error reading local lansia:', error);
+        return [];
+      });
+      const data = mergeLansiaResults(remote.items, local, isFirstPage);
+
+      return {
+        success: true,
+        data,
+        isCached: false,
+        cachedAt: null,
+        nextCursor: remote.nextCursor,
+        // Row yang dibuat offline belum dihitung server
+        total: remote.total + data.length - remote.items.length,
+      };
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        return { success: false, ...emptyResult, error: error.message };
+      }
+      // Hanya server yang tidak terjangkau yang di-fallback ke data lokal
+      if (!isServerUnavailableError(error)) {
+        return { success: false, ...emptyResult, error: handleAPIError(error) };
+      }
+      console.warn('Error fetching lansia, falling back to local data:', error);
+      remoteError = error;
+    }
+  }
+
+  // Cursor server tidak bisa dilanjutkan dari data lokal (halaman akan terulang)
+  if (!isFirstPage && localOffset === null) {
+    return {
+      success: false,
+      ...emptyResult,
+      error: remoteError
+        ? handleAPIError(remoteError)
+        : 'Tidak dapat memuat data berikutnya saat offline',
+    };
+  }
+
+  try {
+    const local = await getLocal();
+    const { items, nextCursor, total } = pageLocalLansia(
+      local,
+      page,
+      localOffset ?? 0,
+      page.limit ?? LIST_PAGE_SIZE
+    );
+    return {
+      success: true,
+      data: items,
+      isCached: true,
+      cachedAt: getLatestSyncedAt(local),
+      nextCursor,
+      total,
+    };
+  } catch (error) {
+    console.error('Error reading local lansia:', error);
+    return {
+      success: false,
+      ...emptyResult,
+      error: handleAPIError(remoteError ?? error),
+    };
+  }
+}
+
+// ============================================
+// Detail Query Service
+// ============================================
+
+/**
+ * Baca detail lansia dan riwayat pemeriksaan dari IndexedDB
+ *
+ * syncedAt adalah waktu sinkron paling lama antara data lansia dan
+ * riwayat pemeriksaannya, supaya umur cache tidak terlihat lebih muda.
+ *
+ * @param kode - Patient code
+ * @returns Detail lokal, atau null jika belum tersimpan/tidak bisa dibaca
+ */
+export async function getCachedLansiaDetail(kode: string): Promise<LansiaDetail | null> {
+  try {
+    const lansia = await lansiaRepository.getByKode(kode);
+    if (!lansia) return null;
+
+    const pemeriksaan = await pemeriksaanRepository.getByLansiaId(lansia.id);
+    const syncTimes = [lansia.syncedAt, lansia.pemeriksaanSyncedAt].filter(
+      (date): date is Date => !!date
+    );
+    const syncedAt = lansia.syncedAt
+      ? new Date(Math.min(...syncTimes.map((date) => date.getTime())))
+      : null;
+
+    return { lansia, pemeriksaan, syncedAt };
+  } catch (error) {
+    console.error('Error reading local lansia detail:', error);
+    return null;
+  }
+}
+
+/**
+ * Ambil detail lansia terbaru dari server dan simpan ke IndexedDB
+ *
+ * Hasil dibaca ulang dari IndexedDB sehingga edit offline yang belum
+ * terkirim tetap terlihat. Gagal pull riwayat pemeriksaan tidak fatal.
+ *
+ * @param kode - Patient code
+ * @returns Detail terbaru
+ * @throws Error jika data lansia gagal diambil dari server
+ */
+export async function refreshLansiaDetail(kode: string): Promise<LansiaDetail> {
+  const serverLansia = await syncManager.syncLansiaByKode(kode);
+
+  try {
+    await syncManager.syncPemeriksaanByKode(kode);
+  } catch (error) {
+    console.warn('Gagal fetch pemeriksaan:', error);
+  }
+
+  const cached = await getCachedLansiaDetail(kode);
+  if (cached) {
+    return cached;
+  }
+
+  // IndexedDB tidak bisa dibaca: tampilkan langsung dari server
+  const pemeriksaanResponse = await lansiaAPI.getPemeriksaan(kode);
+  return {
+    lansia: serverLansia,
+    pemeriksaan: pemeriksaanResponse.data || [],
+    syncedAt: null,
+  };
+}
@@ -11,8 +11,9 @@
  */
 
 import { lansiaAPI } from '@/lib/api';
-import { lansiaRepository, syncQueueRepository } from '@/lib/db';
-import type { Gender } from '@/types';
+import { lansiaRepository } from '@/lib/db';
+import type { LansiaCreatePayload } from '@/lib/db';
+import type { APIResponse, Gender, Lansia } from '@/types';
 
 // ============================================
 // Types
@@ -37,6 +38,30 @@ interface SubmissionResult {
 // Online Submission
 // ============================================
 
+/**
+ * Simpan lansia hasil create dari server ke IndexedDB
+ */
+async function storeSubmittedLansia(response: APIResponse<Lansia>): Promise<SubmissionResult> {
+  if (!response.data) {
+    return {
+      success: false,
+      error: response.error || 'Gagal mendaftarkan lansia',
+    };
+  }
+
+  // Save to IndexedDB with syncedAt
+  const lansiaDB = {
+    ...response.data,
+    syncedAt: new Date(),
+  };
+  await lansiaRepository.create(lansiaDB);
+
+  return {
+    success: true,
+    kode: response.data.kode,
+  };
+}
+
 /**
  * Submit lansia data to API when online
  * Saves to IndexedDB with syncedAt timestamp
@@ -45,28 +70,7 @@ export async function submitLansiaOnline(
   data: LansiaSubmissionData
 ): Promise<SubmissionResult> {
   try {
-    const response = await lansiaAPI.create(data);
-
-    if (!response.data) {
-      return {
-        success: false,
-        error: response.error || 'Gagal mendaftarkan lansia',
-      };
-    }
-
-    // Save to IndexedDB with syncedAt
-    const lansiaDB = {
-      ...response.data,
-      tanggalLahir: new Date(response.data.tanggalLahir),
-      createdAt: new Date(response.data.createdAt),
-      syncedAt: new Date(),
-    };
-    await lansiaRepository.create(lansiaDB);
-
-    return {
-      success: true,
-      kode: response.data.kode,
-    };
+    return await storeSubmittedLansia(await lansiaAPI.create(data));
   } catch (error) {
     console.error('[LansiaSubmission] Online submission failed:', error);
     return {
@@ -82,13 +86,24 @@ export async function submitLansiaOnline(
 
 /**
  * Save lansia data to IndexedDB when offline
- * Adds to sync queue for later synchronization
+ * Request dikirim dengan option offlineQueue sehingga masuk sync queue
  */
 export async function submitLansiaOffline(
   data: LansiaSubmissionData,
   kode: string
 ): Promise<SubmissionResult> {
   try {
+    // localKode untuk remap ke kode dari server
+    const payload: LansiaCreatePayload = { ...data, localKode: kode };
+    const response = await lansiaAPI.create(data, {
+      offlineQueue: { entity: 'LANSIA', type: 'CREATE', data: payload },
+    });
+
+    // Koneksi sudah kembali: request terkirim, simpan seperti submit online
+    if (!response.queued) {
+      return await storeSubmittedLansia(response);
+    }
+
     // Save to IndexedDB
     const lansiaDB = {
       id: Date.now(), // Temporary ID
@@ -104,13 +119,6 @@ export async function submitLansiaOffline(
 
     await lansiaRepository.create(lansiaDB);
 
-    // Add to sync queue
-    await syncQueueRepository.add({
-      entity: 'LANSIA',
-      type: 'CREATE',
-      data,
-    });
-
     return {
       success: true,
       kode,
@@ -0,0 +1,375 @@
+/**
+ * Local Data Service
+ *
+ * Business logic layer untuk siklus hidup data lokal (IndexedDB) per sesi login.
+ * Follows Separation of Concerns - AuthContext hanya memanggil service ini,
+ * detail key dan enkripsi ada di lib/db.
+ *
+ * Responsibilities:
+ * - Buka key enkripsi data lokal saat login (atau pulihkan/hapus jika key lama
+ *   tidak bisa dibuka, atas pilihan user)
+ * - Pulihkan key setelah reload halaman
+ * - Hapus key dari perangkat saat logout
+ * - Wrap ulang key saat password diganti
+ * - Pilih database milik user yang login (satu database per user)
+ * - Hapus data lokal user (tidak boleh jika masih ada data belum tersinkron)
+ * - Terapkan kebijakan retensi data lokal dari admin
+ */
+
+import { settingsAPI } from '@/lib/api';
+import type { RetentionPolicy } from '@/lib/api';
+import {
+  adoptLegacyDatabase,
+  conflictRepository,
+  countPendingItems,
+  countUserPendingItems,
+  deadLetterRepository,
+  deleteUserDatabase,
+  keyring,
+  lansiaRepository,
+  pemeriksaanRepository,
+  setActiveDatabaseUser,
+  syncQueueRepository,
+} from '@/lib/db';
+import { LOCAL_DATA_RETENTION_DAYS } from '@/lib/constants';
+import {
+  AuthenticationError,
+  LocalKeyMismatchError,
+  UnsyncedDataError,
+  handleAPIError,
+} from '@/lib/utils/errors';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Hasil menghapus data lokal user
+ */
+export interface WipeLocalDataResult {
+  success: boolean;
+  /**
+   * Jumlah item yang belum tersinkron (wipe ditolak jika > 0)
+   */
+  pendingCount: number;
+  error?: string;
+}
+
+/**
+ * Pilihan user saat key data lokal tidak bisa dibuka (LocalKeyMismatchError)
+ * - recover: buka key dengan password lama, lalu wrap ulang dengan password login
+ * - reset: hapus data lokal (hanya jika tidak ada data belum tersinkron), key baru dibuat
+ */
+export type LocalDataRecovery = { action: 'recover'; oldPassword: string } | { action: 'reset' };
+
+/**
+ * localStorage key untuk cache kebijakan retensi (dipakai saat offline)
+ */
+const RETENTION_POLICY_KEY = 'posyandu_retention_policy';
+
+/**
+ * Kebijakan default sebelum kebijakan admin pernah diambil dari server
+ */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  retentionDays: LOCAL_DATA_RETENTION_DAYS,
+  allowKeepOnLogout: true,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Session Service
+// ============================================
+
+/**
+ * Enkripsi row lama yang masih plaintext (best effort)
+ *
+ * @private
+ */
+async function encryptPlaintextData(): Promise<void> {
+  try {
+    await lansiaRepository.encryptPlaintextRows();
+    await pemeriksaanRepository.encryptPlaintextRows();
+    await syncQueueRepository.encryptPlaintextRows();
+    await deadLetterRepository.encryptPlaintextRows();
+    await conflictRepository.encryptPlaintextRows();
+  } catch (error) {
+    console.error('Error encrypting plaintext local data:', error);
+  }
+}
+
+/**
+ * Jalankan pilihan pemulihan key sebelum unlock
+ *
+ * @private
+ */
+async function applyLocalDataRecovery(
+  userId: number,
+  password: string,
+  recovery: LocalDataRecovery
+): Promise<void> {
+  if (recovery.action === 'recover') {
+    try {
+      await keyring.rewrap(userId, recovery.oldPassword, password);
+    } catch (error) {
+      console.error('Error re-wrapping local data key with old password:', error);
+      throw new AuthenticationError('Password lama tidak cocok dengan data di perangkat ini');
+    }
+    return;
+  }
+
+  const result = await wipeLocalData(userId);
+  if (!result.success) {
+    if (result.pendingCount > 0) {
+      throw new UnsyncedDataError(result.pendingCount);
+    }
+    throw new Error(result.error || 'Gagal menghapus data lokal');
+  }
+}
+
+/**
+ * Buka data lokal setelah login berhasil
+ *
+ * Jika key tersimpan tidak bisa dibuka dengan password ini (password diganti
+ * di perangkat lain), data lokal tidak disentuh dan unlock gagal; login
+ * diulang dengan `recovery` yang dipilih user.
+ *
+ * @param userId - ID user yang login
+ * @param password - Password login (untuk menurunkan key)
+ * @param recovery - Pilihan pemulihan setelah LocalKeyMismatchError
+ * @throws LocalKeyMismatchError (beserta jumlah data belum tersinkron) jika key tidak bisa dibuka
+ * @throws Error jika WebCrypto tidak tersedia
+ */
+export async function unlockLocalData(
+  userId: number,
+  password: string,
+  recovery?: LocalDataRecovery
+): Promise<void> {
+  if (recovery) {
+    await applyLocalDataRecovery(userId, password, recovery);
+  }
+
+  try {
+    await keyring.unlock(userId, password);
+  } catch (error) {
+    if (error instanceof LocalKeyMismatchError) {
+      throw new LocalKeyMismatchError(await countUserPendingItems(userId));
+    }
+    throw error;
+  }
+
+  setActiveDatabaseUser(userId);
+  try {
+    // Data dari versi sebelum database dipisah per user diambil alih jika milik user ini
+    await adoptLegacyDatabase();
+  } catch (error) {
+    console.error('Error adopting legacy local database:', error);
+  }
+
+  await encryptPlaintextData();
+
+  // Best effort, tidak menahan login
+  void applyRetentionPolicy(userId);
+}
+
+/**
+ * Pulihkan data lokal untuk sesi yang masih berlaku (reload halaman)
+ *
+ * @param userId - ID user dari token
+ * @returns false jika key tidak tersedia dan user harus login ulang
+ */
+export async function restoreLocalData(userId: number): Promise<boolean> {
+  try {
+    setActiveDatabaseUser(userId);
+    const restored = await keyring.restoreSession(userId);
+    if (restored) {
+      await encryptPlaintextData();
+    }
+    return restored;
+  } catch (error) {
+    console.error('Error restoring local data session:', error);
+    return false;
+  }
+}
+
+/**
+ * Kunci data lokal (logout)
+ * Key dihapus dari memory dan perangkat; data tetap terenkripsi di database user
+ * dan database aktif kembali ke database tanpa user.
+ */
+export async function lockLocalData(): Promise<void> {
+  try {
+    await keyring.lock();
+  } catch (error) {
+    console.error('Error locking local data:', error);
+  } finally {
+    setActiveDatabaseUser(null);
+  }
+}
+
+/**
+ * Wrap ulang key data lokal setelah password diganti
+ *
+ * @param userId - ID user
+ * @param oldPassword - Password lama
+ * @param newPassword - Password baru
+ */
+export async function changeLocalDataPassword(
+  userId: number,
+  oldPassword: string,
+  newPassword: string
+): Promise<void> {
+  try {
+    await keyring.rewrap(userId, oldPassword, newPassword);
+  } catch (error) {
+    // Login berikutnya meminta password lama untuk memulihkan key (LocalDataRecovery)
+    console.error('Error re-wrapping local data key:', error);
+  }
+}
+
+// ============================================
+// Wipe Service
+// ============================================
+
+/**
+ * Jumlah item di database aktif yang belum tersinkron ke server
+ * (sync queue, gagal sinkron, dan konflik)
+ */
+export async function getPendingLocalItemCount(): Promise<number> {
+  try {
+    return await countPendingItems();
+  } catch (error) {
+    console.error('Error counting pending local items:', error);
+    return 0;
+  }
+}
+
+/**
+ * Hapus seluruh data lokal dan key milik user dari perangkat
+ *
+ * Ditolak jika masih ada item yang belum tersinkron, karena item tersebut
+ * hanya ada di perangkat ini dan akan hilang permanen.
+ *
+ * @param userId - ID user
+ * @returns Hasil wipe
+ */
+export async function wipeLocalData(userId: number): Promise<WipeLocalDataResult> {
+  try {
+    const pendingCount = await countUserPendingItems(userId);
+    if (pendingCount > 0) {
+      return {
+        success: false,
+        pendingCount,
+        error: `Masih ada ${pendingCount} data yang belum tersinkron ke server`,
+      };
+    }
+
+    await deleteUserDatabase(userId);
+    await keyring.forget(userId);
+
+    return { success: true, pendingCount: 0 };
+  } catch (error) {
+    console.error('Error wiping local data:', error);
+    return { success: false, pendingCount: 0, error: handleAPIError(error) };
+  }
+}
+
+// ============================================
+// Retention Policy Service
+// ============================================
+
+/**
+ * Kebijakan retensi terakhir yang diketahui perangkat ini
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  if (typeof window === 'undefined') {
+    return DEFAULT_RETENTION_POLICY;
+  }
+
+  try {
+    const stored = localStorage.getItem(RETENTION_POLICY_KEY);
+    return stored ? { ...DEFAULT_RETENTION_POLICY, ...JSON.parse(stored) } : DEFAULT_RETENTION_POLICY;
+  } catch {
+    return DEFAULT_RETENTION_POLICY;
+  }
+}
+
+/**
+ * Simpan kebijakan retensi ke cache perangkat
+ *
+ * @private
+ */
+function cacheRetentionPolicy(policy: RetentionPolicy): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(RETENTION_POLICY_KEY, JSON.stringify(policy));
+  }
+}
+
+/**
+ * Ambil kebijakan retensi dari server (fallback ke cache jika gagal)
+ */
+export async function refreshRetentionPolicy(): Promise<RetentionPolicy> {
+  try {
+    const response = await settingsAPI.getRetentionPolicy();
+    if (response.data) {
+      cacheRetentionPolicy(response.data);
+      return response.data;
+    }
+  } catch (error) {
+    console.warn('Failed to fetch retention policy, using cached policy:', error);
+  }
+
+  return getRetentionPolicy();
+}
+
+/**
+ * Simpan kebijakan retensi baru (admin)
+ *
+ * @param policy - Kebijakan baru
+ * @returns Kebijakan yang tersimpan di server
+ * @throws Error jika server menolak
+ */
+export async function updateRetentionPolicy(policy: RetentionPolicy): Promise<RetentionPolicy> {
+  const response = await settingsAPI.updateRetentionPolicy(policy);
+  const saved = response.data ?? policy;
+
+  cacheRetentionPolicy(saved);
+  return saved;
+}
+
+/**
+ * Hapus data lokal user lain yang sudah tidak login melewati masa retensi
+ *
+ * Database dengan item yang belum tersinkron dilewati supaya tidak ada data hilang.
+ *
+ * @param currentUserId - User yang sedang login (tidak pernah dihapus)
+ * @returns Jumlah user yang datanya dihapus
+ */
+export async function applyRetentionPolicy(currentUserId: number): Promise<number> {
+  try {
+    const policy = await refreshRetentionPolicy();
+    const cutoff = Date.now() - policy.retentionDays * DAY_MS;
+    const users = await keyring.listDeviceUsers();
+    let wiped = 0;
+
+    for (const deviceUser of users) {
+      if (deviceUser.userId === currentUserId || deviceUser.lastActiveAt.getTime() > cutoff) {
+        continue;
+      }
+
+      const result = await wipeLocalData(deviceUser.userId);
+      if (result.success) {
+        wiped++;
+      } else if (result.pendingCount > 0) {
+        console.warn(
+          `[Retention] Keeping data of user ${deviceUser.userId}: ${result.pendingCount} unsynced items`
+        );
+      }
+    }
+
+    return wiped;
+  } catch (error) {
+    console.error('Error applying retention policy:', error);
+    return 0;
+  }
+}
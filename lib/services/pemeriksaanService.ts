@@ -12,11 +12,17 @@
  */
 
 import { pemeriksaanAPI } from '@/lib/api';
-import { pemeriksaanRepository, syncQueueRepository } from '@/lib/db';
+import { lansiaRepository, pemeriksaanRepository, syncQueueRepository } from '@/lib/db';
+import { ConflictError } from '@/lib/utils/errors';
+import { CONFLICT_ERROR_MESSAGE } from './lansiaService';
+import { createConflict } from './syncConflictService';
+import type { PemeriksaanCreatePayload, PemeriksaanUpdatePayload } from '@/lib/db';
 import type {
+  APIResponse,
   PemeriksaanGabunganData,
   PemeriksaanKesehatanData,
   Pemeriksaan,
+  UpdatePemeriksaanData,
 } from '@/types';
 
 // ============================================
@@ -133,6 +139,20 @@ export function transformKesehatanFormData(
 // Pemeriksaan Creation Service
 // ============================================
 
+/**
+ * Kode lokal lansia yang belum pernah ter-sync
+ *
+ * Pemeriksaan untuk lansia ini harus menunggu CREATE lansia terkirim,
+ * karena server belum mengenal kode tersebut.
+ *
+ * @param lansiaId - Lansia ID (bisa temporary ID)
+ * @returns Kode lokal, atau undefined jika lansia sudah ada di server
+ */
+async function getUnsyncedLansiaKode(lansiaId: number): Promise<string | undefined> {
+  const lansia = await lansiaRepository.getById(lansiaId);
+  return lansia && !lansia.syncedAt ? lansia.kode : undefined;
+}
+
 /**
  * Create pemeriksaan gabungan online (with API)
  *
@@ -170,6 +190,9 @@ async function createGabunganOnline(
 /**
  * Create pemeriksaan gabungan offline (IndexedDB + sync queue)
  *
+ * Request ditahan di sync queue oleh interceptor offlineQueue; row lokal
+ * hanya dibuat jika request benar-benar masuk queue.
+ *
  * @param kode - Patient code
  * @param lansiaId - Lansia ID
  * @param data - Pemeriksaan data
@@ -181,7 +204,6 @@ async function createGabunganOffline(
   data: PemeriksaanGabunganData
 ): Promise<CreatePemeriksaanResult> {
   try {
-    // Save to IndexedDB
     const pemeriksaanDB = {
       id: Date.now(), // Temporary ID
       lansiaId,
@@ -198,15 +220,21 @@ async function createGabunganOffline(
       createdAt: new Date(),
     };
 
-    await pemeriksaanRepository.create(pemeriksaanDB);
-
-    // Add to sync queue
-    await syncQueueRepository.add({
-      entity: 'PEMERIKSAAN',
-      type: 'CREATE',
-      data: { kode, ...data },
+    const response = await pemeriksaanAPI.createGabungan(kode, data, {
+      offlineQueue: {
+        entity: 'PEMERIKSAAN',
+        type: 'CREATE',
+        data: { kode, localId: pemeriksaanDB.id, ...data },
+        dependsOn: await getUnsyncedLansiaKode(lansiaId),
+      },
     });
 
+    if (!response.queued) {
+      return { success: true, pemeriksaan: response.data, isOffline: false };
+    }
+
+    await pemeriksaanRepository.create(pemeriksaanDB);
+
     return {
       success: true,
       isOffline: true,
@@ -278,6 +306,9 @@ async function createKesehatanOnline(
 /**
  * Create pemeriksaan kesehatan offline (IndexedDB + sync queue)
  *
+ * Request ditahan di sync queue oleh interceptor offlineQueue; row lokal
+ * hanya dibuat jika request benar-benar masuk queue.
+ *
  * @param kode - Patient code
  * @param lansiaId - Lansia ID
  * @param data - Pemeriksaan data
@@ -289,7 +320,6 @@ async function createKesehatanOffline(
   data: PemeriksaanKesehatanData
 ): Promise<CreatePemeriksaanResult> {
   try {
-    // Save to IndexedDB
     const pemeriksaanDB = {
       id: Date.now(), // Temporary ID
       lansiaId,
@@ -302,15 +332,21 @@ async function createKesehatanOffline(
       createdAt: new Date(),
     };
 
-    await pemeriksaanRepository.create(pemeriksaanDB);
-
-    // Add to sync queue
-    await syncQueueRepository.add({
-      entity: 'PEMERIKSAAN',
-      type: 'CREATE',
-      data: { kode, ...data },
+    const response = await pemeriksaanAPI.createKesehatan(kode, data, {
+      offlineQueue: {
+        entity: 'PEMERIKSAAN',
+        type: 'CREATE',
+        data: { kode, localId: pemeriksaanDB.id, ...data },
+        dependsOn: await getUnsyncedLansiaKode(lansiaId),
+      },
     });
 
+    if (!response.queued) {
+      return { success: true, pemeriksaan: response.data, isOffline: false };
+    }
+
+    await pemeriksaanRepository.create(pemeriksaanDB);
+
     return {
       success: true,
       isOffline: true,
@@ -345,6 +381,275 @@ export async function createPemeriksaanKesehatan(
   }
 }
 
+// ============================================
+// Pemeriksaan Update / Delete Service
+// ============================================
+
+/**
+ * Cari CREATE pemeriksaan yang belum terkirim untuk row lokal (match by localId)
+ */
+async function findPendingPemeriksaanCreate(localId: number) {
+  return await syncQueueRepository.findPending(
+    'PEMERIKSAAN',
+    'CREATE',
+    (data) => (data as PemeriksaanCreatePayload).localId === localId
+  );
+}
+
+/**
+ * Cari UPDATE pemeriksaan yang belum terkirim (edit offline berikutnya digabung ke sini)
+ */
+async function findPendingPemeriksaanUpdate(kode: string, id: number) {
+  return await syncQueueRepository.findPending('PEMERIKSAAN', 'UPDATE', (data) => {
+    const payload = data as PemeriksaanUpdatePayload;
+    return payload.kode === kode && payload.id === id;
+  });
+}
+
+/**
+ * Terapkan pemeriksaan hasil update dari server ke IndexedDB
+ */
+async function storeUpdatedPemeriksaan(
+  response: APIResponse<Pemeriksaan>
+): Promise<CreatePemeriksaanResult> {
+  if (!response.data) {
+    return { success: false, error: response.error || 'Gagal memperbarui pemeriksaan' };
+  }
+
+  await pemeriksaanRepository.applyServerVersion({
+    ...response.data,
+    syncedAt: new Date(),
+  });
+
+  return { success: true, pemeriksaan: response.data, isOffline: false };
+}
+
+/**
+ * Update pemeriksaan online (with API)
+ *
+ * Versi lokal (updatedAt) dikirim sebagai If-Match. Jika server menolak
+ * karena data sudah berubah, konflik disimpan untuk diselesaikan petugas.
+ *
+ * @param kode - Patient code
+ * @param id - Pemeriksaan ID
+ * @param data - Corrected values
+ * @returns Update result
+ */
+async function updatePemeriksaanOnline(
+  kode: string,
+  id: number,
+  data: UpdatePemeriksaanData
+): Promise<CreatePemeriksaanResult> {
+  try {
+    const local = await pemeriksaanRepository.getById(id);
+    const response = await pemeriksaanAPI.update(kode, id, data, {
+      ifMatch: local?.updatedAt?.toISOString(),
+    });
+
+    return await storeUpdatedPemeriksaan(response);
+  } catch (error) {
+    if (
+      error instanceof ConflictError &&
+      (await createConflict({
+        entity: 'PEMERIKSAAN',
+        kode,
+        recordId: id,
+        local: { ...data },
+        current: error.current,
+      }))
+    ) {
+      return { success: false, error: CONFLICT_ERROR_MESSAGE };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Update pemeriksaan offline (IndexedDB + sync queue)
+ *
+ * Koreksi pada pemeriksaan yang belum ter-sync digabung ke CREATE yang pending,
+ * koreksi berikutnya pada pemeriksaan yang sudah ter-sync digabung ke UPDATE yang pending.
+ * Koreksi pertama dikirim dengan option offlineQueue.
+ *
+ * @param kode - Patient code
+ * @param id - Pemeriksaan ID (bisa temporary ID)
+ * @param data - Corrected values
+ * @returns Update result
+ */
+async function updatePemeriksaanOffline(
+  kode: string,
+  id: number,
+  data: UpdatePemeriksaanData
+): Promise<CreatePemeriksaanResult> {
+  try {
+    const local = await pemeriksaanRepository.getById(id);
+
+    if (!local) {
+      return { success: false, error: 'Data pemeriksaan tidak ditemukan di perangkat' };
+    }
+
+    const pendingCreate = local.syncedAt ? undefined : await findPendingPemeriksaanCreate(id);
+    const pendingUpdate = pendingCreate ? undefined : await findPendingPemeriksaanUpdate(kode, id);
+
+    if (pendingCreate?.id) {
+      await syncQueueRepository.updateData(pendingCreate.id, {
+        ...(pendingCreate.data as PemeriksaanCreatePayload),
+        ...data,
+      });
+    } else if (pendingUpdate?.id) {
+      await syncQueueRepository.updateData(pendingUpdate.id, {
+        ...(pendingUpdate.data as PemeriksaanUpdatePayload),
+        ...data,
+      });
+    } else {
+      const payload: PemeriksaanUpdatePayload = {
+        kode,
+        id,
+        ...data,
+        baseUpdatedAt: local.updatedAt?.toISOString(),
+      };
+      const response = await pemeriksaanAPI.update(kode, id, data, {
+        ifMatch: payload.baseUpdatedAt,
+        offlineQueue: { entity: 'PEMERIKSAAN', type: 'UPDATE', data: payload },
+      });
+
+      if (!response.queued) {
+        return await storeUpdatedPemeriksaan(response);
+      }
+    }
+
+    await pemeriksaanRepository.update(id, {
+      ...data,
+      ...(local.syncedAt && { localModifiedAt: new Date() }),
+    });
+
+    return { success: true, isOffline: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Update pemeriksaan (handles both online and offline)
+ *
+ * @param kode - Patient code
+ * @param id - Pemeriksaan ID
+ * @param data - Corrected values
+ * @param isOnline - Whether device is online
+ * @returns Update result
+ */
+export async function updatePemeriksaan(
+  kode: string,
+  id: number,
+  data: UpdatePemeriksaanData,
+  isOnline: boolean
+): Promise<CreatePemeriksaanResult> {
+  if (isOnline) {
+    return await updatePemeriksaanOnline(kode, id, data);
+  } else {
+    return await updatePemeriksaanOffline(kode, id, data);
+  }
+}
+
+/**
+ * Delete pemeriksaan online (with API)
+ *
+ * @param kode - Patient code
+ * @param id - Pemeriksaan ID
+ * @returns Delete result
+ */
+async function deletePemeriksaanOnline(
+  kode: string,
+  id: number
+): Promise<CreatePemeriksaanResult> {
+  try {
+    const response = await pemeriksaanAPI.delete(kode, id);
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    await pemeriksaanRepository.delete(id);
+
+    return { success: true, isOffline: false };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Delete pemeriksaan offline (IndexedDB + sync queue)
+ *
+ * Pemeriksaan yang belum ter-sync cukup dibuang dari queue; selain itu
+ * DELETE dikirim dengan option offlineQueue.
+ *
+ * @param kode - Patient code
+ * @param id - Pemeriksaan ID (bisa temporary ID)
+ * @returns Delete result
+ */
+async function deletePemeriksaanOffline(
+  kode: string,
+  id: number
+): Promise<CreatePemeriksaanResult> {
+  try {
+    const local = await pemeriksaanRepository.getById(id);
+
+    if (!local) {
+      return { success: false, error: 'Data pemeriksaan tidak ditemukan di perangkat' };
+    }
+
+    const pendingCreate = local.syncedAt ? undefined : await findPendingPemeriksaanCreate(id);
+
+    await pemeriksaanRepository.delete(id);
+
+    if (pendingCreate?.id) {
+      await syncQueueRepository.delete(pendingCreate.id);
+      return { success: true, isOffline: true };
+    }
+
+    const response = await pemeriksaanAPI.delete(kode, id, {
+      offlineQueue: { entity: 'PEMERIKSAAN', type: 'DELETE', data: { kode, id } },
+    });
+
+    return { success: true, isOffline: !!response.queued };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Delete pemeriksaan (handles both online and offline)
+ *
+ * @param kode - Patient code
+ * @param id - Pemeriksaan ID
+ * @param isOnline - Whether device is online
+ * @returns Delete result
+ */
+export async function deletePemeriksaan(
+  kode: string,
+  id: number,
+  isOnline: boolean
+): Promise<CreatePemeriksaanResult> {
+  if (isOnline) {
+    return await deletePemeriksaanOnline(kode, id);
+  } else {
+    return await deletePemeriksaanOffline(kode, id);
+  }
+}
+
 // ============================================
 // Query Service
 // ============================================
@@ -0,0 +1,294 @@
+/**
+ * Sync Conflict Service
+ *
+ * Business logic layer for sync conflicts (stale offline edits).
+ * Follows Separation of Concerns - isolates merge logic from UI/hooks.
+ *
+ * Responsibilities:
+ * - Record a conflict when the server rejects a stale UPDATE
+ * - Compare local vs server values per field
+ * - Apply the petugas' per-field choices and queue the merged result
+ */
+
+import { lansiaAPI } from '@/lib/api';
+import {
+  conflictRepository,
+  lansiaRepository,
+  pemeriksaanRepository,
+  syncQueueRepository,
+} from '@/lib/db';
+import type { ConflictDB, LansiaDB, PemeriksaanDB } from '@/lib/db';
+import type { Lansia, Pemeriksaan } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Sumber nilai yang dipilih untuk satu field
+ */
+export type ConflictChoice = 'local' | 'server';
+
+/**
+ * Data untuk membuat record konflik
+ */
+export interface CreateConflictParams {
+  entity: ConflictDB['entity'];
+  kode: string;
+  recordId?: number;
+  local: Record<string, unknown>;
+  /**
+   * Versi server dari response 409/412, jika backend mengirimkannya
+   */
+  current?: unknown;
+  /**
+   * Item sync queue yang ditolak (dihapus bersamaan dengan pembuatan konflik)
+   */
+  queueId?: number;
+}
+
+/**
+ * Result of conflict resolution
+ */
+export interface ResolveConflictResult {
+  success: boolean;
+  /**
+   * true jika ada nilai lokal yang dipilih dan perlu dikirim ulang ke server
+   */
+  hasLocalChanges?: boolean;
+  error?: string;
+}
+
+// ============================================
+// Comparison
+// ============================================
+
+/**
+ * Normalisasi nilai untuk dibandingkan
+ * Tanggal lahir bisa berupa 'YYYY-MM-DD' (form) atau ISO string (server)
+ */
+function normalizeFieldValue(field: string, value: unknown): unknown {
+  if (field === 'tanggalLahir' && (typeof value === 'string' || value instanceof Date)) {
+    return new Date(value).toISOString().slice(0, 10);
+  }
+  return value ?? null;
+}
+
+/**
+ * Cek apakah nilai lokal dan server untuk satu field sama
+ *
+ * @param field - Nama field
+ * @param a - Nilai pertama
+ * @param b - Nilai kedua
+ * @returns true jika nilainya sama setelah normalisasi
+ */
+export function isSameFieldValue(field: string, a: unknown, b: unknown): boolean {
+  return (
+    JSON.stringify(normalizeFieldValue(field, a)) === JSON.stringify(normalizeFieldValue(field, b))
+  );
+}
+
+// ============================================
+// Conflict Creation Service
+// ============================================
+
+/**
+ * Ambil versi server terkini untuk record yang konflik
+ */
+async function fetchServerVersion(
+  entity: ConflictDB['entity'],
+  kode: string,
+  recordId?: number
+): Promise<unknown> {
+  if (entity === 'LANSIA') {
+    return (await lansiaAPI.getByKode(kode)).data;
+  }
+
+  const response = await lansiaAPI.getPemeriksaan(kode);
+  return response.data?.find((pemeriksaan) => pemeriksaan.id === recordId);
+}
+
+/**
+ * Simpan konflik antara edit lokal dan versi server
+ *
+ * @param params - Data konflik
+ * @returns false jika versi server tidak bisa didapat (konflik tidak disimpan)
+ */
+export async function createConflict(params: CreateConflictParams): Promise<boolean> {
+  const { queueId, current, ...conflict } = params;
+
+  let server = current;
+  if (!server) {
+    try {
+      server = await fetchServerVersion(conflict.entity, conflict.kode, conflict.recordId);
+    } catch (error) {
+      console.error('[SyncConflict] Failed to fetch server version:', error);
+    }
+  }
+
+  if (!server || typeof server !== 'object') {
+    return false;
+  }
+
+  const record = { ...conflict, server: server as Record<string, unknown> };
+
+  if (queueId !== undefined) {
+    await conflictRepository.moveFromQueue(queueId, record);
+  } else {
+    await conflictRepository.add(record);
+  }
+
+  return true;
+}
+
+// ============================================
+// Conflict Resolution Service
+// ============================================
+
+/**
+ * Convert lansia dari server (string dates) ke format IndexedDB
+ */
+function toLansiaDB(server: Record<string, unknown>): LansiaDB {
+  const lansia = server as unknown as Lansia;
+  return {
+    ...lansia,
+    tanggalLahir: new Date(lansia.tanggalLahir),
+    createdAt: new Date(lansia.createdAt),
+    updatedAt: lansia.updatedAt ? new Date(lansia.updatedAt) : undefined,
+    syncedAt: new Date(),
+  };
+}
+
+/**
+ * Convert pemeriksaan dari server (string dates) ke format IndexedDB
+ */
+function toPemeriksaanDB(server: Record<string, unknown>): PemeriksaanDB {
+  const pemeriksaan = server as unknown as Pemeriksaan;
+  return {
+    ...pemeriksaan,
+    tanggal: new Date(pemeriksaan.tanggal),
+    createdAt: new Date(pemeriksaan.createdAt),
+    updatedAt: pemeriksaan.updatedAt ? new Date(pemeriksaan.updatedAt) : undefined,
+    syncedAt: new Date(),
+  };
+}
+
+/**
+ * Convert perubahan (string dates) ke format IndexedDB
+ */
+function toDBChanges(changes: Record<string, unknown>): Record<string, unknown> {
+  return typeof changes.tanggalLahir === 'string'
+    ? { ...changes, tanggalLahir: new Date(changes.tanggalLahir) }
+    : changes;
+}
+
+/**
+ * Selesaikan konflik dengan pilihan nilai per field
+ *
+ * Flow:
+ * 1. Versi server disimpan ke IndexedDB (menjadi dasar edit baru)
+ * 2. Field yang memilih nilai lokal (dan berbeda dari server) diterapkan di atasnya
+ * 3. Perubahan tersebut di-queue sebagai UPDATE dengan baseUpdatedAt versi server,
+ *    digabung dengan UPDATE lain yang masih pending untuk record yang sama
+ * 4. Record konflik dihapus
+ *
+ * @param conflictId - Conflict ID
+ * @param choices - Pilihan per field (default: server)
+ * @returns Resolution result
+ */
+export async function resolveConflict(
+  conflictId: number,
+  choices: Record<string, ConflictChoice>
+): Promise<ResolveConflictResult> {
+  try {
+    const conflict = await conflictRepository.getById(conflictId);
+
+    if (!conflict) {
+      return { success: false, error: 'Data konflik tidak ditemukan' };
+    }
+
+    const changes: Record<string, unknown> = {};
+    for (const [field, localValue] of Object.entries(conflict.local)) {
+      if (
+        choices[field] === 'local' &&
+        !isSameFieldValue(field, localValue, conflict.server[field])
+      ) {
+        changes[field] = localValue;
+      }
+    }
+
+    // Versi server bisa dari body 409 (ISO string) atau fetchServerVersion (Date)
+    const serverUpdatedAt = conflict.server.updatedAt;
+    const baseUpdatedAt =
+      serverUpdatedAt instanceof Date
+        ? serverUpdatedAt.toISOString()
+        : typeof serverUpdatedAt === 'string'
+          ? serverUpdatedAt
+          : undefined;
+
+    const pendingUpdate = await syncQueueRepository.findPending(
+      conflict.entity,
+      'UPDATE',
+      (data) => {
+        const payload = data as { kode?: string; id?: number };
+        return payload.kode === conflict.kode && payload.id === conflict.recordId;
+      }
+    );
+
+    // Edit yang dibuat setelah konflik terdeteksi lebih baru dari pilihan merge
+    const pendingChanges = Object.fromEntries(
+      Object.entries((pendingUpdate?.data ?? {}) as Record<string, unknown>).filter(
+        ([key]) => !['kode', 'id', 'baseUpdatedAt'].includes(key)
+      )
+    );
+    const mergedChanges = { ...changes, ...pendingChanges };
+    const hasLocalChanges = Object.keys(mergedChanges).length > 0;
+
+    const localChanges = hasLocalChanges
+      ? { ...toDBChanges(mergedChanges), localModifiedAt: new Date() }
+      : undefined;
+
+    if (conflict.entity === 'LANSIA') {
+      const serverRow = toLansiaDB(conflict.server);
+      await lansiaRepository.applyServerVersion(serverRow);
+
+      const local = await lansiaRepository.getByKode(serverRow.kode);
+      if (local && localChanges) {
+        await lansiaRepository.update(local.id, localChanges as Partial<LansiaDB>);
+      }
+    } else {
+      const serverRow = toPemeriksaanDB(conflict.server);
+      await pemeriksaanRepository.applyServerVersion(serverRow);
+
+      if (localChanges) {
+        await pemeriksaanRepository.update(serverRow.id, localChanges as Partial<PemeriksaanDB>);
+      }
+    }
+
+    const payload = {
+      kode: conflict.kode,
+      ...(conflict.recordId !== undefined && { id: conflict.recordId }),
+      ...mergedChanges,
+      baseUpdatedAt,
+    };
+
+    if (pendingUpdate?.id) {
+      await syncQueueRepository.updateData(pendingUpdate.id, payload);
+    } else if (hasLocalChanges) {
+      await syncQueueRepository.add({
+        entity: conflict.entity,
+        type: 'UPDATE',
+        data: payload,
+      });
+    }
+
+    await conflictRepository.delete(conflictId);
+
+    return { success: true, hasLocalChanges };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
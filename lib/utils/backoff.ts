@@ -0,0 +1,36 @@
+/**
+ * Backoff Utility
+ *
+ * Exponential backoff with jitter for retrying failed sync work.
+ * Jitter spreads retries from many devices so they don't hit the
+ * server at the same moment after an outage.
+ */
+
+import { SYNC_BACKOFF_BASE_MS, SYNC_BACKOFF_MAX_MS } from '@/lib/constants';
+
+/**
+ * Calculate backoff delay for the given attempt ("equal jitter")
+ *
+ * The exponential delay is capped at maxMs, then half of it is kept
+ * and the other half is randomized.
+ *
+ * @param attempt - Number of consecutive failures (1-based)
+ * @param baseMs - Delay for the first attempt
+ * @param maxMs - Upper bound for the delay
+ * @returns Delay in milliseconds
+ *
+ * @example
+ * getBackoffDelay(1) // 15_000 - 30_000
+ * getBackoffDelay(3) // 60_000 - 120_000
+ */
+export function getBackoffDelay(
+  attempt: number,
+  baseMs: number = SYNC_BACKOFF_BASE_MS,
+  maxMs: number = SYNC_BACKOFF_MAX_MS
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const delay = Math.min(maxMs, baseMs * 2 ** exponent);
+  const half = delay / 2;
+
+  return Math.round(half + Math.random() * half);
+}
@@ -31,11 +31,8 @@ export function filterLastMonths(
   const cutoffDate = subMonths(new Date(), months);
 
   return pemeriksaan
-    .filter((p) => {
-      const tanggal = new Date(p.tanggal);
-      return isAfter(tanggal, cutoffDate);
-    })
-    .sort((a, b) => new Date(a.tanggal).getTime() - new Date(b.tanggal).getTime());
+    .filter((p) => isAfter(p.tanggal, cutoffDate))
+    .sort((a, b) => a.tanggal.getTime() - b.tanggal.getTime());
 }
 
 /**
@@ -48,7 +45,7 @@ export function transformToBMIChartData(
   pemeriksaan: Pemeriksaan[]
 ): ChartDataPoint[] {
   return pemeriksaan.map((p) => ({
-    tanggal: p.tanggal instanceof Date ? p.tanggal.toISOString() : new Date(p.tanggal).toISOString(),
+    tanggal: p.tanggal.toISOString(),
     nilai: p.bmi || null,
     label: p.kategoriBmi,
   }));
@@ -69,7 +66,7 @@ export function transformToTekananDarahChartData(
   label?: string;
 }> {
   return pemeriksaan.map((p) => ({
-    tanggal: p.tanggal instanceof Date ? p.tanggal.toISOString() : new Date(p.tanggal).toISOString(),
+    tanggal: p.tanggal.toISOString(),
     sistolik: p.sistolik || null,
     diastolik: p.diastolik || null,
     label: p.tekananDarah,
@@ -94,7 +91,7 @@ export function transformToGulaDarahChartData(
   duaJpp: number | undefined;
 }> {
   return pemeriksaan.map((p) => ({
-    tanggal: p.tanggal instanceof Date ? p.tanggal.toISOString() : new Date(p.tanggal).toISOString(),
+    tanggal: p.tanggal.toISOString(),
     gdp: p.gulaPuasa ?? undefined,
     gds: p.gulaSewaktu ?? undefined,
     duaJpp: p.gula2Jpp ?? undefined,
@@ -64,6 +64,21 @@ export class NotFoundError extends AppError {
   }
 }
 
+/**
+ * Error untuk konflik versi (409/412)
+ * Server menolak write karena data sudah diubah sejak versi yang diedit.
+ * current berisi versi server terkini jika dikirim oleh backend.
+ */
+export class ConflictError extends AppError {
+  constructor(
+    message: string = 'Data sudah diubah di perangkat lain',
+    public current?: unknown
+  ) {
+    super(message, 409);
+    Object.setPrototypeOf(this, ConflictError.prototype);
+  }
+}
+
 /**
  * Error untuk timeout request
  */
@@ -94,6 +109,95 @@ export class NetworkError extends AppError {
   }
 }
 
+/**
+ * Response error mentah dari server sebelum dinormalisasi
+ * (lihat errorNormalizationInterceptor di lib/api/interceptors.ts)
+ */
+export class HTTPResponseError extends AppError {
+  constructor(
+    message: string,
+    statusCode: number,
+    public body: { error?: string; details?: unknown }
+  ) {
+    super(message, statusCode);
+    Object.setPrototypeOf(this, HTTPResponseError.prototype);
+  }
+}
+
+/**
+ * Error saat request dibatalkan oleh pemanggil (AbortSignal), mis. query
+ * pencarian yang sudah diganti ketikan baru. Bukan kegagalan, jangan ditampilkan.
+ */
+export class RequestCancelledError extends AppError {
+  constructor(message: string = 'Request dibatalkan') {
+    super(message, 499);
+    Object.setPrototypeOf(this, RequestCancelledError.prototype);
+  }
+}
+
+/**
+ * Error saat data lokal terenkripsi diakses tanpa key (belum login / sudah logout)
+ */
+export class EncryptionLockedError extends AppError {
+  constructor(message: string = 'Data lokal terkunci, silakan login kembali') {
+    super(message, 401);
+    Object.setPrototypeOf(this, EncryptionLockedError.prototype);
+  }
+}
+
+/**
+ * Error saat key data lokal tidak bisa dibuka dengan password login
+ * (mis. password diganti di perangkat lain). Data lokal tidak disentuh;
+ * user memilih memulihkan dengan password lama atau menghapus data lokal.
+ */
+export class LocalKeyMismatchError extends AppError {
+  constructor(
+    public pendingCount: number = 0,
+    message: string = 'Data lokal di perangkat ini terkunci dengan password lama'
+  ) {
+    super(message, 423);
+    Object.setPrototypeOf(this, LocalKeyMismatchError.prototype);
+  }
+}
+
+/**
+ * Error saat data lokal akan dihapus padahal masih ada data yang belum terkirim ke server
+ */
+export class UnsyncedDataError extends AppError {
+  constructor(
+    public pendingCount: number,
+    message: string = `Masih ada ${pendingCount} data yang belum tersinkron ke server`
+  ) {
+    super(message, 409);
+    Object.setPrototypeOf(this, UnsyncedDataError.prototype);
+  }
+}
+
+/**
+ * Error saat penyimpanan perangkat penuh dan data lokal tidak bisa ditulis
+ */
+export class StorageQuotaError extends AppError {
+  constructor(
+    message: string = 'Penyimpanan perangkat penuh. Sinkronkan data lalu hapus data lama atau kosongkan ruang penyimpanan.'
+  ) {
+    super(message, 507);
+    Object.setPrototypeOf(this, StorageQuotaError.prototype);
+  }
+}
+
+/**
+ * Cek apakah error berarti server tidak bisa dijangkau atau sedang bermasalah
+ * (network, timeout, 5xx), sehingga data lokal boleh dipakai sebagai fallback.
+ * Error lain (401/403, validasi response, dll.) harus diteruskan ke pemanggil.
+ */
+export function isServerUnavailableError(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+
+  return error instanceof AppError && error.statusCode >= 500;
+}
+
 /**
  * Handler untuk mengkonversi unknown error menjadi user-friendly message
  */
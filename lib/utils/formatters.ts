@@ -77,6 +77,29 @@ export function formatNumber(num: number, decimals: number = 0): string {
   });
 }
 
+/**
+ * Format ukuran data (bytes) menjadi satuan yang mudah dibaca
+ *
+ * @param bytes - Ukuran dalam bytes
+ * @returns Formatted size string
+ *
+ * @example
+ * formatBytes(1536000);
+ * // Output: "1,5 MB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  return `${formatNumber(value, unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
 /**
  * Format BMI dengan 2 desimal
  *
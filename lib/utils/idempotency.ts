@@ -0,0 +1,32 @@
+/**
+ * Idempotency Key Utility
+ *
+ * File ini berisi fungsi untuk generate idempotency key per operasi sync.
+ * Key yang sama dikirim ulang setiap kali operasi di-retry, sehingga server
+ * bisa mengenali request duplikat (mis. setelah timeout padahal data sudah tersimpan).
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle pembuatan key
+ * - KISS: Implementasi sederhana dan straightforward
+ */
+
+/**
+ * Generate idempotency key (UUID v4)
+ *
+ * crypto.randomUUID hanya tersedia di secure context (HTTPS/localhost),
+ * jadi di luar itu UUID disusun dari crypto.getRandomValues.
+ *
+ * @returns UUID v4 string
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // variant 10xx
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -71,6 +71,7 @@ export {
   formatDateShort,
   formatDateTime,
   formatNumber,
+  formatBytes,
   formatBMI,
   formatTekananDarah,
   formatLabValue,
@@ -95,10 +96,18 @@ export {
   AuthenticationError,
   AuthorizationError,
   NotFoundError,
+  ConflictError,
   TimeoutError,
   ServerError,
   NetworkError,
+  RequestCancelledError,
+  HTTPResponseError,
+  EncryptionLockedError,
+  LocalKeyMismatchError,
+  UnsyncedDataError,
+  StorageQuotaError,
   handleAPIError,
+  isServerUnavailableError,
 } from './errors';
 
 // Cookies
@@ -106,13 +115,36 @@ export { setCookie, getCookie, removeCookie, hasCookie } from './cookies';
 export type { CookieOptions } from './cookies';
 
 // Token Storage
-export { getToken, setToken, removeToken, hasToken } from './tokenStorage';
+export {
+  getToken,
+  setToken,
+  removeToken,
+  hasToken,
+  getRefreshToken,
+  setRefreshToken,
+  removeRefreshToken,
+} from './tokenStorage';
 
 // Route Guards
-export { isPublicRoute, isStaticAsset, hasAccess, getDashboardUrl, requiresAuth } from './routeGuards';
+export {
+  isPublicRoute,
+  isStaticAsset,
+  hasAccess,
+  getDashboardUrl,
+  getSafeRedirectUrl,
+  requiresAuth,
+} from './routeGuards';
 
 // Sync Manager
 export { syncManager, SyncManager } from './syncManager';
+export type { SyncRunResult, SyncProgress } from './syncManager';
+export { syncScheduler, SyncScheduler } from './syncScheduler';
+export type { SyncSchedulerState, SyncSchedulerStatus } from './syncScheduler';
+export { getBackoffDelay } from './backoff';
+export { syncChannel, SyncChannel } from './syncChannel';
+export type { SyncChannelMessage } from './syncChannel';
+export { runExclusive, holdLock } from './tabLock';
+export type { ExclusiveResult } from './tabLock';
 
 // Fail Fast Utilities
 export {
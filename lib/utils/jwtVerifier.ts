@@ -0,0 +1,245 @@
+/**
+ * JWT Verifier
+ *
+ * File ini berisi verifikasi token akses (signature + claim), bukan hanya decode.
+ * Dipakai bersama oleh middleware (edge runtime) dan AuthContext (browser),
+ * sehingga cookie `auth_token` buatan sendiri (mis. role ADMIN) ditolak.
+ *
+ * Key verifikasi dari environment:
+ * - NEXT_PUBLIC_JWT_PUBLIC_KEY: public key PEM (SPKI), atau
+ * - NEXT_PUBLIC_JWT_JWKS_URL: JWKS backend (mendukung rotasi key via `kid`)
+ * Tanpa keduanya semua token ditolak (fail closed).
+ *
+ * Di browser JWKS disimpan di localStorage supaya token tetap bisa
+ * diverifikasi saat offline; key baru (kid tidak dikenal) memicu fetch ulang.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle verifikasi token (decode tanpa verifikasi tetap di jwt-decode
+ *   untuk jadwal refresh, bukan untuk keputusan akses)
+ * - Security: Signature, algoritma, exp/nbf dengan toleransi jam, issuer, audience
+ * - Edge-compatible: Hanya WebCrypto (jose), tanpa API Node.js
+ */
+
+import {
+  createRemoteJWKSet,
+  errors,
+  importSPKI,
+  jwksCache,
+  jwtVerify,
+  type ExportedJWKSCache,
+  type JWTVerifyGetKey,
+  type JWTVerifyOptions,
+} from 'jose';
+import type { UserRole } from '@/types';
+import { JWT_CLOCK_TOLERANCE_SECONDS } from '@/lib/constants';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Claim token akses dari backend
+ */
+export interface AuthTokenPayload {
+  id: number;
+  email: string;
+  nama: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Alasan token ditolak
+ * - invalid: signature/format/claim salah (token harus dibuang)
+ * - expired: token kedaluwarsa (bisa di-refresh)
+ * - unavailable: key verifikasi tidak tersedia (konfigurasi atau JWKS tidak bisa diambil)
+ */
+export type TokenVerificationFailure = 'invalid' | 'expired' | 'unavailable';
+
+/**
+ * Hasil verifikasi token
+ */
+export type TokenVerificationResult =
+  | { ok: true; payload: AuthTokenPayload }
+  | { ok: false; reason: TokenVerificationFailure; error: string };
+
+// ============================================
+// Configuration
+// ============================================
+
+const PUBLIC_KEY = process.env.NEXT_PUBLIC_JWT_PUBLIC_KEY;
+const JWKS_URL = process.env.NEXT_PUBLIC_JWT_JWKS_URL;
+const ALGORITHMS = (process.env.NEXT_PUBLIC_JWT_ALGORITHMS || 'RS256')
+  .split(',')
+  .map((alg) => alg.trim())
+  .filter(Boolean);
+const ISSUER = process.env.NEXT_PUBLIC_JWT_ISSUER || undefined;
+const AUDIENCE = process.env.NEXT_PUBLIC_JWT_AUDIENCE || undefined;
+
+/**
+ * Key localStorage untuk cache JWKS (browser saja)
+ */
+const JWKS_CACHE_KEY = 'auth_jwks_cache';
+
+const ROLES: readonly UserRole[] = ['ADMIN', 'PETUGAS'];
+
+// ============================================
+// Key Resolution
+// ============================================
+
+let keyResolver: Promise<JWTVerifyGetKey> | null = null;
+
+/**
+ * Baca cache JWKS dari localStorage
+ *
+ * @private
+ */
+function loadJwksCache(): ExportedJWKSCache | Record<string, never> {
+  try {
+    const raw = localStorage.getItem(JWKS_CACHE_KEY);
+    return raw ? (JSON.parse(raw) as ExportedJWKSCache) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Buat resolver key dari konfigurasi (sekali per runtime)
+ *
+ * @private
+ * @throws Error jika key tidak dikonfigurasi atau PEM tidak valid
+ */
+async function createKeyResolver(): Promise<JWTVerifyGetKey> {
+  if (PUBLIC_KEY) {
+    // Env var satu baris: baris baru PEM ditulis sebagai \n
+    const key = await importSPKI(PUBLIC_KEY.replace(/\\n/g, '\n'), ALGORITHMS[0]);
+    return () => key;
+  }
+
+  if (JWKS_URL) {
+    if (typeof window === 'undefined') {
+      return createRemoteJWKSet(new URL(JWKS_URL));
+    }
+
+    const cache = loadJwksCache();
+    const remote = createRemoteJWKSet(new URL(JWKS_URL), {
+      // Key lama tetap dipakai saat offline; kid baru tetap memicu fetch
+      cacheMaxAge: Infinity,
+      [jwksCache]: cache,
+    });
+
+    return async (header, token) => {
+      const key = await remote(header, token);
+      if ('jwks' in cache) {
+        try {
+          localStorage.setItem(JWKS_CACHE_KEY, JSON.stringify(cache));
+        } catch {
+          // Cache hanya optimasi offline
+        }
+      }
+      return key;
+    };
+  }
+
+  throw new Error('NEXT_PUBLIC_JWT_PUBLIC_KEY atau NEXT_PUBLIC_JWT_JWKS_URL belum dikonfigurasi');
+}
+
+/**
+ * @private
+ */
+function getKeyResolver(): Promise<JWTVerifyGetKey> {
+  if (!keyResolver) {
+    keyResolver = createKeyResolver().catch((error) => {
+      // Jangan cache kegagalan (mis. PEM salah) supaya bisa dicoba lagi
+      keyResolver = null;
+      throw error;
+    });
+  }
+  return keyResolver;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Cek bentuk claim yang dipakai aplikasi
+ *
+ * @private
+ */
+function isAuthTokenPayload(
+  payload: Record<string, unknown>
+): payload is Record<string, unknown> & AuthTokenPayload {
+  return (
+    typeof payload.id === 'number' &&
+    typeof payload.email === 'string' &&
+    typeof payload.nama === 'string' &&
+    ROLES.includes(payload.role as UserRole) &&
+    typeof payload.exp === 'number'
+  );
+}
+
+/**
+ * Klasifikasikan error dari jose
+ *
+ * @private
+ */
+function toFailure(error: unknown): Extract<TokenVerificationResult, { ok: false }> {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof errors.JWTExpired) {
+    return { ok: false, reason: 'expired', error: message };
+  }
+  if (
+    !(error instanceof errors.JOSEError) ||
+    error.code === 'ERR_JOSE_GENERIC' ||
+    error instanceof errors.JWKSTimeout ||
+    error instanceof errors.JWKSInvalid
+  ) {
+    // Fetch JWKS gagal (offline, timeout, bukan 200) atau konfigurasi key bermasalah
+    return { ok: false, reason: 'unavailable', error: message };
+  }
+  return { ok: false, reason: 'invalid', error: message };
+}
+
+// ============================================
+// Verify
+// ============================================
+
+/**
+ * Verifikasi signature dan claim token akses
+ *
+ * @param token - JWT dari cookie/localStorage
+ * @returns Payload jika valid, atau alasan penolakan
+ */
+export async function verifyAuthToken(token: string): Promise<TokenVerificationResult> {
+  try {
+    const options: JWTVerifyOptions = {
+      algorithms: ALGORITHMS,
+      clockTolerance: JWT_CLOCK_TOLERANCE_SECONDS,
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      requiredClaims: ['exp'],
+    };
+    const { payload } = await jwtVerify(token, await getKeyResolver(), options);
+
+    if (!isAuthTokenPayload(payload)) {
+      return { ok: false, reason: 'invalid', error: 'Claim token tidak lengkap' };
+    }
+
+    return {
+      ok: true,
+      payload: {
+        id: payload.id,
+        email: payload.email,
+        nama: payload.nama,
+        role: payload.role,
+        iat: payload.iat ?? 0,
+        exp: payload.exp,
+      },
+    };
+  } catch (error) {
+    return toFailure(error);
+  }
+}
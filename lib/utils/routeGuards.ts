@@ -79,6 +79,51 @@ export function getDashboardUrl(role: UserRole): string {
   return role === 'ADMIN' ? '/admin/dashboard' : '/petugas/dashboard';
 }
 
+/**
+ * Resolve tujuan redirect setelah login (parameter ?redirect= dari middleware)
+ *
+ * Hanya path internal yang boleh diakses role tersebut yang diterima, supaya
+ * parameter ini tidak bisa dipakai sebagai open redirect
+ * (mis. `//evil.com` atau `https://evil.com`).
+ *
+ * @param redirect - Nilai parameter redirect (boleh null)
+ * @param role - User role
+ * @returns Path tujuan (termasuk query/hash), atau dashboard role jika tidak valid
+ */
+export function getSafeRedirectUrl(redirect: string | null | undefined, role: UserRole): string {
+  const fallback = getDashboardUrl(role);
+
+  // Hanya path relatif; `//host` dan backslash ditafsirkan browser sebagai host lain
+  if (
+    !redirect ||
+    !redirect.startsWith('/') ||
+    redirect.startsWith('//') ||
+    redirect.includes('\\')
+  ) {
+    return fallback;
+  }
+
+  let url: URL;
+  try {
+    // Base hanya untuk parsing; origin hasil parse harus tetap sama
+    url = new URL(redirect, 'http://localhost');
+  } catch {
+    return fallback;
+  }
+
+  if (
+    url.origin !== 'http://localhost' ||
+    url.pathname === '/' ||
+    isPublicRoute(url.pathname) ||
+    isStaticAsset(url.pathname) ||
+    !hasAccess(url.pathname, role)
+  ) {
+    return fallback;
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
 /**
  * Check if route requires authentication
  *
@@ -0,0 +1,85 @@
+/**
+ * Sync Channel
+ *
+ * Class untuk mengirim event sinkronisasi antar tab browser (BroadcastChannel).
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle transport event antar tab, bukan logic sync
+ * - Observer: SyncManager subscribe ke event dari tab lain
+ * - Graceful Degradation: No-op jika BroadcastChannel tidak tersedia (SSR/browser lama)
+ *
+ * Event tidak dikirim balik ke tab pengirim (perilaku BroadcastChannel),
+ * jadi tab pengirim memproses event-nya sendiri secara langsung.
+ */
+
+import type { SyncProgress, SyncRunResult } from './syncManager';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Pesan yang dikirim antar tab
+ */
+export type SyncChannelMessage =
+  | { type: 'progress'; progress: SyncProgress }
+  | { type: 'completed'; result: SyncRunResult };
+
+type SyncChannelListener = (message: SyncChannelMessage) => void;
+
+const CHANNEL_NAME = 'posyandu-sync';
+
+// ============================================
+// Sync Channel Class
+// ============================================
+
+export class SyncChannel {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<SyncChannelListener>();
+
+  /**
+   * Kirim pesan ke tab lain
+   */
+  post(message: SyncChannelMessage): void {
+    this.getChannel()?.postMessage(message);
+  }
+
+  /**
+   * Subscribe ke pesan dari tab lain
+   *
+   * @returns Function untuk unsubscribe
+   */
+  subscribe(listener: SyncChannelListener): () => void {
+    this.getChannel();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Buka BroadcastChannel saat pertama kali dibutuhkan (bukan saat import,
+   * supaya aman di-import di server)
+   *
+   * @private
+   */
+  private getChannel(): BroadcastChannel | null {
+    if (this.channel || typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+      return this.channel;
+    }
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<SyncChannelMessage>) => {
+      this.listeners.forEach((listener) => listener(event.data));
+    };
+    return this.channel;
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/**
+ * Singleton instance of SyncChannel
+ */
+export const syncChannel = new SyncChannel();
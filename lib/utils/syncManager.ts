@@ -8,12 +8,134 @@
  * - Error Handling: Graceful degradation dengan retry mechanism
  */
 
-import { syncQueueRepository, lansiaRepository } from '@/lib/db';
-// import { pemeriksaanRepository } from '@/lib/db'; // TODO: Will be used when pemeriksaan sync is implemented
+import {
+  syncQueueRepository,
+  deadLetterRepository,
+  conflictRepository,
+  idRemapRepository,
+  lansiaRepository,
+  pemeriksaanRepository,
+  storageManager,
+} from '@/lib/db';
 import { lansiaAPI, pemeriksaanAPI } from '@/lib/api';
-import { SYNC_MAX_RETRIES } from '@/lib/constants';
-import type { SyncQueueDB } from '@/lib/db/schema';
-import type { CreateLansiaData, PemeriksaanGabunganData } from '@/types';
+import {
+  SYNC_MAX_RETRIES,
+  SYNC_PAGE_SIZE,
+  PEMERIKSAAN_PULL_INTERVAL_MS,
+} from '@/lib/constants';
+import { AppError, ConflictError, NotFoundError, handleAPIError } from './errors';
+import { getBackoffDelay } from './backoff';
+import { syncChannel, type SyncChannelMessage } from './syncChannel';
+import { runExclusive } from './tabLock';
+import { createConflict } from '@/lib/services/syncConflictService';
+import type {
+  LansiaDB,
+  PemeriksaanDB,
+  SyncQueueDB,
+  DeadLetterDB,
+  LansiaCreatePayload,
+  LansiaUpdatePayload,
+  LansiaDeletePayload,
+  PemeriksaanCreatePayload,
+  PemeriksaanUpdatePayload,
+  PemeriksaanDeletePayload,
+} from '@/lib/db/schema';
+import type { APIResponse, Lansia, Pemeriksaan } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+/**
+ * Field payload UPDATE yang bukan nilai data (tidak ditampilkan di konflik)
+ */
+const UPDATE_META_KEYS = ['kode', 'id', 'baseUpdatedAt'];
+
+/**
+ * Status 4xx yang masih bisa berhasil jika dicoba lagi: 401 (sesi diperbarui
+ * lewat token refresh/login ulang), 408 (timeout), 409 (konflik), 429 (rate limit)
+ */
+const RETRYABLE_CLIENT_STATUSES = new Set([401, 408, 409, 429]);
+
+/**
+ * Cek apakah error permanen (4xx selain RETRYABLE_CLIENT_STATUSES):
+ * payload yang sama akan selalu ditolak, jadi retry tidak ada gunanya
+ */
+function isPermanentFailure(status?: number): boolean {
+  return (
+    status !== undefined &&
+    status >= 400 &&
+    status < 500 &&
+    !RETRYABLE_CLIENT_STATUSES.has(status)
+  );
+}
+
+/**
+ * Key localStorage untuk waktu sync terakhir yang berhasil
+ */
+const LAST_SYNC_KEY = 'sync_last_success_at';
+
+/**
+ * Nama Web Lock untuk satu proses sync di semua tab
+ */
+const SYNC_LOCK_NAME = 'posyandu-sync';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Hasil satu kali syncAll
+ *
+ * - completed: queue diproses dan data server berhasil di-pull
+ *   (item yang gagal dijadwalkan ulang sendiri, lihat failedItems)
+ * - failed: sync berhenti karena error (misalnya server tidak bisa dihubungi)
+ * - skipped: sync lain sedang berjalan atau browser offline
+ */
+export interface SyncRunResult {
+  status: 'completed' | 'failed' | 'skipped';
+  failedItems: number;
+  error?: string;
+}
+
+/**
+ * Snapshot progress sync untuk ditampilkan di UI
+ */
+export interface SyncProgress {
+  isSyncing: boolean;
+  /**
+   * Item queue yang sedang dikirim ke server
+   */
+  activeItem: SyncQueueDB | null;
+  /**
+   * Waktu syncAll terakhir yang selesai tanpa error (persist di localStorage)
+   */
+  lastSyncAt: Date | null;
+}
+
+type SyncProgressListener = (progress: SyncProgress) => void;
+type SyncCompletedListener = (result: SyncRunResult) => void;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Baca waktu sync terakhir dari localStorage (null di server/SSR)
+ */
+function readLastSyncAt(): Date | null {
+  if (typeof window === 'undefined') return null;
+  const value = localStorage.getItem(LAST_SYNC_KEY);
+  return value ? new Date(value) : null;
+}
+
+/**
+ * Simpan waktu sync terakhir ke localStorage
+ */
+function writeLastSyncAt(date: Date): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(LAST_SYNC_KEY, date.toISOString());
+}
 
 // ============================================
 // Sync Manager Class
@@ -22,97 +144,391 @@ import type { CreateLansiaData, PemeriksaanGabunganData } from '@/types';
 export class SyncManager {
   private isSyncing: boolean = false;
   private readonly MAX_RETRIES = SYNC_MAX_RETRIES;
+  private progress: SyncProgress = {
+    isSyncing: false,
+    activeItem: null,
+    lastSyncAt: readLastSyncAt(),
+  };
+  private progressListeners = new Set<SyncProgressListener>();
+  private completedListeners = new Set<SyncCompletedListener>();
+  private isChannelConnected = false;
 
   /**
    * Sync semua data dari queue ke server dan fetch latest data
    *
    * Flow:
    * 1. Check jika sudah syncing atau offline -> skip
-   * 2. Process semua items di sync queue
-   * 3. Sync data terbaru dari server ke IndexedDB
+   * 2. Ambil lock antar tab; jika tab lain sedang sync -> skip
+   *    (mencegah dua tab mengirim item queue yang sama)
+   * 3. Process items di sync queue yang sudah waktunya (lewat masa backoff)
+   * 4. Sync data terbaru dari server ke IndexedDB
+   * 5. Beri tahu listener di tab ini dan tab lain bahwa sync selesai
    *
-   * @returns Promise<void>
+   * @returns Hasil sync (tidak pernah throw)
    */
-  async syncAll(): Promise<void> {
+  async syncAll(): Promise<SyncRunResult> {
     // Prevent concurrent sync
     if (this.isSyncing) {
       console.log('[SyncManager] Sync already in progress, skipping...');
-      return;
+      return { status: 'skipped', failedItems: 0 };
     }
 
     // Check online status
     if (!navigator.onLine) {
       console.log('[SyncManager] Offline, skipping sync...');
-      return;
+      return { status: 'skipped', failedItems: 0 };
     }
 
     this.isSyncing = true;
+
+    try {
+      const run = await runExclusive(SYNC_LOCK_NAME, () => this.runSync());
+
+      if (!run.acquired) {
+        console.log('[SyncManager] Sync running in another tab, skipping...');
+        return { status: 'skipped', failedItems: 0 };
+      }
+
+      this.notifyCompleted(run.value);
+      return run.value;
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  /**
+   * Jalankan satu proses sync (dipanggil saat lock antar tab sudah dipegang)
+   *
+   * @private
+   */
+  private async runSync(): Promise<SyncRunResult> {
+    this.setProgress({ isSyncing: true });
     console.log('[SyncManager] Starting sync...');
 
     try {
       // Step 1: Process sync queue
-      await this.processSyncQueue();
+      const failedItems = await this.processSyncQueue();
 
       // Step 2: Sync from server
       await this.syncFromServer();
 
+      // Step 3: Jaga kuota penyimpanan (eviction riwayat lama yang sudah tersinkron)
+      await storageManager.runMaintenance();
+
+      const lastSyncAt = new Date();
+      writeLastSyncAt(lastSyncAt);
+      this.setProgress({ lastSyncAt });
+
       console.log('[SyncManager] Sync completed successfully');
+      return { status: 'completed', failedItems };
     } catch (error) {
       console.error('[SyncManager] Sync failed:', error);
       // Don't throw - graceful degradation
+      return { status: 'failed', failedItems: 0, error: handleAPIError(error) };
     } finally {
-      this.isSyncing = false;
+      this.setProgress({ isSyncing: false, activeItem: null });
     }
   }
 
   /**
-   * Process semua items di sync queue
+   * Sync satu item sekarang, tanpa menunggu masa backoff-nya habis
+   *
+   * Item tetap diproses lewat syncAll supaya urutan dan dependency terjaga:
+   * item yang menunggu CREATE lansia atau item sebelumnya tetap ditahan.
+   *
+   * @param id - Sync queue item ID
+   */
+  async syncItem(id: number): Promise<SyncRunResult> {
+    await syncQueueRepository.update(id, { nextAttemptAt: undefined });
+    return await this.syncAll();
+  }
+
+  /**
+   * Get snapshot progress saat ini (referensi stabil sampai progress berubah)
+   */
+  getProgress(): SyncProgress {
+    return this.progress;
+  }
+
+  /**
+   * Subscribe ke perubahan progress sync (termasuk sync yang berjalan di tab lain)
+   *
+   * @returns Function untuk unsubscribe
+   */
+  subscribe(listener: SyncProgressListener): () => void {
+    this.connectChannel();
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe ke event sync selesai (di tab ini maupun tab lain)
+   *
+   * Dipakai untuk me-refresh cache dan view yang membaca IndexedDB.
+   * Tidak dipanggil untuk sync yang di-skip.
+   *
+   * @returns Function untuk unsubscribe
+   */
+  onSyncCompleted(listener: SyncCompletedListener): () => void {
+    this.connectChannel();
+    this.completedListeners.add(listener);
+    return () => {
+      this.completedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Process items di sync queue sesuai urutan dan dependency
+   *
+   * Item ditahan (tidak dikirim dan retry count tidak bertambah) jika:
+   * - dependsOn menunjuk ke lansia yang CREATE-nya belum terkirim
+   * - item sebelumnya untuk record yang sama gagal, menunggu, atau masih backoff
+   * - item masih dalam masa backoff (nextAttemptAt di masa depan)
    *
    * @private
+   * @returns Jumlah item yang gagal pada run ini
    */
-  private async processSyncQueue(): Promise<void> {
+  private async processSyncQueue(): Promise<number> {
     try {
       const queue = await syncQueueRepository.getAll();
 
       if (queue.length === 0) {
         console.log('[SyncManager] Queue is empty');
-        return;
+        return 0;
       }
 
       console.log(`[SyncManager] Processing ${queue.length} items in queue...`);
 
-      for (const item of queue) {
+      const now = new Date();
+      const pendingLansia = await this.getPendingLansiaKodes(queue);
+      const heldRecords = new Set<string>();
+      let failedItems = 0;
+
+      for (const queued of queue) {
+        // Baca ulang: kode/ID bisa sudah di-remap oleh item sebelumnya
+        const item = queued.id ? await syncQueueRepository.getById(queued.id) : undefined;
+        if (!item?.id) {
+          continue;
+        }
+
+        const recordKey = this.getRecordKey(item);
+
+        if (item.dependsOn && pendingLansia.has(item.dependsOn)) {
+          console.log(`[SyncManager] Item ${item.id} waiting for lansia ${item.dependsOn}`);
+          heldRecords.add(recordKey);
+          continue;
+        }
+
+        if (heldRecords.has(recordKey)) {
+          console.log(`[SyncManager] Item ${item.id} held until earlier item succeeds`);
+          continue;
+        }
+
+        if (item.nextAttemptAt && item.nextAttemptAt > now) {
+          heldRecords.add(recordKey);
+          continue;
+        }
+
         try {
+          this.setProgress({ activeItem: item });
           await this.processQueueItem(item);
 
           // Success - remove from queue
-          if (item.id) {
-            await syncQueueRepository.delete(item.id);
-            console.log(`[SyncManager] Item ${item.id} synced successfully`);
+          await syncQueueRepository.delete(item.id);
+          console.log(`[SyncManager] Item ${item.id} synced successfully`);
+
+          if (item.entity === 'LANSIA' && item.type === 'CREATE') {
+            const { localKode } = item.data as LansiaCreatePayload;
+            if (localKode) {
+              pendingLansia.delete(localKode);
+            }
           }
         } catch (error) {
-          console.error(`[SyncManager] Failed to process item ${item.id}:`, error);
+          heldRecords.add(recordKey);
 
-          // Increment retry count
-          if (item.id) {
-            await syncQueueRepository.incrementRetryCount(item.id);
-
-            // Remove if exceeded max retries
-            if (item.retryCount >= this.MAX_RETRIES) {
-              await syncQueueRepository.delete(item.id);
-              console.warn(
-                `[SyncManager] Item ${item.id} exceeded max retries, removing from queue`
-              );
-            }
+          if (error instanceof ConflictError && (await this.recordConflict(item.id, item, error))) {
+            continue;
           }
+
+          console.error(`[SyncManager] Failed to process item ${item.id}:`, error);
+          failedItems++;
+
+          await this.handleFailedItem(item.id, item, error);
         }
       }
+
+      return failedItems;
     } catch (error) {
       console.error('[SyncManager] Error processing sync queue:', error);
       throw error;
     }
   }
 
+  /**
+   * Kode lokal lansia yang CREATE-nya belum terkirim
+   * (masih di queue atau tertahan di dead-letter queue)
+   *
+   * @private
+   */
+  private async getPendingLansiaKodes(queue: SyncQueueDB[]): Promise<Set<string>> {
+    const deadLetters = await deadLetterRepository.getAll();
+    const items: Array<SyncQueueDB | DeadLetterDB> = [...queue, ...deadLetters];
+
+    return new Set(
+      items
+        .filter((item) => item.entity === 'LANSIA' && item.type === 'CREATE')
+        .map((item) => (item.data as LansiaCreatePayload).localKode)
+        .filter((kode): kode is string => !!kode)
+    );
+  }
+
+  /**
+   * Key record yang diubah item, untuk menjaga urutan operasi pada record yang sama
+   *
+   * @private
+   */
+  private getRecordKey(item: SyncQueueDB | DeadLetterDB): string {
+    if (item.entity === 'LANSIA') {
+      const data = item.data as Partial<LansiaCreatePayload> & { kode?: string };
+      return `LANSIA:${data.localKode ?? data.kode ?? data.nik}`;
+    }
+
+    const data = item.data as { localId?: number; id?: number };
+    return `PEMERIKSAAN:${data.localId ?? data.id ?? item.id}`;
+  }
+
+  /**
+   * Catat kegagalan item dan jadwalkan retry dengan exponential backoff,
+   * atau pindahkan ke dead-letter queue jika sudah mencapai batas retry
+   * atau ditolak permanen oleh server (tidak pernah dihapus diam-diam)
+   *
+   * @private
+   */
+  private async handleFailedItem(
+    id: number,
+    item: SyncQueueDB,
+    error: unknown
+  ): Promise<void> {
+    const message = handleAPIError(error);
+    const status = error instanceof AppError ? error.statusCode : undefined;
+
+    const retryCount = await syncQueueRepository.recordFailure(
+      id,
+      message,
+      status,
+      (count) => new Date(Date.now() + getBackoffDelay(count))
+    );
+
+    if (isPermanentFailure(status)) {
+      await deadLetterRepository.moveFromQueue({ ...item, retryCount }, { message, status });
+      console.warn(
+        `[SyncManager] Item ${id} rejected with status ${status}, moved to dead-letter queue`
+      );
+    } else if (retryCount >= this.MAX_RETRIES) {
+      await deadLetterRepository.moveFromQueue({ ...item, retryCount }, { message, status });
+      console.warn(
+        `[SyncManager] Item ${id} exceeded max retries, moved to dead-letter queue`
+      );
+    }
+  }
+
+  /**
+   * Ubah UPDATE yang ditolak server (409/412) menjadi record konflik
+   *
+   * Item tidak di-retry: konflik harus diselesaikan petugas lewat merge UI.
+   *
+   * @private
+   * @returns false jika versi server tidak bisa didapat (diperlakukan sebagai gagal biasa)
+   */
+  private async recordConflict(
+    id: number,
+    item: SyncQueueDB,
+    error: ConflictError
+  ): Promise<boolean> {
+    const data = item.data as { kode: string; id?: number } & Record<string, unknown>;
+    const local = Object.fromEntries(
+      Object.entries(data).filter(([key]) => !UPDATE_META_KEYS.includes(key))
+    );
+
+    const recorded = await createConflict({
+      entity: item.entity,
+      kode: data.kode,
+      recordId: data.id,
+      local,
+      current: error.current,
+      queueId: id,
+    });
+
+    if (recorded) {
+      console.warn(`[SyncManager] Item ${id} conflicts with server version, needs manual merge`);
+    }
+    return recorded;
+  }
+
+  /**
+   * Kirim ulang item dari dead-letter queue
+   *
+   * Item dikembalikan ke sync queue (retry count direset) lalu sync dijalankan.
+   *
+   * @param id - Dead-letter item ID
+   */
+  async retryDeadLetter(id: number): Promise<SyncRunResult> {
+    await deadLetterRepository.requeue(id);
+    return await this.syncAll();
+  }
+
+  /**
+   * Buang item dari dead-letter queue secara permanen
+   *
+   * Untuk UPDATE yang dibuang, penanda edit offline (localModifiedAt) dihapus
+   * selama tidak ada UPDATE/konflik lain untuk record yang sama, supaya pull
+   * berikutnya mengembalikan versi server (lihat shouldKeepLocal).
+   *
+   * @param id - Dead-letter item ID
+   */
+  async discardDeadLetter(id: number): Promise<void> {
+    const item = await deadLetterRepository.getById(id);
+    await deadLetterRepository.delete(id);
+
+    if (item?.type !== 'UPDATE') {
+      return;
+    }
+
+    const recordKey = this.getRecordKey(item);
+    const [queue, deadLetters, conflicts] = await Promise.all([
+      syncQueueRepository.getAll(),
+      deadLetterRepository.getAll(),
+      conflictRepository.getAll(),
+    ]);
+    const stillPending =
+      [...queue, ...deadLetters].some(
+        (other) => other.type === 'UPDATE' && this.getRecordKey(other) === recordKey
+      ) ||
+      conflicts.some((conflict) => {
+        const conflictRecord = conflict.entity === 'LANSIA' ? conflict.kode : conflict.recordId;
+        return `${conflict.entity}:${conflictRecord}` === recordKey;
+      });
+
+    if (stillPending) {
+      return;
+    }
+
+    if (item.entity === 'LANSIA') {
+      const local = await lansiaRepository.getByKode((item.data as LansiaUpdatePayload).kode);
+      if (local?.localModifiedAt) {
+        await lansiaRepository.update(local.id, { localModifiedAt: undefined });
+      }
+    } else {
+      const { id: recordId } = item.data as PemeriksaanUpdatePayload;
+      const local = await pemeriksaanRepository.getById(recordId);
+      if (local?.localModifiedAt) {
+        await pemeriksaanRepository.update(recordId, { localModifiedAt: undefined });
+      }
+    }
+  }
+
   /**
    * Process individual queue item
    *
@@ -141,17 +557,57 @@ export class SyncManager {
    * @param item - Lansia queue item
    */
   private async processLansiaItem(item: SyncQueueDB): Promise<void> {
-    if (item.type === 'CREATE') {
-      const data = item.data as CreateLansiaData;
-      const response = await lansiaAPI.create(data);
+    switch (item.type) {
+      case 'CREATE': {
+        const { localKode, ...data } = item.data as LansiaCreatePayload;
+        const response = await lansiaAPI.create(data, {
+          idempotencyKey: item.idempotencyKey,
+        });
+
+        if (!response.data) {
+          throw new Error(response.error || 'Failed to create lansia');
+        }
+
+        // Ganti kode/ID temporary dengan kode/ID dari server di semua table
+        const serverLansia = this.toLansiaDB(response.data, new Date());
+        const tempKode = localKode ?? (await lansiaRepository.getByNik(data.nik))?.kode;
+
+        if (tempKode) {
+          await idRemapRepository.remapLansia(tempKode, serverLansia);
+        } else {
+          await lansiaRepository.bulkUpsert([serverLansia]);
+        }
 
-      if (!response.data) {
-        throw new Error(response.error || 'Failed to create lansia');
+        console.log(`[SyncManager] Lansia created: ${response.data.kode}`);
+        break;
       }
 
-      console.log(`[SyncManager] Lansia created: ${response.data.kode}`);
+      case 'UPDATE': {
+        const { kode, baseUpdatedAt, ...changes } = item.data as LansiaUpdatePayload;
+        const response = await lansiaAPI.update(kode, changes, {
+          idempotencyKey: item.idempotencyKey,
+          ifMatch: baseUpdatedAt,
+        });
+
+        if (!response.data) {
+          throw new Error(response.error || 'Failed to update lansia');
+        }
+
+        await lansiaRepository.applyServerVersion(this.toLansiaDB(response.data, new Date()));
+        console.log(`[SyncManager] Lansia updated: ${kode}`);
+        break;
+      }
+
+      case 'DELETE': {
+        const { kode } = item.data as LansiaDeletePayload;
+        await this.ignoreNotFound(() =>
+          lansiaAPI.delete(kode, { idempotencyKey: item.idempotencyKey })
+        );
+
+        console.log(`[SyncManager] Lansia deleted: ${kode}`);
+        break;
+      }
     }
-    // TODO: Handle UPDATE and DELETE when needed
   }
 
   /**
@@ -161,57 +617,312 @@ export class SyncManager {
    * @param item - Pemeriksaan queue item
    */
   private async processPemeriksaanItem(item: SyncQueueDB): Promise<void> {
-    if (item.type === 'CREATE') {
-      const data = item.data as PemeriksaanGabunganData & { kode: string };
-      const { kode, ...pemeriksaanData } = data;
+    switch (item.type) {
+      case 'CREATE': {
+        const { kode, localId, ...pemeriksaanData } = item.data as PemeriksaanCreatePayload;
+        const response = await pemeriksaanAPI.createGabungan(kode, pemeriksaanData, {
+          idempotencyKey: item.idempotencyKey,
+        });
+
+        if (!response.data) {
+          throw new Error(response.error || 'Failed to create pemeriksaan');
+        }
+
+        // Ganti row temporary dengan row dari server (ID dan klasifikasi final)
+        const serverPemeriksaan = this.toPemeriksaanDB(response.data, new Date());
+
+        if (localId !== undefined) {
+          await idRemapRepository.remapPemeriksaan(localId, serverPemeriksaan);
+        } else {
+          await pemeriksaanRepository.bulkUpsert([serverPemeriksaan]);
+        }
+
+        console.log(`[SyncManager] Pemeriksaan created for lansia: ${kode}`);
+        break;
+      }
 
-      const response = await pemeriksaanAPI.createGabungan(kode, pemeriksaanData);
+      case 'UPDATE': {
+        const { kode, id, baseUpdatedAt, ...changes } = item.data as PemeriksaanUpdatePayload;
+        const response = await pemeriksaanAPI.update(kode, id, changes, {
+          idempotencyKey: item.idempotencyKey,
+          ifMatch: baseUpdatedAt,
+        });
 
-      if (!response.data) {
-        throw new Error(response.error || 'Failed to create pemeriksaan');
+        if (!response.data) {
+          throw new Error(response.error || 'Failed to update pemeriksaan');
+        }
+
+        await pemeriksaanRepository.applyServerVersion(
+          this.toPemeriksaanDB(response.data, new Date())
+        );
+        console.log(`[SyncManager] Pemeriksaan ${id} updated for lansia: ${kode}`);
+        break;
       }
 
-      console.log(`[SyncManager] Pemeriksaan created for lansia: ${kode}`);
+      case 'DELETE': {
+        const { kode, id } = item.data as PemeriksaanDeletePayload;
+        await this.ignoreNotFound(() =>
+          pemeriksaanAPI.delete(kode, id, { idempotencyKey: item.idempotencyKey })
+        );
+
+        console.log(`[SyncManager] Pemeriksaan ${id} deleted for lansia: ${kode}`);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Jalankan request DELETE dan anggap 404 sebagai sukses
+   * (data sudah terhapus di server, misalnya oleh perangkat lain)
+   *
+   * @private
+   */
+  private async ignoreNotFound(request: () => Promise<APIResponse<void>>): Promise<void> {
+    try {
+      const response = await request();
+
+      if (response.error) {
+        throw new Error(response.error);
+      }
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        console.log('[SyncManager] Already deleted on server, skipping');
+        return;
+      }
+      throw error;
     }
-    // TODO: Handle UPDATE and DELETE when needed
   }
 
   /**
    * Sync data terbaru dari server ke IndexedDB
    *
+   * Lansia diambil per halaman (SYNC_PAGE_SIZE, urut createdAt naik) dan
+   * disimpan setiap halaman, sehingga data besar tidak dimuat sekaligus.
+   * Halaman yang gagal menggagalkan sync (lastSyncAt tidak diperbarui),
+   * sehingga sync yang terpotong tidak dilaporkan selesai.
+   *
    * @private
+   * @throws Error jika salah satu halaman gagal diambil
    */
   private async syncFromServer(): Promise<void> {
     try {
       console.log('[SyncManager] Syncing data from server...');
 
-      // Sync lansia data
-      const lansiaResponse = await lansiaAPI.getAll();
-
-      if (lansiaResponse.data) {
-        // Convert string dates dari API response ke Date objects
-        const lansiaList = lansiaResponse.data.map((lansia) => ({
-          ...lansia,
-          tanggalLahir: new Date(lansia.tanggalLahir),
-          createdAt: new Date(lansia.createdAt),
-          syncedAt: new Date(),
-        }));
+      // Sync lansia data, halaman demi halaman
+      // Tandai waktu sinkron (tanggal sudah berupa Date dari schema response)
+      const syncedAt = new Date();
+      let cursor: string | null = null;
+      let synced = 0;
+
+      do {
+        const lansiaResponse = await lansiaAPI.list({
+          limit: SYNC_PAGE_SIZE,
+          sort: 'createdAt',
+          order: 'asc',
+          cursor,
+        });
+        if (!lansiaResponse.data) {
+          throw new Error(lansiaResponse.error || 'Failed to fetch lansia page');
+        }
 
+        const lansiaList = lansiaResponse.data.items.map((lansia) =>
+          this.toLansiaDB(lansia, syncedAt)
+        );
         await lansiaRepository.bulkUpsert(lansiaList);
-        console.log(`[SyncManager] Synced ${lansiaList.length} lansia from server`);
-      }
 
-      // TODO: Sync pemeriksaan data when API endpoint available
-      // const pemeriksaanResponse = await pemeriksaanAPI.getAll();
-      // if (pemeriksaanResponse.data) {
-      //   await pemeriksaanRepository.bulkUpsert(pemeriksaanResponse.data);
-      // }
+        synced += lansiaList.length;
+        cursor = lansiaResponse.data.nextCursor;
+      } while (cursor);
+
+      console.log(`[SyncManager] Synced ${synced} lansia from server`);
+
+      // Sync pemeriksaan data (incremental per lansia)
+      await this.syncPemeriksaanFromServer();
     } catch (error) {
       console.error('[SyncManager] Error syncing from server:', error);
       throw error;
     }
   }
 
+  /**
+   * Pull riwayat pemeriksaan dari server untuk semua lansia lokal
+   *
+   * Incremental: lansia yang riwayatnya di-pull kurang dari
+   * PEMERIKSAAN_PULL_INTERVAL_MS yang lalu akan dilewati.
+   * Kegagalan satu lansia tidak menghentikan lansia lainnya.
+   *
+   * @private
+   */
+  private async syncPemeriksaanFromServer(): Promise<void> {
+    const lansiaList = await lansiaRepository.getAll();
+    const threshold = Date.now() - PEMERIKSAAN_PULL_INTERVAL_MS;
+
+    // Hanya lansia yang sudah ada di server (syncedAt) yang punya riwayat di server
+    const dueList = lansiaList.filter(
+      (lansia) =>
+        lansia.syncedAt &&
+        (!lansia.pemeriksaanSyncedAt || lansia.pemeriksaanSyncedAt.getTime() < threshold)
+    );
+
+    if (dueList.length === 0) {
+      console.log('[SyncManager] Pemeriksaan history is up to date');
+      return;
+    }
+
+    console.log(`[SyncManager] Pulling pemeriksaan for ${dueList.length} lansia...`);
+
+    // Riwayat di luar masa simpan tidak di-pull lagi setelah di-evict
+    const since = storageManager.getEvictionCutoff();
+
+    let synced = 0;
+    for (const lansia of dueList) {
+      try {
+        await this.pullPemeriksaan(lansia, since);
+        synced++;
+      } catch (error) {
+        console.error(`[SyncManager] Failed to pull pemeriksaan for ${lansia.kode}:`, error);
+      }
+    }
+
+    console.log(`[SyncManager] Pulled pemeriksaan for ${synced}/${dueList.length} lansia`);
+  }
+
+  /**
+   * Pull satu lansia dari server ke IndexedDB berdasarkan kode
+   *
+   * Digunakan saat membuka detail pasien (stale-while-revalidate).
+   * Edit offline yang belum terkirim tidak ditimpa (lihat bulkUpsert).
+   *
+   * @param kode - Kode lansia
+   * @returns Lansia versi server
+   * @throws Error jika request gagal (termasuk NotFoundError)
+   */
+  async syncLansiaByKode(kode: string): Promise<Lansia> {
+    const response = await lansiaAPI.getByKode(kode);
+
+    if (!response.data) {
+      throw new Error(response.error || 'Failed to fetch lansia');
+    }
+
+    await lansiaRepository.bulkUpsert([this.toLansiaDB(response.data, new Date())]);
+    return response.data;
+  }
+
+  /**
+   * Pull riwayat pemeriksaan satu lansia berdasarkan kode
+   *
+   * Digunakan saat membuka detail pasien agar riwayat tersedia offline.
+   *
+   * @param kode - Kode lansia
+   */
+  async syncPemeriksaanByKode(kode: string): Promise<void> {
+    const lansia = await lansiaRepository.getByKode(kode);
+
+    if (!lansia) {
+      console.warn(`[SyncManager] Lansia ${kode} not found locally, skipping pemeriksaan pull`);
+      return;
+    }
+
+    await this.pullPemeriksaan(lansia);
+  }
+
+  /**
+   * Fetch riwayat pemeriksaan dari server dan rekonsiliasi ke IndexedDB
+   *
+   * @private
+   * @param lansia - Lansia lokal yang riwayatnya akan di-pull
+   * @param since - Batas masa simpan (kosong = seluruh riwayat, mis. saat detail dibuka)
+   */
+  private async pullPemeriksaan(lansia: LansiaDB, since?: Date): Promise<void> {
+    const response = await lansiaAPI.getPemeriksaan(lansia.kode);
+
+    if (!response.data) {
+      throw new Error(response.error || 'Failed to fetch pemeriksaan');
+    }
+
+    const syncedAt = new Date();
+    const pemeriksaanList = response.data.map((pemeriksaan) =>
+      this.toPemeriksaanDB(pemeriksaan, syncedAt)
+    );
+
+    const { upserted, removed } = await pemeriksaanRepository.reconcileByLansiaId(
+      lansia.id,
+      pemeriksaanList,
+      since
+    );
+    await lansiaRepository.update(lansia.id, { pemeriksaanSyncedAt: syncedAt });
+
+    console.log(
+      `[SyncManager] Pemeriksaan ${lansia.kode}: ${upserted} upserted, ${removed} stale removed`
+    );
+  }
+
+  /**
+   * @private
+   */
+  private setProgress(partial: Partial<SyncProgress>): void {
+    this.progress = { ...this.progress, ...partial };
+    this.progressListeners.forEach((listener) => listener(this.progress));
+    syncChannel.post({ type: 'progress', progress: this.progress });
+  }
+
+  /**
+   * @private
+   */
+  private notifyCompleted(result: SyncRunResult): void {
+    if (result.status === 'skipped') {
+      return;
+    }
+    this.completedListeners.forEach((listener) => listener(result));
+    syncChannel.post({ type: 'completed', result });
+  }
+
+  /**
+   * Terima event dari tab lain (sekali per instance, saat ada subscriber pertama)
+   *
+   * @private
+   */
+  private connectChannel(): void {
+    if (this.isChannelConnected) {
+      return;
+    }
+    this.isChannelConnected = true;
+    syncChannel.subscribe(this.handleChannelMessage);
+  }
+
+  /**
+   * @private
+   */
+  private handleChannelMessage = (message: SyncChannelMessage): void => {
+    if (message.type === 'progress') {
+      this.progress = message.progress;
+      this.progressListeners.forEach((listener) => listener(this.progress));
+    } else {
+      this.completedListeners.forEach((listener) => listener(message.result));
+    }
+  };
+
+  /**
+   * Convert lansia dari API response (tanggal sudah di-coerce oleh schema) ke format IndexedDB
+   *
+   * @private
+   */
+  private toLansiaDB(lansia: Lansia, syncedAt: Date): LansiaDB {
+    return { ...lansia, syncedAt };
+  }
+
+  /**
+   * Convert pemeriksaan dari API response (tanggal sudah di-coerce oleh schema) ke format IndexedDB
+   *
+   * Klasifikasi (kategoriBmi, tekananDarah, klasifikasiGula, dst.) disimpan
+   * apa adanya dari server karena perhitungan dilakukan di backend.
+   *
+   * @private
+   */
+  private toPemeriksaanDB(pemeriksaan: Pemeriksaan, syncedAt: Date): PemeriksaanDB {
+    return { ...pemeriksaan, syncedAt };
+  }
+
   /**
    * Check if currently syncing
    *
@@ -0,0 +1,296 @@
+/**
+ * Sync Scheduler
+ *
+ * Class untuk menjalankan SyncManager secara berkala selama aplikasi terbuka.
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle penjadwalan (kapan sync dijalankan), bukan logic sync
+ * - DIP: Depend on SyncManager abstraction
+ * - Observer: UI subscribe ke perubahan state scheduler
+ *
+ * Jadwal:
+ * - Setelah sync berhasil: SYNC_INTERVAL_MS
+ * - Setelah sync gagal: exponential backoff dengan jitter (SYNC_BACKOFF_*)
+ * - Jika ada item queue yang menunggu backoff dan jadwalnya lebih dekat,
+ *   sync dijalankan saat item tersebut jatuh tempo
+ * - Offline: timer dihentikan, sync langsung dijalankan saat kembali online
+ *
+ * Multi-tab: hanya satu tab (leader, dipilih lewat Web Lock) yang menjalankan
+ * jadwal. Tab lain berstatus 'standby' dan mengambil alih saat tab leader ditutup.
+ * syncNow tetap bisa dipanggil dari tab mana pun; SyncManager memakai lock
+ * antar tab sehingga queue tidak pernah diproses dua tab sekaligus.
+ */
+
+import { syncQueueRepository } from '@/lib/db';
+import { SYNC_INTERVAL_MS } from '@/lib/constants';
+import { syncManager, type SyncManager, type SyncRunResult } from './syncManager';
+import { getBackoffDelay } from './backoff';
+import { holdLock } from './tabLock';
+
+// ============================================
+// Types
+// ============================================
+
+export type SyncSchedulerStatus =
+  | 'stopped'
+  | 'standby'
+  | 'idle'
+  | 'syncing'
+  | 'backoff'
+  | 'offline';
+
+/**
+ * Snapshot state scheduler untuk ditampilkan di UI
+ */
+export interface SyncSchedulerState {
+  status: SyncSchedulerStatus;
+  lastSyncAt: Date | null;
+  lastError: string | null;
+  nextRunAt: Date | null;
+  consecutiveFailures: number;
+}
+
+type SyncSchedulerListener = (state: SyncSchedulerState) => void;
+
+/**
+ * Nama Web Lock untuk pemilihan tab leader
+ */
+const LEADER_LOCK_NAME = 'posyandu-sync-leader';
+
+const INITIAL_STATE: SyncSchedulerState = {
+  status: 'stopped',
+  lastSyncAt: null,
+  lastError: null,
+  nextRunAt: null,
+  consecutiveFailures: 0,
+};
+
+// ============================================
+// Sync Scheduler Class
+// ============================================
+
+export class SyncScheduler {
+  private state: SyncSchedulerState = INITIAL_STATE;
+  private listeners = new Set<SyncSchedulerListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private activeClients = 0;
+  private isLeader = false;
+  private releaseLeadership: (() => void) | null = null;
+
+  constructor(private readonly manager: SyncManager) {}
+
+  /**
+   * Mulai scheduler (reference counted)
+   *
+   * Aman dipanggil dari beberapa component sekaligus; scheduler baru
+   * berhenti setelah semua pemanggil memanggil stop().
+   * Jadwal baru berjalan setelah tab ini menjadi leader.
+   */
+  start(): void {
+    this.activeClients++;
+    if (this.activeClients > 1) {
+      return;
+    }
+
+    this.setState({ status: 'standby' });
+    this.releaseLeadership = holdLock(LEADER_LOCK_NAME, this.handleLeadership);
+  }
+
+  /**
+   * Hentikan scheduler jika tidak ada pemanggil lain yang aktif
+   */
+  stop(): void {
+    if (this.activeClients === 0) {
+      return;
+    }
+
+    this.activeClients--;
+    if (this.activeClients > 0) {
+      return;
+    }
+
+    this.releaseLeadership?.();
+    this.releaseLeadership = null;
+
+    if (this.isLeader) {
+      this.isLeader = false;
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+
+    this.clearTimer();
+    this.setState({ status: 'stopped', nextRunAt: null });
+  }
+
+  /**
+   * Jalankan sync sekarang tanpa menunggu jadwal berikutnya
+   */
+  async syncNow(): Promise<SyncRunResult> {
+    return await this.run();
+  }
+
+  /**
+   * Get snapshot state saat ini (referensi stabil sampai state berubah)
+   */
+  getState(): SyncSchedulerState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe ke perubahan state
+   *
+   * @returns Function untuk unsubscribe
+   */
+  subscribe(listener: SyncSchedulerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Jalankan satu kali sync lalu jadwalkan run berikutnya
+   *
+   * @private
+   */
+  private async run(): Promise<SyncRunResult> {
+    this.clearTimer();
+    this.setState({ status: 'syncing', nextRunAt: null });
+
+    const result = await this.manager.syncAll();
+
+    // Sync lain (misalnya dari retry dead-letter) masih berjalan; biarkan
+    // run tersebut yang memperbarui state dan jadwal
+    if (result.status === 'skipped' && this.manager.isSyncInProgress()) {
+      return result;
+    }
+
+    if (result.status === 'failed') {
+      const consecutiveFailures = this.state.consecutiveFailures + 1;
+      this.setState({
+        status: 'backoff',
+        lastError: result.error ?? null,
+        consecutiveFailures,
+      });
+      await this.scheduleNext(getBackoffDelay(consecutiveFailures));
+    } else {
+      if (result.status === 'completed') {
+        this.setState({
+          status: 'idle',
+          lastSyncAt: new Date(),
+          lastError: null,
+          consecutiveFailures: 0,
+        });
+      } else {
+        this.setState({ status: navigator.onLine ? 'idle' : 'offline' });
+      }
+      await this.scheduleNext(SYNC_INTERVAL_MS);
+    }
+
+    // Tab non-leader hanya menjalankan sync manual, tidak punya jadwal
+    if (!this.isLeader && this.activeClients > 0) {
+      this.setState({ status: 'standby' });
+    }
+
+    return result;
+  }
+
+  /**
+   * Pasang timer untuk run berikutnya
+   *
+   * Delay dipersingkat jika ada item queue yang jatuh tempo lebih dulu.
+   *
+   * @private
+   */
+  private async scheduleNext(delay: number): Promise<void> {
+    if (!this.isLeader || !navigator.onLine) {
+      return;
+    }
+
+    // Item yang sudah lewat jadwal ikut diproses di run berikutnya;
+    // hanya jadwal di masa depan yang bisa mempercepat timer
+    const earliestItem = await syncQueueRepository.getEarliestNextAttempt();
+    const untilEarliestItem = earliestItem ? earliestItem.getTime() - Date.now() : 0;
+    if (untilEarliestItem > 0) {
+      delay = Math.min(delay, untilEarliestItem);
+    }
+
+    this.clearTimer();
+    this.timer = setTimeout(() => void this.run(), delay);
+    this.setState({ nextRunAt: new Date(Date.now() + delay) });
+  }
+
+  /**
+   * @private
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Tab ini menjadi leader: pasang listener koneksi dan mulai jadwal
+   *
+   * @private
+   */
+  private handleLeadership = (): void => {
+    if (this.activeClients === 0) {
+      return;
+    }
+
+    console.log('[SyncScheduler] This tab is now the sync leader');
+    this.isLeader = true;
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+
+    if (navigator.onLine) {
+      void this.run();
+    } else {
+      this.handleOffline();
+    }
+  };
+
+  /**
+   * @private
+   */
+  private handleOnline = (): void => {
+    console.log('[SyncScheduler] Back online, triggering sync...');
+    void this.run();
+  };
+
+  /**
+   * @private
+   */
+  private handleOffline = (): void => {
+    this.clearTimer();
+    this.setState({ status: 'offline', nextRunAt: null });
+  };
+
+  /**
+   * @private
+   */
+  private setState(partial: Partial<SyncSchedulerState>): void {
+    this.state = { ...this.state, ...partial };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+/**
+ * Singleton instance of SyncScheduler
+ *
+ * Usage:
+ * ```typescript
+ * import { syncScheduler } from '@/lib/utils/syncScheduler';
+ *
+ * syncScheduler.start();
+ * const unsubscribe = syncScheduler.subscribe((state) => console.log(state.status));
+ * ```
+ *
+ * Di component React gunakan hook useSyncScheduler.
+ */
+export const syncScheduler = new SyncScheduler(syncManager);
@@ -0,0 +1,107 @@
+/**
+ * Tab Lock Utility
+ *
+ * File ini berisi fungsi untuk koordinasi antar tab browser menggunakan
+ * Web Locks API (navigator.locks). Lock berlaku untuk semua tab dengan origin
+ * yang sama dan otomatis dilepas saat tab ditutup.
+ *
+ * Jika Web Locks API tidak tersedia (browser lama), lock dianggap selalu
+ * didapat sehingga aplikasi tetap berjalan seperti satu tab.
+ *
+ * Mengikuti prinsip:
+ * - SRP: Hanya handle lock antar tab
+ * - KISS: Implementasi sederhana dan straightforward
+ */
+
+/**
+ * Cek apakah Web Locks API tersedia
+ */
+function isLockSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'locks' in navigator;
+}
+
+/**
+ * Hasil runExclusive
+ */
+export type ExclusiveResult<T> = { acquired: true; value: T } | { acquired: false };
+
+/**
+ * Jalankan callback hanya jika lock bisa didapat sekarang (tidak menunggu)
+ *
+ * @param name - Nama lock
+ * @param callback - Fungsi yang dijalankan selama lock dipegang
+ * @returns acquired false jika tab lain sedang memegang lock
+ */
+export async function runExclusive<T>(
+  name: string,
+  callback: () => Promise<T>
+): Promise<ExclusiveResult<T>> {
+  if (!isLockSupported()) {
+    return { acquired: true, value: await callback() };
+  }
+
+  return await navigator.locks.request(
+    name,
+    { ifAvailable: true },
+    async (lock): Promise<ExclusiveResult<T>> => {
+      if (!lock) {
+        return { acquired: false };
+      }
+      return { acquired: true, value: await callback() };
+    }
+  );
+}
+
+/**
+ * Jalankan callback setelah lock didapat (menunggu tab lain selesai)
+ *
+ * @param name - Nama lock
+ * @param callback - Fungsi yang dijalankan selama lock dipegang
+ * @returns Hasil callback
+ */
+export async function runWithLock<T>(name: string, callback: () => Promise<T>): Promise<T> {
+  if (!isLockSupported()) {
+    return await callback();
+  }
+
+  return await navigator.locks.request(name, callback);
+}
+
+/**
+ * Tunggu lock lalu pegang sampai dilepas (leader election)
+ *
+ * Hanya satu tab yang memegang lock; saat tab tersebut melepas lock atau
+ * ditutup, tab berikutnya yang menunggu mendapatkannya.
+ *
+ * @param name - Nama lock
+ * @param onAcquired - Dipanggil saat lock didapat
+ * @returns Function untuk melepas lock (atau membatalkan antrian lock)
+ */
+export function holdLock(name: string, onAcquired: () => void): () => void {
+  if (!isLockSupported()) {
+    onAcquired();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let release: () => void = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  navigator.locks
+    .request(name, { signal: controller.signal }, async () => {
+      onAcquired();
+      await released;
+    })
+    .catch((error: unknown) => {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error(`[TabLock] Failed to acquire lock ${name}:`, error);
+      }
+    });
+
+  return () => {
+    controller.abort();
+    release();
+  };
+}
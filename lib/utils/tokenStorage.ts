@@ -14,6 +14,11 @@
  */
 const TOKEN_KEY = 'auth_token';
 
+/**
+ * Refresh token key for localStorage
+ */
+const REFRESH_TOKEN_KEY = 'auth_refresh_token';
+
 /**
  * Get JWT token from localStorage
  *
@@ -42,6 +47,34 @@ export function removeToken(): void {
   localStorage.removeItem(TOKEN_KEY);
 }
 
+/**
+ * Get refresh token from localStorage
+ *
+ * @returns Refresh token string or null if not found
+ */
+export function getRefreshToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+/**
+ * Set refresh token to localStorage
+ *
+ * @param token - Refresh token string
+ */
+export function setRefreshToken(token: string): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(REFRESH_TOKEN_KEY, token);
+}
+
+/**
+ * Remove refresh token from localStorage
+ */
+export function removeRefreshToken(): void {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
 /**
  * Check if token exists in localStorage
  *
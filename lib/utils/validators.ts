@@ -231,6 +231,13 @@ export const pemeriksaanKesehatanSchema = z.object({
   kolesterol: kolesterolSchema,
 });
 
+/**
+ * Schema untuk koreksi pemeriksaan (semua field opsional, hanya yang diubah dikirim)
+ */
+export const pemeriksaanKoreksiSchema = pemeriksaanFisikSchema
+  .partial()
+  .extend(pemeriksaanKesehatanSchema.shape);
+
 /**
  * Schema untuk form tambah petugas
  */
@@ -2,7 +2,7 @@
  * Next.js Middleware untuk Route Protection
  *
  * Middleware ini melakukan:
- * - Authentication check untuk protected routes
+ * - Authentication check untuk protected routes (signature JWT diverifikasi)
  * - Role-based access control
  * - Redirect ke halaman yang sesuai
  *
@@ -13,23 +13,14 @@
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { jwtDecode } from 'jwt-decode';
-import { isPublicRoute, isStaticAsset, hasAccess, getDashboardUrl } from '@/lib/utils/routeGuards';
-
-// ============================================
-// Types
-// ============================================
-
-type UserRole = 'ADMIN' | 'PETUGAS';
-
-interface JWTPayload {
-  id: number;
-  email: string;
-  nama: string;
-  role: UserRole;
-  iat: number;
-  exp: number;
-}
+import {
+  isPublicRoute,
+  isStaticAsset,
+  hasAccess,
+  getDashboardUrl,
+  getSafeRedirectUrl,
+} from '@/lib/utils/routeGuards';
+import { verifyAuthToken, type AuthTokenPayload } from '@/lib/utils/jwtVerifier';
 
 // ============================================
 // Constants
@@ -42,30 +33,36 @@ const TOKEN_COOKIE_NAME = 'auth_token';
 // ============================================
 
 /**
- * Decode dan validate JWT token
+ * Verifikasi signature dan claim token (lihat jwtVerifier.ts)
  */
-function decodeToken(token: string): JWTPayload | null {
-  try {
-    const decoded = jwtDecode<JWTPayload>(token);
-
-    // Check if token expired
-    const now = Math.floor(Date.now() / 1000);
-    if (decoded.exp < now) {
-      return null;
-    }
-
-    return decoded;
-  } catch (error) {
-    console.error('Error decoding token:', error);
+async function verifyToken(token: string): Promise<AuthTokenPayload | null> {
+  const result = await verifyAuthToken(token);
+  if (!result.ok) {
+    console.error(`Token rejected (${result.reason}):`, result.error);
     return null;
   }
+  return result.payload;
+}
+
+/**
+ * Redirect ke login dan hapus cookie token yang ditolak
+ */
+function redirectToLogin(request: NextRequest, clearCookie: boolean): NextResponse {
+  const { pathname, search } = request.nextUrl;
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('redirect', `${pathname}${search}`);
+  const response = NextResponse.redirect(loginUrl);
+  if (clearCookie) {
+    response.cookies.delete(TOKEN_COOKIE_NAME);
+  }
+  return response;
 }
 
 // ============================================
 // Middleware
 // ============================================
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   // Allow static assets
@@ -78,35 +75,36 @@ export function middleware(request: NextRequest) {
 
   // Allow public routes
   if (isPublicRoute(pathname)) {
-    // Jika sudah login dan akses login page, redirect ke dashboard
+    // Jika sudah login dan akses login page, redirect ke tujuan awal atau dashboard
     if (pathname === '/login' && token) {
-      const decoded = decodeToken(token);
+      const decoded = await verifyToken(token);
       if (decoded) {
-        const dashboardUrl = getDashboardUrl(decoded.role);
-        return NextResponse.redirect(new URL(dashboardUrl, request.url));
+        const redirectUrl = getSafeRedirectUrl(
+          request.nextUrl.searchParams.get('redirect'),
+          decoded.role
+        );
+        return NextResponse.redirect(new URL(redirectUrl, request.url));
       }
+
+      // Token ditolak: tampilkan login dan hapus cookie
+      const response = NextResponse.next();
+      response.cookies.delete(TOKEN_COOKIE_NAME);
+      return response;
     }
     return NextResponse.next();
   }
 
   // Protected routes - require authentication
   if (!token) {
-    const loginUrl = new URL('/login', request.url);
-    loginUrl.searchParams.set('redirect', pathname);
-    return NextResponse.redirect(loginUrl);
+    return redirectToLogin(request, false);
   }
 
-  // Decode token
-  const decoded = decodeToken(token);
+  // Verifikasi signature dan claim (bukan hanya decode)
+  const decoded = await verifyToken(token);
 
   if (!decoded) {
-    // Token invalid atau expired
-    const loginUrl = new URL('/login', request.url);
-    loginUrl.searchParams.set('redirect', pathname);
-    const response = NextResponse.redirect(loginUrl);
-    // Clear invalid token
-    response.cookies.delete(TOKEN_COOKIE_NAME);
-    return response;
+    // Token palsu, expired, atau tidak bisa diverifikasi: clear cookie
+    return redirectToLogin(request, true);
   }
 
   // Check role-based access
@@ -3,20 +3,30 @@
  *
  * File ini berisi semua type definitions yang digunakan di seluruh aplikasi.
  * Mengikuti prinsip DRY dan Single Source of Truth.
+ *
+ * Type data dari backend (User, Lansia, Pemeriksaan, Petugas) diturunkan dari
+ * response schema di lib/api/schemas.ts.
  */
 
+import type { z } from 'zod';
+import type {
+  genderSchema,
+  klasifikasiGulaDarahSchema,
+  lansiaSchema,
+  minimalLansiaSchema,
+  pemeriksaanSchema,
+  petugasSchema,
+  userRoleSchema,
+  userSchema,
+} from '@/lib/api/schemas';
+
 // ============================================
 // User & Authentication Types
 // ============================================
 
-export type UserRole = 'ADMIN' | 'PETUGAS';
+export type UserRole = z.infer<typeof userRoleSchema>;
 
-export interface User {
-  id: number;
-  nama: string;
-  email: string;
-  role: UserRole;
-}
+export type User = z.infer<typeof userSchema>;
 
 export interface AuthState {
   user: User | null;
@@ -28,19 +38,9 @@ export interface AuthState {
 // Lansia Types
 // ============================================
 
-export type Gender = 'L' | 'P';
+export type Gender = z.infer<typeof genderSchema>;
 
-export interface Lansia {
-  id: number;
-  kode: string;
-  nik: string;
-  kk: string;
-  nama: string;
-  tanggalLahir: Date;
-  gender: Gender;
-  alamat: string;
-  createdAt: Date;
-}
+export type Lansia = z.infer<typeof lansiaSchema>;
 
 export interface CreateLansiaData {
   nik: string;
@@ -51,44 +51,17 @@ export interface CreateLansiaData {
   alamat: string;
 }
 
-export interface MinimalLansia {
-  id: number;
-  kode: string;
-  nama: string;
-  tanggalLahir: Date;
-  gender: Gender;
-}
+export type UpdateLansiaData = Partial<CreateLansiaData>;
+
+export type MinimalLansia = z.infer<typeof minimalLansiaSchema>;
 
 // ============================================
 // Pemeriksaan Types
 // ============================================
 
-export interface KlasifikasiGulaDarah {
-  gdp?: string;
-  gds?: string;
-  duaJpp?: string;
-}
+export type KlasifikasiGulaDarah = z.infer<typeof klasifikasiGulaDarahSchema>;
 
-export interface Pemeriksaan {
-  id: number;
-  lansiaId: number;
-  tanggal: Date;
-  tinggi?: number;
-  berat?: number;
-  bmi?: number;
-  kategoriBmi?: string;
-  sistolik?: number;
-  diastolik?: number;
-  tekananDarah?: string;
-  asamUrat?: number;
-  gulaPuasa?: number;
-  gulaSewaktu?: number;
-  gula2Jpp?: number;
-  klasifikasiGula?: KlasifikasiGulaDarah;
-  kolesterol?: number;
-  klasifikasiKolesterol?: string;
-  createdAt: Date;
-}
+export type Pemeriksaan = z.infer<typeof pemeriksaanSchema>;
 
 export interface PemeriksaanFisikData {
   tinggi: number;
@@ -117,17 +90,13 @@ export interface PemeriksaanGabunganData {
   kolesterol?: number;
 }
 
+export type UpdatePemeriksaanData = PemeriksaanGabunganData;
+
 // ============================================
 // Petugas Types
 // ============================================
 
-export interface Petugas {
-  id: number;
-  nama: string;
-  email: string;
-  aktif: boolean;
-  createdAt: Date;
-}
+export type Petugas = z.infer<typeof petugasSchema>;
 
 export interface CreatePetugasData {
   nama: string;
@@ -152,6 +121,52 @@ export interface UpdatePasswordData {
   kataSandiBaru: string;
 }
 
+// ============================================
+// Pagination Types
+// ============================================
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Parameter halaman berbasis cursor
+ * cursor kosong untuk halaman pertama, berikutnya pakai nextCursor dari Page.
+ */
+export interface PageQuery<TSort extends string = string> {
+  limit?: number;
+  cursor?: string | null;
+  sort?: TSort;
+  order?: SortOrder;
+}
+
+/**
+ * Satu halaman hasil list
+ * nextCursor null berarti tidak ada halaman berikutnya.
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  /**
+   * Jumlah seluruh data yang cocok dengan filter (semua halaman)
+   */
+  total: number;
+}
+
+export type LansiaSortField = 'nama' | 'kode' | 'tanggalLahir' | 'createdAt';
+
+export interface LansiaListQuery extends PageQuery<LansiaSortField> {
+  gender?: Gender;
+}
+
+export type PetugasSortField = 'nama' | 'email' | 'createdAt';
+
+export interface PetugasListQuery extends PageQuery<PetugasSortField> {
+  /**
+   * Cari berdasarkan nama atau email
+   */
+  q?: string;
+  aktif?: boolean;
+}
+
 // ============================================
 // API Response Types
 // ============================================
@@ -160,6 +175,10 @@ export interface APIResponse<T> {
   data?: T;
   error?: string;
   details?: unknown;
+  /**
+   * Request tidak dikirim karena offline dan disimpan di sync queue
+   */
+  queued?: boolean;
 }
 
 export interface APIError {